@@ -137,5 +137,6 @@ export type { CliProject, ProjectKeyProbe } from "./resources/cli";
 export type { LaminarAuth } from "./resources/index";
 export {
   type CacheOutcome,
+  type ReplaySpan,
   RolloutSessionsResource,
 } from "./resources/rollout-sessions";
@@ -1,6 +1,7 @@
 import {
   type Datapoint,
   type Dataset,
+  type DatasetVersion,
   type GetDatapointsResponse,
   type PushDatapointsResponse,
   type StringUUID,
@@ -140,6 +141,8 @@ export class DatasetsResource extends BaseResource {
    * @param {StringUUID} [options.id] - ID of the dataset (either name or id must be provided)
    * @param {number} [options.limit] - Maximum number of datapoints to return (default: 100)
    * @param {number} [options.offset] - Offset for pagination (default: 0)
+   * @param {number | string} [options.version] - Version number or tag to pull
+   * (default: the current datapoints)
    * @returns {Promise<GetDatapointsResponse<D, T>>}
    */
   public async pull<D, T>({
@@ -147,11 +150,13 @@ export class DatasetsResource extends BaseResource {
     id,
     limit = DEFAULT_DATASET_PULL_LIMIT,
     offset = 0,
+    version,
   }: {
     name?: string;
     id?: StringUUID;
     limit?: number;
     offset?: number;
+    version?: number | string;
   }): Promise<GetDatapointsResponse<D, T>> {
     if (!name && !id) {
       throw new Error("Either name or id must be provided");
@@ -172,6 +177,10 @@ export class DatasetsResource extends BaseResource {
       paramsObj.datasetId = id!;
     }
 
+    if (version !== undefined) {
+      paramsObj.version = version.toString();
+    }
+
     const params = new URLSearchParams(paramsObj);
 
     const response = await fetch(
@@ -188,4 +197,90 @@ export class DatasetsResource extends BaseResource {
 
     return response.json() as Promise<GetDatapointsResponse<D, T>>;
   }
+
+  /**
+   * Snapshot the current datapoints of a dataset as a new version. Versions
+   * are immutable, so evaluations pinned to one are reproducible.
+   *
+   * @param {Object} options - Version options
+   * @param {string} [options.name] - Name of the dataset (either name or id must be provided)
+   * @param {StringUUID} [options.id] - ID of the dataset (either name or id must be provided)
+   * @param {string} [options.tag] - Tag to pull the version by, e.g. "v1"
+   * @param {string} [options.description] - Description of the version
+   * @returns {Promise<DatasetVersion>} The created version
+   */
+  public async createVersion({
+    name,
+    id,
+    tag,
+    description,
+  }: {
+    name?: string;
+    id?: StringUUID;
+    tag?: string;
+    description?: string;
+  }): Promise<DatasetVersion> {
+    if (!name && !id) {
+      throw new Error("Either name or id must be provided");
+    }
+
+    if (name && id) {
+      throw new Error("Only one of name or id must be provided");
+    }
+
+    const identifier = name ? { name } : { datasetId: id! };
+    const response = await fetch(
+      this.baseHttpUrl + this.apiPrefix + "/datasets/versions",
+      {
+        method: "POST",
+        headers: this.headers(),
+        body: JSON.stringify({ ...identifier, tag, description }),
+      },
+    );
+
+    if (!response.ok) {
+      await this.handleError(response);
+    }
+
+    return response.json() as Promise<DatasetVersion>;
+  }
+
+  /**
+   * List the versions of a dataset, oldest first.
+   *
+   * @param {Object} options - List options
+   * @param {string} [options.name] - Name of the dataset (either name or id must be provided)
+   * @param {StringUUID} [options.id] - ID of the dataset (either name or id must be provided)
+   * @returns {Promise<DatasetVersion[]>} Array of versions
+   */
+  public async listVersions({
+    name,
+    id,
+  }: {
+    name?: string;
+    id?: StringUUID;
+  }): Promise<DatasetVersion[]> {
+    if (!name && !id) {
+      throw new Error("Either name or id must be provided");
+    }
+
+    if (name && id) {
+      throw new Error("Only one of name or id must be provided");
+    }
+
+    const params = new URLSearchParams(name ? { name } : { datasetId: id! });
+    const response = await fetch(
+      this.baseHttpUrl + `${this.apiPrefix}/datasets/versions?${params.toString()}`,
+      {
+        method: "GET",
+        headers: this.headers(),
+      },
+    );
+
+    if (!response.ok) {
+      await this.handleError(response);
+    }
+
+    return response.json() as Promise<DatasetVersion[]>;
+  }
 }
@@ -5,15 +5,32 @@ import {
   type StringUUID,
 } from "@lmnr-ai/types";
 
-import { initializeLogger, newUUID, slicePayload } from "../utils";
+import { initializeLogger, newUUID, NIL_UUID, slicePayload } from "../utils";
 import { BaseResource, type LaminarAuth } from ".";
+import { SqlResource } from "./sql";
 
 const logger = initializeLogger();
 const INITIAL_EVALUATION_DATAPOINT_MAX_DATA_LENGTH = 16_000_000; // 16MB
+const EVALUATION_DATAPOINTS_PAGE_SIZE = 1000;
+
+// JSON columns of the `evaluation_datapoints` SQL table are stored as strings.
+const parseJsonColumn = (value: unknown): any => {
+  if (typeof value !== "string" || value.length === 0) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+};
 
 export class EvalsResource extends BaseResource {
+  private readonly sql: SqlResource;
+
   constructor(baseHttpUrl: string, auth: LaminarAuth) {
     super(baseHttpUrl, auth);
+    this.sql = new SqlResource(baseHttpUrl, auth);
   }
 
   /**
@@ -252,6 +269,74 @@ export class EvalsResource extends BaseResource {
     return (await response.json()) as GetDatapointsResponse<D, T>;
   }
 
+  /**
+   * Get the datapoints of an existing evaluation, with their scores and
+   * executor outputs, ordered by index.
+   *
+   * @param {string} evaluationId - The evaluation ID
+   * @returns {Promise<EvaluationDatapoint<D, T, O>[]>} The evaluation datapoints
+   */
+  public async getEvaluationDatapoints<D, T, O>(
+    evaluationId: string,
+  ): Promise<EvaluationDatapoint<D, T, O>[]> {
+    const datapoints: EvaluationDatapoint<D, T, O>[] = [];
+    for (let offset = 0; ; offset += EVALUATION_DATAPOINTS_PAGE_SIZE) {
+      const rows = await this.sql.query(
+        "SELECT id, data, target, metadata, executor_output, scores, index, trace_id, " +
+        "dataset_id, dataset_datapoint_id, dataset_datapoint_created_at " +
+        "FROM evaluation_datapoints WHERE evaluation_id = {evaluationId:UUID} " +
+        "ORDER BY index LIMIT {limit:UInt64} OFFSET {offset:UInt64}",
+        { evaluationId, limit: EVALUATION_DATAPOINTS_PAGE_SIZE, offset },
+      );
+      for (const row of rows) {
+        const datapoint: EvaluationDatapoint<D, T, O> = {
+          id: row.id,
+          data: parseJsonColumn(row.data),
+          target: parseJsonColumn(row.target),
+          metadata: parseJsonColumn(row.metadata),
+          executorOutput: parseJsonColumn(row.executor_output),
+          scores: parseJsonColumn(row.scores) ?? {},
+          index: Number(row.index),
+          traceId: row.trace_id,
+        };
+        if (row.dataset_datapoint_id && row.dataset_datapoint_id !== NIL_UUID) {
+          datapoint.datasetLink = {
+            datasetId: row.dataset_id,
+            datapointId: row.dataset_datapoint_id,
+            createdAt: row.dataset_datapoint_created_at,
+          };
+        }
+        datapoints.push(datapoint);
+      }
+      if (rows.length < EVALUATION_DATAPOINTS_PAGE_SIZE) {
+        return datapoints;
+      }
+    }
+  }
+
+  /**
+   * Get the ID of the most recent evaluation in a group.
+   *
+   * @param {string} groupName - Group name of the evaluation
+   * @param {string} [excludeEvaluationId] - Evaluation to skip, e.g. the
+   * current one when looking for a baseline
+   * @returns {Promise<StringUUID | null>} The evaluation ID, or null if the
+   * group has no (other) evaluations
+   */
+  public async getLatestEvaluationId(
+    groupName: string,
+    excludeEvaluationId?: string,
+  ): Promise<StringUUID | null> {
+    const rows = await this.sql.query(
+      "SELECT evaluation_id, max(created_at) AS last_created_at " +
+      "FROM evaluation_datapoints WHERE group_id = {groupName:String} " +
+      "AND evaluation_id != {excludeEvaluationId:UUID} " +
+      "GROUP BY evaluation_id ORDER BY last_created_at DESC LIMIT 1",
+      { groupName, excludeEvaluationId: excludeEvaluationId ?? NIL_UUID },
+    );
+    return rows.length > 0 ? (rows[0].evaluation_id as StringUUID) : null;
+  }
+
   private async retrySaveDatapoints<D, T, O>({
     evalId,
     datapoints,
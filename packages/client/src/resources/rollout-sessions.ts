@@ -8,6 +8,7 @@ import {
 
 import { initializeLogger } from "../utils";
 import { BaseResource, type LaminarAuth } from "./index";
+import { SqlResource } from "./sql";
 
 const logger = initializeLogger();
 
@@ -51,9 +52,24 @@ const toCachedSpan = (response: unknown): CachedSpan => {
   return { name: "", input: "", output, attributes };
 };
 
+/**
+ * An LLM or tool span of a replayed trace — a call a debug replay run can be
+ * served from. `input` is the span input column as stored (a JSON string).
+ */
+export interface ReplaySpan {
+  spanId: string;
+  name: string;
+  path: string;
+  spanType: string;
+  input: string;
+}
+
 export class RolloutSessionsResource extends BaseResource {
+  private readonly sql: SqlResource;
+
   constructor(baseHttpUrl: string, auth: LaminarAuth) {
     super(baseHttpUrl, auth);
+    this.sql = new SqlResource(baseHttpUrl, auth);
   }
 
   /**
@@ -300,6 +316,31 @@ export class RolloutSessionsResource extends BaseResource {
     }
   }
 
+  /**
+   * List the LLM and tool spans of a replayed trace in start order, with their
+   * inputs. The debug runtime diffs a cache MISS against these to find the
+   * cached call the run diverged from.
+   */
+  public async listReplaySpans({
+    replayTraceId,
+  }: {
+    replayTraceId: string;
+  }): Promise<ReplaySpan[]> {
+    const rows = await this.sql.query(
+      "SELECT span_id, name, path, span_type, input FROM spans " +
+      "WHERE trace_id = {replayTraceId:UUID} " +
+      "AND span_type IN ('LLM', 'TOOL', 'CACHED') ORDER BY start_time",
+      { replayTraceId },
+    );
+    return rows.map((row) => ({
+      spanId: String(row.span_id),
+      name: String(row.name),
+      path: String(row.path ?? ""),
+      spanType: String(row.span_type),
+      input: typeof row.input === "string" ? row.input : JSON.stringify(row.input ?? null),
+    }));
+  }
+
   public async delete({ sessionId }: { sessionId: string }): Promise<void> {
     const response = await fetch(
       `${this.baseHttpUrl}${this.apiPrefix}/rollouts/${sessionId}`,
@@ -0,0 +1,72 @@
+import * as assert from 'node:assert';
+import { describe, it, mock } from 'node:test';
+
+import { DatasetsResource } from '../src/resources/datasets';
+
+const auth = { type: 'apiKey' as const, key: 'test-api-key' };
+
+void describe('Datasets Resource Version Tests', () => {
+  void it('should create a version with a tag', async () => {
+    const version = {
+      id: '00000000-0000-0000-0000-000000000002',
+      datasetId: '00000000-0000-0000-0000-000000000001',
+      version: 3,
+      tag: 'v3',
+      datapointCount: 10,
+      createdAt: '2026-01-01T00:00:00Z',
+    };
+    const mockFetch = mock.fn(() => ({ ok: true, json: () => version }));
+    global.fetch = mockFetch as any;
+
+    const datasets = new DatasetsResource('https://api.test.com:443', auth);
+    const result = await datasets.createVersion({ name: 'qa', tag: 'v3' });
+
+    assert.deepStrictEqual(result, version);
+    const [url, options] = mockFetch.mock.calls[0].arguments as any[];
+    assert.strictEqual(url, 'https://api.test.com:443/v1/datasets/versions');
+    assert.strictEqual((options as RequestInit).method, 'POST');
+    assert.deepStrictEqual(
+      JSON.parse((options as RequestInit).body as string),
+      { name: 'qa', tag: 'v3' },
+    );
+  });
+
+  void it('should list versions by dataset id', async () => {
+    const mockFetch = mock.fn(() => ({ ok: true, json: () => [] }));
+    global.fetch = mockFetch as any;
+
+    const datasets = new DatasetsResource('https://api.test.com:443', auth);
+    await datasets.listVersions({ id: '00000000-0000-0000-0000-000000000001' });
+
+    const [url] = mockFetch.mock.calls[0].arguments as any[];
+    assert.strictEqual(
+      url,
+      'https://api.test.com:443/v1/datasets/versions?datasetId=00000000-0000-0000-0000-000000000001',
+    );
+  });
+
+  void it('should pull a version', async () => {
+    const mockFetch = mock.fn(() => ({
+      ok: true,
+      json: () => ({ items: [], totalCount: 0, anyInProject: true }),
+    }));
+    global.fetch = mockFetch as any;
+
+    const datasets = new DatasetsResource('https://api.test.com:443', auth);
+    await datasets.pull({ name: 'qa', version: 2 });
+
+    const [url] = mockFetch.mock.calls[0].arguments as any[];
+    const params = new URL(url as string).searchParams;
+    assert.strictEqual(params.get('name'), 'qa');
+    assert.strictEqual(params.get('version'), '2');
+  });
+
+  void it('should require a single identifier', async () => {
+    const datasets = new DatasetsResource('https://api.test.com:443', auth);
+    await assert.rejects(() => datasets.listVersions({}), /Either name or id/);
+    await assert.rejects(
+      () => datasets.createVersion({ name: 'qa', id: '00000000-0000-0000-0000-000000000001' }),
+      /Only one of name or id/,
+    );
+  });
+});
@@ -700,4 +700,99 @@ void describe("EvalsResource Client Methods", () => {
       updateDatapointScope.done();
     });
   });
+
+  void describe("getEvaluationDatapoints", () => {
+    void it("queries evaluation datapoints and parses JSON columns", async () => {
+      const evalId = "12345678-1234-1234-1234-123456789abc";
+      let body: RequestBody = {};
+
+      const scope = nock(baseUrl)
+        .post("/v1/sql/query", (requestBody: RequestBody): boolean => {
+          body = requestBody;
+          return true;
+        })
+        .reply(200, {
+          data: [
+            {
+              id: MOCK_DATAPOINT_ID,
+              data: '{"question":"q"}',
+              target: '"a"',
+              metadata: "{}",
+              executor_output: '"a"',
+              scores: '{"accuracy":1}',
+              index: "0",
+              trace_id: "00000000-0000-0000-0000-000000000001",
+              dataset_id: "00000000-0000-0000-0000-000000000000",
+              dataset_datapoint_id: "00000000-0000-0000-0000-000000000000",
+              dataset_datapoint_created_at: "1970-01-01 00:00:00.000",
+            },
+            {
+              id: "12345678-1234-4321-0000-123456789abd",
+              data: '{"question":"q2"}',
+              target: "",
+              metadata: "{}",
+              executor_output: "",
+              scores: '{"accuracy":null}',
+              index: "1",
+              trace_id: "00000000-0000-0000-0000-000000000002",
+              dataset_id: "00000000-0000-0000-0000-0000000000d1",
+              dataset_datapoint_id: "00000000-0000-0000-0000-0000000000d2",
+              dataset_datapoint_created_at: "2025-01-01 00:00:00.000",
+            },
+          ],
+        });
+
+      const datapoints = await client.evals.getEvaluationDatapoints(evalId);
+      scope.done();
+
+      assert.strictEqual(body.parameters.evaluationId, evalId);
+      assert.strictEqual(datapoints.length, 2);
+      assert.deepStrictEqual(datapoints[0].data, { question: "q" });
+      assert.strictEqual(datapoints[0].target, "a");
+      assert.deepStrictEqual(datapoints[0].scores, { accuracy: 1 });
+      assert.strictEqual(datapoints[0].index, 0);
+      assert.strictEqual(datapoints[0].datasetLink, undefined);
+      assert.strictEqual(datapoints[1].target, undefined);
+      assert.deepStrictEqual(datapoints[1].scores, { accuracy: null });
+      assert.deepStrictEqual(datapoints[1].datasetLink, {
+        datasetId: "00000000-0000-0000-0000-0000000000d1",
+        datapointId: "00000000-0000-0000-0000-0000000000d2",
+        createdAt: "2025-01-01 00:00:00.000",
+      });
+    });
+  });
+
+  void describe("getLatestEvaluationId", () => {
+    void it("returns the latest other evaluation in the group", async () => {
+      const currentId = "12345678-1234-1234-1234-123456789abc";
+      let body: RequestBody = {};
+
+      const scope = nock(baseUrl)
+        .post("/v1/sql/query", (requestBody: RequestBody): boolean => {
+          body = requestBody;
+          return true;
+        })
+        .reply(200, { data: [{ evaluation_id: MOCK_DATAPOINT_ID }] });
+
+      const id = await client.evals.getLatestEvaluationId("my-group", currentId);
+      scope.done();
+
+      assert.strictEqual(id, MOCK_DATAPOINT_ID);
+      assert.deepStrictEqual(body.parameters, {
+        groupName: "my-group",
+        excludeEvaluationId: currentId,
+      });
+    });
+
+    void it("returns null for an empty group", async () => {
+      const scope = nock(baseUrl)
+        .post("/v1/sql/query")
+        .reply(200, { data: [] });
+
+      const id = await client.evals.getLatestEvaluationId("my-group");
+      scope.done();
+
+      assert.strictEqual(id, null);
+    });
+  });
 });
@@ -226,4 +226,39 @@ void describe("RolloutSessions Resource Tests", () => {
 
     assert.deepStrictEqual(result, blocks);
   });
+
+  void it("listReplaySpans queries the LLM and tool spans of the replayed trace", async () => {
+    const mockFetch = mock.fn(() => ({
+      ok: true,
+      json: () => Promise.resolve({
+        data: [{
+          span_id: "span-1",
+          name: "openai.chat",
+          path: "agent.openai.chat",
+          span_type: "LLM",
+          input: "[{\"role\":\"user\",\"content\":\"hi\"}]",
+        }],
+      }),
+    }));
+    global.fetch = mockFetch as any;
+
+    const resource = new RolloutSessionsResource(
+      "https://api.test.com:443",
+      { type: "apiKey", key: "test-api-key" },
+    );
+    const spans = await resource.listReplaySpans({ replayTraceId: "trace-1" });
+
+    assert.deepStrictEqual(spans, [{
+      spanId: "span-1",
+      name: "openai.chat",
+      path: "agent.openai.chat",
+      spanType: "LLM",
+      input: "[{\"role\":\"user\",\"content\":\"hi\"}]",
+    }]);
+    const call = mockFetch.mock.calls[0];
+    assert.strictEqual((call.arguments as any)[0], "https://api.test.com:443/v1/sql/query");
+    const body = JSON.parse(((call.arguments as any)[1] as RequestInit).body as string);
+    assert.ok(body.query.includes("trace_id = {replayTraceId:UUID}"));
+    assert.deepStrictEqual(body.parameters, { replayTraceId: "trace-1" });
+  });
 });
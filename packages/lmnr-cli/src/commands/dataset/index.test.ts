@@ -24,7 +24,9 @@ vi.mock('../../utils/file', () => ({
 // Import after mocks are set up
 import { loadFromPaths, printToConsole, writeToFile } from '../../utils/file';
 import {
+  diffDatapoints,
   handleDatasetsCreate,
+  handleDatasetsDiff,
   handleDatasetsList,
   handleDatasetsPull,
   handleDatasetsPush,
@@ -272,3 +274,56 @@ describe('handleDatasetsCreate', () => {
     ).rejects.toThrow('pull failed');
   });
 });
+
+describe('diffDatapoints', () => {
+  it('matches datapoints by id and ignores key order', () => {
+    const from = [
+      { id: 'a', data: { q: 1, r: 2 } },
+      { id: 'b', data: { q: 2 } },
+      { id: 'c', data: { q: 3 }, target: 'x' },
+    ] as any[];
+    const to = [
+      { id: 'a', data: { r: 2, q: 1 } },
+      { id: 'c', data: { q: 3 }, target: 'y' },
+      { id: 'd', data: { q: 4 } },
+    ] as any[];
+
+    const diff = diffDatapoints(from, to);
+
+    expect(diff.added.map((datapoint) => datapoint.id)).toEqual(['d']);
+    expect(diff.removed.map((datapoint) => datapoint.id)).toEqual(['b']);
+    expect(diff.changed).toEqual([{ id: 'c', from: from[2], to: to[1] }]);
+  });
+});
+
+describe('handleDatasetsDiff', () => {
+  it('pulls both versions and outputs JSON in json mode', async () => {
+    mockPull.mockImplementation(({ version }: { version?: string }) => Promise.resolve({
+      items: version === 'v1' ? [{ id: 'a', data: 1 }] : [{ id: 'b', data: 2 }],
+      totalCount: 1,
+    }));
+
+    await handleDatasetsDiff(stubClient, 'qa', { ...baseOpts, from: 'v1', to: 'v2', json: true });
+
+    expect(mockPull).toHaveBeenCalledWith(expect.objectContaining({ name: 'qa', version: 'v1' }));
+    expect(mockPull).toHaveBeenCalledWith(expect.objectContaining({ name: 'qa', version: 'v2' }));
+    const output = JSON.parse(logSpy.mock.calls[0][0] as string);
+    expect(output.added).toEqual([{ id: 'b', data: 2 }]);
+    expect(output.removed).toEqual([{ id: 'a', data: 1 }]);
+    expect(output.changed).toEqual([]);
+  });
+
+  it('prints a table and summary in human mode', async () => {
+    mockPull.mockImplementation(({ version }: { version?: string }) => Promise.resolve({
+      items: [{ id: 'a', data: version === 'v1' ? 'old' : 'new' }],
+      totalCount: 1,
+    }));
+
+    await handleDatasetsDiff(stubClient, 'qa', { ...baseOpts, from: 'v1' });
+
+    const output = logSpy.mock.calls.map((c: unknown[]) => c[0]).join('\n');
+    expect(output).toContain('changed');
+    expect(output).toContain('"new"');
+    expect(output).toContain('v1 → current: 0 added, 0 removed, 1 changed');
+  });
+});
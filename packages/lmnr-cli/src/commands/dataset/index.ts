@@ -35,6 +35,7 @@ const pullAllData = async <D = any, T = any>(
   batchSize: number = DEFAULT_DATASET_PULL_BATCH_SIZE,
   offset: number = 0,
   limit?: number,
+  version?: string,
 ): Promise<Datapoint<D, T>[]> => {
   let hasMore = true;
   let currentOffset = offset;
@@ -47,6 +48,7 @@ const pullAllData = async <D = any, T = any>(
       ...identifier,
       offset: currentOffset,
       limit: batchSize,
+      version,
     });
 
     result.push(...data.items);
@@ -231,3 +233,89 @@ export const handleDatasetsCreate = async (
     );
   }
 };
+
+// JSON with sorted object keys, so that key order doesn't count as a change
+const stableStringify = (value: unknown): string => JSON.stringify(value, (_key, val: unknown) =>
+  val && typeof val === 'object' && !Array.isArray(val)
+    ? Object.fromEntries(Object.entries(val).sort(([a], [b]) => a.localeCompare(b)))
+    : val);
+
+const datapointContent = (datapoint: Datapoint) => stableStringify({
+  data: datapoint.data,
+  target: datapoint.target ?? null,
+  metadata: datapoint.metadata ?? {},
+});
+
+export interface DatasetDiff {
+  added: Datapoint[];
+  removed: Datapoint[];
+  changed: { id: StringUUID; from: Datapoint; to: Datapoint }[];
+}
+
+/**
+ * Compare two versions of a dataset. Datapoints are matched by id, and a
+ * matched datapoint is changed if its data, target or metadata differ.
+ */
+export const diffDatapoints = (from: Datapoint[], to: Datapoint[]): DatasetDiff => {
+  const fromById = new Map(from.map((datapoint) => [datapoint.id, datapoint]));
+  const toIds = new Set(to.map((datapoint) => datapoint.id));
+  const diff: DatasetDiff = { added: [], removed: [], changed: [] };
+  for (const datapoint of to) {
+    const previous = datapoint.id !== undefined ? fromById.get(datapoint.id) : undefined;
+    if (!previous) {
+      diff.added.push(datapoint);
+    } else if (datapointContent(previous) !== datapointContent(datapoint)) {
+      diff.changed.push({ id: datapoint.id!, from: previous, to: datapoint });
+    }
+  }
+  diff.removed = from.filter((datapoint) => !toIds.has(datapoint.id));
+  return diff;
+};
+
+const DIFF_PREVIEW_LENGTH = 60;
+
+const preview = (datapoint: Datapoint): string => {
+  const text = JSON.stringify(datapoint.data) ?? '';
+  return text.length > DIFF_PREVIEW_LENGTH
+    ? text.slice(0, DIFF_PREVIEW_LENGTH - 1) + '\u2026'
+    : text;
+};
+
+/**
+ * Handle datasets diff command.
+ */
+export const handleDatasetsDiff = async (
+  client: LaminarClient,
+  name: string,
+  opts: GlobalOpts & {
+    from: string;
+    to?: string;
+    batchSize?: number;
+  },
+): Promise<void> => {
+  const batchSize = opts.batchSize ?? DEFAULT_DATASET_PULL_BATCH_SIZE;
+  const from = await pullAllData(client, { name }, batchSize, 0, undefined, opts.from);
+  const to = await pullAllData(client, { name }, batchSize, 0, undefined, opts.to);
+  const diff = diffDatapoints(from, to);
+  const toLabel = opts.to ?? 'current';
+
+  if (opts.json) {
+    outputJson({ name, from: opts.from, to: toLabel, ...diff });
+    return;
+  }
+
+  const rows = [
+    ...diff.added.map((datapoint) => ['added', datapoint.id ?? '', preview(datapoint)]),
+    ...diff.removed.map((datapoint) => ['removed', datapoint.id ?? '', preview(datapoint)]),
+    ...diff.changed.map(({ id, to: datapoint }) => ['changed', id, preview(datapoint)]),
+  ];
+  if (rows.length === 0) {
+    console.log(`No differences between ${opts.from} and ${toLabel}.`);
+    return;
+  }
+  console.log(renderTable(['Change', 'ID', 'Data'], rows));
+  console.log(
+    `\n${opts.from} → ${toLabel}: ${diff.added.length} added, `
+    + `${diff.removed.length} removed, ${diff.changed.length} changed\n`,
+  );
+};
@@ -0,0 +1,144 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  applyKey,
+  buildSpanTree,
+  relaunchEnv,
+  renderScreen,
+  type TuiSpan,
+  type TuiState,
+  visibleNodes,
+} from './tui';
+
+const span = (spanId: string, parentSpanId: string | null, name: string, spanType = 'DEFAULT') =>
+  ({ spanId, parentSpanId, name, spanType, input: '[]', output: '""' }) satisfies TuiSpan;
+
+const SPANS = [
+  span('root', null, 'agent'),
+  span('llm-1', 'root', 'openai.chat', 'LLM'),
+  span('tool-1', 'root', 'search', 'TOOL'),
+  span('llm-2', 'tool-1', 'openai.chat', 'LLM'),
+];
+
+const state = (overrides: Partial<TuiState> = {}): TuiState => ({
+  sessionId: 'session-1',
+  traceIds: ['trace-1', 'trace-2'],
+  traceIndex: 1,
+  roots: buildSpanTree(SPANS),
+  collapsed: new Set(),
+  cursor: 0,
+  detail: false,
+  detailScroll: 0,
+  pick: null,
+  message: null,
+  ...overrides,
+});
+
+const names = (s: TuiState) =>
+  visibleNodes(s.roots ?? [], s.collapsed).map(({ span: { spanId } }) => spanId);
+
+describe('buildSpanTree', () => {
+  it('nests spans under their parents and keeps orphans as roots', () => {
+    const roots = buildSpanTree([...SPANS, span('upstream-child', 'elsewhere', 'handler')]);
+
+    expect(roots.map((root) => root.span.spanId)).toEqual(['root', 'upstream-child']);
+    expect(visibleNodes(roots, new Set()).map(({ span: { spanId }, depth }) => [spanId, depth]))
+      .toEqual([['root', 0], ['llm-1', 1], ['tool-1', 1], ['llm-2', 2], ['upstream-child', 0]]);
+  });
+});
+
+describe('applyKey', () => {
+  it('moves, collapses and expands the tree', () => {
+    let [s] = applyKey(state(), { name: 'down' });
+    [s] = applyKey(s, { name: 'down' });
+    expect(s.cursor).toBe(2);
+
+    [s] = applyKey(s, { name: 'left' });
+    expect(names(s)).toEqual(['root', 'llm-1', 'tool-1']);
+    [s] = applyKey(s, { name: 'left' });
+    expect(s.cursor).toBe(0);
+    [s] = applyKey(s, { name: 'up' });
+    expect(s.cursor).toBe(0);
+
+    [s] = applyKey({ ...s, cursor: 2 }, { name: 'right' });
+    expect(names(s)).toEqual(['root', 'llm-1', 'tool-1', 'llm-2']);
+  });
+
+  it('picks the selected span as cache_until and relaunches only after a pick', () => {
+    let [s, effect] = applyKey(state(), { name: 'r' });
+    expect(effect).toBeNull();
+    expect(s.message).toContain('with c first');
+
+    [s, effect] = applyKey({ ...s, cursor: 1 }, { name: 'c' });
+    expect(effect).toBe('pick');
+    expect(s.pick).toEqual({ traceId: 'trace-2', spanId: 'llm-1', name: 'openai.chat' });
+
+    [, effect] = applyKey(s, { name: 'r' });
+    expect(effect).toBe('relaunch');
+    expect(relaunchEnv(s.sessionId, s.pick!)).toEqual({
+      LMNR_DEBUG: '1',
+      LMNR_DEBUG_SESSION_ID: 'session-1',
+      LMNR_DEBUG_REPLAY_TRACE_ID: 'trace-2',
+      LMNR_DEBUG_CACHE_UNTIL: 'llm-1',
+    });
+  });
+
+  it('switches traces within the session', () => {
+    let [s, effect] = applyKey(state(), { sequence: ']' });
+    expect(effect).toBeNull();
+
+    [s, effect] = applyKey(s, { sequence: '[' });
+    expect(effect).toBe('load-trace');
+    expect(s.traceIndex).toBe(0);
+    expect(s.roots).toBeNull();
+  });
+
+  it('opens the span details and quits', () => {
+    const [s] = applyKey(state({ cursor: 1 }), { name: 'return' });
+    expect(s.detail).toBe(true);
+    expect(applyKey(s, { name: 'escape' })[0].detail).toBe(false);
+    expect(applyKey(s, { name: 'q' })[1]).toBe('quit');
+    expect(applyKey(state(), { name: 'c', ctrl: true })[1]).toBe('quit');
+  });
+});
+
+describe('renderScreen', () => {
+  it('fills the screen with the tree, the pick and the key help', () => {
+    const lines = renderScreen(
+      state({ pick: { traceId: 'trace-2', spanId: 'llm-2', name: 'openai.chat' } }),
+      { width: 80, height: 12 },
+    );
+
+    expect(lines).toHaveLength(12);
+    expect(lines[0]).toContain('trace 2/2  trace-2');
+    expect(lines[1]).toContain('cache_until: openai.chat (llm-2)');
+    expect(lines.slice(3, 7)).toEqual([
+      expect.stringContaining('▾ agent  DEFAULT') as string,
+      '    openai.chat  LLM',
+      '  ▾ search  TOOL',
+      '      openai.chat  LLM  ◆ cache_until',
+    ]);
+    expect(lines[11]).toContain('r relaunch');
+  });
+
+  it('shows the input and output of the selected span', () => {
+    const roots = buildSpanTree([
+      { ...span('llm-1', null, 'openai.chat', 'LLM'), input: '[{"role":"user","content":"hi"}]' },
+    ]);
+    const lines = renderScreen(state({ roots, detail: true }), { width: 40, height: 20 });
+
+    expect(lines.slice(3, 14)).toEqual([
+      'openai.chat (LLM)  llm-1',
+      '',
+      'Input',
+      '  [',
+      '    {',
+      '      "role": "user",',
+      '      "content": "hi"',
+      '    }',
+      '  ]',
+      '',
+      'Output',
+    ]);
+  });
+});
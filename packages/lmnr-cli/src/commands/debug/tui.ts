@@ -0,0 +1,506 @@
+import { emitKeypressEvents } from "node:readline";
+
+import { LaminarClient } from "@lmnr-ai/client";
+import spawn from "cross-spawn";
+
+import type { GlobalOpts } from "../../auth/with-client";
+import { pcOut } from "../../utils/colors";
+import {
+  readDebugSessionFile,
+  resolveDebugSessionDir,
+  resolveSessionId,
+  writeDebugSessionFile,
+} from "../../utils/debug-session-file";
+
+const NIL_UUID = "00000000-0000-0000-0000-000000000000";
+
+const SPANS_QUERY =
+  "SELECT span_id, parent_span_id, name, span_type, input, output " +
+  "FROM spans WHERE trace_id = {traceId:UUID} ORDER BY start_time";
+
+/** One span of a trace, as the TUI shows it. */
+export interface TuiSpan {
+  spanId: string;
+  parentSpanId: string | null;
+  name: string;
+  spanType: string;
+  input: string;
+  output: string;
+}
+
+/** A span with its children, in start order. */
+export interface SpanNode {
+  span: TuiSpan;
+  depth: number;
+  children: SpanNode[];
+}
+
+/** The span picked as the new `cache_until`, in the trace to replay. */
+export interface CachePick {
+  traceId: string;
+  spanId: string;
+  name: string;
+}
+
+export interface TuiState {
+  sessionId: string;
+  /** The session's traces, oldest first. */
+  traceIds: string[];
+  traceIndex: number;
+  /** The span tree of the current trace, null while it loads. */
+  roots: SpanNode[] | null;
+  collapsed: Set<string>;
+  cursor: number;
+  /** True while the selected span's input and output are shown. */
+  detail: boolean;
+  detailScroll: number;
+  pick: CachePick | null;
+  message: string | null;
+}
+
+/**
+ * What the terminal loop has to do after a key: load the current trace's
+ * spans, save the picked span to the session file, or leave the TUI.
+ */
+export type TuiEffect = "load-trace" | "pick" | "relaunch" | "quit";
+
+/** A key press, as emitted by `readline`'s `keypress` events. */
+export interface TuiKey {
+  name?: string;
+  sequence?: string;
+  ctrl?: boolean;
+}
+
+/** Options accepted by `debug tui` (extends the shared globals). */
+export interface DebugTuiOpts extends GlobalOpts {
+  /** Set by `--session-id`; omitted → the debug-session.json `session_id`. */
+  sessionId?: string;
+}
+
+/**
+ * Arrange a trace's spans as a tree. A span whose parent is not in the trace
+ * (the root, or a span of a propagated upstream trace) is a root.
+ */
+export const buildSpanTree = (spans: TuiSpan[]): SpanNode[] => {
+  const nodes = new Map<string, SpanNode>(
+    spans.map((span) => [span.spanId, { span, depth: 0, children: [] }]),
+  );
+  const roots: SpanNode[] = [];
+  for (const node of nodes.values()) {
+    const parent = node.span.parentSpanId ? nodes.get(node.span.parentSpanId) : undefined;
+    if (parent && parent !== node) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  }
+  const setDepth = (node: SpanNode, depth: number) => {
+    node.depth = depth;
+    node.children.forEach((child) => setDepth(child, depth + 1));
+  };
+  roots.forEach((root) => setDepth(root, 0));
+  return roots;
+};
+
+/** The spans shown in the tree: every span whose ancestors are expanded. */
+export const visibleNodes = (roots: SpanNode[], collapsed: Set<string>): SpanNode[] => {
+  const out: SpanNode[] = [];
+  const visit = (node: SpanNode) => {
+    out.push(node);
+    if (!collapsed.has(node.span.spanId)) {
+      node.children.forEach(visit);
+    }
+  };
+  roots.forEach(visit);
+  return out;
+};
+
+/** The environment that relaunches the run, replaying the trace up to the pick. */
+export const relaunchEnv = (sessionId: string, pick: CachePick): Record<string, string> => ({
+  LMNR_DEBUG: "1",
+  LMNR_DEBUG_SESSION_ID: sessionId,
+  LMNR_DEBUG_REPLAY_TRACE_ID: pick.traceId,
+  LMNR_DEBUG_CACHE_UNTIL: pick.spanId,
+});
+
+const selectedNode = (state: TuiState): SpanNode | undefined =>
+  state.roots ? visibleNodes(state.roots, state.collapsed)[state.cursor] : undefined;
+
+const switchTrace = (state: TuiState, traceIndex: number): [TuiState, TuiEffect | null] => {
+  if (traceIndex < 0 || traceIndex >= state.traceIds.length) {
+    return [state, null];
+  }
+  return [
+    { ...state, traceIndex, roots: null, collapsed: new Set(), cursor: 0, detail: false },
+    "load-trace",
+  ];
+};
+
+/**
+ * Apply a key press to the state. Pure: returns the next state and the effect
+ * the terminal loop runs, if any.
+ */
+export const applyKey = (state: TuiState, key: TuiKey): [TuiState, TuiEffect | null] => {
+  const next = { ...state, message: null };
+  if ((key.ctrl && key.name === "c") || key.name === "q") {
+    return [next, "quit"];
+  }
+
+  if (state.detail) {
+    switch (key.name) {
+      case "up":
+      case "k":
+        return [{ ...next, detailScroll: Math.max(0, state.detailScroll - 1) }, null];
+      case "down":
+      case "j":
+        return [{ ...next, detailScroll: state.detailScroll + 1 }, null];
+      case "return":
+      case "escape":
+      case "left":
+      case "h":
+        return [{ ...next, detail: false }, null];
+      default:
+        return [next, null];
+    }
+  }
+
+  const nodes = state.roots ? visibleNodes(state.roots, state.collapsed) : [];
+  const node = nodes[state.cursor];
+  switch (key.sequence === "[" || key.sequence === "]" ? key.sequence : key.name) {
+    case "up":
+    case "k":
+      return [{ ...next, cursor: Math.max(0, state.cursor - 1) }, null];
+    case "down":
+    case "j":
+      return [
+        { ...next, cursor: Math.max(0, Math.min(nodes.length - 1, state.cursor + 1)) },
+        null,
+      ];
+    case "left":
+    case "h": {
+      if (!node) {
+        return [next, null];
+      }
+      if (node.children.length > 0 && !state.collapsed.has(node.span.spanId)) {
+        return [{ ...next, collapsed: new Set([...state.collapsed, node.span.spanId]) }, null];
+      }
+      // Already collapsed, or a leaf: go to the parent
+      const parent = nodes.findIndex(({ span }) => span.spanId === node.span.parentSpanId);
+      return [{ ...next, cursor: parent >= 0 ? parent : state.cursor }, null];
+    }
+    case "right":
+    case "l": {
+      if (!node) {
+        return [next, null];
+      }
+      const collapsed = new Set(state.collapsed);
+      collapsed.delete(node.span.spanId);
+      return [{ ...next, collapsed }, null];
+    }
+    case "return":
+      return node ? [{ ...next, detail: true, detailScroll: 0 }, null] : [next, null];
+    case "[":
+      return switchTrace(next, state.traceIndex - 1);
+    case "]":
+      return switchTrace(next, state.traceIndex + 1);
+    case "c": {
+      if (!node) {
+        return [next, null];
+      }
+      const pick = {
+        traceId: state.traceIds[state.traceIndex],
+        spanId: node.span.spanId,
+        name: node.span.name,
+      };
+      return [{ ...next, pick, message: `cache_until set to ${pick.name}` }, "pick"];
+    }
+    case "r":
+      if (!state.pick) {
+        return [{ ...next, message: "Pick the span to replay up to with c first" }, null];
+      }
+      return [next, "relaunch"];
+    default:
+      return [next, null];
+  }
+};
+
+// Pretty-print a JSON span column, or keep it as is when it isn't JSON
+const prettyColumn = (value: string): string[] => {
+  try {
+    return JSON.stringify(JSON.parse(value), null, 2).split("\n");
+  } catch {
+    return value.split("\n");
+  }
+};
+
+const wrap = (line: string, width: number): string[] => {
+  if (line.length <= width) {
+    return [line];
+  }
+  const out: string[] = [];
+  for (let i = 0; i < line.length; i += width) {
+    out.push(line.slice(i, i + width));
+  }
+  return out;
+};
+
+const fit = (line: string, width: number): string =>
+  line.length > width ? `${line.slice(0, Math.max(0, width - 1))}…` : line;
+
+const KEY_HELP = "↑↓ move  ←→ fold  enter details  [ ] trace  c cache until  r relaunch  q quit";
+const DETAIL_KEY_HELP = "↑↓ scroll  enter/esc back  q quit";
+
+/** Render the whole screen, one string per terminal row. */
+export const renderScreen = (
+  state: TuiState,
+  size: { width: number; height: number },
+): string[] => {
+  const { width, height } = size;
+  const traceId = state.traceIds[state.traceIndex] ?? "";
+  const header = [
+    fit(
+      `Debug session ${state.sessionId}  trace ${state.traceIndex + 1}/${state.traceIds.length}`
+      + `  ${traceId}`,
+      width,
+    ),
+    fit(
+      state.pick
+        ? `cache_until: ${state.pick.name} (${state.pick.spanId}) in trace ${state.pick.traceId}`
+        : "cache_until: none — press c on a span to replay up to it",
+      width,
+    ),
+    "─".repeat(width),
+  ];
+  const footer = [
+    fit(state.message ?? "", width),
+    fit(state.detail ? DETAIL_KEY_HELP : KEY_HELP, width),
+  ];
+  const bodyHeight = Math.max(1, height - header.length - footer.length);
+
+  let body: string[];
+  const node = selectedNode(state);
+  if (state.roots === null) {
+    body = ["Loading spans…"];
+  } else if (state.detail && node) {
+    const lines = [
+      `${node.span.name} (${node.span.spanType})  ${node.span.spanId}`,
+      "",
+      "Input",
+      ...prettyColumn(node.span.input).map((line) => `  ${line}`),
+      "",
+      "Output",
+      ...prettyColumn(node.span.output).map((line) => `  ${line}`),
+    ].flatMap((line) => wrap(line, width));
+    const scroll = Math.min(state.detailScroll, Math.max(0, lines.length - bodyHeight));
+    body = lines.slice(scroll, scroll + bodyHeight);
+  } else {
+    const nodes = visibleNodes(state.roots, state.collapsed);
+    if (nodes.length === 0) {
+      body = ["This trace has no spans yet."];
+    } else {
+      // Keep the cursor in the middle of the view once the tree scrolls
+      const top = Math.max(
+        0,
+        Math.min(state.cursor - Math.floor(bodyHeight / 2), nodes.length - bodyHeight),
+      );
+      body = nodes.slice(top, top + bodyHeight).map((shown, index) => {
+        const { span, depth, children } = shown;
+        const fold = children.length === 0 ? " " : state.collapsed.has(span.spanId) ? "▸" : "▾";
+        const picked = state.pick?.spanId === span.spanId ? "  ◆ cache_until" : "";
+        const line = fit(
+          `${"  ".repeat(depth)}${fold} ${span.name}  ${span.spanType}${picked}`,
+          width,
+        );
+        return top + index === state.cursor ? pcOut.inverse(line) : line;
+      });
+    }
+  }
+
+  return [
+    ...header,
+    ...body,
+    ...new Array<string>(bodyHeight - body.length).fill(""),
+    ...footer,
+  ];
+};
+
+const fetchSpans = async (client: LaminarClient, traceId: string): Promise<TuiSpan[]> => {
+  const rows = await client.sql.query(SPANS_QUERY, { traceId });
+  return rows.map((row) => ({
+    spanId: String(row.span_id),
+    parentSpanId: row.parent_span_id && row.parent_span_id !== NIL_UUID
+      ? String(row.parent_span_id)
+      : null,
+    name: String(row.name),
+    spanType: String(row.span_type),
+    input: typeof row.input === "string" ? row.input : JSON.stringify(row.input ?? null),
+    output: typeof row.output === "string" ? row.output : JSON.stringify(row.output ?? null),
+  }));
+};
+
+/**
+ * Run the TUI until the user quits or relaunches. Owns the terminal while it
+ * runs: raw-mode input and the alternate screen, both restored on the way out.
+ */
+const runTerminal = (
+  initial: TuiState,
+  effects: { loadTrace: (traceId: string) => Promise<TuiSpan[]>; pick: (pick: CachePick) => void },
+): Promise<TuiState & { exit: "quit" | "relaunch" }> =>
+  new Promise((resolve) => {
+    let state = initial;
+    const { stdin, stdout } = process;
+    const draw = () => {
+      const lines = renderScreen(state, {
+        width: stdout.columns ?? 80,
+        height: stdout.rows ?? 24,
+      });
+      stdout.write(lines.map((line, row) => `\x1b[${row + 1};1H${line}\x1b[K`).join(""));
+    };
+    const load = () => {
+      const traceIndex = state.traceIndex;
+      effects.loadTrace(state.traceIds[traceIndex])
+        .then((spans) => {
+          if (state.traceIndex === traceIndex) {
+            state = { ...state, roots: buildSpanTree(spans) };
+          }
+        })
+        .catch((e: unknown) => {
+          if (state.traceIndex === traceIndex) {
+            state = { ...state, roots: [], message: `Failed to load spans: ${String(e)}` };
+          }
+        })
+        .finally(draw);
+    };
+    const onKeypress = (_: string, key: TuiKey | undefined) => {
+      const [next, effect] = applyKey(state, key ?? {});
+      state = next;
+      if (effect === "quit" || effect === "relaunch") {
+        stdin.off("keypress", onKeypress);
+        stdin.setRawMode(false);
+        stdin.pause();
+        stdout.write("\x1b[?25h\x1b[?1049l");
+        resolve({ ...state, exit: effect });
+        return;
+      }
+      if (effect === "pick" && state.pick) {
+        effects.pick(state.pick);
+      }
+      if (effect === "load-trace") {
+        load();
+      }
+      draw();
+    };
+
+    emitKeypressEvents(stdin);
+    stdin.setRawMode(true);
+    stdin.resume();
+    stdin.on("keypress", onKeypress);
+    stdout.write("\x1b[?1049h\x1b[?25l\x1b[2J");
+    draw();
+    if (state.roots === null && state.traceIds.length > 0) {
+      load();
+    }
+  });
+
+/**
+ * Browse a debug session's traces in the terminal: a collapsible span tree per
+ * trace, the input and output of any span, and a key to pick a span as the new
+ * `cache_until`. The pick is saved to `.lmnr/debug-session.json` right away, so
+ * a plain `LMNR_DEBUG=1 <run>` replays up to it; with a `command` after `--`,
+ * `r` relaunches it with the matching `LMNR_DEBUG_*` env.
+ *
+ * Traces come from the session's `trace` blocks (plus the last run's trace in
+ * the session file, which may not be ingested yet), spans from a SQL query.
+ *
+ * Pure handler: the command wrapper (`withProjectClient`) resolves a user-token
+ * {@link LaminarClient} (routes to `/v1/cli/*` with the resolved project) and
+ * owns the error envelope.
+ */
+export const handleDebugTui = async (
+  client: LaminarClient,
+  command: string[],
+  opts: DebugTuiOpts,
+): Promise<void> => {
+  if (opts.json) {
+    throw new Error("`debug tui` is interactive and has no --json output.");
+  }
+  if (!process.stdin.isTTY || !process.stdout.isTTY) {
+    throw new Error(
+      "`debug tui` needs an interactive terminal. Use `debug session summary` instead.",
+    );
+  }
+  const sessionId = resolveSessionId(opts.sessionId);
+  const sessionDir = resolveDebugSessionDir();
+  const file = readDebugSessionFile(sessionDir);
+
+  const blocks = await client.rolloutSessions.listBlocks({ sessionId });
+  const traceIds = [...blocks]
+    .sort((a, b) => String(a.createdAt).localeCompare(String(b.createdAt)))
+    .filter((block) => block.type === "trace" && typeof block.content?.traceId === "string")
+    .map((block) => block.content.traceId as string);
+  if (file?.session_id === sessionId && file.trace_id && !traceIds.includes(file.trace_id)) {
+    traceIds.push(file.trace_id);
+  }
+  if (traceIds.length === 0) {
+    console.log(`No traces found for session ${sessionId}.`);
+    return;
+  }
+
+  const spansByTrace = new Map<string, Promise<TuiSpan[]>>();
+  const final = await runTerminal(
+    {
+      sessionId,
+      traceIds,
+      // The latest run is the one to step through first
+      traceIndex: traceIds.length - 1,
+      roots: null,
+      collapsed: new Set(),
+      cursor: 0,
+      detail: false,
+      detailScroll: 0,
+      pick: null,
+      message: null,
+    },
+    {
+      loadTrace: (traceId) => {
+        if (!spansByTrace.has(traceId)) {
+          const spans = fetchSpans(client, traceId);
+          // A failed load is retried the next time the trace is shown
+          spans.catch(() => spansByTrace.delete(traceId));
+          spansByTrace.set(traceId, spans);
+        }
+        return spansByTrace.get(traceId)!;
+      },
+      pick: (pick) => {
+        const current = readDebugSessionFile(sessionDir);
+        writeDebugSessionFile({
+          session_id: sessionId,
+          trace_id: current?.session_id === sessionId ? current.trace_id : null,
+          replay_trace_id: pick.traceId,
+          cache_until: pick.spanId,
+          debugger_url: current?.session_id === sessionId ? current.debugger_url : null,
+          started_at: current?.started_at ?? new Date().toISOString(),
+        }, sessionDir);
+      },
+    },
+  );
+
+  if (final.exit === "quit" || !final.pick) {
+    return;
+  }
+  const env = relaunchEnv(sessionId, final.pick);
+  if (command.length === 0) {
+    // Nothing to relaunch: print the env for the user to run their command with
+    console.log(Object.entries(env).map(([key, value]) => `${key}=${value}`).join(" "));
+    return;
+  }
+  const [cmd, ...argv] = command;
+  const code = await new Promise<number>((resolve) => {
+    const child = spawn(cmd, argv, { stdio: "inherit", env: { ...process.env, ...env } });
+    child.on("error", () => resolve(-1));
+    child.on("close", (exitCode) => resolve(exitCode ?? -1));
+  });
+  if (code !== 0) {
+    throw new Error(`\`${command.join(" ")}\` exited with code ${code}.`);
+  }
+};
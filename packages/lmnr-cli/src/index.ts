@@ -8,6 +8,7 @@ import { withLocalOpts, withProjectClient, withUserToken } from "./auth/with-cli
 import { handleAsk } from "./commands/ask";
 import {
   handleDatasetsCreate,
+  handleDatasetsDiff,
   handleDatasetsList,
   handleDatasetsPull,
   handleDatasetsPush,
@@ -19,6 +20,7 @@ import {
   handleDebugSessionSetName,
   handleDebugSessionSummary,
 } from "./commands/debug";
+import { handleDebugTui } from "./commands/debug/tui";
 import { handleLogin } from "./commands/login";
 import { handleLogout } from "./commands/logout";
 import { handlePluginAdd } from "./commands/plugin";
@@ -154,6 +156,24 @@ async function main() {
     )
     .action(withProjectClient(handleDatasetsCreate));
 
+  // Datasets diff command
+  datasetsCmd
+    .command("diff")
+    .description("Show the datapoints added, removed and changed between two dataset versions")
+    .argument("<name>", "Name of the dataset")
+    .requiredOption("--from <version>", "Version number or tag to compare from")
+    .option(
+      "--to <version>",
+      "Version number or tag to compare to. Defaults to the current datapoints",
+    )
+    .option(
+      "--batch-size <size>",
+      "Batch size for pulling data",
+      (val) => parseInt(val, 10),
+      100,
+    )
+    .action(withProjectClient(handleDatasetsDiff));
+
   const sqlCmd = program
     .command("sql")
     .description("Run SQL queries against your Laminar project data")
@@ -553,6 +573,36 @@ Examples:
 `,
     );
 
+  debugCmd
+    .command("tui")
+    .description("Browse a debug session's traces and relaunch the run from a chosen span")
+    .argument("[command...]", "The run to relaunch, given after --")
+    .option(
+      "--session-id <id>",
+      "Debug session ID. Defaults to the session in .lmnr/debug-session.json",
+    )
+    .action(withProjectClient(handleDebugTui))
+    .addHelpText(
+      "after",
+      `
+Shows the traces of the session in .lmnr/debug-session.json (or --session-id)
+as collapsible span trees, latest run first. Enter shows a span's input and
+output, [ and ] switch traces.
+
+Press c on a span to replay the trace up to it: the trace and span are saved to
+.lmnr/debug-session.json as replay_trace_id / cache_until, so the next
+\`LMNR_DEBUG=1 <run>\` serves every LLM call before it from the cache. Press r to
+leave and relaunch the command given after --, with LMNR_DEBUG,
+LMNR_DEBUG_SESSION_ID, LMNR_DEBUG_REPLAY_TRACE_ID and LMNR_DEBUG_CACHE_UNTIL
+set. Without a command, r prints those variables instead.
+
+Examples:
+  $ lmnr-cli debug tui
+  $ lmnr-cli debug tui -- npx tsx src/agent.ts
+  $ lmnr-cli debug tui --session-id <session-id> -- python agent.py
+`,
+    );
+
   program.addHelpText(
     "after",
     `
@@ -571,6 +621,7 @@ Examples:
   lmnr-cli dataset list --json                             # List all datasets
   lmnr-cli dataset push data.jsonl -n my-dataset --json    # Push data to a dataset
   lmnr-cli dataset pull output.jsonl -n my-dataset --json  # Pull data from a dataset
+  lmnr-cli dataset diff my-dataset --from v1 --to v2       # Compare two dataset versions
   lmnr-cli sql query "SELECT * FROM spans LIMIT 10" --json # Query spans
   lmnr-cli sql schema                                      # Show available tables
   lmnr-cli debug session new                               # Mint a fresh debug session
@@ -578,6 +629,7 @@ Examples:
   lmnr-cli debug session set-name "title"                  # Rename the current debug session
   lmnr-cli debug session add-note "note text"              # Add a note to the current session
   lmnr-cli debug session summary                           # All blocks in the session, oldest first
+  lmnr-cli debug tui -- npx tsx agent.ts                   # Step through traces, replay from a span
   lmnr-cli skill add                                       # Install the Laminar agent skill
   lmnr-cli skill update                                    # Update installed Laminar skills
   lmnr-cli plugin add claude-code                          # Install the Claude Code plugin
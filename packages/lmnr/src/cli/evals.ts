@@ -1,7 +1,15 @@
+import { errorMessage } from "@lmnr-ai/types";
 import * as esbuild from "esbuild";
 import * as fs from "fs";
 import * as glob from "glob";
 
+import {
+  formatGateTable,
+  type GateResult,
+  parseThreshold,
+  type ScoreThreshold,
+  toJUnitXml,
+} from "../evaluation-gates";
 import { Evaluation } from "../evaluations";
 import { getDirname, initializeLogger } from "../utils";
 
@@ -74,12 +82,54 @@ export interface EvalCommandOptions {
   externalPackages?: string[];
   dynamicImportsToSkip?: string[];
   frontendPort?: number;
+  resume?: boolean;
+  compare?: string;
+  threshold?: string[];
+  maxScoreDrop?: number;
+  reportFile?: string;
+  local?: boolean;
+  sample?: number;
+  seed?: number;
+}
+
+interface EvaluationReport {
+  name: string;
+  evaluationId: string;
+  url: string;
+  averageScores: Record<string, number>;
+  gates: GateResult[];
+  errorMessage?: string;
+}
+
+/**
+ * Write the gate results as JUnit XML if `reportFile` ends with `.xml`, and
+ * as JSON otherwise.
+ */
+function writeReport(reportFile: string, reports: EvaluationReport[], passed: boolean) {
+  if (reportFile.toLowerCase().endsWith(".xml")) {
+    fs.writeFileSync(reportFile, toJUnitXml(reports.map((report) => ({
+      name: report.name,
+      gates: report.gates,
+      errorMessage: report.errorMessage,
+    }))));
+  } else {
+    fs.writeFileSync(reportFile, JSON.stringify({ passed, evaluations: reports }, null, 2));
+  }
 }
 
 export async function runEvaluation(
   files: string[],
   options: EvalCommandOptions,
 ): Promise<void> {
+  // Parse the thresholds before running anything, so a typo is a usage error
+  let thresholds: ScoreThreshold[] = [];
+  try {
+    thresholds = (options.threshold ?? []).map(parseThreshold);
+  } catch (error) {
+    logger.error(errorMessage(error));
+    process.exit(1);
+  }
+
   let evalFiles: string[];
   if (files && files.length > 0) {
     evalFiles = files.flatMap((file: string) => glob.sync(file));
@@ -109,6 +159,14 @@ export async function runEvaluation(
     url: string,
     evaluationId: string,
   }[] = [];
+  const reports: EvaluationReport[] = [];
+  // Reports of evaluations with quality gates, from their config or the flags
+  const gatedReports = new Set<EvaluationReport>();
+  if (options.local) {
+    // Read by the Evaluation constructor, which runs when the eval file is
+    // loaded, before any of the setters below.
+    process.env.LMNR_EVAL_MODE = "local";
+  }
 
   for (const file of evalFiles) {
     logger.info(`Loading ${file}...`);
@@ -157,7 +215,7 @@ export async function runEvaluation(
 
     logger.info(`Loaded ${evaluations.length} evaluations from ${file}`);
 
-    for (const evaluation of evaluations) {
+    for (const [i, evaluation] of evaluations.entries()) {
       if (!evaluation?.run) {
         logger.error(`Evaluation ${file} does not properly call evaluate()`);
         if (options.failOnError) {
@@ -169,6 +227,22 @@ export async function runEvaluation(
       if (options.frontendPort) {
         evaluation.setFrontendPort(options.frontendPort);
       }
+      evaluation.setEvalFile(file);
+      if (options.resume) {
+        evaluation.setResume(true);
+      }
+      if (options.compare) {
+        evaluation.setCompareTo(options.compare);
+      }
+      if (thresholds.length > 0) {
+        evaluation.addThresholds(thresholds);
+      }
+      if (options.maxScoreDrop !== undefined) {
+        evaluation.setMaxScoreDrop(options.maxScoreDrop);
+      }
+      if (options.sample !== undefined) {
+        evaluation.setSample(options.sample, options.seed);
+      }
       const evalResult = await evaluation.run();
       scores.push({
         file,
@@ -176,7 +250,44 @@ export async function runEvaluation(
         url: evalResult?.url ?? '',
         evaluationId: evalResult?.evaluationId ?? '',
       });
+      const report: EvaluationReport = {
+        name: evaluations.length > 1 ? `${file}#${i}` : file,
+        evaluationId: evalResult?.evaluationId ?? '',
+        url: evalResult?.url ?? '',
+        averageScores: evalResult?.averageScores ?? {},
+        gates: evalResult?.gates ?? [],
+        errorMessage: evalResult?.errorMessage,
+      };
+      reports.push(report);
+      if (evaluation.hasGates()) {
+        gatedReports.add(report);
+      }
+    }
+  }
+
+  // An evaluation that failed to run cannot pass its gates
+  const failedReports = reports.filter((report) =>
+    report.gates.some((gate) => !gate.passed) ||
+    (report.errorMessage !== undefined && gatedReports.has(report)));
+  const passed = failedReports.length === 0;
+
+  if (options.reportFile) {
+    writeReport(options.reportFile, reports, passed);
+  }
+
+  if (!passed) {
+    process.stdout.write("\nQuality gates failed:\n");
+    for (const report of failedReports) {
+      process.stdout.write(`\n${report.name}\n`);
+      if (report.errorMessage !== undefined) {
+        process.stdout.write(`Error: ${report.errorMessage}\n`);
+      }
+      const failedGates = report.gates.filter((gate) => !gate.passed);
+      if (failedGates.length > 0) {
+        process.stdout.write(formatGateTable(failedGates));
+      }
     }
+    process.exitCode = 1;
   }
 
   if (options.outputFile) {
@@ -64,6 +64,51 @@ async function cli() {
       "Port for the Laminar frontend. Defaults to 5667",
       (val) => parseInt(val, 10),
     )
+    .option(
+      "--resume",
+      "Resume interrupted evaluations. Completed datapoints are journaled next to " +
+      "the eval file, and a rerun skips them and continues the same evaluation.",
+    )
+    .option(
+      "--compare <evaluationId|group>",
+      "Compare the results with a baseline evaluation, or with the latest other " +
+      "evaluation in a group. Prints per-score deltas with confidence intervals " +
+      "and p-values, and the regressed and improved datapoints.",
+    )
+    .option(
+      "--threshold <expression>",
+      "Assert on an average score, e.g. `--threshold accuracy>=0.85`. Can be " +
+      "repeated. Exits with a non-zero code if any threshold is not met.",
+      (val: string, previous: string[]) => [...previous, val],
+      [],
+    )
+    .option(
+      "--max-score-drop <fraction>",
+      "Largest allowed relative drop of any average score compared to the " +
+      "`--compare` baseline, e.g. 0.02 for 2%. Exits with a non-zero code if exceeded.",
+      (val) => parseFloat(val),
+    )
+    .option(
+      "--report-file <file>",
+      "Write the quality gate results to a file. JUnit XML if the file ends " +
+      "with .xml, JSON otherwise.",
+    )
+    .option(
+      "--local",
+      "Run without the Laminar backend. No project API key is needed, and the " +
+      "results and traces are written to a JSONL file and an HTML report in .lmnr/evals.",
+    )
+    .option(
+      "--sample <n>",
+      "Run on a random sample of the data: a number of datapoints, or a fraction " +
+      "between 0 and 1, e.g. 0.1 for a 10% smoke run. The sample is the same on every run.",
+      (val) => parseFloat(val),
+    )
+    .option(
+      "--seed <seed>",
+      "Seed of the `--sample` selection",
+      (val) => parseInt(val, 10),
+    )
     .action(async (files: string[], options) => {
       await runEvaluation(files, options);
     });
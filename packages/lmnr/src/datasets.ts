@@ -2,9 +2,19 @@ import { LaminarClient } from '@lmnr-ai/client';
 import { type StringUUID } from '@lmnr-ai/types';
 
 import { Datapoint } from './evaluations';
+import { seededRandom } from './utils';
 
 const DEFAULT_FETCH_SIZE = 25;
 
+export type DatapointPredicate<D, T> = (
+  datapoint: Datapoint<D, T>,
+  index: number,
+) => boolean | Promise<boolean>;
+
+// Views that pick a random subset use this seed unless told otherwise, so
+// that reruns of the same evaluation run on the same datapoints.
+const DEFAULT_SEED = 42;
+
 export abstract class EvaluationDataset<D, T> {
   public async slice(start: number, end: number): Promise<Datapoint<D, T>[]> {
     const result = [];
@@ -15,6 +25,221 @@ export abstract class EvaluationDataset<D, T> {
   }
   public abstract size(): Promise<number> | number;
   public abstract get(index: number): Promise<Datapoint<D, T>> | Datapoint<D, T>;
+
+  /**
+   * Datapoints for which `predicate` returns true. Reads every datapoint of
+   * this dataset the first time the view is accessed.
+   */
+  public filter(predicate: DatapointPredicate<D, T>): EvaluationDataset<D, T> {
+    return new DatasetView(this, async () => {
+      const indices = [];
+      const size = await this.size();
+      for (let i = 0; i < size; i++) {
+        if (await predicate(await this.get(i), i)) {
+          indices.push(i);
+        }
+      }
+      return indices;
+    });
+  }
+
+  /**
+   * The first `n` datapoints.
+   */
+  public take(n: number): EvaluationDataset<D, T> {
+    return new DatasetView(this, async () =>
+      range(0, Math.min(Math.max(n, 0), await this.size())));
+  }
+
+  /**
+   * All datapoints but the first `n`.
+   */
+  public skip(n: number): EvaluationDataset<D, T> {
+    return new DatasetView(this, async () => range(Math.max(n, 0), await this.size()));
+  }
+
+  /**
+   * A seeded random permutation of the datapoints.
+   */
+  public shuffle(seed: number = DEFAULT_SEED): EvaluationDataset<D, T> {
+    return new DatasetView(this, async () =>
+      shuffled(range(0, await this.size()), seededRandom(seed)));
+  }
+
+  /**
+   * A seeded random subset of `n` datapoints, in their original order.
+   *
+   * @param n Number of datapoints or, if between 0 and 1, the fraction of
+   * datapoints to keep, rounded up.
+   * @param options.seed Seed of the selection. Defaults to a fixed seed.
+   */
+  public sample(n: number, options?: { seed?: number }): EvaluationDataset<D, T> {
+    return new DatasetView(this, async () => {
+      const size = await this.size();
+      const random = seededRandom(options?.seed ?? DEFAULT_SEED);
+      return shuffled(range(0, size), random)
+        .slice(0, sampleSize(n, size))
+        .sort((a, b) => a - b);
+    });
+  }
+
+  /**
+   * A seeded random subset of `n` datapoints that keeps the proportions of
+   * the values of `metadata[key]`. Every value gets its share of `n`, rounded
+   * so that the shares add up to `n`. Datapoints without the key form their
+   * own stratum. Reads every datapoint of this dataset the first time the
+   * view is accessed.
+   *
+   * @param key Metadata key to stratify by.
+   * @param n Number of datapoints or, if between 0 and 1, the fraction of
+   * datapoints to keep, rounded up.
+   * @param options.seed Seed of the selection. Defaults to a fixed seed.
+   */
+  public stratify(
+    key: string,
+    n: number,
+    options?: { seed?: number },
+  ): EvaluationDataset<D, T> {
+    return new DatasetView(this, async () => {
+      const strata = new Map<string, number[]>();
+      const size = await this.size();
+      for (let i = 0; i < size; i++) {
+        const value: unknown = (await this.get(i)).metadata?.[key];
+        const stratum = value === undefined ? '' : JSON.stringify(value);
+        strata.set(stratum, [...(strata.get(stratum) ?? []), i]);
+      }
+
+      // Largest remainder allocation of the sample size over the strata
+      const total = sampleSize(n, size);
+      const shares = [...strata.values()].map((indices) => {
+        const exact = total * indices.length / size;
+        return { indices, count: Math.floor(exact), remainder: exact - Math.floor(exact) };
+      });
+      let left = total - shares.reduce((sum, share) => sum + share.count, 0);
+      for (const share of [...shares].sort((a, b) => b.remainder - a.remainder)) {
+        if (left <= 0) break;
+        share.count++;
+        left--;
+      }
+
+      const random = seededRandom(options?.seed ?? DEFAULT_SEED);
+      return shares
+        .flatMap(({ indices, count }) => shuffled(indices, random).slice(0, count))
+        .sort((a, b) => a - b);
+    });
+  }
+
+  /**
+   * This dataset followed by `others`.
+   */
+  public concat(...others: EvaluationDataset<D, T>[]): EvaluationDataset<D, T> {
+    return new ConcatDataset([this, ...others]);
+  }
+}
+
+const range = (start: number, end: number): number[] =>
+  Array.from({ length: Math.max(end - start, 0) }, (_, i) => start + i);
+
+// Fisher-Yates shuffle of a copy of `items`
+const shuffled = <V>(items: V[], random: () => number): V[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+const sampleSize = (n: number, size: number): number => {
+  if (n > 0 && n < 1) {
+    return Math.ceil(n * size);
+  }
+  return Math.min(Math.max(Math.floor(n), 0), size);
+};
+
+/**
+ * Dataset over an array of datapoints, so that local data can be filtered
+ * and sampled the same way as a {@link LaminarDataset}.
+ */
+export class ArrayDataset<D, T> extends EvaluationDataset<D, T> {
+  private readonly datapoints: Datapoint<D, T>[];
+
+  constructor(datapoints: Datapoint<D, T>[]) {
+    super();
+    this.datapoints = datapoints;
+  }
+
+  public size(): number {
+    return this.datapoints.length;
+  }
+
+  public get(index: number): Datapoint<D, T> {
+    return this.datapoints[index];
+  }
+}
+
+/**
+ * Datapoints of `source` at a list of indices. The indices are resolved once,
+ * on first access, so building a view does not fetch anything.
+ */
+class DatasetView<D, T> extends EvaluationDataset<D, T> {
+  public readonly source: EvaluationDataset<D, T>;
+  private readonly resolveIndices: () => Promise<number[]>;
+  private indices: Promise<number[]> | null = null;
+
+  constructor(source: EvaluationDataset<D, T>, resolveIndices: () => Promise<number[]>) {
+    super();
+    this.source = source;
+    this.resolveIndices = resolveIndices;
+  }
+
+  private getIndices(): Promise<number[]> {
+    if (this.indices === null) {
+      this.indices = this.resolveIndices();
+    }
+    return this.indices;
+  }
+
+  public async size(): Promise<number> {
+    return (await this.getIndices()).length;
+  }
+
+  public async get(index: number): Promise<Datapoint<D, T>> {
+    const indices = await this.getIndices();
+    if (index < 0 || index >= indices.length) {
+      throw new RangeError(`Index ${index} is out of range of a dataset of ${indices.length}`);
+    }
+    return this.source.get(indices[index]);
+  }
+}
+
+class ConcatDataset<D, T> extends EvaluationDataset<D, T> {
+  public readonly sources: EvaluationDataset<D, T>[];
+
+  constructor(sources: EvaluationDataset<D, T>[]) {
+    super();
+    this.sources = sources;
+  }
+
+  public async size(): Promise<number> {
+    let size = 0;
+    for (const source of this.sources) {
+      size += await source.size();
+    }
+    return size;
+  }
+
+  public async get(index: number): Promise<Datapoint<D, T>> {
+    let offset = index;
+    for (const source of this.sources) {
+      const size = await source.size();
+      if (offset < size) {
+        return source.get(offset);
+      }
+      offset -= size;
+    }
+    throw new RangeError(`Index ${index} is out of range of a dataset of ${index - offset}`);
+  }
 }
 
 export class LaminarDataset<D, T> extends EvaluationDataset<D, T> {
@@ -26,8 +251,20 @@ export class LaminarDataset<D, T> extends EvaluationDataset<D, T> {
 
   public name: string | undefined;
   public id?: StringUUID;
+  public readonly version?: number | string;
 
-  constructor(name?: string, options?: { id?: StringUUID; fetchSize?: number }) {
+  /**
+   * @param name Name of the dataset (either name or `options.id` must be provided)
+   * @param options.id ID of the dataset
+   * @param options.fetchSize Number of datapoints fetched at a time
+   * @param options.version Version number or tag to pin the dataset to, so
+   * that reruns evaluate the same datapoints. Defaults to the current
+   * datapoints.
+   */
+  constructor(
+    name?: string,
+    options?: { id?: StringUUID; fetchSize?: number; version?: number | string },
+  ) {
     super();
     if (!name && !options?.id) {
       throw new Error('Either name or id must be provided');
@@ -38,6 +275,7 @@ export class LaminarDataset<D, T> extends EvaluationDataset<D, T> {
     this.name = name;
     this.id = options?.id;
     this.fetchSize = options?.fetchSize || DEFAULT_FETCH_SIZE;
+    this.version = options?.version;
   }
 
   public setClient(client: LaminarClient) {
@@ -53,6 +291,7 @@ export class LaminarDataset<D, T> extends EvaluationDataset<D, T> {
       ...identifier,
       offset: this.offset,
       limit: this.fetchSize,
+      version: this.version,
     });
     this.fetchedItems = this.fetchedItems.concat(resp.items);
     this.offset = this.fetchedItems.length;
@@ -69,10 +308,16 @@ export class LaminarDataset<D, T> extends EvaluationDataset<D, T> {
   }
 
   public async get(index: number): Promise<Datapoint<D, T>> {
-    if (index >= this.fetchedItems.length) {
+    // Views can read ahead of the fetched items, so fetch as many batches as
+    // it takes to reach the index.
+    while (index >= this.fetchedItems.length) {
+      const fetched = this.fetchedItems.length;
+      if (this.len !== null && fetched >= this.len) break;
       await this.fetchBatch();
+      if (this.fetchedItems.length === fetched) break;
     }
-    return this.fetchedItems[index];
+    const datapoint = this.fetchedItems[index];
+    return datapoint && this.id ? { ...datapoint, datasetId: this.id } : datapoint;
   }
 
   /**
@@ -106,3 +351,21 @@ export class LaminarDataset<D, T> extends EvaluationDataset<D, T> {
     console.log(`Successfully pushed ${data.length} datapoints to dataset`);
   }
 }
+
+/**
+ * The Laminar datasets a dataset or view reads its datapoints from.
+ */
+export const getLaminarDatasets = (
+  dataset: EvaluationDataset<any, any>,
+): LaminarDataset<any, any>[] => {
+  if (dataset instanceof LaminarDataset) {
+    return [dataset];
+  }
+  if (dataset instanceof DatasetView) {
+    return getLaminarDatasets(dataset.source);
+  }
+  if (dataset instanceof ConcatDataset) {
+    return dataset.sources.flatMap(getLaminarDatasets);
+  }
+  return [];
+};
@@ -0,0 +1,233 @@
+/**
+ * Offline record/replay cassettes for LLM calls.
+ *
+ * A local alternative to the server-side replay cache: with `LMNR_CASSETTE`
+ * set, the provider wrappers that consult the replay cache (the AI SDK wrapper
+ * and `debug/providers`) read and write a JSONL file instead, keyed by the same
+ * `debugInputHash` of each call's input messages. No Laminar backend or
+ * `LMNR_DEBUG*` setup is involved, so tests of agents can run without network
+ * access or API keys.
+ *
+ *  - `record` — run every call live and write it to a fresh cassette.
+ *  - `replay` — serve every call from the cassette; a call that was not
+ *               recorded throws a {@link CassetteMismatchError}.
+ *  - `auto`   — replay recorded calls, run and append the others.
+ */
+
+import { appendFileSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { dirname, resolve } from "node:path";
+
+import { type CachedSpan } from "@lmnr-ai/types";
+
+import { initializeLogger } from "../utils";
+import { diffLines, prettyLines } from "./diff";
+
+const logger = initializeLogger();
+
+export type CassetteMode = "record" | "replay" | "auto";
+
+const CASSETTE_MODES: CassetteMode[] = ["record", "replay", "auto"];
+
+export const DEFAULT_CASSETTE_PATH = ".lmnr/cassette.jsonl";
+
+/** One recorded LLM call, a line of the cassette file. */
+export interface CassetteEntry {
+  input_hash: string;
+  /** The hashed input messages, kept to explain a mismatch. */
+  messages: unknown[];
+  /** Replayed like the `output` of a server cache HIT. */
+  output?: string;
+  attributes?: Record<string, any>;
+  /** The raw HTTP response of a provider API call, replayed as is. */
+  response?: { status: number; content_type: string | null; body: string };
+}
+
+/**
+ * Thrown in `replay` mode by an LLM call whose input was not recorded. The
+ * message shows how the input differs from the call the cassette expected
+ * next.
+ */
+export class CassetteMismatchError extends Error {
+  constructor(
+    public readonly inputHash: string,
+    public readonly path: string,
+    public readonly diff: string,
+  ) {
+    super(
+      `No recording in cassette ${path} matches this LLM call (input hash ${inputHash}). `
+      + `Re-record it with LMNR_CASSETTE=record or auto.\n${diff}`,
+    );
+    this.name = "CassetteMismatchError";
+  }
+}
+
+export class Cassette {
+  public readonly path: string;
+  private readonly entries: CassetteEntry[] = [];
+  private readonly byHash = new Map<string, CassetteEntry[]>();
+  private readonly served = new Map<string, number>();
+  // Recordings replayed at least once
+  private readonly consumed = new Set<CassetteEntry>();
+  private readonly pending = new Set<Promise<void>>();
+  private truncated = false;
+
+  constructor(public readonly mode: CassetteMode, path: string) {
+    this.path = resolve(path);
+    if (mode !== "record") {
+      this.load();
+    }
+  }
+
+  private load(): void {
+    let raw: string;
+    try {
+      raw = readFileSync(this.path, "utf-8");
+    } catch {
+      if (this.mode === "replay") {
+        logger.warn(`Cassette ${this.path} not found, every LLM call will mismatch`);
+      }
+      return;
+    }
+    raw.split("\n").forEach((line, index) => {
+      if (line.trim() === "") {
+        return;
+      }
+      try {
+        const entry = JSON.parse(line) as CassetteEntry;
+        if (typeof entry.input_hash !== "string") {
+          throw new Error("no input_hash");
+        }
+        this.entries.push(entry);
+        this.byHash.set(entry.input_hash, [...this.byHash.get(entry.input_hash) ?? [], entry]);
+      } catch (e) {
+        logger.warn(`Skipping invalid line ${index + 1} of cassette ${this.path}: ${String(e)}`);
+      }
+    });
+  }
+
+  /**
+   * The recorded call to replay for an input, or null when it should run
+   * live and be recorded. Calls with the same input are served the recordings
+   * in order, and the last one once they run out.
+   *
+   * @throws {CassetteMismatchError} in `replay` mode, when the input was not recorded.
+   */
+  next(inputHash: string, messages: unknown[]): CassetteEntry | null {
+    if (this.mode === "record") {
+      return null;
+    }
+    const recorded = this.byHash.get(inputHash);
+    if (!recorded) {
+      if (this.mode === "replay") {
+        throw new CassetteMismatchError(inputHash, this.path, this.describeMismatch(messages));
+      }
+      return null;
+    }
+    const index = this.served.get(inputHash) ?? 0;
+    this.served.set(inputHash, index + 1);
+    const entry = recorded[Math.min(index, recorded.length - 1)];
+    this.consumed.add(entry);
+    return entry;
+  }
+
+  private describeMismatch(messages: unknown[]): string {
+    // The first recording not replayed yet is the call this one most likely
+    // was meant to be
+    const expected = this.entries.find((entry) => !this.consumed.has(entry))
+      ?? this.entries[this.entries.length - 1];
+    if (!expected) {
+      return "The cassette has no recordings.";
+    }
+    return `Diff against the next recorded call (- recorded, + actual):\n${
+      diffLines(prettyLines(expected.messages), prettyLines(messages))
+    }`;
+  }
+
+  /** Append a call to the cassette file. `record` mode starts a new file. */
+  record(entry: CassetteEntry): void {
+    try {
+      mkdirSync(dirname(this.path), { recursive: true });
+      const line = `${JSON.stringify(entry)}\n`;
+      if (this.mode === "record" && !this.truncated) {
+        writeFileSync(this.path, line, "utf-8");
+        this.truncated = true;
+      } else {
+        appendFileSync(this.path, line, "utf-8");
+      }
+      this.byHash.set(entry.input_hash, [...this.byHash.get(entry.input_hash) ?? [], entry]);
+    } catch (e) {
+      logger.warn(`Failed to write to cassette ${this.path}: ${String(e)}`);
+    }
+  }
+
+  /**
+   * Record a call once its response is read, e.g. from a cloned HTTP response.
+   * {@link flush} waits for it.
+   */
+  recordWhenReady(entry: Promise<CassetteEntry | null>): void {
+    const pending = entry
+      .then((resolved) => {
+        if (resolved !== null) {
+          this.record(resolved);
+        }
+      })
+      .catch((e) => {
+        logger.warn(`Failed to record LLM call to cassette: ${String(e)}`);
+      })
+      .finally(() => {
+        this.pending.delete(pending);
+      });
+    this.pending.add(pending);
+  }
+
+  /** Wait until every call started so far is written to the file. */
+  async flush(): Promise<void> {
+    await Promise.all([...this.pending]);
+  }
+}
+
+/** The cached span a cassette entry replays as, like a server cache HIT. */
+export const entryToCachedSpan = (entry: CassetteEntry): CachedSpan => ({
+  name: "",
+  input: "",
+  output: entry.output ?? "null",
+  attributes: entry.attributes ?? {},
+});
+
+let cassette: Cassette | null = null;
+let loaded = false;
+
+/**
+ * The cassette set with `LMNR_CASSETTE` and `LMNR_CASSETTE_PATH` (default
+ * `.lmnr/cassette.jsonl`), or null when cassettes are off. Read once.
+ */
+export const getCassette = (): Cassette | null => {
+  if (loaded) {
+    return cassette;
+  }
+  loaded = true;
+  const mode = process.env.LMNR_CASSETTE?.trim().toLowerCase();
+  if (!mode) {
+    return null;
+  }
+  if (!CASSETTE_MODES.includes(mode as CassetteMode)) {
+    logger.warn(
+      `Ignoring LMNR_CASSETTE=${mode}, expected one of ${CASSETTE_MODES.join(", ")}`,
+    );
+    return null;
+  }
+  cassette = new Cassette(
+    mode as CassetteMode,
+    process.env.LMNR_CASSETTE_PATH || DEFAULT_CASSETTE_PATH,
+  );
+  return cassette;
+};
+
+/**
+ * Forget the cassette so the next `getCassette` re-reads the environment.
+ * Called by `Laminar.shutdown()` and by tests.
+ */
+export const resetCassette = (): void => {
+  cassette = null;
+  loaded = false;
+};
@@ -0,0 +1,145 @@
+/**
+ * Diffs of LLM call inputs, shown when a call has no recording to replay: a
+ * cassette mismatch, or a replay run diverging from the cache.
+ */
+
+import { canonicalJson } from "./hash";
+
+const DIFF_CONTEXT = 3;
+
+/**
+ * A value pretty-printed with sorted keys, so a diff only shows real
+ * differences.
+ */
+export const prettyLines = (value: unknown): string[] =>
+  JSON.stringify(JSON.parse(canonicalJson(value)), null, 2).split("\n");
+
+type Edit<T> = { sign: " " | "-" | "+"; item: T };
+
+// Longest common subsequence of `expected` and `actual`, as a list of edits
+const diff = <T>(expected: T[], actual: T[], key: (item: T) => string): Edit<T>[] => {
+  const expectedKeys = expected.map(key);
+  const actualKeys = actual.map(key);
+  const common: number[][] = Array.from(
+    { length: expected.length + 1 },
+    () => new Array<number>(actual.length + 1).fill(0),
+  );
+  for (let i = expected.length - 1; i >= 0; i--) {
+    for (let j = actual.length - 1; j >= 0; j--) {
+      common[i][j] = expectedKeys[i] === actualKeys[j]
+        ? common[i + 1][j + 1] + 1
+        : Math.max(common[i + 1][j], common[i][j + 1]);
+    }
+  }
+
+  const edits: Edit<T>[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < expected.length || j < actual.length) {
+    if (i < expected.length && j < actual.length && expectedKeys[i] === actualKeys[j]) {
+      edits.push({ sign: " ", item: expected[i++] });
+      j++;
+    } else if (
+      j < actual.length
+      && (i === expected.length || common[i][j + 1] >= common[i + 1][j])
+    ) {
+      edits.push({ sign: "+", item: actual[j++] });
+    } else {
+      edits.push({ sign: "-", item: expected[i++] });
+    }
+  }
+  return edits;
+};
+
+/**
+ * A line diff of `expected` and `actual` (longest common subsequence), with
+ * `-` for expected-only and `+` for actual-only lines and a few lines of
+ * context around each change. Empty when they are the same.
+ */
+export const diffLines = (expected: string[], actual: string[]): string => {
+  const lines = diff(expected, actual, (line) => line);
+  if (lines.every(({ sign }) => sign === " ")) {
+    return "";
+  }
+  const shown = lines.map((_, index) => lines
+    .slice(Math.max(0, index - DIFF_CONTEXT), index + DIFF_CONTEXT + 1)
+    .some(({ sign }) => sign !== " "));
+  const out: string[] = [];
+  lines.forEach(({ sign, item }, index) => {
+    if (shown[index]) {
+      out.push(`${sign} ${item}`);
+    } else if (index === 0 || shown[index - 1]) {
+      out.push("  ...");
+    }
+  });
+  return out.join("\n");
+};
+
+/**
+ * How many messages differ between `expected` and `actual`: the messages
+ * that are not part of their longest common subsequence.
+ */
+export const messageDistance = (expected: unknown[], actual: unknown[]): number =>
+  diff(expected, actual, canonicalJson).filter(({ sign }) => sign !== " ").length;
+
+const indent = (text: string): string =>
+  text.split("\n").map((line) => `  ${line}`).join("\n");
+
+/**
+ * A message-level diff of `expected` and `actual`. Runs of equal messages
+ * collapse to a count, a message replaced by another shows the line diff of
+ * the two, and messages only on one side are shown whole. Empty when they are
+ * the same.
+ */
+export const diffMessages = (expected: unknown[], actual: unknown[]): string => {
+  const edits = diff(expected, actual, canonicalJson);
+  if (edits.every(({ sign }) => sign === " ")) {
+    return "";
+  }
+
+  const out: string[] = [];
+  let unchanged = 0;
+  let index = 0;
+  let removed: unknown[] = [];
+  let added: unknown[] = [];
+  const flush = () => {
+    if (unchanged > 0) {
+      out.push(`  ... ${unchanged} unchanged message${unchanged === 1 ? "" : "s"}`);
+      unchanged = 0;
+    }
+    // Pair up replaced messages, the rest were removed or added
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      const position = index - added.length + k + 1;
+      if (k < removed.length && k < added.length) {
+        out.push(`~ message ${position}`);
+        out.push(indent(diffLines(prettyLines(removed[k]), prettyLines(added[k]))));
+      } else if (k < removed.length) {
+        out.push(`- message ${position}`);
+        out.push(indent(prettyLines(removed[k]).map((line) => `- ${line}`).join("\n")));
+      } else {
+        out.push(`+ message ${position}`);
+        out.push(indent(prettyLines(added[k]).map((line) => `+ ${line}`).join("\n")));
+      }
+    }
+    removed = [];
+    added = [];
+  };
+  for (const { sign, item } of edits) {
+    if (sign === "-") {
+      removed.push(item);
+      continue;
+    }
+    if (sign === "+") {
+      added.push(item);
+      index++;
+      continue;
+    }
+    if (removed.length > 0 || added.length > 0) {
+      flush();
+    }
+    unchanged++;
+    index++;
+  }
+  flush();
+  return out.join("\n");
+};
@@ -0,0 +1,138 @@
+/**
+ * The divergence report of a debug replay run.
+ *
+ * The runtime logs every replay cache lookup. A MISS silently switches the
+ * rest of the run to live calls (`Laminar.debugRunLive`), so at shutdown the
+ * log is summarized: what was served from the cache, where the run diverged,
+ * and how the diverging input differs from the nearest call of the replayed
+ * trace. The report is printed next to the run pointer and attached to the
+ * debug session as a text block.
+ */
+
+import { type CacheOutcome, type ReplaySpan } from "@lmnr-ai/client";
+
+import { diffMessages, messageDistance } from "./diff";
+
+/** One replay cache lookup of an LLM or tool call. */
+export interface ReplayLookup {
+  spanPath: string | null;
+  inputHash: string;
+  outcome: CacheOutcome["kind"];
+  /** The hashed input messages, kept for misses to diff against the cache. */
+  messages?: unknown[];
+}
+
+/** A call of the replayed trace, which a lookup could have been served from. */
+export interface ReplayCandidate {
+  spanPath: string | null;
+  messages: unknown[];
+}
+
+const DIVERGENCE_REPORT_TITLE = "Laminar debug replay";
+
+const HASH_PREFIX_LENGTH = 12;
+
+// System messages are not part of the cache key, so they never diverge
+const withoutSystemMessages = (messages: unknown[]): unknown[] =>
+  messages.filter(
+    (m) =>
+      !(m !== null && typeof m === "object" && (m as Record<string, unknown>).role === "system"),
+  );
+
+/**
+ * The input a replayed span was looked up by: an LLM span's input is its
+ * message array, a tool's input is hashed as a one-message array.
+ */
+export const replaySpanToCandidate = (span: ReplaySpan): ReplayCandidate => {
+  let input: unknown;
+  try {
+    input = JSON.parse(span.input);
+  } catch {
+    input = span.input;
+  }
+  return {
+    spanPath: span.path || null,
+    messages: span.spanType !== "TOOL" && Array.isArray(input) ? input : [input],
+  };
+};
+
+/**
+ * The candidate closest to a missed lookup: one at the same span path when
+ * there is any, with the fewest differing messages. The first one wins a tie.
+ */
+export const nearestCandidate = (
+  lookup: ReplayLookup,
+  candidates: ReplayCandidate[],
+): ReplayCandidate | null => {
+  const samePath = candidates.filter((c) => c.spanPath !== null && c.spanPath === lookup.spanPath);
+  const pool = samePath.length > 0 ? samePath : candidates;
+  const messages = withoutSystemMessages(lookup.messages ?? []);
+  let nearest: ReplayCandidate | null = null;
+  let nearestDistance = Infinity;
+  for (const candidate of pool) {
+    const distance = messageDistance(withoutSystemMessages(candidate.messages), messages);
+    if (distance < nearestDistance) {
+      nearest = candidate;
+      nearestDistance = distance;
+    }
+  }
+  return nearest;
+};
+
+const describeMiss = (
+  lookup: ReplayLookup,
+  candidates: ReplayCandidate[] | null,
+): string[] => {
+  const lines = [
+    `Cache miss at ${lookup.spanPath ?? "<unknown span>"} (input hash ${lookup.inputHash}), `
+    + "it and every later call ran live.",
+  ];
+  if (candidates === null) {
+    lines.push("The replayed trace's calls could not be fetched to compare against.");
+    return lines;
+  }
+  const nearest = nearestCandidate(lookup, candidates);
+  if (nearest === null) {
+    lines.push("The replayed trace has no LLM or tool calls to compare against.");
+    return lines;
+  }
+  const diff = diffMessages(
+    withoutSystemMessages(nearest.messages),
+    withoutSystemMessages(lookup.messages ?? []),
+  );
+  lines.push(
+    `Nearest cached call: ${nearest.spanPath ?? "<unknown span>"} (- cached, + this run)`,
+    diff === "" ? "  (same messages, the cached call is outside the replayed range)" : diff,
+  );
+  return lines;
+};
+
+/**
+ * The text of the divergence report: outcome counts, one line per lookup,
+ * then each miss with its diff against the nearest candidate. `candidates` is
+ * null when the replayed trace could not be fetched.
+ */
+export const formatDivergenceReport = (
+  lookups: readonly ReplayLookup[],
+  candidates: ReplayCandidate[] | null,
+): string => {
+  const count = (outcome: ReplayLookup["outcome"]) =>
+    lookups.filter((lookup) => lookup.outcome === outcome).length;
+  const lines = [
+    `${DIVERGENCE_REPORT_TITLE}: ${lookups.length} cache lookup${lookups.length === 1 ? "" : "s"}`
+    + ` (${count("hit")} hit, ${count("miss")} miss, ${count("live")} live)`,
+    ...lookups.map((lookup) =>
+      `  ${lookup.outcome.padEnd(4)}  ${lookup.inputHash.slice(0, HASH_PREFIX_LENGTH)}  `
+      + `${lookup.spanPath ?? "<unknown span>"}`,
+    ),
+  ];
+  for (const lookup of lookups) {
+    if (lookup.outcome === "miss") {
+      lines.push(...describeMiss(lookup, candidates));
+    }
+  }
+  if (count("miss") === 0) {
+    lines.push("No cache miss, the run did not diverge from the replayed trace.");
+  }
+  return lines.join("\n");
+};
@@ -10,7 +10,8 @@
  *    no source-trace fetch or in-process cache build any more — the server owns
  *    the cache, keyed by the per-call input hash.
  * 3. The run's pointer (§5) is emitted once at process shutdown, after the root
- *    trace id of this run is known.
+ *    trace id of this run is known, next to a report of the run's cache lookups
+ *    (see `divergence.ts`).
  *
  * The provider LLM wrappers consult `getRuntime()` to decide replay-vs-live; init
  * stamps `rollout.session_id` on the trace metadata. When debug mode is off,
@@ -20,8 +21,9 @@
  */
 
 import { type CacheOutcome, RolloutSessionsResource } from "@lmnr-ai/client";
-import { type DebugContext } from "@lmnr-ai/types";
+import { type DebugContext, errorMessage } from "@lmnr-ai/types";
 
+import { initializeLogger } from "../utils";
 import {
   buildDebugConfig,
   buildDebugConfigFromContext,
@@ -29,16 +31,25 @@ import {
   isTruthy,
   replayEnabledForConfig,
 } from "./config";
+import {
+  formatDivergenceReport,
+  type ReplayCandidate,
+  type ReplayLookup,
+  replaySpanToCandidate,
+} from "./divergence";
 import { buildDebugSessionFile, emitPointer } from "./pointer";
 
 export { isTruthy };
 
+const logger = initializeLogger();
+
 /**
  * Holds the immutable debug config plus the handle used to look up the
  * server-side replay cache per LLM call.
  *
  * Also tracks the run's root trace id so the pointer (§5) can be emitted once at
- * shutdown, when the trace id is guaranteed to be known.
+ * shutdown, when the trace id is guaranteed to be known, and logs every cache
+ * lookup for the divergence report.
  */
 export class DebugRuntime {
   private readonly _config: DebugConfig;
@@ -47,6 +58,8 @@ export class DebugRuntime {
   private _projectId: string | null = null;
   private _traceId: string | null = null;
   private _emitted = false;
+  private readonly _lookups: ReplayLookup[] = [];
+  private _reported = false;
   // Captured at construction (SDK init) so the pointer's `started_at` reflects
   // when the run began, not when the pointer is emitted (shutdown).
   private readonly _startedAt = new Date().toISOString();
@@ -149,19 +162,87 @@ export class DebugRuntime {
    * resource is captured at init and the lookup stays testable. Returns
    * `{ kind: "live" }` defensively when replay isn't fully configured — callers
    * gate on `replayConfigured` first, so this only guards against misuse.
+   *
+   * Every outcome is logged for the divergence report, with the call's span
+   * path; the hashed `messages` are kept for misses, to diff against the
+   * replayed trace.
    */
-  async lookupCache(inputHash: string): Promise<CacheOutcome> {
+  async lookupCache(
+    inputHash: string,
+    details: { spanPath?: string | null; messages?: unknown[] } = {},
+  ): Promise<CacheOutcome> {
     const replayTraceId = this._config.replayTraceId;
     const cacheUntil = this._config.cacheUntilSpanId;
     if (replayTraceId === null || cacheUntil === null) {
       return { kind: "live" };
     }
-    return this._rolloutSessions.cache({
+    const outcome = await this._rolloutSessions.cache({
       sessionId: this._config.sessionId,
       replayTraceId,
       cacheUntil,
       inputHash,
     });
+    this._lookups.push({
+      spanPath: details.spanPath ?? null,
+      inputHash,
+      outcome: outcome.kind,
+      ...(outcome.kind === "miss" ? { messages: details.messages ?? [] } : {}),
+    });
+    return outcome;
+  }
+
+  /** The cache lookups of this run so far, in the order they resolved. */
+  get lookups(): readonly ReplayLookup[] {
+    return this._lookups;
+  }
+
+  /**
+   * Print the divergence report of this run and attach it to the debug session
+   * as a `text` block, once. Misses are diffed against the nearest LLM or tool
+   * call of the replayed trace. No-op when the run looked nothing up.
+   *
+   * Best-effort: failing to fetch the replayed trace only drops the diffs, and
+   * failing to add the block is logged.
+   */
+  async reportDivergence(): Promise<void> {
+    if (this._reported || this._lookups.length === 0) {
+      return;
+    }
+    this._reported = true;
+    let candidates: ReplayCandidate[] | null = null;
+    const replayTraceId = this._config.replayTraceId;
+    if (replayTraceId !== null && this._lookups.some(({ outcome }) => outcome === "miss")) {
+      try {
+        const spans = await this._rolloutSessions.listReplaySpans({ replayTraceId });
+        candidates = spans.map(replaySpanToCandidate);
+      } catch (e) {
+        logger.debug(`Failed to fetch the replayed trace's calls: ${errorMessage(e)}`);
+      }
+    }
+    const text = formatDivergenceReport(this._lookups, candidates);
+    console.log(text);
+    try {
+      await this._rolloutSessions.addBlock({
+        sessionId: this._config.sessionId,
+        type: "text",
+        content: { text },
+      });
+    } catch (e) {
+      logger.warn(`Failed to attach the replay report to the debug session: ${errorMessage(e)}`);
+    }
+  }
+
+  /**
+   * Print the divergence report without diffs, once. The synchronous fallback
+   * of {@link reportDivergence} for the process-exit hook, where the replayed
+   * trace can't be fetched nor the session block written.
+   */
+  printDivergenceReport(): void {
+    if (this._reported || this._lookups.length === 0) {
+      return;
+    }
+    this._reported = true;
+    console.log(formatDivergenceReport(this._lookups, null));
   }
 
   /** Remember the root trace id of this run (first root span wins). */
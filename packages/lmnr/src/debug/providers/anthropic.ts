@@ -0,0 +1,124 @@
+/**
+ * Replay of Anthropic Messages (`/v1/messages`) calls, including the beta
+ * endpoint and `stream: true`.
+ */
+
+import { isRecord, type ReplayedOutput, type ReplayFinishReason } from "./cached-output";
+import {
+  jsonResponse,
+  type ProviderCall,
+  type ProviderReplay,
+  replayId,
+  sseResponse,
+} from "./index";
+
+const STOP_REASONS: Record<ReplayFinishReason, string> = {
+  stop: "end_turn",
+  length: "max_tokens",
+  tool_calls: "tool_use",
+  content_filter: "refusal",
+};
+
+const parseInput = (args: string): unknown => {
+  try {
+    return JSON.parse(args);
+  } catch {
+    return {};
+  }
+};
+
+const contentBlocks = (output: ReplayedOutput): Record<string, any>[] =>
+  output.parts.map((part, index) => {
+    switch (part.type) {
+      case "reasoning":
+        return { type: "thinking", thinking: part.text, signature: part.signature ?? "" };
+      case "tool_call":
+        return {
+          type: "tool_use",
+          id: part.id ?? `toolu_${index}`,
+          name: part.name,
+          input: parseInput(part.arguments),
+        };
+      default:
+        return { type: "text", text: part.text, citations: null };
+    }
+  });
+
+const messageResponse = ({ body }: ProviderCall, output: ReplayedOutput): Response => {
+  if (
+    body.stream !== true
+    && isRecord(output.payload)
+    && output.payload.type === "message"
+    && Array.isArray(output.payload.content)
+  ) {
+    return jsonResponse(output.payload);
+  }
+
+  const message = {
+    id: replayId("msg_"),
+    type: "message",
+    role: "assistant",
+    model: output.model ?? body.model,
+    content: contentBlocks(output),
+    stop_reason: STOP_REASONS[output.finishReason],
+    stop_sequence: null,
+    usage: { input_tokens: output.inputTokens, output_tokens: output.outputTokens },
+  };
+  if (body.stream !== true) {
+    return jsonResponse(message);
+  }
+
+  const events: { event: string; data: Record<string, unknown> }[] = [];
+  const emit = (type: string, data: Record<string, unknown> = {}) =>
+    events.push({ event: type, data: { type, ...data } });
+
+  emit("message_start", {
+    message: {
+      ...message,
+      content: [],
+      stop_reason: null,
+      usage: { input_tokens: output.inputTokens, output_tokens: 0 },
+    },
+  });
+  message.content.forEach((block, index) => {
+    if (block.type === "thinking") {
+      emit("content_block_start", {
+        index,
+        content_block: { type: "thinking", thinking: "", signature: "" },
+      });
+      emit("content_block_delta", {
+        index,
+        delta: { type: "thinking_delta", thinking: block.thinking },
+      });
+      if (block.signature) {
+        emit("content_block_delta", {
+          index,
+          delta: { type: "signature_delta", signature: block.signature },
+        });
+      }
+    } else if (block.type === "tool_use") {
+      emit("content_block_start", { index, content_block: { ...block, input: {} } });
+      emit("content_block_delta", {
+        index,
+        delta: { type: "input_json_delta", partial_json: JSON.stringify(block.input) },
+      });
+    } else {
+      emit("content_block_start", { index, content_block: { ...block, text: "" } });
+      emit("content_block_delta", { index, delta: { type: "text_delta", text: block.text } });
+    }
+    emit("content_block_stop", { index });
+  });
+  emit("message_delta", {
+    delta: { stop_reason: message.stop_reason, stop_sequence: null },
+    usage: { output_tokens: output.outputTokens },
+  });
+  emit("message_stop");
+  return sseResponse(events);
+};
+
+export const anthropicReplay: ProviderReplay = {
+  // `system` is a separate parameter, so it is never part of the hash
+  matches: ({ url, body }) => url.pathname.endsWith("/messages") && Array.isArray(body.messages),
+  messages: ({ body }) => body.messages as unknown[],
+  response: messageResponse,
+};
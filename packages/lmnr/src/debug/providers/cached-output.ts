@@ -0,0 +1,229 @@
+/**
+ * Provider-agnostic view of a debug-replay cache HIT.
+ *
+ * The HIT `output` is whatever the source span recorded: the OTel
+ * `gen_ai.output.messages` parts shape, an OpenAI-style `{role, content,
+ * tool_calls}` message, a list of Anthropic content blocks, or a full native
+ * provider response, possibly inside a `{type: "raw" | "genAi"}` wrapper (see
+ * `CacheOutput` in the AI SDK wrapper). The provider wrappers rebuild their
+ * native responses from the normalized parts below, so a span recorded through
+ * one shape replays through any provider.
+ */
+
+import { type CachedSpan } from "@lmnr-ai/types";
+
+import { LaminarAttributes } from "../../opentelemetry-lib/tracing/attributes";
+
+export type ReplayPart =
+  | { type: "text"; text: string }
+  | { type: "reasoning"; text: string; signature?: string }
+  // `id` is kept absent when the source had none (e.g. Gemini function calls),
+  // since it is part of the next call's messages and so of its input hash.
+  | { type: "tool_call"; id?: string; name: string; arguments: string };
+
+export type ReplayFinishReason = "stop" | "length" | "tool_calls" | "content_filter";
+
+export interface ReplayedOutput {
+  /** The parsed HIT payload, with a `{type: "raw"}` wrapper unwrapped. */
+  payload: unknown;
+  parts: ReplayPart[];
+  finishReason: ReplayFinishReason;
+  model?: string;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+type Json = Record<string, any>;
+
+export const isRecord = (value: unknown): value is Json =>
+  value !== null && typeof value === "object" && !Array.isArray(value);
+
+const stringifyArguments = (value: unknown): string =>
+  typeof value === "string" ? value : JSON.stringify(value ?? {});
+
+const toolCallPart = (call: Json): ReplayPart => ({
+  type: "tool_call",
+  id: call.id ?? call.toolCallId ?? call.call_id ?? undefined,
+  name: call.name ?? call.toolName ?? call.function?.name ?? "",
+  arguments: stringifyArguments(
+    call.arguments ?? call.input ?? call.args ?? call.function?.arguments,
+  ),
+});
+
+/** One content part / block of any supported shape. */
+const partOf = (item: Json): ReplayPart[] => {
+  switch (item.type) {
+    case "text":
+    case "output_text":
+      return [{ type: "text", text: item.text ?? item.content ?? "" }];
+    case "reasoning":
+    case "thinking": {
+      const summary = Array.isArray(item.summary)
+        ? item.summary.map((s: Json): string => String(s?.text ?? "")).join("")
+        : undefined;
+      return [{
+        type: "reasoning",
+        text: item.text ?? item.content ?? item.thinking ?? summary ?? "",
+        ...(typeof item.signature === "string" ? { signature: item.signature } : {}),
+      }];
+    }
+    case "tool_call":
+    case "tool-call":
+    case "tool_use":
+    case "function_call":
+    case "function":
+      return [toolCallPart(item)];
+    default:
+      break;
+  }
+  // Gemini parts carry no `type`
+  if (isRecord(item.functionCall)) {
+    return [toolCallPart(item.functionCall)];
+  }
+  if (typeof item.text === "string") {
+    return item.thought === true
+      ? [{
+        type: "reasoning",
+        text: item.text,
+        ...(typeof item.thoughtSignature === "string"
+          ? { signature: item.thoughtSignature }
+          : {}),
+      }]
+      : [{ type: "text", text: item.text }];
+  }
+  return [{ type: "text", text: JSON.stringify(item) }];
+};
+
+const partsOf = (value: unknown): ReplayPart[] => {
+  if (typeof value === "string") {
+    return value ? [{ type: "text", text: value }] : [];
+  }
+  if (Array.isArray(value)) {
+    return value.flatMap(partsOf);
+  }
+  if (!isRecord(value)) {
+    return [];
+  }
+  if (value.type === "raw" && "response" in value) {
+    return partsOf(value.response);
+  }
+  if (value.type === "genAi" && Array.isArray(value.messages)) {
+    return partsOf(value.messages);
+  }
+  // Native responses: OpenAI chat completion, Gemini, OpenAI Responses
+  if (Array.isArray(value.choices)) {
+    return partsOf(value.choices[0]?.message ?? value.choices[0]?.text);
+  }
+  if (Array.isArray(value.candidates)) {
+    return partsOf(value.candidates[0]?.content);
+  }
+  if (value.object === "response" && Array.isArray(value.output)) {
+    return partsOf(value.output);
+  }
+  // Messages: OTel / Gemini `{role, parts}`, and `{role, content, tool_calls}`
+  if (Array.isArray(value.parts)) {
+    return value.parts.filter(isRecord).flatMap(partOf);
+  }
+  if ("role" in value || "tool_calls" in value) {
+    return [
+      ...(typeof value.reasoning_content === "string" && value.reasoning_content
+        ? [{ type: "reasoning" as const, text: value.reasoning_content }]
+        : []),
+      ...partsOf(value.content),
+      ...(Array.isArray(value.tool_calls)
+        ? value.tool_calls.filter(isRecord).map(toolCallPart)
+        : []),
+    ];
+  }
+  return partOf(value);
+};
+
+const FINISH_REASONS: Record<string, ReplayFinishReason> = {
+  stop: "stop",
+  end_turn: "stop",
+  stop_sequence: "stop",
+  completed: "stop",
+  length: "length",
+  max_tokens: "length",
+  incomplete: "length",
+  tool_calls: "tool_calls",
+  tool_call: "tool_calls",
+  "tool-calls": "tool_calls",
+  tool_use: "tool_calls",
+  function_call: "tool_calls",
+  content_filter: "content_filter",
+  "content-filter": "content_filter",
+  refusal: "content_filter",
+  safety: "content_filter",
+};
+
+/** The first finish reason recorded in the attributes or the payload. */
+const recordedFinishReason = (payload: unknown, attributes: Json): string | undefined => {
+  const fromAttributes =
+    attributes["gen_ai.response.finish_reasons"] ?? attributes["ai.response.finishReason"];
+  const first = (value: unknown): unknown => Array.isArray(value) ? value[0] : value;
+  const candidates: unknown[] = [first(fromAttributes)];
+  const message = first(payload);
+  if (isRecord(message)) {
+    candidates.push(
+      message.finish_reason,
+      message.stop_reason,
+      message.finishReason,
+      message.choices?.[0]?.finish_reason,
+      message.candidates?.[0]?.finishReason,
+      message.status,
+    );
+  }
+  return candidates.find((value): value is string => typeof value === "string");
+};
+
+const tokenCount = (...values: unknown[]): number => {
+  const count = values.find((value) => typeof value === "number");
+  return typeof count === "number" ? count : 0;
+};
+
+/**
+ * Parse a cache HIT into normalized parts, finish reason, model and usage.
+ * Never throws: an unparseable `output` replays as a single text part.
+ */
+export const parseCachedOutput = (cached: CachedSpan): ReplayedOutput => {
+  let payload: unknown = cached.output;
+  try {
+    payload = JSON.parse(cached.output);
+  } catch {
+    // Ignore - keep as string
+  }
+  if (isRecord(payload) && payload.type === "raw" && "response" in payload) {
+    payload = payload.response;
+  }
+
+  const attributes: Json = cached.attributes ?? {};
+  const parts = partsOf(payload);
+  const recorded = recordedFinishReason(payload, attributes);
+  const hasToolCalls = parts.some((part) => part.type === "tool_call");
+  let finishReason = FINISH_REASONS[recorded?.toLowerCase() ?? ""] ?? "stop";
+  // Gemini ends calls with tool calls as `STOP`
+  if (finishReason === "stop" && hasToolCalls) {
+    finishReason = "tool_calls";
+  }
+
+  const model = attributes[LaminarAttributes.RESPONSE_MODEL]
+    ?? attributes[LaminarAttributes.REQUEST_MODEL];
+  const usage: Json = isRecord(payload) && isRecord(payload.usage) ? payload.usage : {};
+  return {
+    payload,
+    parts,
+    finishReason,
+    model: typeof model === "string" ? model : undefined,
+    inputTokens: tokenCount(
+      attributes[LaminarAttributes.INPUT_TOKEN_COUNT],
+      usage.input_tokens,
+      usage.prompt_tokens,
+    ),
+    outputTokens: tokenCount(
+      attributes[LaminarAttributes.OUTPUT_TOKEN_COUNT],
+      usage.output_tokens,
+      usage.completion_tokens,
+    ),
+  };
+};
@@ -0,0 +1,79 @@
+/**
+ * Replay of Google GenAI `generateContent` and `streamGenerateContent` calls,
+ * for both the Gemini Developer API and Vertex AI.
+ */
+
+import { isRecord, type ReplayedOutput, type ReplayFinishReason } from "./cached-output";
+import { jsonResponse, type ProviderCall, type ProviderReplay, sseResponse } from "./index";
+
+const GENERATE_CONTENT_PATH = /:(stream)?generateContent$/i;
+
+const FINISH_REASONS: Record<ReplayFinishReason, string> = {
+  stop: "STOP",
+  length: "MAX_TOKENS",
+  tool_calls: "STOP",
+  content_filter: "SAFETY",
+};
+
+const parseArgs = (args: string): unknown => {
+  try {
+    return JSON.parse(args);
+  } catch {
+    return {};
+  }
+};
+
+const candidateParts = (output: ReplayedOutput): Record<string, any>[] =>
+  output.parts.map((part) => {
+    switch (part.type) {
+      case "reasoning":
+        return {
+          text: part.text,
+          thought: true,
+          ...(part.signature ? { thoughtSignature: part.signature } : {}),
+        };
+      case "tool_call":
+        return {
+          functionCall: {
+            ...(part.id ? { id: part.id } : {}),
+            name: part.name,
+            args: parseArgs(part.arguments),
+          },
+        };
+      default:
+        return { text: part.text };
+    }
+  });
+
+const generateContentResponse = (output: ReplayedOutput): Record<string, unknown> => {
+  if (isRecord(output.payload) && Array.isArray(output.payload.candidates)) {
+    return output.payload;
+  }
+  return {
+    candidates: [{
+      content: { role: "model", parts: candidateParts(output) },
+      finishReason: FINISH_REASONS[output.finishReason],
+      index: 0,
+    }],
+    usageMetadata: {
+      promptTokenCount: output.inputTokens,
+      candidatesTokenCount: output.outputTokens,
+      totalTokenCount: output.inputTokens + output.outputTokens,
+    },
+    ...(output.model ? { modelVersion: output.model } : {}),
+  };
+};
+
+const isStreamCall = ({ url }: ProviderCall) =>
+  url.pathname.toLowerCase().endsWith(":streamgeneratecontent");
+
+export const googleGenAiReplay: ProviderReplay = {
+  // `systemInstruction` is a separate field, so it is never part of the hash
+  matches: ({ url, body }) =>
+    GENERATE_CONTENT_PATH.test(url.pathname) && Array.isArray(body.contents),
+  messages: ({ body }) => body.contents as unknown[],
+  // The whole response is a single stream chunk
+  response: (call, output) => isStreamCall(call)
+    ? sseResponse([{ data: generateContentResponse(output) }])
+    : jsonResponse(generateContentResponse(output)),
+};
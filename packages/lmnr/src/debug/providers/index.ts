@@ -0,0 +1,193 @@
+/**
+ * Debug-replay for LLM clients that call their provider's HTTP API directly:
+ * `openai`, `@anthropic-ai/sdk` and `@google/genai` (§9).
+ *
+ * Replay sits at the HTTP seam of each client (its fetch), not at its public
+ * methods: on a HIT the wrapper answers with the provider-native JSON or SSE
+ * response rebuilt from the cached span, so the client still builds its own
+ * rich result and stream objects, and the tracing instrumentation on top of it
+ * records the span exactly as for a live call. Outcomes match the AI SDK
+ * wrapper (`aisdk/base-language-model.ts`): HIT replays and marks the span
+ * CACHED, MISS latches live mode, LIVE runs this call live. With a local
+ * cassette (`LMNR_CASSETTE`) the cassette is consulted instead.
+ */
+
+import { randomUUID } from "node:crypto";
+
+import { type Span, trace } from "@opentelemetry/api";
+
+import { Laminar } from "../../laminar";
+import { initializeLogger } from "../../utils";
+import { type Cassette, type CassetteEntry, entryToCachedSpan, getCassette } from "../cassette";
+import { debugInputHash } from "../hash";
+import { getRuntime } from "../index";
+import { markSpanCached, replayEnabled, spanPathFromSpan } from "../replay";
+import { isRecord, parseCachedOutput, type ReplayedOutput } from "./cached-output";
+
+const logger = initializeLogger();
+
+/** An outgoing provider API call, with its parsed JSON body. */
+export interface ProviderCall {
+  url: URL;
+  body: Record<string, any>;
+}
+
+export interface ProviderReplay {
+  /** True when `call` is an LLM call this provider can replay. */
+  matches(call: ProviderCall): boolean;
+  /** The native input messages of `call`, hashed into the cache key. */
+  messages(call: ProviderCall): unknown[];
+  /** The native HTTP response to `call`, rebuilt from a cache HIT. */
+  response(call: ProviderCall, output: ReplayedOutput): Response;
+}
+
+type FetchLike = (url: any, init?: RequestInit, ...rest: any[]) => Promise<Response>;
+
+const parseCall = (url: unknown, init?: RequestInit): ProviderCall | null => {
+  if (typeof init?.body !== "string") {
+    return null;
+  }
+  const href = url instanceof URL
+    ? url.href
+    : typeof url === "string" ? url : (url as Request | undefined)?.url;
+  if (!href) {
+    return null;
+  }
+  try {
+    const body: unknown = JSON.parse(init.body);
+    return isRecord(body) ? { url: new URL(href), body } : null;
+  } catch {
+    return null;
+  }
+};
+
+// The raw response is recorded once the client has read it through a clone
+const recordedEntry = async (
+  inputHash: string,
+  messages: unknown[],
+  response: Response,
+): Promise<CassetteEntry | null> => {
+  if (!response.ok) {
+    return null;
+  }
+  const body = await response.clone().text();
+  const contentType = response.headers.get("content-type");
+  return {
+    input_hash: inputHash,
+    messages,
+    ...(contentType?.includes("json") ? { output: body } : {}),
+    response: { status: response.status, content_type: contentType, body },
+  };
+};
+
+const cassetteReplay = async (
+  cassette: Cassette,
+  call: ProviderCall,
+  provider: ProviderReplay,
+  messages: unknown[],
+  live: () => Promise<Response>,
+  spanToMark: Span | undefined,
+): Promise<Response> => {
+  const inputHash = debugInputHash(messages);
+  const entry = cassette.next(inputHash, messages);
+  if (entry === null) {
+    const response = await live();
+    cassette.recordWhenReady(recordedEntry(inputHash, messages, response));
+    return response;
+  }
+  const response = entry.response
+    ? new Response(entry.response.body, {
+      status: entry.response.status,
+      headers: entry.response.content_type
+        ? { "content-type": entry.response.content_type }
+        : {},
+    })
+    : provider.response(call, parseCachedOutput(entryToCachedSpan(entry)));
+  markSpanCached(spanToMark);
+  return response;
+};
+
+/**
+ * Wrap a client's fetch so that, on a debug replay run, calls matched by one of
+ * `providers` consult the server-side replay cache first, or the cassette when
+ * one is set. Any other request, and every request outside a replay run, goes
+ * straight to `fetchFn`.
+ *
+ * @throws {CassetteMismatchError} in cassette `replay` mode, for a call that was
+ * not recorded.
+ */
+export const withCacheReplay = <F extends FetchLike>(
+  fetchFn: F,
+  providers: ProviderReplay[],
+): F => async function (this: unknown, url: unknown, init?: RequestInit, ...rest: unknown[]) {
+  const live = () => fetchFn.call(this, url, init, ...rest);
+  const cassette = getCassette();
+  if (cassette === null && (!replayEnabled() || Laminar.debugRunLive)) {
+    return live();
+  }
+
+  // The instrumentation runs the client call in the OTel context of its LLM
+  // span, which is not on Laminar's context stack, so read the active span
+  // rather than `Laminar.getCurrentSpan()`. Capture it before any await.
+  const spanToMark = trace.getActiveSpan();
+  const call = parseCall(url, init);
+  const provider = call ? providers.find((p) => p.matches(call)) : undefined;
+  if (!call || !provider) {
+    return live();
+  }
+  // No messages to hash would key the lookup off the wrong bytes and force a
+  // spurious MISS, so run live without latching, like the AI SDK wrapper.
+  const messages = provider.messages(call);
+  if (messages.length === 0) {
+    return live();
+  }
+  if (cassette !== null) {
+    return cassetteReplay(cassette, call, provider, messages, live, spanToMark);
+  }
+  const outcome = (await getRuntime()?.lookupCache(debugInputHash(messages), {
+    spanPath: spanPathFromSpan(spanToMark),
+    messages,
+  })) ?? { kind: "live" as const };
+
+  switch (outcome.kind) {
+    case "hit": {
+      let response: Response;
+      try {
+        response = provider.response(call, parseCachedOutput(outcome.cached));
+      } catch (e) {
+        logger.debug(`Failed to rebuild cached response, running live: ${String(e)}`);
+        return live();
+      }
+      markSpanCached(spanToMark);
+      return response;
+    }
+    case "miss":
+      // First MISS latches live mode for the rest of the process
+      Laminar.debugRunLive = true;
+      return live();
+    case "live":
+    default:
+      return live();
+  }
+} as F;
+
+export const replayId = (prefix: string): string =>
+  `${prefix}${randomUUID().replace(/-/g, "")}`;
+
+export const jsonResponse = (body: unknown): Response =>
+  new Response(JSON.stringify(body), {
+    status: 200,
+    headers: { "content-type": "application/json" },
+  });
+
+/** A `text/event-stream` response with `events`, named when `event` is set. */
+export const sseResponse = (events: { event?: string; data: unknown }[]): Response =>
+  new Response(
+    events
+      .map(({ event, data }) =>
+        `${event ? `event: ${event}\n` : ""}`
+        + `data: ${typeof data === "string" ? data : JSON.stringify(data)}\n\n`,
+      )
+      .join(""),
+    { status: 200, headers: { "content-type": "text/event-stream" } },
+  );
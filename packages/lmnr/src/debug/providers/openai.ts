@@ -0,0 +1,254 @@
+/**
+ * Replay of OpenAI Chat Completions (`/chat/completions`) and Responses
+ * (`/responses`) calls, including OpenAI-compatible endpoints and
+ * `stream: true`.
+ */
+
+import { isRecord, type ReplayedOutput, type ReplayFinishReason } from "./cached-output";
+import {
+  jsonResponse,
+  type ProviderCall,
+  type ProviderReplay,
+  replayId,
+  sseResponse,
+} from "./index";
+
+const isChatCall = ({ url, body }: ProviderCall) =>
+  url.pathname.endsWith("/chat/completions") && Array.isArray(body.messages);
+
+const isResponsesCall = ({ url, body }: ProviderCall) =>
+  url.pathname.endsWith("/responses") && body.input !== undefined;
+
+const toolCalls = (output: ReplayedOutput) =>
+  output.parts
+    .filter((part) => part.type === "tool_call")
+    .map((part, index) => ({
+      id: part.id ?? `call_${index}`,
+      type: "function" as const,
+      function: { name: part.name, arguments: part.arguments },
+    }));
+
+const text = (output: ReplayedOutput): string | null => {
+  const texts = output.parts.filter((part) => part.type === "text");
+  return texts.length > 0 ? texts.map((part) => part.text).join("") : null;
+};
+
+const CHAT_FINISH_REASONS: Record<ReplayFinishReason, string> = {
+  stop: "stop",
+  length: "length",
+  tool_calls: "tool_calls",
+  content_filter: "content_filter",
+};
+
+const chatUsage = (output: ReplayedOutput) => ({
+  prompt_tokens: output.inputTokens,
+  completion_tokens: output.outputTokens,
+  total_tokens: output.inputTokens + output.outputTokens,
+});
+
+const chatResponse = ({ body }: ProviderCall, output: ReplayedOutput): Response => {
+  const created = Math.floor(Date.now() / 1000);
+  const id = replayId("chatcmpl-");
+  const model = output.model ?? body.model;
+  const calls = toolCalls(output);
+  const finishReason = CHAT_FINISH_REASONS[output.finishReason];
+
+  if (body.stream !== true) {
+    if (isRecord(output.payload) && output.payload.object === "chat.completion") {
+      return jsonResponse(output.payload);
+    }
+    return jsonResponse({
+      id,
+      object: "chat.completion",
+      created,
+      model,
+      choices: [{
+        index: 0,
+        message: {
+          role: "assistant",
+          content: text(output),
+          refusal: null,
+          ...(calls.length > 0 ? { tool_calls: calls } : {}),
+        },
+        finish_reason: finishReason,
+        logprobs: null,
+      }],
+      usage: chatUsage(output),
+    });
+  }
+
+  const chunk = (choices: unknown[], extra: Record<string, unknown> = {}) => ({
+    data: { id, object: "chat.completion.chunk", created, model, choices, ...extra },
+  });
+  const choice = (delta: Record<string, unknown>, finish: string | null = null) => ({
+    index: 0,
+    delta,
+    finish_reason: finish,
+    logprobs: null,
+  });
+  return sseResponse([
+    chunk([choice({ role: "assistant", content: text(output) ?? "" })]),
+    ...calls.map((call, index) => chunk([choice({ tool_calls: [{ index, ...call }] })])),
+    chunk([choice({}, finishReason)]),
+    ...(body.stream_options?.include_usage === true
+      ? [chunk([], { usage: chatUsage(output) })]
+      : []),
+    { data: "[DONE]" },
+  ]);
+};
+
+type ResponsesOutputText = { type: "output_text"; text: string; annotations: unknown[] };
+
+type ResponsesOutputItem =
+  | { type: "reasoning"; id: string; summary: { type: "summary_text"; text: string }[] }
+  | {
+    type: "function_call";
+    id: string;
+    call_id: string;
+    name: string;
+    arguments: string;
+    status: "completed";
+  }
+  | {
+    type: "message";
+    id: string;
+    role: "assistant";
+    status: "completed";
+    content: ResponsesOutputText[];
+  };
+
+const responsesOutput = (output: ReplayedOutput): ResponsesOutputItem[] => {
+  const items: ResponsesOutputItem[] = [];
+  output.parts.forEach((part, index) => {
+    if (part.type === "reasoning") {
+      items.push({
+        type: "reasoning",
+        id: replayId("rs_"),
+        summary: [{ type: "summary_text", text: part.text }],
+      });
+    } else if (part.type === "tool_call") {
+      items.push({
+        type: "function_call",
+        id: replayId("fc_"),
+        call_id: part.id ?? `call_${index}`,
+        name: part.name,
+        arguments: part.arguments,
+        status: "completed",
+      });
+    } else {
+      const last = items[items.length - 1];
+      const content: ResponsesOutputText = {
+        type: "output_text",
+        text: part.text,
+        annotations: [],
+      };
+      if (last?.type === "message") {
+        last.content.push(content);
+      } else {
+        items.push({
+          type: "message",
+          id: replayId("msg_"),
+          role: "assistant",
+          status: "completed",
+          content: [content],
+        });
+      }
+    }
+  });
+  return items;
+};
+
+const responsesResponse = ({ body }: ProviderCall, output: ReplayedOutput): Response => {
+  if (
+    body.stream !== true
+    && isRecord(output.payload)
+    && output.payload.object === "response"
+  ) {
+    return jsonResponse(output.payload);
+  }
+
+  const response = {
+    id: replayId("resp_"),
+    object: "response",
+    created_at: Math.floor(Date.now() / 1000),
+    status: output.finishReason === "length" ? "incomplete" : "completed",
+    incomplete_details: output.finishReason === "length"
+      ? { reason: "max_output_tokens" }
+      : null,
+    error: null,
+    model: output.model ?? body.model,
+    instructions: body.instructions ?? null,
+    output: responsesOutput(output),
+    parallel_tool_calls: body.parallel_tool_calls ?? true,
+    tool_choice: body.tool_choice ?? "auto",
+    tools: body.tools ?? [],
+    metadata: body.metadata ?? {},
+    usage: {
+      input_tokens: output.inputTokens,
+      input_tokens_details: { cached_tokens: 0 },
+      output_tokens: output.outputTokens,
+      output_tokens_details: { reasoning_tokens: 0 },
+      total_tokens: output.inputTokens + output.outputTokens,
+    },
+  };
+  if (body.stream !== true) {
+    return jsonResponse(response);
+  }
+
+  let sequenceNumber = 0;
+  const events: { event: string; data: Record<string, unknown> }[] = [];
+  const emit = (type: string, data: Record<string, unknown>) =>
+    events.push({ event: type, data: { type, sequence_number: sequenceNumber++, ...data } });
+
+  emit("response.created", {
+    response: { ...response, status: "in_progress", incomplete_details: null, output: [] },
+  });
+  response.output.forEach((item, outputIndex) => {
+    const itemId = item.id;
+    if (item.type === "message") {
+      emit("response.output_item.added", {
+        output_index: outputIndex,
+        item: { ...item, status: "in_progress", content: [] },
+      });
+      item.content.forEach((part, contentIndex) => {
+        const at = { item_id: itemId, output_index: outputIndex, content_index: contentIndex };
+        emit("response.content_part.added", { ...at, part: { ...part, text: "" } });
+        emit("response.output_text.delta", { ...at, delta: part.text });
+        emit("response.output_text.done", { ...at, text: part.text });
+        emit("response.content_part.done", { ...at, part });
+      });
+    } else if (item.type === "function_call") {
+      emit("response.output_item.added", {
+        output_index: outputIndex,
+        item: { ...item, status: "in_progress", arguments: "" },
+      });
+      const at = { item_id: itemId, output_index: outputIndex };
+      emit("response.function_call_arguments.delta", { ...at, delta: item.arguments });
+      emit("response.function_call_arguments.done", { ...at, arguments: item.arguments });
+    } else {
+      emit("response.output_item.added", { output_index: outputIndex, item });
+    }
+    emit("response.output_item.done", { output_index: outputIndex, item });
+  });
+  emit(
+    response.status === "incomplete" ? "response.incomplete" : "response.completed",
+    { response },
+  );
+  return sseResponse(events);
+};
+
+export const openAIReplay: ProviderReplay = {
+  matches: (call) => isChatCall(call) || isResponsesCall(call),
+  messages: ({ body }) => {
+    if (Array.isArray(body.messages)) {
+      return body.messages as unknown[];
+    }
+    // Responses API: `instructions` is the system prompt and is not hashed
+    if (typeof body.input === "string") {
+      return [{ role: "user", content: body.input }];
+    }
+    return Array.isArray(body.input) ? body.input as unknown[] : [];
+  },
+  response: (call, output) =>
+    isChatCall(call) ? chatResponse(call, output) : responsesResponse(call, output),
+};
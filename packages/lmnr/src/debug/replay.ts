@@ -10,7 +10,9 @@
 
 import { Span } from "@opentelemetry/api";
 
+import { Laminar } from "../laminar";
 import { SPAN_PATH } from "../opentelemetry-lib/tracing/attributes";
+import { debugInputHash } from "./hash";
 import { getRuntime } from "./index";
 
 /**
@@ -44,11 +46,52 @@ export const spanPathFromSpan = (
 };
 
 /** Stamp the CACHED boundary attributes the frontend renders (§9). */
-export const markSpanCached = (span: Span | undefined | null): void => {
+export const markSpanCached = (
+  span: Span | undefined | null,
+  originalType: "LLM" | "TOOL" = "LLM",
+): void => {
   if (span && span.isRecording()) {
     span.setAttributes({
       "lmnr.span.type": "CACHED",
-      "lmnr.span.original_type": "LLM",
+      "lmnr.span.original_type": originalType,
     });
   }
 };
+
+/**
+ * Look up the recorded output of a replayable tool call (`observe({ replayable
+ * })`) in the server-side replay cache.
+ *
+ * `input` is the tool input as recorded on its span, hashed as a one-message
+ * array through the same `debugInputHash` as LLM calls. The outcomes match the
+ * LLM wrappers: HIT resolves to the recorded output (parsed from JSON), MISS
+ * latches live mode, LIVE runs this call live. Resolves to null whenever the
+ * tool should run. `spanPath` is the tool span's, for the divergence report.
+ */
+export const lookupToolOutput = async (
+  input: unknown,
+  spanPath: string | null = null,
+): Promise<{ output: unknown } | null> => {
+  if (!replayEnabled() || Laminar.debugRunLive) {
+    return null;
+  }
+  const outcome = (await getRuntime()?.lookupCache(debugInputHash([input]), {
+    spanPath,
+    messages: [input],
+  })) ?? { kind: "live" as const };
+  switch (outcome.kind) {
+    case "hit":
+      try {
+        return { output: JSON.parse(outcome.cached.output) };
+      } catch {
+        // A string output recorded as is
+        return { output: outcome.cached.output };
+      }
+    case "miss":
+      Laminar.debugRunLive = true;
+      return null;
+    case "live":
+    default:
+      return null;
+  }
+};
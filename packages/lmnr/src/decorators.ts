@@ -4,7 +4,7 @@ import {
   TraceType,
   TracingLevel,
 } from '@lmnr-ai/types';
-import { AttributeValue } from "@opentelemetry/api";
+import { AttributeValue, type Link } from "@opentelemetry/api";
 
 import { observeBase } from './opentelemetry-lib';
 import {
@@ -13,6 +13,7 @@ import {
   PARENT_SPAN_PATH,
   SPAN_TYPE,
 } from "./opentelemetry-lib/tracing/attributes";
+import { type BudgetOptions } from "./opentelemetry-lib/tracing/budget";
 import {
   ASSOCIATION_PROPERTIES_KEY,
   LaminarContextManager,
@@ -33,6 +34,9 @@ interface ObserveOptions {
   parentSpanContext?: string | LaminarSpanContext;
   metadata?: Record<string, any>;
   tags?: string[];
+  budget?: BudgetOptions;
+  links?: Link[];
+  replayable?: boolean;
 }
 
 /**
@@ -57,6 +61,16 @@ interface ObserveOptions {
  * @param options.metadata - Metadata to add to a trace for further filtering. Must be
  * JSON serializable.
  * @param options.tags - Tags to associate with the span.
+ * @param options.budget - Limits on the LLM usage of the function, including
+ * auto-instrumented LLM calls. Once a limit is exceeded, the next LLM call throws a
+ * `BudgetExceededError`, unless `budget.onExceeded` is set. See `Laminar.withBudget`.
+ * @param options.links - Links to spans that caused this one but are not its parent, e.g.
+ * the spans that published the queue messages that it processes.
+ * @param options.replayable - Whether a debug replay run may skip the function and return
+ * its output recorded in the replayed trace, looked up by its input. Use it with
+ * `spanType: 'TOOL'` for tools with side effects. The function must be async, and its
+ * output JSON serializable. Other functions, and ones with `ignoreInput`, always run.
+ * See `Laminar.replayableTool`.
  * @param fn - The function to wrap
  * @param args - Arguments to pass to the function
  * @returns Promise with the result of the wrapped function.
@@ -91,6 +105,9 @@ export function observe<A extends unknown[], F extends (...args: A) => ReturnTyp
     parentSpanContext,
     metadata,
     tags,
+    budget,
+    links,
+    replayable,
   } = options;
   const spanName = name ?? fn.name;
 
@@ -115,6 +132,9 @@ export function observe<A extends unknown[], F extends (...args: A) => ReturnTyp
     ignoreInput,
     ignoreOutput,
     parentSpanContext,
+    budget,
+    links,
+    replayable,
   }, fn, undefined, ...args);
 }
 
@@ -373,6 +393,9 @@ export function observeDecorator<This, Args extends unknown[], Return>(
           ignoreInput: actualConfig.ignoreInput,
           ignoreOutput: actualConfig.ignoreOutput,
           parentSpanContext: actualConfig.parentSpanContext,
+          budget: actualConfig.budget,
+          links: actualConfig.links,
+          replayable: actualConfig.replayable,
         },
         originalMethod,
         this,
@@ -469,6 +492,9 @@ export function observeExperimentalDecorator(
           ignoreInput: actualConfig.ignoreInput,
           ignoreOutput: actualConfig.ignoreOutput,
           parentSpanContext: actualConfig.parentSpanContext,
+          budget: actualConfig.budget,
+          links: actualConfig.links,
+          replayable: actualConfig.replayable,
         },
         originalMethod,
         this,
@@ -0,0 +1,370 @@
+import { LaminarClient } from "@lmnr-ai/client";
+import { type EvaluationDatapoint } from "@lmnr-ai/types";
+
+import { isStringUUID, seededRandom } from "./utils";
+
+const DEFAULT_RESAMPLES = 2000;
+const DEFAULT_CONFIDENCE = 0.95;
+const DEFAULT_SEED = 42;
+
+/**
+ * A change of one score on one datapoint between the baseline and the current
+ * evaluation.
+ */
+export interface DatapointScoreChange {
+  /**
+   * Dataset datapoint ID if both runs are linked to the same dataset
+   * datapoint, otherwise the datapoint index.
+   */
+  key: string;
+  index: number;
+  baseline: number;
+  current: number;
+  delta: number;
+}
+
+export interface ScoreComparison {
+  /**
+   * Number of paired datapoints that have this score in both evaluations.
+   */
+  count: number;
+  baselineMean: number;
+  currentMean: number;
+  /**
+   * Mean of the paired differences, `current - baseline`.
+   */
+  meanDelta: number;
+  /**
+   * Bootstrap percentile confidence interval of `meanDelta`.
+   */
+  confidenceInterval: [number, number];
+  /**
+   * Two-sided p-value of a paired sign-flip permutation test of the null
+   * hypothesis that the mean difference is 0.
+   */
+  pValue: number;
+  /**
+   * Datapoints whose score went down, the largest drops first.
+   */
+  regressed: DatapointScoreChange[];
+  /**
+   * Datapoints whose score went up, the largest gains first.
+   */
+  improved: DatapointScoreChange[];
+}
+
+export interface EvaluationComparison {
+  baselineEvaluationId?: string;
+  evaluationId?: string;
+  /**
+   * Number of datapoints present in both evaluations.
+   */
+  pairedCount: number;
+  /**
+   * Number of datapoints present in only one of the evaluations.
+   */
+  unpairedCount: number;
+  scores: Record<string, ScoreComparison>;
+}
+
+export interface CompareOptions {
+  /**
+   * Number of bootstrap and permutation resamples. Defaults to 2000.
+   */
+  resamples?: number;
+  /**
+   * Confidence level of the interval. Defaults to 0.95.
+   */
+  confidence?: number;
+  /**
+   * Seed of the resampling, so that reruns print the same numbers.
+   */
+  seed?: number;
+}
+
+const mean = (values: number[]): number =>
+  values.length === 0 ? NaN : values.reduce((a, b) => a + b, 0) / values.length;
+
+const quantile = (sorted: number[], q: number): number => {
+  if (sorted.length === 0) return NaN;
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+};
+
+const bootstrapInterval = (
+  deltas: number[],
+  resamples: number,
+  confidence: number,
+  random: () => number,
+): [number, number] => {
+  if (deltas.length === 0) return [NaN, NaN];
+  const means: number[] = [];
+  for (let r = 0; r < resamples; r++) {
+    let sum = 0;
+    for (let i = 0; i < deltas.length; i++) {
+      sum += deltas[Math.floor(random() * deltas.length)];
+    }
+    means.push(sum / deltas.length);
+  }
+  means.sort((a, b) => a - b);
+  const alpha = (1 - confidence) / 2;
+  return [quantile(means, alpha), quantile(means, 1 - alpha)];
+};
+
+const signFlipPValue = (
+  deltas: number[],
+  resamples: number,
+  random: () => number,
+): number => {
+  if (deltas.length === 0) return NaN;
+  const observed = Math.abs(mean(deltas));
+  if (observed === 0) return 1;
+  let extreme = 0;
+  for (let r = 0; r < resamples; r++) {
+    let sum = 0;
+    for (const delta of deltas) {
+      sum += random() < 0.5 ? -delta : delta;
+    }
+    // Small tolerance so that ties with the observed statistic count as extreme
+    if (Math.abs(sum / deltas.length) >= observed - 1e-12) {
+      extreme++;
+    }
+  }
+  // +1 correction keeps the p-value away from an impossible exact 0
+  return (extreme + 1) / (resamples + 1);
+};
+
+const pairingKey = (datapoint: EvaluationDatapoint<any, any, any>): string =>
+  datapoint.datasetLink?.datapointId ?? String(datapoint.index);
+
+interface PairingGroup {
+  key: string;
+  index: number;
+  scores: Record<string, number>;
+}
+
+/**
+ * Group datapoints by pairing key, averaging the numeric scores of the trials
+ * of a multi-trial evaluation.
+ */
+const groupByKey = (
+  datapoints: EvaluationDatapoint<any, any, any>[],
+): Map<string, PairingGroup> => {
+  const values = new Map<string, { index: number; scores: Record<string, number[]> }>();
+  for (const datapoint of datapoints) {
+    const key = pairingKey(datapoint);
+    const group = values.get(key) ?? { index: datapoint.index, scores: {} };
+    for (const [name, value] of Object.entries(datapoint.scores ?? {})) {
+      if (typeof value !== "number") continue;
+      group.scores[name] = [...(group.scores[name] ?? []), value];
+    }
+    values.set(key, group);
+  }
+  const groups = new Map<string, PairingGroup>();
+  for (const [key, { index, scores }] of values) {
+    groups.set(key, {
+      key,
+      index,
+      scores: Object.fromEntries(
+        Object.entries(scores).map(([name, trialScores]) => [name, mean(trialScores)]),
+      ),
+    });
+  }
+  return groups;
+};
+
+/**
+ * Compare the scores of two evaluation runs datapoint by datapoint. Datapoints
+ * are paired by their dataset datapoint if the runs evaluated the same
+ * dataset, or by index otherwise. The trials of a multi-trial run are averaged
+ * per datapoint first. Higher scores are treated as better.
+ */
+export const compareDatapoints = (
+  baseline: EvaluationDatapoint<any, any, any>[],
+  current: EvaluationDatapoint<any, any, any>[],
+  options?: CompareOptions,
+): EvaluationComparison => {
+  const resamples = options?.resamples ?? DEFAULT_RESAMPLES;
+  const confidence = options?.confidence ?? DEFAULT_CONFIDENCE;
+  const random = seededRandom(options?.seed ?? DEFAULT_SEED);
+
+  const baselineByKey = groupByKey(baseline);
+  const currentByKey = groupByKey(current);
+  const pairs: [PairingGroup, PairingGroup][] = [];
+  for (const [key, group] of currentByKey) {
+    const paired = baselineByKey.get(key);
+    if (paired) {
+      pairs.push([paired, group]);
+    }
+  }
+
+  const changesByScore: Record<string, DatapointScoreChange[]> = {};
+  for (const [before, after] of pairs) {
+    for (const name in after.scores) {
+      const currentScore = after.scores[name];
+      const baselineScore = before.scores[name];
+      if (currentScore === undefined || baselineScore === undefined) {
+        continue;
+      }
+      if (!changesByScore[name]) {
+        changesByScore[name] = [];
+      }
+      changesByScore[name].push({
+        key: after.key,
+        index: after.index,
+        baseline: baselineScore,
+        current: currentScore,
+        delta: currentScore - baselineScore,
+      });
+    }
+  }
+
+  const scores: Record<string, ScoreComparison> = {};
+  for (const [name, changes] of Object.entries(changesByScore)) {
+    const deltas = changes.map((change) => change.delta);
+    scores[name] = {
+      count: changes.length,
+      baselineMean: mean(changes.map((change) => change.baseline)),
+      currentMean: mean(changes.map((change) => change.current)),
+      meanDelta: mean(deltas),
+      confidenceInterval: bootstrapInterval(deltas, resamples, confidence, random),
+      pValue: signFlipPValue(deltas, resamples, random),
+      regressed: changes
+        .filter((change) => change.delta < 0)
+        .sort((a, b) => a.delta - b.delta),
+      improved: changes
+        .filter((change) => change.delta > 0)
+        .sort((a, b) => b.delta - a.delta),
+    };
+  }
+
+  return {
+    pairedCount: pairs.length,
+    unpairedCount: baselineByKey.size + currentByKey.size - 2 * pairs.length,
+    scores,
+  };
+};
+
+/**
+ * Resolve a baseline reference to an evaluation ID. A UUID is taken as an
+ * evaluation ID, anything else as a group name, in which case the latest
+ * evaluation of the group other than `currentEvaluationId` is used.
+ */
+export const resolveBaselineEvaluationId = async (
+  client: LaminarClient,
+  baseline: string,
+  currentEvaluationId?: string,
+): Promise<string> => {
+  if (isStringUUID(baseline)) {
+    return baseline;
+  }
+  const evaluationId = await client.evals.getLatestEvaluationId(baseline, currentEvaluationId);
+  if (evaluationId === null) {
+    throw new Error(`No baseline evaluation found in group "${baseline}"`);
+  }
+  return evaluationId;
+};
+
+/**
+ * Compare two evaluations stored in Laminar.
+ *
+ * @param props.baseline Baseline evaluation ID, or a group name to compare
+ * against the latest evaluation in that group.
+ * @param props.current Current evaluation ID, or the datapoints of a run that
+ * was just evaluated.
+ * @param props.client Optional client. Defaults to a client configured from
+ * the environment.
+ * @returns The per-score comparison.
+ */
+export async function compareEvaluations({
+  baseline,
+  current,
+  client,
+  options,
+}: {
+  baseline: string;
+  current: string | EvaluationDatapoint<any, any, any>[];
+  client?: LaminarClient;
+  options?: CompareOptions;
+}): Promise<EvaluationComparison> {
+  const laminarClient = client ?? new LaminarClient();
+  const currentEvaluationId = typeof current === "string" ? current : undefined;
+  const baselineEvaluationId = await resolveBaselineEvaluationId(
+    laminarClient,
+    baseline,
+    currentEvaluationId,
+  );
+  const baselineDatapoints =
+    await laminarClient.evals.getEvaluationDatapoints(baselineEvaluationId);
+  const currentDatapoints = typeof current === "string"
+    ? await laminarClient.evals.getEvaluationDatapoints(current)
+    : current;
+  return {
+    ...compareDatapoints(baselineDatapoints, currentDatapoints, options),
+    baselineEvaluationId,
+    evaluationId: currentEvaluationId,
+  };
+}
+
+const formatNumber = (value: number): string =>
+  Number.isNaN(value) ? "-" : value.toFixed(4);
+
+const formatSigned = (value: number): string =>
+  Number.isNaN(value) ? "-" : (value > 0 ? "+" : "") + value.toFixed(4);
+
+/**
+ * Human-readable report of a comparison, as printed by `lmnr eval --compare`.
+ */
+export const formatComparison = (
+  comparison: EvaluationComparison,
+  { maxDatapoints = 5, confidence = DEFAULT_CONFIDENCE }: {
+    maxDatapoints?: number;
+    confidence?: number;
+  } = {},
+): string => {
+  const lines: string[] = [];
+  lines.push(
+    `Comparison with baseline ${comparison.baselineEvaluationId ?? ""}`.trimEnd() +
+    ` (${comparison.pairedCount} paired, ${comparison.unpairedCount} unpaired datapoints)`,
+  );
+  const header = [
+    "score", "baseline", "current", "delta", `${Math.round(confidence * 100)}% CI`, "p-value",
+  ];
+  const rows = Object.entries(comparison.scores).map(([name, score]) => [
+    name,
+    formatNumber(score.baselineMean),
+    formatNumber(score.currentMean),
+    formatSigned(score.meanDelta),
+    `[${formatSigned(score.confidenceInterval[0])}, ` +
+    `${formatSigned(score.confidenceInterval[1])}]`,
+    formatNumber(score.pValue),
+  ]);
+  const widths = header.map((cell, i) =>
+    Math.max(cell.length, ...rows.map((row) => row[i].length)));
+  for (const row of [header, ...rows]) {
+    lines.push(row.map((cell, i) => cell.padEnd(widths[i])).join("  ").trimEnd());
+  }
+
+  for (const [name, score] of Object.entries(comparison.scores)) {
+    for (const [label, changes] of [
+      ["Regressed", score.regressed],
+      ["Improved", score.improved],
+    ] as const) {
+      if (changes.length === 0) continue;
+      lines.push(`\n${label} on ${name} (${changes.length}):`);
+      for (const change of changes.slice(0, maxDatapoints)) {
+        lines.push(
+          `  #${change.index} ${change.key === String(change.index) ? "" : change.key + " "}` +
+          `${formatNumber(change.baseline)} -> ${formatNumber(change.current)} ` +
+          `(${formatSigned(change.delta)})`,
+        );
+      }
+      if (changes.length > maxDatapoints) {
+        lines.push(`  ... and ${changes.length - maxDatapoints} more`);
+      }
+    }
+  }
+  return lines.join("\n") + "\n";
+};
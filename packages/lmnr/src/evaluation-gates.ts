@@ -0,0 +1,210 @@
+import { type EvaluationComparison } from "./evaluation-comparison";
+
+export type ThresholdOperator = ">=" | ">" | "<=" | "<";
+
+/**
+ * Assertion on the average of a score, e.g. `{ score: "accuracy", operator:
+ * ">=", value: 0.85 }`.
+ */
+export interface ScoreThreshold {
+  score: string;
+  operator: ThresholdOperator;
+  value: number;
+}
+
+/**
+ * Outcome of one quality gate of an evaluation.
+ */
+export interface GateResult {
+  /**
+   * Human-readable gate, e.g. `accuracy >= 0.85`.
+   */
+  gate: string;
+  score: string;
+  /**
+   * The value the gate checked: the average score, or the relative drop from
+   * the baseline. Null if the score is missing.
+   */
+  actual: number | null;
+  passed: boolean;
+  message?: string;
+}
+
+const THRESHOLD_REGEX = /^\s*(.+?)\s*(>=|<=|>|<)\s*(-?\d+(?:\.\d+)?(?:e-?\d+)?)\s*$/i;
+
+/**
+ * Parse a threshold expression like `accuracy>=0.85`.
+ */
+export const parseThreshold = (expression: string): ScoreThreshold => {
+  const match = expression.match(THRESHOLD_REGEX);
+  if (!match) {
+    throw new Error(
+      `Invalid threshold "${expression}". ` +
+      "Expected <score><operator><number>, e.g. accuracy>=0.85",
+    );
+  }
+  return {
+    score: match[1],
+    operator: match[2] as ThresholdOperator,
+    value: parseFloat(match[3]),
+  };
+};
+
+const compare = (actual: number, operator: ThresholdOperator, expected: number): boolean => {
+  switch (operator) {
+    case ">=":
+      return actual >= expected;
+    case ">":
+      return actual > expected;
+    case "<=":
+      return actual <= expected;
+    case "<":
+      return actual < expected;
+  }
+};
+
+/**
+ * Check the average scores against absolute thresholds and, if
+ * `maxScoreDrop` is set, every compared score against its baseline.
+ * `maxScoreDrop` is the largest allowed relative drop of an average score,
+ * e.g. 0.02 fails the gate if any score is more than 2% below the baseline.
+ */
+export const checkGates = ({
+  averageScores,
+  thresholds = [],
+  maxScoreDrop,
+  comparison,
+}: {
+  averageScores: Record<string, number>;
+  thresholds?: (string | ScoreThreshold)[];
+  maxScoreDrop?: number;
+  comparison?: EvaluationComparison;
+}): GateResult[] => {
+  const results: GateResult[] = [];
+  for (const threshold of thresholds) {
+    const { score, operator, value } = typeof threshold === "string"
+      ? parseThreshold(threshold)
+      : threshold;
+    const gate = `${score} ${operator} ${value}`;
+    const actual = averageScores[score];
+    if (actual === undefined || Number.isNaN(actual)) {
+      results.push({
+        gate,
+        score,
+        actual: null,
+        passed: false,
+        message: `Score "${score}" was not produced by any evaluator`,
+      });
+      continue;
+    }
+    results.push({ gate, score, actual, passed: compare(actual, operator, value) });
+  }
+
+  if (maxScoreDrop !== undefined) {
+    const gate = `max drop ${maxScoreDrop * 100}%`;
+    if (!comparison) {
+      results.push({
+        gate,
+        score: "*",
+        actual: null,
+        passed: false,
+        message: "No baseline evaluation to compare with",
+      });
+    } else {
+      for (const [score, scoreComparison] of Object.entries(comparison.scores)) {
+        const { baselineMean, currentMean } = scoreComparison;
+        // Relative drop, or absolute drop if the baseline is 0
+        const drop = baselineMean === 0
+          ? baselineMean - currentMean
+          : (baselineMean - currentMean) / Math.abs(baselineMean);
+        results.push({
+          gate: `${score} ${gate}`,
+          score,
+          actual: drop,
+          passed: drop <= maxScoreDrop,
+          message: `${baselineMean} -> ${currentMean}`,
+        });
+      }
+    }
+  }
+  return results;
+};
+
+const formatActual = (result: GateResult): string =>
+  result.actual === null ? "-" : String(Number(result.actual.toFixed(4)));
+
+/**
+ * Table of gate results, e.g.
+ *
+ * ```
+ * gate              actual  result
+ * accuracy >= 0.85  0.8     FAIL
+ * ```
+ */
+export const formatGateTable = (results: GateResult[]): string => {
+  const header = ["gate", "actual", "result", ""];
+  const rows = results.map((result) => [
+    result.gate,
+    formatActual(result),
+    result.passed ? "PASS" : "FAIL",
+    result.message ?? "",
+  ]);
+  const widths = header.map((cell, i) =>
+    Math.max(cell.length, ...rows.map((row) => row[i].length)));
+  return [header, ...rows]
+    .map((row) => row.map((cell, i) => cell.padEnd(widths[i])).join("  ").trimEnd())
+    .join("\n") + "\n";
+};
+
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+
+/**
+ * JUnit XML report with one test suite per evaluation and one test case per
+ * gate, for CI systems that render test results.
+ */
+export const toJUnitXml = (
+  suites: { name: string; gates: GateResult[]; errorMessage?: string }[],
+): string => {
+  const lines = ['<?xml version="1.0" encoding="UTF-8"?>'];
+  const total = suites.reduce((sum, suite) => sum + suite.gates.length, 0);
+  const failures = suites.reduce(
+    (sum, suite) => sum + suite.gates.filter((gate) => !gate.passed).length,
+    0,
+  );
+  const errors = suites.filter((suite) => suite.errorMessage !== undefined).length;
+  lines.push(
+    `<testsuites name="lmnr eval" tests="${total}" failures="${failures}" errors="${errors}">`,
+  );
+  for (const suite of suites) {
+    const suiteFailures = suite.gates.filter((gate) => !gate.passed).length;
+    lines.push(
+      `  <testsuite name="${escapeXml(suite.name)}" tests="${suite.gates.length}" ` +
+      `failures="${suiteFailures}" errors="${suite.errorMessage !== undefined ? 1 : 0}">`,
+    );
+    if (suite.errorMessage !== undefined) {
+      lines.push(`    <error message="${escapeXml(suite.errorMessage)}"/>`);
+    }
+    for (const gate of suite.gates) {
+      const testCase =
+        `    <testcase classname="${escapeXml(suite.name)}" name="${escapeXml(gate.gate)}"`;
+      if (gate.passed) {
+        lines.push(`${testCase}/>`);
+        continue;
+      }
+      const message = `actual: ${formatActual(gate)}` +
+        (gate.message ? `. ${gate.message}` : "");
+      lines.push(`${testCase}>`);
+      lines.push(`      <failure message="${escapeXml(message)}"/>`);
+      lines.push("    </testcase>");
+    }
+    lines.push("  </testsuite>");
+  }
+  lines.push("</testsuites>");
+  return lines.join("\n") + "\n";
+};
@@ -0,0 +1,164 @@
+import { appendFileSync, existsSync, mkdirSync, readFileSync, rmSync } from "node:fs";
+import { basename, dirname, join } from "node:path";
+
+import { type StringUUID } from "@lmnr-ai/types";
+
+import { initializeLogger } from "./utils";
+
+const logger = initializeLogger();
+
+const JOURNAL_SUFFIX = ".lmnr-journal.jsonl";
+
+/**
+ * First line of a journal. Identifies the evaluation that the completed
+ * datapoints below it were saved to, so a rerun can keep appending to it.
+ */
+export type EvaluationJournalHeader = {
+  type: "evaluation";
+  evaluationId: StringUUID;
+  projectId: string;
+  name?: string;
+  groupName?: string;
+  createdAt: string;
+};
+
+/**
+ * One line per datapoint (or trial of a datapoint) whose final result was successfully saved with
+ * `saveDatapoints`.
+ */
+export type EvaluationJournalEntry = {
+  type: "datapoint";
+  index: number;
+  // Only set for multi-trial evaluations
+  trialIndex?: number;
+  id: StringUUID;
+  scores: Record<string, number | null>;
+  traceId: string;
+  executorSpanId?: string;
+  // Dataset datapoint id, if the datapoint came from a dataset. Used to detect
+  // that the dataset changed underneath the journal between runs.
+  sourceId?: string;
+};
+
+const entryKey = (index: number, trialIndex?: number): string =>
+  trialIndex === undefined ? String(index) : `${index}:${trialIndex}`;
+
+/**
+ * Default journal location: next to the eval file, e.g.
+ * `evals/.my.eval.ts.lmnr-journal.jsonl`, or
+ * `evals/.my.eval.ts.<name>.lmnr-journal.jsonl` for a named evaluation so that
+ * several evaluations in one file do not share a journal.
+ */
+export const defaultJournalPath = (evalFile: string, name?: string): string => {
+  const slug = name ? "." + name.replace(/[^\w-]+/g, "_") : "";
+  return join(dirname(evalFile), `.${basename(evalFile)}${slug}${JOURNAL_SUFFIX}`);
+};
+
+/**
+ * Append-only local journal of the datapoints an evaluation has finished. Lets
+ * a crashed or killed run be resumed without re-running (and re-paying for)
+ * the executor on datapoints that are already saved.
+ */
+export class EvaluationJournal {
+  public readonly path: string;
+  private header: EvaluationJournalHeader | null = null;
+  private entries: Map<string, EvaluationJournalEntry> = new Map();
+
+  private constructor(path: string) {
+    this.path = path;
+  }
+
+  /**
+   * Read the journal at `path`. Best-effort: a missing file yields an empty
+   * journal, and malformed lines (e.g. one torn by a crash mid-write) are
+   * skipped.
+   */
+  public static load(path: string): EvaluationJournal {
+    const journal = new EvaluationJournal(path);
+    if (!existsSync(path)) {
+      return journal;
+    }
+    const lines = readFileSync(path, "utf-8").split("\n");
+    for (const line of lines) {
+      if (line.trim().length === 0) continue;
+      let parsed: EvaluationJournalHeader | EvaluationJournalEntry;
+      try {
+        parsed = JSON.parse(line) as EvaluationJournalHeader | EvaluationJournalEntry;
+      } catch {
+        logger.debug(`Skipping malformed line in evaluation journal ${path}`);
+        continue;
+      }
+      if (parsed.type === "evaluation" && journal.header === null) {
+        journal.header = parsed;
+      } else if (parsed.type === "datapoint" && typeof parsed.index === "number") {
+        journal.entries.set(entryKey(parsed.index, parsed.trialIndex), parsed);
+      }
+    }
+    if (journal.header === null && journal.entries.size > 0) {
+      logger.warn(
+        `Evaluation journal ${path} has no evaluation header. Ignoring its entries.`,
+      );
+      journal.entries.clear();
+    }
+    return journal;
+  }
+
+  public getHeader(): EvaluationJournalHeader | null {
+    return this.header;
+  }
+
+  public get completedCount(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * The journaled result for `index` (and `trialIndex`), or undefined if that
+   * datapoint still needs to run. A recorded `sourceId` that does not match
+   * the current dataset datapoint means the dataset changed, so the datapoint
+   * re-runs.
+   */
+  public getCompleted(
+    index: number,
+    sourceId?: string,
+    trialIndex?: number,
+  ): EvaluationJournalEntry | undefined {
+    const entry = this.entries.get(entryKey(index, trialIndex));
+    if (entry && entry.sourceId && sourceId && entry.sourceId !== sourceId) {
+      logger.warn(
+        `Datapoint at index ${index} does not match the journaled datapoint. ` +
+        "Re-running it.",
+      );
+      return undefined;
+    }
+    return entry;
+  }
+
+  public start(header: Omit<EvaluationJournalHeader, "type" | "createdAt">) {
+    this.header = { type: "evaluation", ...header, createdAt: new Date().toISOString() };
+    this.entries.clear();
+    mkdirSync(dirname(this.path), { recursive: true });
+    // Truncate any stale journal from a different evaluation.
+    rmSync(this.path, { force: true });
+    this.append(this.header);
+  }
+
+  public record(entry: Omit<EvaluationJournalEntry, "type">) {
+    const line: EvaluationJournalEntry = { type: "datapoint", ...entry };
+    this.entries.set(entryKey(entry.index, entry.trialIndex), line);
+    this.append(line);
+  }
+
+  /**
+   * Remove the journal once the evaluation has finished, so the next run of
+   * the same file starts a fresh evaluation.
+   */
+  public remove() {
+    rmSync(this.path, { force: true });
+  }
+
+  private append(line: EvaluationJournalHeader | EvaluationJournalEntry) {
+    // Sync append, so that a line is on disk before the next datapoint
+    // finishes and a kill between the two cannot lose it.
+    appendFileSync(this.path, JSON.stringify(line) + "\n", "utf-8");
+  }
+}
@@ -0,0 +1,276 @@
+import { mkdirSync, writeFileSync } from "node:fs";
+import { join, resolve } from "node:path";
+
+import { type EvaluationDatapoint } from "@lmnr-ai/types";
+import { SpanStatusCode } from "@opentelemetry/api";
+import { type ExportResult, ExportResultCode, hrTimeToMilliseconds } from "@opentelemetry/core";
+import { type ReadableSpan, type SpanExporter } from "@opentelemetry/sdk-trace-base";
+
+import { SPAN_INPUT, SPAN_OUTPUT, SPAN_TYPE } from "./opentelemetry-lib/tracing/attributes";
+import { type OTelSpanCompat } from "./opentelemetry-lib/tracing/compat";
+import { newUUID, otelSpanIdToUUID, otelTraceIdToUUID, StringUUID } from "./utils";
+
+export const LOCAL_PROJECT_ID = "local";
+export const DEFAULT_LOCAL_OUTPUT_DIR = ".lmnr/evals";
+
+/**
+ * Where an evaluation stores its results: the Laminar backend (`client.evals`)
+ * or, in local mode, a {@link LocalEvaluationStore}.
+ */
+export interface EvaluationStore {
+  init(
+    name?: string,
+    groupName?: string,
+    metadata?: Record<string, any>,
+  ): Promise<{ id: StringUUID; projectId: string }>;
+  saveDatapoints<D, T, O>(options: {
+    evalId: string;
+    datapoints: EvaluationDatapoint<D, T, O>[];
+    groupName?: string;
+  }): Promise<void>;
+}
+
+/**
+ * A finished span, as written to a local evaluation report.
+ */
+export interface LocalSpan {
+  spanId: string;
+  parentSpanId?: string;
+  traceId: string;
+  name: string;
+  spanType?: string;
+  startTime: string;
+  endTime: string;
+  durationMs: number;
+  input?: unknown;
+  output?: unknown;
+  attributes: Record<string, unknown>;
+  status: "ok" | "error" | "unset";
+}
+
+const parseJsonAttribute = (value: unknown): unknown => {
+  if (typeof value !== "string") return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+};
+
+const toLocalSpan = (span: ReadableSpan): LocalSpan => {
+  const { [SPAN_INPUT]: input, [SPAN_OUTPUT]: output, ...attributes } = span.attributes;
+  const parentSpanId = (span as OTelSpanCompat).parentSpanContext?.spanId
+    ?? (span as OTelSpanCompat).parentSpanId;
+  const startMs = hrTimeToMilliseconds(span.startTime);
+  const endMs = hrTimeToMilliseconds(span.endTime);
+  return {
+    spanId: otelSpanIdToUUID(span.spanContext().spanId),
+    parentSpanId: parentSpanId ? otelSpanIdToUUID(parentSpanId) : undefined,
+    traceId: otelTraceIdToUUID(span.spanContext().traceId),
+    name: span.name,
+    spanType: attributes[SPAN_TYPE] as string | undefined,
+    startTime: new Date(startMs).toISOString(),
+    endTime: new Date(endMs).toISOString(),
+    durationMs: endMs - startMs,
+    input: parseJsonAttribute(input),
+    output: parseJsonAttribute(output),
+    attributes,
+    status: span.status.code === SpanStatusCode.ERROR
+      ? "error"
+      : span.status.code === SpanStatusCode.OK ? "ok" : "unset",
+  };
+};
+
+/**
+ * Span exporter that keeps finished spans in memory, so that a local
+ * evaluation can put each datapoint's trace in its report.
+ */
+export class LocalSpanCollector implements SpanExporter {
+  private spans: LocalSpan[] = [];
+
+  export(spans: ReadableSpan[], resultCallback: (result: ExportResult) => void): void {
+    this.spans.push(...spans.map(toLocalSpan));
+    resultCallback({ code: ExportResultCode.SUCCESS });
+  }
+
+  shutdown(): Promise<void> {
+    return Promise.resolve();
+  }
+
+  forceFlush(): Promise<void> {
+    return Promise.resolve();
+  }
+
+  public getSpans(traceId: string): LocalSpan[] {
+    return this.spans.filter((span) => span.traceId === traceId);
+  }
+}
+
+interface LocalEvaluation {
+  id: StringUUID;
+  name?: string;
+  groupName?: string;
+  metadata?: Record<string, any>;
+  createdAt: string;
+}
+
+/**
+ * Evaluation store that keeps results in memory and writes them to a JSONL
+ * file and a self-contained HTML report, without any network calls.
+ */
+export class LocalEvaluationStore implements EvaluationStore {
+  private readonly outputDir: string;
+  private evaluation: LocalEvaluation | null = null;
+  // Keyed by datapoint id, so that the final save of a datapoint replaces the
+  // partial one saved before the executor ran.
+  private datapoints: Map<string, EvaluationDatapoint<any, any, any>> = new Map();
+
+  constructor(outputDir: string = DEFAULT_LOCAL_OUTPUT_DIR) {
+    this.outputDir = outputDir;
+  }
+
+  public init(
+    name?: string,
+    groupName?: string,
+    metadata?: Record<string, any>,
+  ): Promise<{ id: StringUUID; projectId: string }> {
+    this.evaluation = {
+      id: newUUID(),
+      name,
+      groupName,
+      metadata,
+      createdAt: new Date().toISOString(),
+    };
+    return Promise.resolve({ id: this.evaluation.id, projectId: LOCAL_PROJECT_ID });
+  }
+
+  public saveDatapoints<D, T, O>({ datapoints }: {
+    evalId: string;
+    datapoints: EvaluationDatapoint<D, T, O>[];
+    groupName?: string;
+  }): Promise<void> {
+    for (const datapoint of datapoints) {
+      this.datapoints.set(datapoint.id, datapoint);
+    }
+    return Promise.resolve();
+  }
+
+  /**
+   * Write `<id>.jsonl` and `<id>.html` to the output directory. The first
+   * JSONL line describes the evaluation, every next line is a datapoint with
+   * the spans of its trace.
+   *
+   * @returns The paths of the written files.
+   */
+  public writeReport({
+    averageScores,
+    spanCollector,
+  }: {
+    averageScores: Record<string, number>;
+    spanCollector?: LocalSpanCollector;
+  }): { jsonlPath: string; htmlPath: string } {
+    if (!this.evaluation) {
+      throw new Error("Local evaluation was not initialized");
+    }
+    const evaluation = { type: "evaluation", ...this.evaluation, averageScores };
+    const datapoints = [...this.datapoints.values()]
+      .sort((a, b) => a.index - b.index || (a.trialIndex ?? 0) - (b.trialIndex ?? 0))
+      .map((datapoint) => ({
+        type: "datapoint",
+        ...datapoint,
+        spans: spanCollector?.getSpans(datapoint.traceId) ?? [],
+      }));
+
+    mkdirSync(this.outputDir, { recursive: true });
+    const jsonlPath = resolve(join(this.outputDir, `${this.evaluation.id}.jsonl`));
+    const htmlPath = resolve(join(this.outputDir, `${this.evaluation.id}.html`));
+    writeFileSync(
+      jsonlPath,
+      [evaluation, ...datapoints].map((line) => JSON.stringify(line)).join("\n") + "\n",
+    );
+    writeFileSync(htmlPath, renderHtmlReport(evaluation, datapoints));
+    return { jsonlPath, htmlPath };
+  }
+}
+
+const escapeHtml = (value: string): string =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+// Keep the embedded JSON from closing the script tag early.
+const escapeScriptJson = (value: unknown): string =>
+  JSON.stringify(value).replace(/</g, "\\u003c");
+
+const renderHtmlReport = (evaluation: Record<string, any>, datapoints: unknown[]): string => `\
+<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Evaluation ${escapeHtml(String(evaluation.name ?? evaluation.id))}</title>
+<style>
+  body { font-family: system-ui, sans-serif; margin: 24px; color: #1f2328; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { border: 1px solid #d0d7de; padding: 6px 8px; text-align: left; vertical-align: top; }
+  th { background: #f6f8fa; }
+  pre { margin: 0; white-space: pre-wrap; word-break: break-word; }
+  pre { max-height: 240px; overflow: auto; }
+  details { margin-top: 4px; }
+  .span { margin-left: 16px; }
+  .error { color: #cf222e; }
+</style>
+</head>
+<body>
+<h1 id="title"></h1>
+<p id="summary"></p>
+<table id="datapoints"></table>
+<script>
+const evaluation = ${escapeScriptJson(evaluation)};
+const datapoints = ${escapeScriptJson(datapoints)};
+
+const el = (tag, props = {}, children = []) => {
+  const node = Object.assign(document.createElement(tag), props);
+  node.append(...children);
+  return node;
+};
+const pre = (value) => el("pre", {
+  textContent: typeof value === "string" ? value : JSON.stringify(value, null, 2),
+});
+const renderSpans = (spans, parentSpanId) => spans
+  .filter((span) => span.parentSpanId === parentSpanId ||
+    (!parentSpanId && !spans.some((other) => other.spanId === span.parentSpanId)))
+  .sort((a, b) => a.startTime.localeCompare(b.startTime))
+  .map((span) => el("details", { className: "span" }, [
+    el("summary", {
+      textContent: span.name + (span.spanType ? " [" + span.spanType + "]" : "") +
+        " " + Math.round(span.durationMs) + "ms",
+      className: span.status === "error" ? "error" : "",
+    }),
+    ...(span.input !== undefined ? [el("div", { textContent: "Input" }), pre(span.input)] : []),
+    ...(span.output !== undefined ? [el("div", { textContent: "Output" }), pre(span.output)] : []),
+    ...renderSpans(spans, span.spanId),
+  ]));
+
+document.getElementById("title").textContent =
+  "Evaluation " + (evaluation.name ?? evaluation.id);
+document.getElementById("summary").textContent =
+  "Average scores: " + Object.entries(evaluation.averageScores)
+    .map(([name, score]) => name + " " + score).join(", ");
+const table = document.getElementById("datapoints");
+table.append(el("tr", {}, ["#", "Data", "Target", "Output", "Scores", "Trace"]
+  .map((header) => el("th", { textContent: header }))));
+for (const datapoint of datapoints) {
+  table.append(el("tr", {}, [
+    el("td", {
+      textContent: datapoint.index +
+        (datapoint.trialIndex !== undefined ? "." + datapoint.trialIndex : ""),
+    }),
+    el("td", {}, [pre(datapoint.data)]),
+    el("td", {}, [pre(datapoint.target ?? "")]),
+    el("td", {}, [pre(datapoint.executorOutput ?? "")]),
+    el("td", {}, [pre(datapoint.scores ?? {})]),
+    el("td", {}, renderSpans(datapoint.spans)),
+  ]));
+}
+</script>
+</body>
+</html>
+`;
@@ -0,0 +1,100 @@
+import { type EvaluationDatapoint } from "@lmnr-ai/types";
+
+/**
+ * Spread of one score over the trials of a multi-trial evaluation.
+ */
+export interface TrialStatistics {
+  mean: number;
+  /**
+   * Average over datapoints of the standard deviation of the score across
+   * that datapoint's trials, i.e. how much the score varies between reruns of
+   * the same input.
+   */
+  stddev: number;
+  min: number;
+  max: number;
+  /**
+   * Unbiased pass@k estimate, keyed by k: the probability that at least one
+   * of k trials drawn from a datapoint's trials passes, averaged over
+   * datapoints.
+   */
+  passAtK: Record<number, number>;
+}
+
+/**
+ * Number of ways to choose k of n, as a float. Fine for the trial counts an
+ * evaluation runs.
+ */
+const binomial = (n: number, k: number): number => {
+  if (k < 0 || k > n) return 0;
+  let result = 1;
+  for (let i = 1; i <= k; i++) {
+    result = result * (n - k + i) / i;
+  }
+  return result;
+};
+
+/**
+ * pass@k of one datapoint with `n` trials of which `c` passed, as in
+ * "Evaluating Large Language Models Trained on Code" (Chen et al., 2021).
+ */
+export const passAtK = (n: number, c: number, k: number): number => {
+  if (n - c < k) return 1;
+  return 1 - binomial(n - c, k) / binomial(n, k);
+};
+
+const mean = (values: number[]): number =>
+  values.reduce((a, b) => a + b, 0) / values.length;
+
+const stddev = (values: number[]): number => {
+  const m = mean(values);
+  return Math.sqrt(mean(values.map((value) => (value - m) ** 2)));
+};
+
+/**
+ * Per-score statistics over the trials of a multi-trial evaluation. A trial
+ * passes if its score is at least `passThreshold`. Datapoints with fewer
+ * scored trials than k (e.g. because of errors) are left out of pass@k.
+ */
+export const getTrialStatistics = (
+  datapoints: EvaluationDatapoint<any, any, any>[],
+  { ks, passThreshold = 1 }: { ks: number[]; passThreshold?: number },
+): Record<string, TrialStatistics> => {
+  // score name -> datapoint index -> trial scores
+  const trialScores: Record<string, Map<number, number[]>> = {};
+  for (const datapoint of datapoints) {
+    for (const [name, value] of Object.entries(datapoint.scores ?? {})) {
+      if (typeof value !== "number") continue;
+      if (!trialScores[name]) {
+        trialScores[name] = new Map();
+      }
+      const scores = trialScores[name].get(datapoint.index) ?? [];
+      scores.push(value);
+      trialScores[name].set(datapoint.index, scores);
+    }
+  }
+
+  const statistics: Record<string, TrialStatistics> = {};
+  for (const [name, byDatapoint] of Object.entries(trialScores)) {
+    const groups = [...byDatapoint.values()];
+    const all = groups.flat();
+    const passRates: Record<number, number> = {};
+    for (const k of ks) {
+      const eligible = groups.filter((scores) => scores.length >= k);
+      if (eligible.length === 0) continue;
+      passRates[k] = mean(eligible.map((scores) => passAtK(
+        scores.length,
+        scores.filter((score) => score >= passThreshold).length,
+        k,
+      )));
+    }
+    statistics[name] = {
+      mean: mean(all),
+      stddev: mean(groups.map(stddev)),
+      min: Math.min(...all),
+      max: Math.max(...all),
+      passAtK: passRates,
+    };
+  }
+  return statistics;
+};
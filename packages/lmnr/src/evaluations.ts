@@ -3,9 +3,34 @@ import { errorMessage, EvaluationDatapoint } from "@lmnr-ai/types";
 import { trace } from "@opentelemetry/api";
 import * as cliProgress from "cli-progress";
 
-import { EvaluationDataset, LaminarDataset } from "./datasets";
+import { ArrayDataset, EvaluationDataset, getLaminarDatasets } from "./datasets";
 import { getRuntime } from "./debug";
 import { observe } from "./decorators";
+import {
+  compareEvaluations,
+  type EvaluationComparison,
+  formatComparison,
+  resolveBaselineEvaluationId,
+} from "./evaluation-comparison";
+import {
+  checkGates,
+  formatGateTable,
+  type GateResult,
+  parseThreshold,
+  type ScoreThreshold,
+} from "./evaluation-gates";
+import {
+  defaultJournalPath,
+  EvaluationJournal,
+  type EvaluationJournalEntry,
+} from "./evaluation-journal";
+import {
+  DEFAULT_LOCAL_OUTPUT_DIR,
+  type EvaluationStore,
+  LocalEvaluationStore,
+  LocalSpanCollector,
+} from "./evaluation-local";
+import { getTrialStatistics, type TrialStatistics } from "./evaluation-trials";
 import { Laminar } from "./laminar";
 import { InitializeOptions } from "./opentelemetry-lib/interfaces";
 import {
@@ -16,6 +41,7 @@ import {
   ASSOCIATION_PROPERTIES_KEY,
   LaminarContextManager,
 } from "./opentelemetry-lib/tracing/context";
+import { LaminarSpanProcessor } from "./opentelemetry-lib/tracing/processor";
 import {
   getFrontendUrl,
   initializeLogger,
@@ -31,6 +57,10 @@ loadEnv();
 
 const DEFAULT_CONCURRENCY = 5;
 const MAX_EXPORT_BATCH_SIZE = 64;
+const DEFAULT_RETRY_BACKOFF_MILLIS = 1000;
+// Datapoint-metadata key under which executor/evaluator errors are recorded
+// when the error policy lets the datapoint through.
+const ERRORS_METADATA_KEY = "lmnr.errors";
 
 declare global {
   var _evaluations: Evaluation<any, any, any>[] | undefined;
@@ -79,6 +109,93 @@ const withSessionMetadata = (
   return { ...(metadata ?? {}), [SESSION_METADATA_KEY]: sessionId };
 };
 
+/**
+ * What to do with a datapoint when the executor or an evaluator still fails
+ * after all retries.
+ * - `fail` – fail the whole evaluation run (default).
+ * - `skip` – keep going. A failed executor skips all evaluators, a failed
+ *   evaluator produces no score.
+ * - `score-as-null` – keep going, and record a null score for the failed
+ *   evaluator (or for every evaluator, if the executor failed).
+ */
+type EvaluationErrorPolicy = "fail" | "skip" | "score-as-null";
+
+/**
+ * Retry, timeout and error handling for calls to the executor or an evaluator.
+ */
+interface EvaluationCallPolicy {
+  /**
+   * Number of times to retry a failed or timed out call. Defaults to 0.
+   */
+  retries?: number;
+  /**
+   * Delay before the first retry, doubled on every next retry.
+   * Defaults to 1000 (1 second).
+   */
+  retryBackoffMillis?: number;
+  /**
+   * Timeout for a single call. The timed out call is not cancelled, its
+   * result is just ignored. No timeout by default.
+   */
+  timeoutMillis?: number;
+  /**
+   * What to do when the call still fails after all retries. Defaults to `fail`.
+   */
+  onError?: EvaluationErrorPolicy;
+}
+
+const runWithTimeout = async <R>(
+  fn: () => R | Promise<R>,
+  timeoutMillis: number | undefined,
+  label: string,
+): Promise<R> => {
+  if (timeoutMillis === undefined) {
+    return await fn();
+  }
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(new Error(`${label} timed out after ${timeoutMillis}ms`)),
+      timeoutMillis,
+    );
+  });
+  try {
+    return await Promise.race([Promise.resolve().then(fn), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+/**
+ * Call `fn` under `policy`'s timeout and retries. Failed attempts that are
+ * going to be retried are recorded as exceptions on the active span, the
+ * last failure is thrown.
+ */
+const runWithPolicy = async <R>(
+  fn: () => R | Promise<R>,
+  policy: EvaluationCallPolicy,
+  label: string,
+): Promise<R> => {
+  const retries = Math.max(policy.retries ?? 0, 0);
+  let backoff = policy.retryBackoffMillis ?? DEFAULT_RETRY_BACKOFF_MILLIS;
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await runWithTimeout(fn, policy.timeoutMillis, label);
+    } catch (error) {
+      if (attempt >= retries) {
+        throw error;
+      }
+      trace.getSpan(LaminarContextManager.getContext())?.recordException(error as Error);
+      logger.debug(
+        `${label} failed: ${errorMessage(error)}. ` +
+        `Retrying... ${attempt + 1} of ${retries}`,
+      );
+      await new Promise((resolve) => setTimeout(resolve, backoff));
+      backoff *= 2;
+    }
+  }
+};
+
 const getAverageScores = <D, T, O>(
   results: EvaluationDatapoint<D, T, O>[],
 ): Record<string, number> => {
@@ -164,6 +281,79 @@ interface EvaluationConfig {
    * The port for the Laminar , when running self-hosted. If not provided, the default is 5667.
    */
   frontendPort?: number;
+  /**
+   * If true, completed datapoints are written to a local journal as they are
+   * saved. If the run is interrupted, the next run resumes the same evaluation
+   * and skips the datapoints already in the journal. The journal is removed
+   * once the evaluation finishes. Defaults to false.
+   */
+  resume?: boolean;
+  /**
+   * Path of the resume journal. Defaults to a hidden `.lmnr-journal.jsonl`
+   * file next to the eval file. Only used if `resume` is true.
+   */
+  journalPath?: string;
+  /**
+   * Retries, timeout and error policy for the executor. By default, the
+   * executor is not retried and its error fails the evaluation.
+   */
+  executorPolicy?: EvaluationCallPolicy;
+  /**
+   * Retries, timeout and error policy for every evaluator. By default,
+   * evaluators are not retried and their errors fail the evaluation.
+   */
+  evaluatorPolicy?: EvaluationCallPolicy;
+  /**
+   * Per-evaluator overrides of `evaluatorPolicy`, keyed by evaluator name.
+   */
+  evaluatorPolicies?: Record<string, EvaluationCallPolicy>;
+  /**
+   * Baseline to compare the results against once the evaluation finishes:
+   * an evaluation ID, or a group name to compare against the latest other
+   * evaluation in that group. The comparison is printed and returned in the
+   * run result.
+   */
+  compareTo?: string;
+  /**
+   * Assertions on the average scores, e.g. `["accuracy>=0.85"]` or
+   * `[{ score: "accuracy", operator: ">=", value: 0.85 }]`. Results are
+   * printed and returned in the run result, and `lmnr eval` exits with a
+   * non-zero code if any of them fails.
+   */
+  thresholds?: (string | ScoreThreshold)[];
+  /**
+   * Largest allowed relative drop of any average score compared to the
+   * `compareTo` baseline, e.g. 0.02 for "no score drops more than 2%".
+   */
+  maxScoreDrop?: number;
+  /**
+   * Number of times to run the executor and evaluators on every datapoint.
+   * Each trial gets its own executor span in the datapoint's trace and is
+   * saved as its own result with a `trialIndex`. With more than one trial,
+   * per-score trial statistics are printed and returned in the run result.
+   * Defaults to 1.
+   */
+  trials?: number;
+  /**
+   * Minimum score for a trial to count as passed in pass@k. Defaults to 1.
+   */
+  passThreshold?: number;
+  /**
+   * Values of k to report pass@k for. Defaults to 1 and `trials`.
+   */
+  passAtK?: number[];
+  /**
+   * `local` runs the evaluation without the Laminar backend: no project API
+   * key is needed, no network calls are made, and the results and traces are
+   * written to a JSONL file and an HTML report in `localOutputDir`. Defaults
+   * to `remote`, or to `local` if the `LMNR_EVAL_MODE` environment variable
+   * is set to `local`, as `lmnr eval --local` does.
+   */
+  mode?: "remote" | "local";
+  /**
+   * Directory of the local mode reports. Defaults to `.lmnr/evals`.
+   */
+  localOutputDir?: string;
 }
 
 /**
@@ -192,6 +382,10 @@ export type Datapoint<D, T> = {
    * Optional creation timestamp (from dataset)
    */
   createdAt?: string;
+  /**
+   * Optional ID of the dataset the datapoint is from (from dataset)
+   */
+  datasetId?: StringUUID;
 };
 
 /**
@@ -265,8 +459,13 @@ interface EvaluationRunResult {
   evaluationId: string;
   url: string;
   errorMessage?: string;
+  comparison?: EvaluationComparison;
+  gates?: GateResult[];
+  trialStatistics?: Record<string, TrialStatistics>;
 }
 
+const formatStatistic = (value: number): string => String(Number(value.toFixed(4)));
+
 /**
  * Reports the whole progress to the console.
  */
@@ -277,11 +476,9 @@ class EvaluationReporter {
   );
   private progressCounter: number = 0;
   public baseUrl: string;
-  public frontendPort?: number;
 
-  constructor(baseUrl?: string, frontendPort?: number) {
+  constructor(baseUrl?: string) {
     this.baseUrl = baseUrl ?? "https://api.lmnr.ai";
-    this.frontendPort = frontendPort;
   }
 
   public start({ length }: { length: number }) {
@@ -302,25 +499,32 @@ class EvaluationReporter {
   // Call either error or stop, not both
   public stop({
     averageScores,
-    projectId,
-    evaluationId,
+    url,
+    trialStatistics,
   }: {
     averageScores: Record<string, number>;
-    projectId: string;
-    evaluationId: string;
+    url: string;
+    trialStatistics?: Record<string, TrialStatistics>;
   }) {
     this.cliProgress.stop();
-    const url = getEvaluationUrl(
-      projectId,
-      evaluationId,
-      this.baseUrl,
-      this.frontendPort,
-    );
     process.stdout.write("\n");
     process.stdout.write("\nAverage scores:\n");
     for (const key in averageScores) {
       process.stdout.write(`${key}: ${averageScores[key]}\n`);
     }
+    if (trialStatistics) {
+      process.stdout.write("\nTrial statistics:\n");
+      for (const [key, statistics] of Object.entries(trialStatistics)) {
+        const passAtK = Object.entries(statistics.passAtK)
+          .map(([k, value]) => `, pass@${k} ${formatStatistic(value)}`)
+          .join("");
+        process.stdout.write(
+          `${key}: mean ${formatStatistic(statistics.mean)}, ` +
+          `stddev ${formatStatistic(statistics.stddev)}, ` +
+          `min ${statistics.min}, max ${statistics.max}${passAtK}\n`,
+        );
+      }
+    }
     process.stdout.write(`\nCheck results at ${url}\n`);
   }
 }
@@ -343,7 +547,23 @@ export class Evaluation<D, T, O> {
   private traceExportTimeoutMillis?: number;
   private traceExportBatchSize: number = MAX_EXPORT_BATCH_SIZE;
   private uploadPromises: Promise<any>[] = [];
-  private client: LaminarClient;
+  private client?: LaminarClient;
+  private store: EvaluationStore;
+  private localStore?: LocalEvaluationStore;
+  private spanCollector?: LocalSpanCollector;
+  private resume: boolean = false;
+  private journalPath?: string;
+  private evalFile?: string;
+  private journal: EvaluationJournal | null = null;
+  private executorPolicy: EvaluationCallPolicy = {};
+  private evaluatorPolicy: EvaluationCallPolicy = {};
+  private evaluatorPolicies: Record<string, EvaluationCallPolicy> = {};
+  private compareTo?: string;
+  private thresholds: (string | ScoreThreshold)[] = [];
+  private maxScoreDrop?: number;
+  private trials: number = 1;
+  private passThreshold: number = 1;
+  private passAtK?: number[];
 
   constructor({
     data,
@@ -370,10 +590,7 @@ export class Evaluation<D, T, O> {
     }
 
     this.frontendPort = config?.frontendPort;
-    this.progressReporter = new EvaluationReporter(
-      config?.baseUrl,
-      config?.frontendPort,
-    );
+    this.progressReporter = new EvaluationReporter(config?.baseUrl);
     this.data = data;
     this.executor = executor;
     this.evaluators = evaluators;
@@ -397,6 +614,49 @@ export class Evaluation<D, T, O> {
       this.traceExportTimeoutMillis = config.traceExportTimeoutMillis;
       this.traceExportBatchSize =
         config.traceExportBatchSize ?? MAX_EXPORT_BATCH_SIZE;
+      this.resume = config.resume ?? false;
+      this.journalPath = config.journalPath;
+      this.executorPolicy = config.executorPolicy ?? {};
+      this.evaluatorPolicy = config.evaluatorPolicy ?? {};
+      this.evaluatorPolicies = config.evaluatorPolicies ?? {};
+      this.compareTo = config.compareTo;
+      this.addThresholds(config.thresholds ?? []);
+      this.maxScoreDrop = config.maxScoreDrop;
+      if (
+        config.trials !== undefined &&
+        (!Number.isInteger(config.trials) || config.trials < 1)
+      ) {
+        logger.warn("trials must be a positive integer. Setting to default of 1");
+      } else {
+        this.trials = config.trials ?? 1;
+      }
+      this.passThreshold = config.passThreshold ?? 1;
+      this.passAtK = config.passAtK;
+    }
+
+    const mode = config?.mode
+      ?? (process.env.LMNR_EVAL_MODE === "local" ? "local" : "remote");
+    if (mode === "local") {
+      this.localStore = new LocalEvaluationStore(
+        config?.localOutputDir ?? DEFAULT_LOCAL_OUTPUT_DIR,
+      );
+      this.store = this.localStore;
+      if (Laminar.initialized()) {
+        logger.warn(
+          "Laminar was already initialized. Traces of this local evaluation " +
+          "go to its exporter and are not included in the local report.",
+        );
+        return;
+      }
+      this.spanCollector = new LocalSpanCollector();
+      Laminar.initialize({
+        instrumentModules: config?.instrumentModules,
+        spanProcessor: new LaminarSpanProcessor({
+          exporter: this.spanCollector,
+          disableBatch: true,
+        }),
+      });
+      return;
     }
 
     if (Laminar.initialized()) {
@@ -404,6 +664,7 @@ export class Evaluation<D, T, O> {
         baseUrl: Laminar.getHttpUrl(),
         projectApiKey: Laminar.getProjectApiKey(),
       });
+      this.store = this.client.evals;
       if (
         config?.projectApiKey &&
         config.projectApiKey !== Laminar.getProjectApiKey()
@@ -441,6 +702,7 @@ export class Evaluation<D, T, O> {
       baseUrl: baseHttpUrl,
       projectApiKey: key,
     });
+    this.store = this.client.evals;
 
     Laminar.initialize({
       projectApiKey: config?.projectApiKey,
@@ -459,55 +721,76 @@ export class Evaluation<D, T, O> {
     if (this.isFinished) {
       throw new Error("Evaluation is already finished");
     }
-    if (this.data instanceof LaminarDataset) {
-      this.data.setClient(this.client);
-      // Fetch dataset ID if not already set
-      if (!this.data.id) {
-        try {
-          const datasets = await this.client.datasets.getDatasetByName(
-            (this.data as any).name,
-          );
-          if (datasets.length > 0) {
-            this.data.id = datasets[0].id;
-          } else {
-            logger.warn(`Dataset ${(this.data as any).name} not found`);
+    let resultDatapoints: EvaluationDatapoint<D, T, O>[];
+    try {
+      const laminarDatasets = this.data instanceof EvaluationDataset
+        ? getLaminarDatasets(this.data)
+        : [];
+      for (const dataset of laminarDatasets) {
+        if (!this.client) {
+          throw new Error("LaminarDataset can't be used in local mode");
+        }
+        dataset.setClient(this.client);
+        // Fetch dataset ID if not already set
+        if (!dataset.id) {
+          try {
+            const datasets = await this.client.datasets.getDatasetByName(dataset.name!);
+            if (datasets.length > 0) {
+              dataset.id = datasets[0].id;
+            } else {
+              logger.warn(`Dataset ${dataset.name} not found`);
+            }
+          } catch (error) {
+            // Backward compatibility with old Laminar API (self-hosted)
+            logger.warn(
+              `Error getting dataset ${dataset.name}: ` + errorMessage(error),
+            );
           }
-        } catch (error) {
-          // Backward compatibility with old Laminar API (self-hosted)
-          logger.warn(
-            `Error getting dataset ${this.data.name}: ` + errorMessage(error),
-          );
         }
       }
-    }
 
-    let resultDatapoints: EvaluationDatapoint<D, T, O>[];
-    try {
-      const evaluation = await this.client.evals.init(
-        this.name,
-        this.groupName,
-        withSessionMetadata(this.metadata),
-      );
-      const url = getEvaluationUrl(
+      const evaluation = await this.initEvaluation();
+      let url = getEvaluationUrl(
         evaluation.projectId,
         evaluation.id,
         this.progressReporter.baseUrl,
         this.frontendPort,
       );
-      process.stdout.write(`\nCheck results at ${url}\n`);
+      if (!this.localStore) {
+        process.stdout.write(`\nCheck results at ${url}\n`);
+      }
       this.progressReporter.start({ length: await this.getLength() });
 
       resultDatapoints = await this.evaluateInBatches(evaluation.id);
       const averageScores = getAverageScores(resultDatapoints);
+      const trialStatistics = this.trials > 1
+        ? getTrialStatistics(resultDatapoints, {
+          ks: this.passAtK ?? [...new Set([1, this.trials])],
+          passThreshold: this.passThreshold,
+        })
+        : undefined;
       if (this.uploadPromises.length > 0) {
         await Promise.all(this.uploadPromises);
       }
+      if (this.localStore) {
+        // Make sure the spans of every datapoint are in the collector
+        await Laminar.flush();
+        const { jsonlPath, htmlPath } = this.localStore.writeReport({
+          averageScores,
+          spanCollector: this.spanCollector,
+        });
+        logger.info(`Wrote evaluation results to ${jsonlPath}`);
+        url = htmlPath;
+      }
       this.progressReporter.stop({
         averageScores,
-        projectId: evaluation.projectId,
-        evaluationId: evaluation.id,
+        url,
+        trialStatistics,
       });
       this.isFinished = true;
+      this.journal?.remove();
+      const comparison = await this.compare(evaluation.id, resultDatapoints);
+      const gates = this.checkGates(averageScores, comparison);
 
       await Laminar.shutdown();
       return {
@@ -515,6 +798,9 @@ export class Evaluation<D, T, O> {
         projectId: evaluation.projectId,
         evaluationId: evaluation.id,
         url,
+        comparison,
+        gates,
+        trialStatistics,
       };
     } catch (e) {
       this.progressReporter.stopWithError(e as Error);
@@ -529,6 +815,118 @@ export class Evaluation<D, T, O> {
     }
   }
 
+  /**
+   * Create the evaluation on the backend or, when resuming from a journal
+   * left behind by an interrupted run, reuse the journaled evaluation.
+   */
+  private async initEvaluation(): Promise<{ id: StringUUID; projectId: string }> {
+    if (this.resume && this.localStore) {
+      logger.warn("Resuming is not supported in local mode. Starting a new evaluation.");
+    }
+    if (!this.resume || this.localStore) {
+      return await this.store.init(
+        this.name,
+        this.groupName,
+        withSessionMetadata(this.metadata),
+      );
+    }
+
+    this.journal = EvaluationJournal.load(this.getJournalPath());
+    const header = this.journal.getHeader();
+    if (header) {
+      logger.info(
+        `Resuming evaluation ${header.evaluationId}. ` +
+        `${this.journal.completedCount} datapoints already completed.`,
+      );
+      return { id: header.evaluationId, projectId: header.projectId };
+    }
+
+    const evaluation = await this.store.init(
+      this.name,
+      this.groupName,
+      withSessionMetadata(this.metadata),
+    );
+    this.journal.start({
+      evaluationId: evaluation.id,
+      projectId: evaluation.projectId,
+      name: this.name,
+      groupName: this.groupName,
+    });
+    return evaluation;
+  }
+
+  /**
+   * Compare the finished run against `compareTo`, if set, and print the
+   * result. A failed comparison is logged and does not fail the evaluation.
+   */
+  private async compare(
+    evaluationId: StringUUID,
+    resultDatapoints: EvaluationDatapoint<D, T, O>[],
+  ): Promise<EvaluationComparison | undefined> {
+    if (!this.compareTo) {
+      return undefined;
+    }
+    if (!this.client) {
+      logger.warn("Comparing with a baseline evaluation is not supported in local mode.");
+      return undefined;
+    }
+    try {
+      // Resolve a group name here, so that this run is not picked as its own
+      // baseline
+      const baseline = await resolveBaselineEvaluationId(
+        this.client,
+        this.compareTo,
+        evaluationId,
+      );
+      const comparison = await compareEvaluations({
+        baseline,
+        current: resultDatapoints,
+        client: this.client,
+      });
+      comparison.evaluationId = evaluationId;
+      process.stdout.write("\n" + formatComparison(comparison));
+      return comparison;
+    } catch (error) {
+      logger.warn(`Failed to compare with ${this.compareTo}: ${errorMessage(error)}`);
+      return undefined;
+    }
+  }
+
+  /**
+   * Check the configured thresholds and baseline drop, if any, and print the
+   * results.
+   */
+  private checkGates(
+    averageScores: Record<string, number>,
+    comparison: EvaluationComparison | undefined,
+  ): GateResult[] | undefined {
+    if (!this.hasGates()) {
+      return undefined;
+    }
+    const gates = checkGates({
+      averageScores,
+      thresholds: this.thresholds,
+      maxScoreDrop: this.maxScoreDrop,
+      comparison,
+    });
+    const failed = gates.filter((gate) => !gate.passed).length;
+    process.stdout.write(
+      `\nQuality gates: ${gates.length - failed} passed, ${failed} failed\n` +
+      formatGateTable(gates),
+    );
+    return gates;
+  }
+
+  private getJournalPath(): string {
+    if (this.journalPath) {
+      return this.journalPath;
+    }
+    const evalFile = this.evalFile
+      ?? process.argv[1]
+      ?? `${process.cwd()}/evaluation`;
+    return defaultJournalPath(evalFile, this.name);
+  }
+
   public async evaluateInBatches(
     evalId: StringUUID,
   ): Promise<EvaluationDatapoint<D, T, O>[]> {
@@ -548,12 +946,12 @@ export class Evaluation<D, T, O> {
       Promise<EvaluationDatapoint<D, T, O>[]>
     >([entityContext], async () => {
       const semaphore = new Semaphore(this.concurrencyLimit);
-      const tasks: Promise<[number, EvaluationDatapoint<D, T, O>]>[] = [];
+      const tasks: Promise<[number, EvaluationDatapoint<D, T, O>[]]>[] = [];
 
       const evaluateTask = async (
         datapoint: Datapoint<D, T>,
         index: number,
-      ): Promise<[number, EvaluationDatapoint<D, T, O>]> => {
+      ): Promise<[number, EvaluationDatapoint<D, T, O>[]]> => {
         try {
           const result = await this.evaluateDatapoint(
             evalId,
@@ -572,169 +970,290 @@ export class Evaluation<D, T, O> {
         const datapoint = Array.isArray(this.data)
           ? this.data[i]
           : await this.data.get(i);
+        const completed = this.getTrialIndices().map(
+          (trialIndex) => this.journal?.getCompleted(i, datapoint.id, trialIndex),
+        );
+        if (completed.every((entry) => entry !== undefined)) {
+          semaphore.release();
+          this.progressReporter.update(1);
+          tasks.push(Promise.resolve([
+            i,
+            completed.map((entry) => this.journaledDatapoint(datapoint, entry)),
+          ]));
+          continue;
+        }
         tasks.push(evaluateTask(datapoint, i));
       }
       const results = await Promise.all(tasks);
 
-      return results.sort((a, b) => a[0] - b[0]).map(([, result]) => result);
+      return results.sort((a, b) => a[0] - b[0]).flatMap(([, result]) => result);
     });
   }
 
+  /**
+   * Trial indices to run every datapoint for. A single-trial evaluation does
+   * not set `trialIndex` on its datapoints.
+   */
+  private getTrialIndices(): (number | undefined)[] {
+    return this.trials > 1
+      ? Array.from({ length: this.trials }, (_, i) => i)
+      : [undefined];
+  }
+
+  private journaledDatapoint(
+    datapoint: Datapoint<D, T>,
+    entry: EvaluationJournalEntry,
+  ): EvaluationDatapoint<D, T, O> {
+    const datasetLink = this.datasetLink(datapoint);
+    return {
+      id: entry.id,
+      data: datapoint.data,
+      target: datapoint.target,
+      metadata: datapoint.metadata,
+      scores: entry.scores,
+      traceId: entry.traceId,
+      executorSpanId: entry.executorSpanId,
+      index: entry.index,
+      ...(entry.trialIndex !== undefined ? { trialIndex: entry.trialIndex } : {}),
+      ...(datasetLink ? { datasetLink } : {}),
+    };
+  }
+
+  /**
+   * Link to the dataset datapoint, if the datapoint came from a LaminarDataset.
+   */
+  private datasetLink(
+    datapoint: Datapoint<D, T>,
+  ): EvaluationDatapoint<D, T, O>["datasetLink"] {
+    if (datapoint.datasetId && datapoint.id && datapoint.createdAt) {
+      return {
+        datasetId: datapoint.datasetId,
+        datapointId: datapoint.id,
+        createdAt: datapoint.createdAt,
+      };
+    }
+    return undefined;
+  }
+
+  /**
+   * Run all trials of a datapoint, one after another, under a single
+   * evaluation trace. Trials already in the resume journal are not re-run.
+   */
   private async evaluateDatapoint(
     evalId: StringUUID,
     datapoint: Datapoint<D, T>,
     index: number,
-  ): Promise<EvaluationDatapoint<D, T, O>> {
+  ): Promise<EvaluationDatapoint<D, T, O>[]> {
     return observe(
       { name: "evaluation", traceType: "EVALUATION" },
       async () => {
         trace
           .getSpan(LaminarContextManager.getContext())!
           .setAttribute(SPAN_TYPE, "EVALUATION");
-        const executorSpan = Laminar.startSpan({
-          name: "executor",
-          input: datapoint.data,
-        });
-        executorSpan.setAttribute(SPAN_TYPE, "EXECUTOR");
-        const executorSpanId = otelSpanIdToUUID(
-          executorSpan.spanContext().spanId,
-        );
-        const datapointId = newUUID();
-        const partialDatapoint = {
-          id: datapointId,
-          data: datapoint.data,
-          target: datapoint.target,
-          metadata: datapoint.metadata,
-          traceId: otelTraceIdToUUID(
-            trace.getSpan(LaminarContextManager.getContext())!.spanContext()
-              .traceId,
-          ),
-          executorSpanId,
-          index,
-        } as EvaluationDatapoint<D, T, O>;
-
-        // Add dataset link if data is from LaminarDataset
-        if (
-          this.data instanceof LaminarDataset &&
-          this.data.id &&
-          datapoint.id &&
-          datapoint.createdAt
-        ) {
-          partialDatapoint.datasetLink = {
-            datasetId: this.data.id,
-            datapointId: datapoint.id,
-            createdAt: datapoint.createdAt,
-          };
+        const results: EvaluationDatapoint<D, T, O>[] = [];
+        for (const trialIndex of this.getTrialIndices()) {
+          const completed = this.journal?.getCompleted(index, datapoint.id, trialIndex);
+          results.push(completed
+            ? this.journaledDatapoint(datapoint, completed)
+            : await this.evaluateTrial(evalId, datapoint, index, trialIndex));
         }
+        return results;
+      },
+    );
+  }
 
-        // first create the datapoint in the database and await
-        await this.client.evals.saveDatapoints({
-          evalId,
-          datapoints: [partialDatapoint],
-          groupName: this.groupName,
-        });
+  private async evaluateTrial(
+    evalId: StringUUID,
+    datapoint: Datapoint<D, T>,
+    index: number,
+    trialIndex: number | undefined,
+  ): Promise<EvaluationDatapoint<D, T, O>> {
+    const executorSpan = Laminar.startSpan({
+      name: "executor",
+      input: datapoint.data,
+    });
+    executorSpan.setAttribute(SPAN_TYPE, "EXECUTOR");
+    const executorSpanId = otelSpanIdToUUID(
+      executorSpan.spanContext().spanId,
+    );
+    const datapointId = newUUID();
+    const partialDatapoint = {
+      id: datapointId,
+      data: datapoint.data,
+      target: datapoint.target,
+      metadata: datapoint.metadata,
+      traceId: otelTraceIdToUUID(
+        trace.getSpan(LaminarContextManager.getContext())!.spanContext()
+          .traceId,
+      ),
+      executorSpanId,
+      index,
+      ...(trialIndex !== undefined ? { trialIndex } : {}),
+    } as EvaluationDatapoint<D, T, O>;
 
-        const output = await Laminar.withSpan(
-          executorSpan,
-          async () => {
-            const result = await this.executor(datapoint.data);
-            Laminar.setSpanOutput(result);
-            return result;
-          },
-          true,
-        );
-        const target = datapoint.target;
-
-        let scores: Record<string, number | null> = {};
-        for (const [evaluatorName, evaluator] of Object.entries(
-          this.evaluators,
-        )) {
-          const value = await observe(
-            { name: evaluatorName },
-            async (output: O, target?: T, data?: D) => {
-              if (evaluator instanceof HumanEvaluator) {
-                const activeSpan = trace.getSpan(
-                  LaminarContextManager.getContext(),
-                );
-                if (activeSpan) {
-                  activeSpan.setAttribute(SPAN_TYPE, "HUMAN_EVALUATOR");
-                  if (evaluator.options) {
-                    activeSpan.setAttribute(
-                      HUMAN_EVALUATOR_OPTIONS,
-                      JSON.stringify(evaluator.options),
-                    );
-                  }
-                }
-                return null;
-              } else {
-                const activeSpan = trace.getSpan(
-                  LaminarContextManager.getContext(),
-                );
-                if (activeSpan) {
-                  activeSpan.setAttribute(SPAN_TYPE, "EVALUATOR");
-                }
-                return await evaluator(output, target, data);
-              }
-            },
-            output,
-            datapoint.target,
-            datapoint.data,
+    const datasetLink = this.datasetLink(datapoint);
+    if (datasetLink) {
+      partialDatapoint.datasetLink = datasetLink;
+    }
+
+    // first create the datapoint in the database and await
+    await this.store.saveDatapoints({
+      evalId,
+      datapoints: [partialDatapoint],
+      groupName: this.groupName,
+    });
+
+    const errors: { executor?: string; evaluators?: Record<string, string> } = {};
+    let output: O | undefined;
+    try {
+      output = await Laminar.withSpan(
+        executorSpan,
+        async () => {
+          const result = await runWithPolicy(
+            () => this.executor(datapoint.data),
+            this.executorPolicy,
+            "Executor",
           );
+          Laminar.setSpanOutput(result);
+          return result;
+        },
+        true,
+      );
+    } catch (error) {
+      if ((this.executorPolicy.onError ?? "fail") === "fail") {
+        throw error;
+      }
+      errors.executor = errorMessage(error);
+    }
+    const target = datapoint.target;
 
-          if (evaluator instanceof HumanEvaluator) {
-            scores[evaluatorName] = null;
-            continue;
-          }
+    let scores: Record<string, number | null> = {};
+    for (const [evaluatorName, evaluator] of Object.entries(
+      this.evaluators,
+    )) {
+      if (errors.executor !== undefined) {
+        // The executor failed, so there is no output to evaluate.
+        if (this.executorPolicy.onError === "score-as-null") {
+          scores[evaluatorName] = null;
+        }
+        continue;
+      }
 
-          if (typeof value === "number") {
-            if (isNaN(value)) {
-              throw new Error(`Evaluator ${evaluatorName} returned NaN`);
+      const policy = {
+        ...this.evaluatorPolicy,
+        ...(this.evaluatorPolicies[evaluatorName] ?? {}),
+      };
+      let value: EvaluatorFunctionReturn | null;
+      try {
+        value = await observe(
+          { name: evaluatorName },
+          async (output: O, target?: T, data?: D) => {
+            if (evaluator instanceof HumanEvaluator) {
+              const activeSpan = trace.getSpan(
+                LaminarContextManager.getContext(),
+              );
+              if (activeSpan) {
+                activeSpan.setAttribute(SPAN_TYPE, "HUMAN_EVALUATOR");
+                if (evaluator.options) {
+                  activeSpan.setAttribute(
+                    HUMAN_EVALUATOR_OPTIONS,
+                    JSON.stringify(evaluator.options),
+                  );
+                }
+              }
+              return null;
+            } else {
+              const activeSpan = trace.getSpan(
+                LaminarContextManager.getContext(),
+              );
+              if (activeSpan) {
+                activeSpan.setAttribute(SPAN_TYPE, "EVALUATOR");
+              }
+              return await runWithPolicy(
+                async () => {
+                  const value = await evaluator(output, target, data);
+                  if (typeof value === "number" && isNaN(value)) {
+                    throw new Error(`Evaluator ${evaluatorName} returned NaN`);
+                  }
+                  return value;
+                },
+                policy,
+                `Evaluator ${evaluatorName}`,
+              );
             }
-            scores[evaluatorName] = value;
-          } else if (value !== null) {
-            scores = { ...scores, ...value };
-          }
+          },
+          output as O,
+          datapoint.target,
+          datapoint.data,
+        );
+      } catch (error) {
+        if ((policy.onError ?? "fail") === "fail") {
+          throw error;
         }
-
-        const resultDatapoint = {
-          id: datapointId,
-          executorOutput: output,
-          data: datapoint.data,
-          target,
-          metadata: datapoint.metadata,
-          scores,
-          traceId: otelTraceIdToUUID(
-            trace.getSpan(LaminarContextManager.getContext())!.spanContext()
-              .traceId,
-          ),
-          executorSpanId,
-          index,
-        } as EvaluationDatapoint<D, T, O>;
-
-        // Add dataset link if data is from LaminarDataset
-        if (
-          this.data instanceof LaminarDataset &&
-          this.data.id &&
-          datapoint.id &&
-          datapoint.createdAt
-        ) {
-          resultDatapoint.datasetLink = {
-            datasetId: this.data.id,
-            datapointId: datapoint.id,
-            createdAt: datapoint.createdAt,
-          };
+        errors.evaluators = {
+          ...(errors.evaluators ?? {}),
+          [evaluatorName]: errorMessage(error),
+        };
+        if (policy.onError === "score-as-null") {
+          scores[evaluatorName] = null;
         }
+        continue;
+      }
 
-        const uploadPromise = this.client.evals.saveDatapoints({
-          evalId,
-          datapoints: [resultDatapoint],
-          groupName: this.groupName,
-        });
-        this.uploadPromises.push(uploadPromise);
+      if (evaluator instanceof HumanEvaluator) {
+        scores[evaluatorName] = null;
+        continue;
+      }
 
-        return resultDatapoint;
-      },
-    );
+      if (typeof value === "number") {
+        scores[evaluatorName] = value;
+      } else if (value !== null) {
+        scores = { ...scores, ...value };
+      }
+    }
+
+    const resultDatapoint = {
+      id: datapointId,
+      executorOutput: output,
+      data: datapoint.data,
+      target,
+      metadata: Object.keys(errors).length > 0
+        ? { ...(datapoint.metadata ?? {}), [ERRORS_METADATA_KEY]: errors }
+        : datapoint.metadata,
+      scores,
+      traceId: otelTraceIdToUUID(
+        trace.getSpan(LaminarContextManager.getContext())!.spanContext()
+          .traceId,
+      ),
+      executorSpanId,
+      index,
+      ...(trialIndex !== undefined ? { trialIndex } : {}),
+    } as EvaluationDatapoint<D, T, O>;
+
+    if (datasetLink) {
+      resultDatapoint.datasetLink = datasetLink;
+    }
+
+    const uploadPromise = this.store.saveDatapoints({
+      evalId,
+      datapoints: [resultDatapoint],
+      groupName: this.groupName,
+    }).then(() => {
+      // Only journal the datapoint once its result is saved, so a resumed
+      // run never skips a datapoint the backend does not have.
+      this.journal?.record({
+        index,
+        trialIndex,
+        id: datapointId,
+        scores,
+        traceId: resultDatapoint.traceId,
+        executorSpanId,
+        sourceId: datapoint.id,
+      });
+    });
+    this.uploadPromises.push(uploadPromise);
+
+    return resultDatapoint;
   }
 
   private async getLength(): Promise<number> {
@@ -745,7 +1264,49 @@ export class Evaluation<D, T, O> {
 
   public setFrontendPort(port: number) {
     this.frontendPort = port;
-    this.progressReporter.frontendPort = port;
+  }
+
+  /**
+   * Set the file this evaluation was loaded from. Used to place the resume
+   * journal next to it.
+   */
+  public setEvalFile(file: string) {
+    this.evalFile = file;
+  }
+
+  public setResume(resume: boolean) {
+    this.resume = resume;
+  }
+
+  public setCompareTo(baseline: string) {
+    this.compareTo = baseline;
+  }
+
+  public addThresholds(thresholds: (string | ScoreThreshold)[]) {
+    // Parse eagerly, so that a typo fails before the evaluation runs
+    this.thresholds.push(...thresholds.map((threshold) =>
+      typeof threshold === "string" ? parseThreshold(threshold) : threshold));
+  }
+
+  public setMaxScoreDrop(maxScoreDrop: number) {
+    this.maxScoreDrop = maxScoreDrop;
+  }
+
+  /**
+   * Whether any quality gate is configured, in the evaluation config or by the
+   * setters above. An evaluation with gates that fails to run fails them.
+   */
+  public hasGates(): boolean {
+    return this.thresholds.length > 0 || this.maxScoreDrop !== undefined;
+  }
+
+  /**
+   * Run on a seeded random sample of the data instead of all of it. See
+   * {@link EvaluationDataset.sample}.
+   */
+  public setSample(n: number, seed?: number) {
+    const dataset = Array.isArray(this.data) ? new ArrayDataset(this.data) : this.data;
+    this.data = dataset.sample(n, { seed });
   }
 }
 
@@ -0,0 +1,30 @@
+/**
+ * Ready-made evaluators for `evaluate`. Each export is a factory returning an
+ * `EvaluatorFunction`, e.g.
+ *
+ * ```ts
+ * import { exactMatch, regexMatch } from "@lmnr-ai/lmnr/evaluators";
+ *
+ * evaluate({
+ *   data,
+ *   executor,
+ *   evaluators: {
+ *     exact: exactMatch({ caseSensitive: false }),
+ *     cites: regexMatch(/\[\d+\]/),
+ *   },
+ * });
+ * ```
+ */
+export {
+  embeddingSimilarity,
+  type JudgeLanguageModel,
+  llmJudge,
+  type SimilarityEmbeddingModel,
+} from "./model";
+export {
+  type JsonSchema,
+  jsonSchemaValid,
+  numericTolerance,
+  type ZodLikeSchema,
+} from "./structured";
+export { bleu, exactMatch, levenshteinMatch, regexMatch, rougeL } from "./text";
@@ -0,0 +1,204 @@
+import { type EmbeddingModelV4, type LanguageModelV4 } from "@ai-sdk/provider";
+import { type EmbeddingModelV2, type LanguageModelV2 } from "@ai-sdk/provider-v2";
+import { type EmbeddingModelV3, type LanguageModelV3 } from "@ai-sdk/provider-v3";
+
+import { observe } from "../decorators";
+import { type EvaluatorFunction } from "../evaluations";
+import { Laminar } from "../laminar";
+import { LaminarAttributes } from "../opentelemetry-lib/tracing/attributes";
+import { toText } from "./text";
+
+/**
+ * An AI SDK language model object, e.g. `openai("gpt-4.1-mini")`.
+ */
+export type JudgeLanguageModel = LanguageModelV2 | LanguageModelV3 | LanguageModelV4;
+
+/**
+ * An AI SDK embedding model object, e.g. `openai.embedding("text-embedding-3-small")`.
+ */
+export type SimilarityEmbeddingModel =
+  | EmbeddingModelV2<string>
+  | EmbeddingModelV3
+  | EmbeddingModelV4;
+
+type PromptMessage =
+  | { role: "system"; content: string }
+  | { role: "user"; content: { type: "text"; text: string }[] };
+
+// The part of `doGenerate` that is the same in every language model
+// specification version.
+interface GenerateModel {
+  provider: string;
+  modelId: string;
+  doGenerate(options: { prompt: PromptMessage[]; temperature?: number }): PromiseLike<{
+    content: { type: string; text?: string }[];
+    usage: {
+      inputTokens?: number | { total?: number };
+      outputTokens?: number | { total?: number };
+    };
+    response?: { modelId?: string };
+  }>;
+}
+
+interface EmbedModel {
+  doEmbed(options: { values: string[] }): PromiseLike<{ embeddings: number[][] }>;
+}
+
+// V2 usage is a number, V3 and later an object with a total.
+const tokenCount = (usage?: number | { total?: number }): number | undefined =>
+  typeof usage === "number" ? usage : usage?.total;
+
+const DEFAULT_JUDGE_SYSTEM_PROMPT =
+  "You are an impartial judge grading the output of an AI system. " +
+  "Grade the output strictly according to the rubric. " +
+  "Respond with only a JSON object of the form " +
+  '{"reasoning": "<one or two sentences>", "score": <number>}.';
+
+/**
+ * Extract the score from the judge's response: the `score` field of the
+ * first JSON object in it or, failing that, a number after "score".
+ */
+export const parseJudgeScore = (text: string, [min, max]: [number, number]): number => {
+  let score: number | undefined;
+  const json = text.match(/\{[\s\S]*\}/);
+  if (json) {
+    try {
+      const parsed = JSON.parse(json[0]) as { score?: unknown };
+      if (typeof parsed.score === "number") {
+        score = parsed.score;
+      } else if (typeof parsed.score === "string") {
+        score = parseFloat(parsed.score);
+      }
+    } catch {
+      // Fall through to the plain text match
+    }
+  }
+  if (score === undefined || Number.isNaN(score)) {
+    const match = text.match(/score\W*(-?\d+(?:\.\d+)?)/i);
+    score = match ? parseFloat(match[1]) : undefined;
+  }
+  if (score === undefined || Number.isNaN(score)) {
+    throw new Error(`Could not parse a score from the judge response: ${text}`);
+  }
+  if (score < min || score > max) {
+    throw new Error(`Judge score ${score} is outside of the scale [${min}, ${max}]`);
+  }
+  return score;
+};
+
+/**
+ * LLM-as-judge evaluator. Asks `model` to grade the output against `rubric`
+ * and returns the score it gives. The judge call is traced as an LLM span
+ * under the evaluator span.
+ *
+ * @param options.model AI SDK language model to judge with.
+ * @param options.rubric Grading instructions, e.g. "1 if the answer is
+ * factually correct and cites a source, 0 otherwise".
+ * @param options.scale Lowest and highest score the judge may give. Scores
+ * are returned as given, not normalized. Defaults to [0, 1].
+ * @param options.includeData Whether to show the executor input to the judge.
+ * Defaults to true.
+ * @param options.systemPrompt Overrides the default judge instructions.
+ * @param options.temperature Defaults to 0.
+ * @example
+ * import { openai } from "@ai-sdk/openai";
+ * import { llmJudge } from "@lmnr-ai/lmnr/evaluators";
+ *
+ * evaluate({
+ *   data,
+ *   executor,
+ *   evaluators: {
+ *     helpfulness: llmJudge({
+ *       model: openai("gpt-4.1-mini"),
+ *       rubric: "1 if the answer fully resolves the question, 0 otherwise",
+ *     }),
+ *   },
+ * });
+ */
+export const llmJudge = <O = unknown, T = unknown, D = unknown>({
+  model,
+  rubric,
+  scale = [0, 1],
+  includeData = true,
+  systemPrompt = DEFAULT_JUDGE_SYSTEM_PROMPT,
+  temperature = 0,
+}: {
+  model: JudgeLanguageModel;
+  rubric: string;
+  scale?: [number, number];
+  includeData?: boolean;
+  systemPrompt?: string;
+  temperature?: number;
+}): EvaluatorFunction<O, T, D> => {
+  const generateModel = model as unknown as GenerateModel;
+  return async (output, target, data) => {
+    const sections = [`Rubric:\n${rubric}`, `Score range: ${scale[0]} to ${scale[1]}`];
+    if (includeData && data !== undefined) {
+      sections.push(`Input:\n${toText(data)}`);
+    }
+    if (target !== undefined) {
+      sections.push(`Expected output:\n${toText(target)}`);
+    }
+    sections.push(`Output to grade:\n${toText(output)}`);
+    const prompt: PromptMessage[] = [
+      { role: "system", content: systemPrompt },
+      { role: "user", content: [{ type: "text", text: sections.join("\n\n") }] },
+    ];
+
+    const text = await observe(
+      { name: "llm_judge", spanType: "LLM", input: prompt },
+      async () => {
+        const result = await generateModel.doGenerate({ prompt, temperature });
+        const span = Laminar.getCurrentSpan();
+        span?.setAttribute(LaminarAttributes.PROVIDER, generateModel.provider.split(".")[0]);
+        span?.setAttribute(LaminarAttributes.REQUEST_MODEL, generateModel.modelId);
+        span?.setAttribute(
+          LaminarAttributes.RESPONSE_MODEL,
+          result.response?.modelId ?? generateModel.modelId,
+        );
+        const inputTokens = tokenCount(result.usage.inputTokens);
+        const outputTokens = tokenCount(result.usage.outputTokens);
+        if (inputTokens !== undefined) {
+          span?.setAttribute(LaminarAttributes.INPUT_TOKEN_COUNT, inputTokens);
+        }
+        if (outputTokens !== undefined) {
+          span?.setAttribute(LaminarAttributes.OUTPUT_TOKEN_COUNT, outputTokens);
+        }
+        if (inputTokens !== undefined && outputTokens !== undefined) {
+          span?.setAttribute(LaminarAttributes.TOTAL_TOKEN_COUNT, inputTokens + outputTokens);
+        }
+        return result.content
+          .map((part) => part.type === "text" ? part.text ?? "" : "")
+          .join("");
+      },
+    );
+    return parseJudgeScore(text, scale);
+  };
+};
+
+/**
+ * Cosine similarity of the embeddings of the output and target text, from
+ * -1 to 1.
+ */
+export const embeddingSimilarity = <O = unknown, T = O>({
+  model,
+}: {
+  model: SimilarityEmbeddingModel;
+}): EvaluatorFunction<O, T> => async (output, target) => {
+  const { embeddings } = await (model as unknown as EmbedModel).doEmbed({
+    values: [toText(output), toText(target)],
+  });
+  const [a, b] = embeddings;
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  if (normA === 0 || normB === 0) {
+    return 0;
+  }
+  return dot / Math.sqrt(normA * normB);
+};
@@ -0,0 +1,151 @@
+import { isDeepStrictEqual } from "node:util";
+
+import { type EvaluatorFunction } from "../evaluations";
+
+/**
+ * Anything with zod's `safeParse`, so that both zod 3 and zod 4 schemas work.
+ */
+export interface ZodLikeSchema {
+  safeParse(value: unknown): { success: boolean };
+}
+
+/**
+ * The subset of JSON Schema that `jsonSchemaValid` checks: `type`, `enum`,
+ * `const`, `properties`, `required`, `additionalProperties`, `items`,
+ * `minItems`, `maxItems`, `minLength`, `maxLength`, `pattern`, `minimum`,
+ * `maximum`, `anyOf`, `oneOf` and `allOf`. Other keywords are ignored.
+ */
+export type JsonSchema = {
+  type?: JsonSchemaType | JsonSchemaType[];
+  enum?: unknown[];
+  const?: unknown;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  allOf?: JsonSchema[];
+  [keyword: string]: unknown;
+};
+
+type JsonSchemaType = "string" | "number" | "integer" | "boolean" | "object" | "array" | "null";
+
+const isZodLikeSchema = (schema: ZodLikeSchema | JsonSchema): schema is ZodLikeSchema =>
+  typeof (schema as ZodLikeSchema).safeParse === "function";
+
+const matchesType = (value: unknown, type: JsonSchemaType): boolean => {
+  switch (type) {
+    case "null":
+      return value === null;
+    case "array":
+      return Array.isArray(value);
+    case "object":
+      return typeof value === "object" && value !== null && !Array.isArray(value);
+    case "integer":
+      return Number.isInteger(value);
+    default:
+      return typeof value === type;
+  }
+};
+
+export const validateJsonSchema = (value: unknown, schema: JsonSchema): boolean => {
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(value, type))) return false;
+  }
+  if (schema.enum && !schema.enum.some((option) => isDeepStrictEqual(option, value))) return false;
+  if ("const" in schema && !isDeepStrictEqual(schema.const, value)) return false;
+  if (schema.allOf && !schema.allOf.every((sub) => validateJsonSchema(value, sub))) return false;
+  if (schema.anyOf && !schema.anyOf.some((sub) => validateJsonSchema(value, sub))) return false;
+  if (
+    schema.oneOf &&
+    schema.oneOf.filter((sub) => validateJsonSchema(value, sub)).length !== 1
+  ) {
+    return false;
+  }
+
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength) return false;
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) return false;
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern, "u").test(value)) return false;
+  }
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) return false;
+    if (schema.maximum !== undefined && value > schema.maximum) return false;
+  }
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) return false;
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) return false;
+    if (schema.items && !value.every((item) => validateJsonSchema(item, schema.items!))) {
+      return false;
+    }
+  }
+  if (matchesType(value, "object")) {
+    const object = value as Record<string, unknown>;
+    if (schema.required && !schema.required.every((key) => key in object)) return false;
+    for (const [key, property] of Object.entries(object)) {
+      const propertySchema = schema.properties?.[key];
+      if (propertySchema) {
+        if (!validateJsonSchema(property, propertySchema)) return false;
+      } else if (schema.additionalProperties === false) {
+        return false;
+      } else if (
+        typeof schema.additionalProperties === "object" &&
+        !validateJsonSchema(property, schema.additionalProperties)
+      ) {
+        return false;
+      }
+    }
+  }
+  return true;
+};
+
+/**
+ * 1 if the output is valid against `schema`, 0 otherwise. Takes a zod schema
+ * or a JSON Schema object. String outputs are parsed as JSON first, and
+ * validated as plain strings if they are not JSON.
+ */
+export const jsonSchemaValid = <O = unknown, T = unknown>(
+  schema: ZodLikeSchema | JsonSchema,
+): EvaluatorFunction<O, T> => (output) => {
+  let value: unknown = output;
+  if (typeof output === "string") {
+    try {
+      value = JSON.parse(output);
+    } catch {
+      value = output;
+    }
+  }
+  const valid = isZodLikeSchema(schema)
+    ? schema.safeParse(value).success
+    : validateJsonSchema(value, schema);
+  return valid ? 1 : 0;
+};
+
+const toNumber = (value: unknown): number =>
+  typeof value === "number" ? value : typeof value === "string" ? parseFloat(value) : NaN;
+
+/**
+ * 1 if the numeric output is within `absolute` or `relative` (a fraction of
+ * the target) of the target, 0 otherwise. Numeric strings are parsed. With
+ * no tolerance given, the numbers must be equal.
+ */
+export const numericTolerance = <O = unknown, T = O>(
+  { absolute = 0, relative = 0 }: { absolute?: number; relative?: number } = {},
+): EvaluatorFunction<O, T> => (output, target) => {
+  const actual = toNumber(output);
+  const expected = toNumber(target);
+  if (Number.isNaN(actual) || Number.isNaN(expected)) {
+    return 0;
+  }
+  const tolerance = Math.max(absolute, relative * Math.abs(expected));
+  return Math.abs(actual - expected) <= tolerance ? 1 : 0;
+};
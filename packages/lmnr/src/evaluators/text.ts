@@ -0,0 +1,159 @@
+import { type EvaluatorFunction } from "../evaluations";
+
+export const toText = (value: unknown): string =>
+  typeof value === "string" ? value : JSON.stringify(value) ?? "";
+
+// JSON.stringify with sorted object keys, so that equal objects compare equal
+// regardless of key order.
+const stableStringify = (value: unknown): string =>
+  JSON.stringify(value, (_, nested: unknown) =>
+    nested && typeof nested === "object" && !Array.isArray(nested)
+      ? Object.fromEntries(
+        Object.entries(nested as Record<string, unknown>)
+          .sort(([a], [b]) => a.localeCompare(b)),
+      )
+      : nested,
+  ) ?? "";
+
+const normalize = (
+  value: string,
+  { caseSensitive = true, trim = true }: { caseSensitive?: boolean; trim?: boolean },
+): string => {
+  const trimmed = trim ? value.trim() : value;
+  return caseSensitive ? trimmed : trimmed.toLowerCase();
+};
+
+const tokenize = (value: string): string[] =>
+  value.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter((token) => token.length > 0);
+
+/**
+ * 1 if the output equals the target, 0 otherwise. Strings are compared as
+ * text, anything else as JSON with key order ignored.
+ */
+export const exactMatch = <O = unknown, T = O>(
+  options: { caseSensitive?: boolean; trim?: boolean } = {},
+): EvaluatorFunction<O, T> => (output, target) => {
+  if (typeof output === "string" && typeof target === "string") {
+    return normalize(output, options) === normalize(target, options) ? 1 : 0;
+  }
+  return stableStringify(output) === stableStringify(target) ? 1 : 0;
+};
+
+export const levenshteinDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+/**
+ * Normalized Levenshtein similarity of the output and target text, from 0
+ * (nothing in common) to 1 (equal). With `threshold`, returns 1 if the
+ * similarity is at least the threshold and 0 otherwise.
+ */
+export const levenshteinMatch = <O = unknown, T = O>(
+  options: { caseSensitive?: boolean; trim?: boolean; threshold?: number } = {},
+): EvaluatorFunction<O, T> => (output, target) => {
+  const a = normalize(toText(output), options);
+  const b = normalize(toText(target), options);
+  const length = Math.max(a.length, b.length);
+  const similarity = length === 0 ? 1 : 1 - levenshteinDistance(a, b) / length;
+  if (options.threshold === undefined) {
+    return similarity;
+  }
+  return similarity >= options.threshold ? 1 : 0;
+};
+
+/**
+ * 1 if the output text matches `pattern`, 0 otherwise.
+ */
+export const regexMatch = <O = unknown, T = unknown>(
+  pattern: RegExp | string,
+): EvaluatorFunction<O, T> => {
+  // Drop the global and sticky flags, which make `test` stateful
+  const regex = typeof pattern === "string"
+    ? new RegExp(pattern)
+    : new RegExp(pattern.source, pattern.flags.replace(/[gy]/g, ""));
+  return (output) => regex.test(toText(output)) ? 1 : 0;
+};
+
+const longestCommonSubsequence = (a: string[], b: string[]): number => {
+  let previous = new Array<number>(b.length + 1).fill(0);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [0];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = a[i - 1] === b[j - 1]
+        ? previous[j - 1] + 1
+        : Math.max(previous[j], current[j - 1]);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+/**
+ * ROUGE-L F1 of the output against the target: the longest common
+ * subsequence of words, relative to both lengths.
+ */
+export const rougeL = <O = unknown, T = O>(): EvaluatorFunction<O, T> => (output, target) => {
+  const candidate = tokenize(toText(output));
+  const reference = tokenize(toText(target));
+  if (candidate.length === 0 || reference.length === 0) {
+    return candidate.length === reference.length ? 1 : 0;
+  }
+  const lcs = longestCommonSubsequence(candidate, reference);
+  if (lcs === 0) return 0;
+  const precision = lcs / candidate.length;
+  const recall = lcs / reference.length;
+  return (2 * precision * recall) / (precision + recall);
+};
+
+const ngramCounts = (tokens: string[], n: number): Map<string, number> => {
+  const counts = new Map<string, number>();
+  for (let i = 0; i + n <= tokens.length; i++) {
+    const ngram = tokens.slice(i, i + n).join(" ");
+    counts.set(ngram, (counts.get(ngram) ?? 0) + 1);
+  }
+  return counts;
+};
+
+/**
+ * Sentence-level BLEU of the output against the target, with a brevity
+ * penalty and add-one smoothing of the higher-order n-gram precisions, so
+ * that short outputs do not score 0 for lack of 4-grams.
+ */
+export const bleu = <O = unknown, T = O>(
+  { maxN = 4 }: { maxN?: number } = {},
+): EvaluatorFunction<O, T> => (output, target) => {
+  const candidate = tokenize(toText(output));
+  const reference = tokenize(toText(target));
+  if (candidate.length === 0) {
+    return reference.length === 0 ? 1 : 0;
+  }
+  let logPrecision = 0;
+  for (let n = 1; n <= maxN; n++) {
+    const candidateCounts = ngramCounts(candidate, n);
+    const referenceCounts = ngramCounts(reference, n);
+    let matches = 0;
+    for (const [ngram, count] of candidateCounts) {
+      matches += Math.min(count, referenceCounts.get(ngram) ?? 0);
+    }
+    const total = Math.max(candidate.length - n + 1, 0);
+    if (n === 1 && matches === 0) return 0;
+    const precision = n === 1 ? matches / total : (matches + 1) / (total + 1);
+    logPrecision += Math.log(precision) / maxN;
+  }
+  const brevityPenalty = candidate.length >= reference.length
+    ? 1
+    : Math.exp(1 - reference.length / candidate.length);
+  return brevityPenalty * Math.exp(logPrecision);
+};
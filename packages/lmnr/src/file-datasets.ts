@@ -0,0 +1,388 @@
+import { errorMessage } from '@lmnr-ai/types';
+import { createReadStream } from 'fs';
+import { open } from 'fs/promises';
+import { type AsyncBuffer, type FileMetaData } from 'hyparquet';
+
+import { EvaluationDataset } from './datasets';
+import { Datapoint } from './evaluations';
+
+const DEFAULT_BATCH_SIZE = 100;
+
+const NEWLINE = 0x0a;
+const CARRIAGE_RETURN = 0x0d;
+const COMMA = 0x2c;
+const QUOTE = 0x22;
+const SPACE = 0x20;
+const TAB = 0x09;
+
+type Row = Record<string, unknown>;
+
+export interface FileDatasetOptions<D, T> {
+  /**
+   * Which columns go to the datapoint's `data`, `target` and `metadata`. A
+   * single column maps to its value, a list of columns to an object of them.
+   * Without `data`, all columns not used by `target` or `metadata` go to
+   * `data`.
+   *
+   * Without `columns` and `mapRow`, rows are expected to be datapoints, i.e.
+   * to have `data`, `target` and `metadata` columns, as in the files written
+   * by `lmnr datasets pull`. Rows without a `data` column are used as `data`.
+   */
+  columns?: {
+    data?: string | string[];
+    target?: string | string[];
+    metadata?: string | string[];
+  };
+  /**
+   * Build the datapoint from a row. Overrides `columns`.
+   */
+  mapRow?: (row: Row, index: number) => Datapoint<D, T>;
+  /**
+   * Number of rows read from the file at a time. Defaults to 100. Parquet
+   * files are read a row group at a time instead.
+   */
+  batchSize?: number;
+}
+
+const pickColumns = (row: Row, columns: string | string[]): unknown =>
+  typeof columns === 'string'
+    ? row[columns]
+    : Object.fromEntries(columns.map((column) => [column, row[column]]));
+
+/**
+ * Dataset that reads its datapoints from a local file by index, a batch of
+ * rows at a time, so that files larger than memory can be evaluated without
+ * uploading them.
+ */
+abstract class FileDataset<D, T> extends EvaluationDataset<D, T> {
+  public readonly path: string;
+  protected readonly batchSize: number;
+  private readonly options: FileDatasetOptions<D, T>;
+  private batch: { start: number; end: number; rows: Promise<Row[]> } | null = null;
+
+  constructor(path: string, options?: FileDatasetOptions<D, T>) {
+    super();
+    this.path = path;
+    this.options = options ?? {};
+    this.batchSize = options?.batchSize ?? DEFAULT_BATCH_SIZE;
+  }
+
+  public abstract size(): Promise<number>;
+
+  /**
+   * Read the rows from `start` (inclusive) to `end` (exclusive).
+   */
+  protected abstract readRows(start: number, end: number): Promise<Row[]>;
+
+  /**
+   * The range of rows read together with the row at `index`.
+   */
+  protected async batchRange(index: number): Promise<[number, number]> {
+    const start = index - index % this.batchSize;
+    return [start, Math.min(start + this.batchSize, await this.size())];
+  }
+
+  public async get(index: number): Promise<Datapoint<D, T>> {
+    const size = await this.size();
+    if (index < 0 || index >= size) {
+      throw new RangeError(`Index ${index} is out of range of a dataset of ${size}`);
+    }
+    if (
+      this.batch === null
+      || index < this.batch.start
+      || index >= this.batch.end
+    ) {
+      const [start, end] = await this.batchRange(index);
+      this.batch = { start, end, rows: this.readRows(start, end) };
+    }
+    const { start, rows } = this.batch;
+    return this.toDatapoint((await rows)[index - start], index);
+  }
+
+  private toDatapoint(row: Row, index: number): Datapoint<D, T> {
+    const { columns, mapRow } = this.options;
+    if (mapRow) {
+      return mapRow(row, index);
+    }
+    if (columns) {
+      const used = new Set([columns.target ?? [], columns.metadata ?? []].flat());
+      const metadata = columns.metadata !== undefined
+        ? pickColumns(row, columns.metadata)
+        : undefined;
+      return {
+        data: pickColumns(
+          row,
+          columns.data ?? Object.keys(row).filter((column) => !used.has(column)),
+        ) as D,
+        target: columns.target !== undefined ? pickColumns(row, columns.target) as T : undefined,
+        metadata: metadata as Record<string, any> | undefined,
+      };
+    }
+    return ('data' in row ? row : { data: row }) as Datapoint<D, T>;
+  }
+}
+
+/**
+ * Byte ranges of the records of a text file, found by streaming through it
+ * once. Only the offsets are kept in memory.
+ */
+interface RecordOffsets {
+  starts: number[];
+  ends: number[];
+}
+
+/**
+ * Stream through a file and find the byte ranges of its non-blank records. A
+ * newline ends a record, unless `quoted` is set and it is inside a quoted
+ * field. Fields are quoted the same way as in `parseCsvRecord`.
+ */
+const scanRecords = async (
+  path: string,
+  { quoted }: { quoted: boolean },
+): Promise<RecordOffsets> => {
+  const offsets: RecordOffsets = { starts: [], ends: [] };
+  let position = 0;
+  let recordStart = 0;
+  let blank = true;
+  let inQuotes = false;
+  let fieldStart = true;
+  let afterQuote = false;
+  const endRecord = (end: number) => {
+    if (!blank) {
+      offsets.starts.push(recordStart);
+      offsets.ends.push(end);
+    }
+    recordStart = end + 1;
+    blank = true;
+  };
+  for await (const chunk of createReadStream(path) as AsyncIterable<Buffer>) {
+    for (let i = 0; i < chunk.length; i++, position++) {
+      const byte = chunk[i];
+      if (byte === NEWLINE && !inQuotes) {
+        endRecord(position);
+        fieldStart = true;
+        afterQuote = false;
+        continue;
+      }
+      if (byte !== CARRIAGE_RETURN && byte !== SPACE && byte !== TAB) {
+        blank = false;
+      }
+      if (!quoted) {
+        continue;
+      }
+      // A quote opens a quoted field only at its start, and right after the
+      // closing quote it is the second quote of an escaped `""`
+      const closesQuote = inQuotes && byte === QUOTE;
+      if (closesQuote) {
+        inQuotes = false;
+      } else if (!inQuotes && byte === QUOTE && (fieldStart || afterQuote)) {
+        inQuotes = true;
+      }
+      afterQuote = closesQuote;
+      fieldStart = !inQuotes && byte === COMMA;
+    }
+  }
+  endRecord(position);
+  return offsets;
+};
+
+/**
+ * Read the records from `start` (inclusive) to `end` (exclusive) with one
+ * read of the file.
+ */
+const readRecords = async (
+  path: string,
+  { starts, ends }: RecordOffsets,
+  start: number,
+  end: number,
+): Promise<string[]> => {
+  const handle = await open(path, 'r');
+  const buffer = Buffer.alloc(ends[end - 1] - starts[start]);
+  try {
+    await handle.read(buffer, 0, buffer.length, starts[start]);
+  } finally {
+    await handle.close();
+  }
+  return starts.slice(start, end).map((offset, i) => buffer
+    .subarray(offset - starts[start], ends[start + i] - starts[start])
+    .toString('utf-8'));
+};
+
+/**
+ * Dataset over a JSON Lines file, one row per line.
+ *
+ * @example
+ * evaluate({
+ *   data: new JsonlDataset("regression.jsonl", {
+ *     columns: { data: "question", target: "answer" },
+ *   }),
+ *   executor,
+ *   evaluators,
+ * });
+ */
+export class JsonlDataset<D = any, T = any> extends FileDataset<D, T> {
+  private offsets: Promise<RecordOffsets> | null = null;
+
+  private getOffsets(): Promise<RecordOffsets> {
+    if (this.offsets === null) {
+      this.offsets = scanRecords(this.path, { quoted: false });
+    }
+    return this.offsets;
+  }
+
+  public async size(): Promise<number> {
+    return (await this.getOffsets()).starts.length;
+  }
+
+  protected async readRows(start: number, end: number): Promise<Row[]> {
+    const lines = await readRecords(this.path, await this.getOffsets(), start, end);
+    return lines.map((line, i) => {
+      try {
+        return JSON.parse(line) as Row;
+      } catch (error) {
+        throw Object.assign(
+          new Error(`Invalid JSON on row ${start + i} of ${this.path}: ${errorMessage(error)}`),
+          { cause: error },
+        );
+      }
+    });
+  }
+}
+
+/**
+ * Split a CSV record into its fields. Quoted fields may contain commas,
+ * newlines and doubled quotes. A quote in the middle of an unquoted field is
+ * kept as is.
+ */
+const parseCsvRecord = (record: string): string[] => {
+  const fields: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let fieldStart = true;
+  for (let i = 0; i < record.length; i++) {
+    const char = record[i];
+    if (inQuotes) {
+      if (char === '"' && record[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && fieldStart) {
+      inQuotes = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+      fieldStart = true;
+      continue;
+    } else if (char !== '\r') {
+      field += char;
+    }
+    fieldStart = false;
+  }
+  fields.push(field);
+  return fields;
+};
+
+// Same as `lmnr datasets push`: fields that look like JSON objects or arrays
+// are parsed, everything else stays a string.
+const parseCsvField = (field: string): unknown => {
+  const trimmed = field.trim();
+  if (!trimmed.startsWith('{') && !trimmed.startsWith('[')) {
+    return field;
+  }
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    return field;
+  }
+};
+
+/**
+ * Dataset over a CSV file with a header row.
+ */
+export class CsvDataset<D = any, T = any> extends FileDataset<D, T> {
+  private offsets: Promise<RecordOffsets & { header: string[] }> | null = null;
+
+  private getOffsets(): Promise<RecordOffsets & { header: string[] }> {
+    if (this.offsets === null) {
+      this.offsets = scanRecords(this.path, { quoted: true }).then(async (offsets) => {
+        if (offsets.starts.length === 0) {
+          return { ...offsets, header: [] };
+        }
+        const [header] = await readRecords(this.path, offsets, 0, 1);
+        return {
+          starts: offsets.starts.slice(1),
+          ends: offsets.ends.slice(1),
+          header: parseCsvRecord(header.replace(/^\uFEFF/, '')),
+        };
+      });
+    }
+    return this.offsets;
+  }
+
+  public async size(): Promise<number> {
+    return (await this.getOffsets()).starts.length;
+  }
+
+  protected async readRows(start: number, end: number): Promise<Row[]> {
+    const offsets = await this.getOffsets();
+    const records = await readRecords(this.path, offsets, start, end);
+    return records.map((record) => {
+      const fields = parseCsvRecord(record);
+      return Object.fromEntries(
+        offsets.header.map((column, i) => [column, parseCsvField(fields[i] ?? '')]),
+      );
+    });
+  }
+}
+
+/**
+ * Dataset over a Parquet file. Rows are read a row group at a time, and only
+ * the file metadata is read up front.
+ */
+export class ParquetDataset<D = any, T = any> extends FileDataset<D, T> {
+  private rowGroups: Promise<{
+    file: AsyncBuffer;
+    metadata: FileMetaData;
+    // Index of the first row of every row group, and the number of rows
+    starts: number[];
+  }> | null = null;
+
+  private getRowGroups() {
+    if (this.rowGroups === null) {
+      this.rowGroups = (async () => {
+        const { asyncBufferFromFile, parquetMetadataAsync } = await import('hyparquet');
+        const file = await asyncBufferFromFile(this.path);
+        const metadata = await parquetMetadataAsync(file);
+        const starts = [0];
+        for (const rowGroup of metadata.row_groups) {
+          starts.push(starts[starts.length - 1] + Number(rowGroup.num_rows));
+        }
+        return { file, metadata, starts };
+      })();
+    }
+    return this.rowGroups;
+  }
+
+  public async size(): Promise<number> {
+    const { starts } = await this.getRowGroups();
+    return starts[starts.length - 1];
+  }
+
+  protected async batchRange(index: number): Promise<[number, number]> {
+    const { starts } = await this.getRowGroups();
+    const group = starts.findIndex((start) => start > index) - 1;
+    return [starts[group], starts[group + 1]];
+  }
+
+  protected async readRows(start: number, end: number): Promise<Row[]> {
+    const { file, metadata } = await this.getRowGroups();
+    const { parquetReadObjects, toJson } = await import('hyparquet');
+    const rows = await parquetReadObjects({ file, metadata, rowStart: start, rowEnd: end });
+    // BigInts, dates and binary values to JSON-serializable values
+    return rows.map((row) => toJson(row) as Row);
+  }
+}
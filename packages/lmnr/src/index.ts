@@ -1,10 +1,24 @@
-export { EvaluationDataset as Dataset, LaminarDataset } from "./datasets";
+export {
+  ArrayDataset,
+  type DatapointPredicate,
+  EvaluationDataset as Dataset,
+  LaminarDataset,
+} from "./datasets";
+export { type CassetteEntry, CassetteMismatchError, type CassetteMode } from "./debug/cassette";
 export {
   observe,
   observeDecorator,
   observeExperimentalDecorator,
   withTracingLevel,
 } from "./decorators";
+export {
+  compareEvaluations,
+  type CompareOptions,
+  type DatapointScoreChange,
+  type EvaluationComparison,
+  type ScoreComparison,
+} from "./evaluation-comparison";
+export { type TrialStatistics } from "./evaluation-trials";
 export {
   type Datapoint,
   evaluate,
@@ -12,6 +26,12 @@ export {
   type EvaluatorFunctionReturn,
   HumanEvaluator,
 } from "./evaluations";
+export {
+  CsvDataset,
+  type FileDatasetOptions,
+  JsonlDataset,
+  ParquetDataset,
+} from "./file-datasets";
 export { Laminar, type LaminarInitializeProps } from "./laminar";
 export { LaminarSpanProcessor } from "./opentelemetry-lib/";
 export {
@@ -31,6 +51,14 @@ export {
   MastraExporter,
   type MastraExporterOptions,
 } from "./opentelemetry-lib/instrumentation/mastra";
+export {
+  extractMessageContext,
+  injectMessageContext,
+  JOB_DATA_SPAN_CONTEXT_KEY,
+  observeMessage,
+  type ObserveMessageOptions,
+  type QueueConsumeMode,
+} from "./opentelemetry-lib/instrumentation/queues";
 export { LaminarTemporalInterceptors } from "./opentelemetry-lib/instrumentation/temporal";
 export {
   LAMINAR_SPAN_CONTEXT_HEADER as LAMINAR_TEMPORAL_SPAN_CONTEXT_HEADER,
@@ -42,12 +70,52 @@ export {
   ScheduleClientInterceptor as LaminarTemporalScheduleClientInterceptor,
   WorkflowClientInterceptor as LaminarTemporalWorkflowClientInterceptor,
 } from "./opentelemetry-lib/instrumentation/temporal/interceptors";
+export {
+  type AdditionalExporter,
+  type AdditionalExporterOptions,
+} from "./opentelemetry-lib/tracing/additional-exporters";
 export { LaminarAttributes } from "./opentelemetry-lib/tracing/attributes";
+export {
+  type Budget,
+  BudgetExceededError,
+  type BudgetLimit,
+  type BudgetOptions,
+  type BudgetUsage,
+} from "./opentelemetry-lib/tracing/budget";
+export { type CostEstimationOptions } from "./opentelemetry-lib/tracing/cost-estimation";
+export {
+  type ExportQueueMetrics,
+  type ExportQueueOptions,
+} from "./opentelemetry-lib/tracing/export-queue";
 export {
   getTracer,
   getTracerProvider,
 } from "./opentelemetry-lib/tracing/index";
 export { initializeLaminarInstrumentations } from "./opentelemetry-lib/tracing/instrumentations";
+export {
+  ConsoleSpanExporter,
+  FileSpanExporter,
+} from "./opentelemetry-lib/tracing/local-exporters";
+export { DEFAULT_MODEL_PRICES, type ModelPrice } from "./opentelemetry-lib/tracing/pricing";
+export {
+  type HttpHeaders,
+  type HttpPropagationOptions,
+  LAMINAR_SPAN_CONTEXT_HEADER,
+} from "./opentelemetry-lib/tracing/propagation";
+export {
+  type BuiltInDetectorName,
+  type RedactionAction,
+  type RedactionDetector,
+  type RedactionOptions,
+} from "./opentelemetry-lib/tracing/redaction";
+export {
+  keepDurationAbove,
+  keepErrors,
+  keepTagged,
+  keepTotalTokensAbove,
+  type SamplingOptions,
+  type TailSamplingRule,
+} from "./opentelemetry-lib/tracing/sampling";
 export { LaminarClient } from "@lmnr-ai/client";
 export {
   type Dataset as DatasetType,
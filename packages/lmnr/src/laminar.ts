@@ -27,6 +27,8 @@ import {
   isTruthy,
   resetDebugRuntime,
 } from "./debug";
+import { getCassette, resetCassette } from "./debug/cassette";
+import { observe } from "./decorators";
 import {
   InitializeOptions,
   initializeTracing,
@@ -43,6 +45,7 @@ import {
   getTracer,
   patchModules,
 } from "./opentelemetry-lib/tracing";
+import { type AdditionalExporter } from "./opentelemetry-lib/tracing/additional-exporters";
 import {
   ASSOCIATION_PROPERTIES,
   LaminarAttributes,
@@ -53,8 +56,29 @@ import {
   TRACE_TYPE,
   USER_ID,
 } from "./opentelemetry-lib/tracing/attributes";
+import {
+  type Budget,
+  type BudgetOptions,
+  withBudgetContext,
+} from "./opentelemetry-lib/tracing/budget";
 import { LaminarContextManager } from "./opentelemetry-lib/tracing/context";
+import { type CostEstimationOptions } from "./opentelemetry-lib/tracing/cost-estimation";
+import {
+  type ExportQueueMetrics,
+  type ExportQueueOptions,
+} from "./opentelemetry-lib/tracing/export-queue";
+import { isLocalExporterEnv } from "./opentelemetry-lib/tracing/local-exporters";
+import {
+  disableHttpPropagation,
+  extractContext,
+  type HttpHeaders,
+  type HttpPropagationOptions,
+  injectHeaders,
+} from "./opentelemetry-lib/tracing/propagation";
+import { type RedactionOptions } from "./opentelemetry-lib/tracing/redaction";
+import { type SamplingOptions } from "./opentelemetry-lib/tracing/sampling";
 import { LaminarSpan } from "./opentelemetry-lib/tracing/span";
+import { TraceRecorder } from "./testing/recorder";
 import {
   deserializeLaminarSpanContext,
   getFrontendUrl,
@@ -87,6 +111,12 @@ export interface LaminarInitializeProps {
   metadata?: Record<string, any>;
   inheritGlobalContext?: boolean;
   spanProcessor?: SpanProcessor;
+  sampling?: SamplingOptions;
+  redaction?: RedactionOptions;
+  costEstimation?: boolean | CostEstimationOptions;
+  httpPropagation?: boolean | HttpPropagationOptions;
+  exportQueue?: boolean | ExportQueueOptions;
+  additionalExporters?: AdditionalExporter[];
 }
 
 type LaminarAttributesProp = Record<
@@ -109,6 +139,8 @@ export class Laminar {
   // from-context path has no access to initialize()'s args).
   private static baseUrlForDebug: string | undefined = undefined;
   private static httpPortForDebug: number | undefined = undefined;
+  // Set by initializeForTesting() until shutdown()
+  private static testRecorder: TraceRecorder | null = null;
   /**
    * Process-wide latch for debug-replay v2: once any LLM call gets a cache MISS,
    * every subsequent call runs live (skipping the cache lookup) for the rest of
@@ -125,6 +157,8 @@ export class Laminar {
    * @param {string} props.projectApiKey - Laminar project api key. You can generate one by going
    * to the projects settings page on the Laminar dashboard.
    * If not specified, it will try to read from the LMNR_PROJECT_API_KEY environment variable.
+   * Not needed if LMNR_EXPORTER is set to `console` or `file:<path>`, which export spans
+   * locally instead of to Laminar.
    * @param {string} props.baseUrl - Laminar API url. Do not include the port, use
    * `httpPort` and `grpcPort` instead.
    * If not specified, defaults to https://api.lmnr.ai.
@@ -161,7 +195,33 @@ export class Laminar {
    * context. Defaults to false. This is useful if your library is instrumented with OpenTelemetry
    * and you want Laminar spans to be children of the existing spans.
    * @param {SpanProcessor} props.spanProcessor - The span processor to use. If passed, some of
-   * the other options will be ignored.
+   * the other options will be ignored, and the project API key is not required.
+   * @param {SamplingOptions} props.sampling - Trace sampling. `ratio` keeps a fraction of
+   * traces, decided per trace id and followed by child spans and propagated span contexts.
+   * `rules` keep dropped traces that match, e.g. ones with errors, and delay their export
+   * until the trace ends. If not specified, all traces are exported.
+   * @param {RedactionOptions} props.redaction - Redaction of emails, phone numbers, card
+   * numbers, API keys, JWTs, IP addresses and custom patterns from span input, output, LLM
+   * messages and metadata, including those of auto-instrumented spans. Detected values are
+   * masked, hashed or dropped. If not specified, nothing is redacted.
+   * @param {boolean | CostEstimationOptions} props.costEstimation - Whether to set the cost
+   * of LLM spans (`gen_ai.usage.cost`, with input, output, cache and reasoning parts) from
+   * their model and token usage, for destinations that do not compute it, e.g. local and
+   * additional exporters. The root span of a trace gets the total cost of its LLM spans
+   * (`lmnr.trace.total_cost`). Pass `{ prices }` to override or add model prices.
+   * Defaults to false.
+   * @param {boolean | HttpPropagationOptions} props.httpPropagation - Whether to continue traces
+   * across services over HTTP. Handlers of Node `http` servers run in the trace context of
+   * the request headers, and `fetch` requests to the URLs in `propagateTo` get the headers of
+   * the current span, see {@link Laminar.injectHeaders}. Defaults to false.
+   * @param {boolean | ExportQueueOptions} props.exportQueue - Whether to keep batches that
+   * failed to export in a local directory (`.lmnr/export-queue` by default) and retry them
+   * with backoff, also after a restart. Pass options to change the directory, size and age
+   * limits. Defaults to false.
+   * @param {AdditionalExporter[]} props.additionalExporters - Destinations to export spans to
+   * in addition to Laminar, e.g. an OTLP exporter of a Jaeger or Tempo collector. Every
+   * destination has its own batching and failures, and can drop attributes, e.g.
+   * `{ exporter, dropAttributes: ["lmnr.span.input", "lmnr.span.output"] }`.
    *
    * @example
    * import { Laminar } from '@lmnr-ai/lmnr';
@@ -197,6 +257,12 @@ export class Laminar {
     metadata,
     inheritGlobalContext,
     spanProcessor,
+    sampling,
+    redaction,
+    costEstimation,
+    httpPropagation,
+    exportQueue,
+    additionalExporters,
   }: LaminarInitializeProps = {}) {
     if (this.isInitialized) {
       logger.warn(
@@ -206,8 +272,12 @@ export class Laminar {
     }
     const key = projectApiKey ?? process?.env?.LMNR_PROJECT_API_KEY;
 
-    // Validate that either API key or OTEL configuration is present
-    validateTracingConfig(key);
+    // Validate that either API key or OTEL configuration is present. A custom
+    // span processor or a local exporter exports spans on its own, so it needs
+    // neither.
+    if (!spanProcessor && !isLocalExporterEnv()) {
+      validateTracingConfig(key);
+    }
 
     this.projectApiKey = key ?? "";
     let url = baseUrl ?? process?.env?.LMNR_BASE_URL;
@@ -267,6 +337,12 @@ export class Laminar {
       traceExportTimeoutMillis,
       sessionRecordingOptions,
       spanProcessor,
+      sampling,
+      redaction,
+      costEstimation,
+      httpPropagation,
+      exportQueue,
+      additionalExporters,
     });
 
     // Build the debug runtime only after tracing is up. It has no dependency on
@@ -283,6 +359,48 @@ export class Laminar {
     this._initializeContextFromEnv();
   }
 
+  /**
+   * Initialize Laminar for tests. Spans are kept in memory, as soon as they
+   * end, by the returned {@link TraceRecorder}, and nothing is sent to Laminar.
+   * Calling it again returns the same recorder, reset.
+   *
+   * @param {object} props - Configuration object, a subset of {@link initialize}'s.
+   * @returns {TraceRecorder} The recorder of finished spans.
+   *
+   * @example
+   * import { Laminar } from '@lmnr-ai/lmnr';
+   *
+   * const recorder = Laminar.initializeForTesting();
+   * await myAgent("question");
+   * recorder.getTrace().expectSpanPath(["myAgent", "openai.chat"]);
+   *
+   * @throws {Error} - If Laminar is already initialized, but not for testing
+   */
+  public static initializeForTesting(
+    props: Pick<
+      LaminarInitializeProps,
+      "instrumentModules" | "metadata" | "sampling" | "redaction" | "costEstimation"
+    > = {},
+  ): TraceRecorder {
+    if (this.testRecorder) {
+      this.testRecorder.reset();
+      return this.testRecorder;
+    }
+    if (this.isInitialized) {
+      throw new Error(
+        "Laminar is already initialized. Call Laminar.shutdown() before " +
+        "Laminar.initializeForTesting().",
+      );
+    }
+    const recorder = new TraceRecorder();
+    this.initialize({
+      ...props,
+      spanProcessor: new LaminarSpanProcessor({ exporter: recorder, disableBatch: true }),
+    });
+    this.testRecorder = recorder;
+    return recorder;
+  }
+
   /**
    * Initialize Laminar context from the LMNR_SPAN_CONTEXT environment variable.
    * This allows continuing traces across process boundaries.
@@ -487,7 +605,11 @@ export class Laminar {
       if (this.debugExitHook !== null) {
         process.removeListener("exit", this.debugExitHook);
       }
-      this.debugExitHook = () => runtime.emitPointer();
+      this.debugExitHook = () => {
+        // No event loop left to fetch the replayed trace, so no diffs here
+        runtime.printDivergenceReport();
+        runtime.emitPointer();
+      };
       process.once("exit", this.debugExitHook);
     } catch (e) {
       // never let debug setup crash initialization
@@ -1153,6 +1275,145 @@ export class Laminar {
     );
   }
 
+  /**
+   * Run a function with limits on the LLM usage of everything it calls. Once
+   * a limit is exceeded, the next instrumented LLM call throws a
+   * {@link BudgetExceededError}, unless `budget.onExceeded` is set. Unlike
+   * `observe({ budget })`, this does not create a span.
+   *
+   * Usage is aggregated from LLM spans as they end. Their cost is recorded by
+   * the instrumentation, or estimated from a local model price table.
+   *
+   * @param {BudgetOptions} budget - The limits, see {@link BudgetOptions}.
+   * @param {Function} fn - Function to execute. Receives the budget, whose
+   * `usage` is updated as LLM calls end.
+   * @returns The result of the function execution.
+   *
+   * @example
+   * import { BudgetExceededError, Laminar } from '@lmnr-ai/lmnr';
+   *
+   * try {
+   *   await Laminar.withBudget({ maxCostUsd: 0.5, maxLlmCalls: 20 }, () => runAgent(task));
+   * } catch (e) {
+   *   if (e instanceof BudgetExceededError) {
+   *     console.log(`Stopped the agent: ${e.message}`);
+   *   }
+   * }
+   */
+  public static withBudget<T>(budget: BudgetOptions, fn: (budget: Budget) => T): T {
+    const { context, budget: activeBudget } = withBudgetContext(
+      LaminarContextManager.getContext(),
+      budget,
+    );
+    return contextApi.with(context, () =>
+      LaminarContextManager.runWithIsolatedContext([context], () => fn(activeBudget)),
+    );
+  }
+
+  /**
+   * Wrap a tool so that it runs in a `TOOL` span that a debug replay run can
+   * skip: while the replay is within its cached window, the tool returns the
+   * output recorded in the replayed trace for the same input, and its span is
+   * marked `CACHED`. Use it for tools with side effects, like database writes,
+   * HTTP calls or browser actions. Same as
+   * `observe({ spanType: 'TOOL', replayable: true }, fn, ...args)`.
+   *
+   * @param {Function} fn - The tool. Must be an async function, and its output JSON
+   * serializable.
+   * @param options - Other `observe` options. The span name defaults to the name of `fn`.
+   * @returns The wrapped tool.
+   *
+   * @example
+   * const sendEmail = Laminar.replayableTool(async (to: string, body: string) => {
+   *   return await mailer.send({ to, body });
+   * }, { name: 'send_email' });
+   */
+  public static replayableTool<A extends unknown[], R>(
+    fn: (...args: A) => Promise<R>,
+    options: Omit<Parameters<typeof observe>[0], "spanType" | "replayable"> = {},
+  ): (...args: A) => Promise<R> {
+    return (...args: A) => observe(
+      { name: fn.name, ...options, spanType: "TOOL", replayable: true },
+      fn,
+      ...args,
+    );
+  }
+
+  /**
+   * Set the trace context headers of an outgoing request: W3C `traceparent`
+   * and `baggage`, and `x-lmnr-span-context` with the span path, session,
+   * user, metadata and debug context of the span. A service that calls
+   * {@link Laminar.extractContext} with them continues the same trace, and
+   * the debug session if it trusts the debug context.
+   *
+   * @param {HttpHeaders} headers - A fetch `Headers` object or a plain headers object.
+   * @param {Span} span - The parent span of the request. Defaults to the current span.
+   * @returns The same headers object.
+   *
+   * @example
+   * await fetch("http://search-agent/run", {
+   *   method: "POST",
+   *   headers: Laminar.injectHeaders({ "content-type": "application/json" }),
+   *   body: JSON.stringify({ query }),
+   * });
+   */
+  public static injectHeaders<T extends HttpHeaders>(headers: T, span?: Span): T {
+    const currentSpan = span ?? this.getCurrentSpan();
+    const ctx = LaminarContextManager.getContext();
+    injectHeaders(
+      headers,
+      currentSpan ? trace.setSpan(ctx, currentSpan) : ctx,
+      currentSpan ? this.getLaminarSpanContext(currentSpan) : null,
+    );
+    return headers;
+  }
+
+  /**
+   * Get the trace context of an incoming request from its headers, set by
+   * {@link Laminar.injectHeaders} or any W3C trace context propagator. Spans
+   * started in it are children of the calling span, with its session, user
+   * and metadata. Run code in it with {@link Laminar.withContext}.
+   *
+   * @param {HttpHeaders} headers - A fetch `Headers` object or the headers of a
+   * Node request.
+   * @param {object} options - Options.
+   * @param {boolean} options.trustDebugContext - Whether to arm a debug session from the
+   * debug context of the headers. Any client can send them, so set it only for requests
+   * from trusted services. Defaults to false.
+   * @returns The context, or the current context if the headers have no trace context.
+   *
+   * @example
+   * app.post("/run", (req, res) =>
+   *   Laminar.withContext(Laminar.extractContext(req.headers), () => runAgent(req, res)),
+   * );
+   */
+  public static extractContext(
+    headers: HttpHeaders,
+    options: { trustDebugContext?: boolean } = {},
+  ): Context {
+    const { context, laminarSpanContext } = extractContext(
+      headers,
+      LaminarContextManager.getContext(),
+    );
+    if (options.trustDebugContext) {
+      this._armDebugRuntimeFromContext(laminarSpanContext?.debug);
+    }
+    return context;
+  }
+
+  /**
+   * Run a function in a context, e.g. one returned by {@link Laminar.extractContext}.
+   *
+   * @param {Context} context - The context to run the function in.
+   * @param {Function} fn - Function to execute.
+   * @returns The result of the function execution.
+   */
+  public static withContext<T>(context: Context, fn: () => T): T {
+    return contextApi.with(context, () =>
+      LaminarContextManager.runWithIsolatedContext([context], fn),
+    );
+  }
+
   public static serializeLaminarSpanContext(span?: Span): string | null {
     const laminarSpanContext = this.getLaminarSpanContext(span);
     if (laminarSpanContext === null) {
@@ -1183,6 +1444,15 @@ export class Laminar {
     return this.getLaminarSpanContext()?.traceId ?? null;
   }
 
+  /**
+   * Metrics of the on-disk export queue: batches and spans waiting to be sent,
+   * and counts of queued, retried and dropped spans since initialization.
+   * Returns null if Laminar is not initialized with `exportQueue`.
+   */
+  public static async getExportQueueMetrics(): Promise<ExportQueueMetrics | null> {
+    return await getSpanProcessor()?.getExportQueueMetrics() ?? null;
+  }
+
   public static async flush() {
     if (this.isInitialized) {
       logger.debug("Flushing spans");
@@ -1196,9 +1466,12 @@ export class Laminar {
       // Emit the debug-session record before flushing so flows that shut down
       // without terminating the process still get LMNR_DEBUG_RUN +
       // .lmnr/debug-session.json. Idempotent — the process-exit hooks are a
-      // fallback.
+      // fallback. The replay divergence report is printed right before it.
+      await getRuntime()?.reportDivergence();
       getRuntime()?.emitPointer();
       await forceFlush();
+      // Finish writing LLM calls that were recorded as their responses ended
+      await getCassette()?.flush();
       // Unlike Python where asynchronous nature of `BatchSpanProcessor.forceFlush()`
       // forces us to actually use `SpanProcessor.shutdown()` and make any
       // further interactions with OTEL API impossible, here we call
@@ -1206,12 +1479,15 @@ export class Laminar {
       // call `shutdown()` and then `initialize()` again. This is why we
       // reset the keys, contexts, and configuration here.
       this.isInitialized = false;
+      this.testRecorder = null;
+      disableHttpPropagation();
       _resetConfiguration();
       LaminarContextManager.clearContexts();
       LaminarContextManager.clearActiveSpans();
       // Clear the one-shot debug-runtime state so a subsequent initialize()
       // re-reads LMNR_DEBUG* instead of resurrecting the previous run.
       resetDebugRuntime();
+      resetCassette();
       // Clear the process-wide live latch so a re-initialized run starts by
       // consulting the cache again instead of inheriting the prior run's MISS.
       this.debugRunLive = false;
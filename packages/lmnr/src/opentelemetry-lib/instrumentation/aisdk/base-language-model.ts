@@ -32,10 +32,17 @@ import {
   type SharedV3Warning,
 } from "@ai-sdk/provider-v3";
 import { CachedSpan } from "@lmnr-ai/types";
+import { type Span } from "@opentelemetry/api";
 
+import {
+  type Cassette,
+  type CassetteEntry,
+  entryToCachedSpan,
+  getCassette,
+} from "../../../debug/cassette";
 import { debugInputHash } from "../../../debug/hash";
 import { getRuntime } from "../../../debug/index";
-import { markSpanCached, replayEnabled } from "../../../debug/replay";
+import { markSpanCached, replayEnabled, spanPathFromSpan } from "../../../debug/replay";
 import { Laminar } from "../../../laminar";
 import { peekActiveLlmSpan } from "./active-llm-span";
 import { verbatimPromptMessages } from "./v7-integration/utils";
@@ -63,6 +70,60 @@ type CacheResponse =
  */
 type CacheOutput = CacheResponse | Record<string, any> | Record<string, any>[];
 
+type CassetteRecording = Pick<CassetteEntry, "output" | "attributes">;
+
+/**
+ * Pass a live stream through, and record its content in the verbatim v7 shape
+ * `convertToContentBlocks` reads once the stream ends.
+ */
+const recordStream = (
+  stream: ReadableStream<any>,
+  record: (recording: CassetteRecording) => void,
+): ReadableStream<any> => {
+  const content: Record<string, any>[] = [];
+  const openBlocks = new Map<string, Record<string, any>>();
+  let finishReason: unknown;
+  return stream.pipeThrough(new TransformStream<any, any>({
+    transform(part: Record<string, any>, controller) {
+      switch (part.type) {
+        case "text-start":
+        case "reasoning-start": {
+          const block = {
+            type: part.type === "text-start" ? "text" : "reasoning",
+            text: "",
+            ...(part.providerMetadata ? { providerMetadata: part.providerMetadata } : {}),
+          };
+          openBlocks.set(`${block.type}:${part.id}`, block);
+          content.push(block);
+          break;
+        }
+        case "text-delta":
+        case "reasoning-delta": {
+          const kind = part.type === "text-delta" ? "text" : "reasoning";
+          const block = openBlocks.get(`${kind}:${part.id}`);
+          if (block) {
+            block.text += part.delta ?? "";
+          }
+          break;
+        }
+        case "tool-call":
+          content.push({ ...part });
+          break;
+        case "finish":
+          finishReason = part.finishReason;
+          break;
+      }
+      controller.enqueue(part);
+    },
+    flush() {
+      record({
+        output: JSON.stringify(content),
+        attributes: { "ai.response.finishReason": finishReason ?? "stop" },
+      });
+    },
+  }));
+};
+
 /**
  * Base class for Laminar language model wrappers.
  * Implements shared replay-cache logic for both V2 and V3 specifications.
@@ -213,8 +274,17 @@ export abstract class BaseLaminarLanguageModel {
       | LanguageModelV4CallOptions,
     doGenerateFn: (opts: any) => PromiseLike<any>,
   ): PromiseLike<any> {
-    return this.doGenerateOrStreamWithCaching(options, doGenerateFn, (cached) =>
-      this.cachedDoGenerate(cached),
+    return this.doGenerateOrStreamWithCaching(
+      options,
+      doGenerateFn,
+      (cached) => this.cachedDoGenerate(cached),
+      (result, record) => {
+        record({
+          output: JSON.stringify(result.content),
+          attributes: { "ai.response.finishReason": result.finishReason },
+        });
+        return result;
+      },
     );
   }
 
@@ -277,8 +347,11 @@ export abstract class BaseLaminarLanguageModel {
       | LanguageModelV4CallOptions,
     doStreamFn: (opts: any) => PromiseLike<any>,
   ): PromiseLike<any> {
-    return this.doGenerateOrStreamWithCaching(options, doStreamFn, (cached) =>
-      this.cachedDoStream(cached),
+    return this.doGenerateOrStreamWithCaching(
+      options,
+      doStreamFn,
+      (cached) => this.cachedDoStream(cached),
+      (result, record) => ({ ...result, stream: recordStream(result.stream, record) }),
     );
   }
 
@@ -292,7 +365,9 @@ export abstract class BaseLaminarLanguageModel {
    *            live; the server records the response so the cache warms up.
    *   - LIVE — run THIS call live WITHOUT latching (server COLD warmup-timeout
    *            degrade, or any transport/parse error in the lookup).
-   * A non-debug or no-replay run falls through to the live provider call.
+   * A non-debug or no-replay run falls through to the live provider call. With
+   * a local cassette (`LMNR_CASSETTE`), the cassette is consulted instead, and
+   * `recordLive` records the calls it runs live.
    */
   private async doGenerateOrStreamWithCaching(
     options:
@@ -301,8 +376,13 @@ export abstract class BaseLaminarLanguageModel {
       | LanguageModelV4CallOptions,
     originalFn: (opts: any) => PromiseLike<any>,
     buildFromCached: (cached: CachedSpan) => any,
+    recordLive: (
+      result: Record<string, any>,
+      record: (recording: CassetteRecording) => void,
+    ) => unknown,
   ): Promise<any> {
-    if (!replayEnabled() || Laminar.debugRunLive) {
+    const cassette = getCassette();
+    if (cassette === null && (!replayEnabled() || Laminar.debugRunLive)) {
       return originalFn(options);
     }
 
@@ -333,9 +413,17 @@ export abstract class BaseLaminarLanguageModel {
       return originalFn(options);
     }
     const inputHash = debugInputHash(messages);
-    const outcome = (await getRuntime()?.lookupCache(inputHash)) ?? {
-      kind: "live" as const,
-    };
+    if (cassette !== null) {
+      return this.withCassette(cassette, inputHash, messages, spanToMark, {
+        live: () => originalFn(options),
+        buildFromCached,
+        recordLive,
+      });
+    }
+    const outcome = (await getRuntime()?.lookupCache(inputHash, {
+      spanPath: spanPathFromSpan(spanToMark),
+      messages,
+    })) ?? { kind: "live" as const };
 
     switch (outcome.kind) {
       case "hit":
@@ -352,6 +440,35 @@ export abstract class BaseLaminarLanguageModel {
     }
   }
 
+  /**
+   * Replay a call from the cassette, or run it live and record it. Throws
+   * `CassetteMismatchError` in `replay` mode for a call that was not recorded.
+   */
+  private async withCassette(
+    cassette: Cassette,
+    inputHash: string,
+    messages: unknown[],
+    spanToMark: Span | undefined,
+    calls: {
+      live: () => PromiseLike<any>;
+      buildFromCached: (cached: CachedSpan) => any;
+      recordLive: (
+        result: Record<string, any>,
+        record: (recording: CassetteRecording) => void,
+      ) => unknown;
+    },
+  ): Promise<any> {
+    const entry = cassette.next(inputHash, messages);
+    if (entry !== null) {
+      markSpanCached(spanToMark);
+      return calls.buildFromCached(entryToCachedSpan(entry));
+    }
+    const result = (await calls.live()) as Record<string, any>;
+    return calls.recordLive(result, (recording) =>
+      cassette.record({ input_hash: inputHash, messages, ...recording }),
+    );
+  }
+
   private cachedDoGenerate(cached: CachedSpan): {
     content: Array<
       LanguageModelV2Content | LanguageModelV3Content | LanguageModelV4Content
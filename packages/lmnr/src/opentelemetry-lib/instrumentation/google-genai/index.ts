@@ -1,4 +1,4 @@
-import { context, diag, SpanStatusCode } from "@opentelemetry/api";
+import { context, diag, SpanStatusCode, trace } from "@opentelemetry/api";
 import { isTracingSuppressed } from "@opentelemetry/core";
 import {
   InstrumentationBase,
@@ -7,10 +7,13 @@ import {
 } from "@opentelemetry/instrumentation";
 
 import { version as SDK_VERSION } from "../../../../package.json";
+import { googleGenAiReplay } from "../../../debug/providers/google-genai";
+import { withCacheReplay } from "../../../debug/providers/index";
 import { Laminar } from "../../../laminar";
 import { setRequestAttributes, setResponseAttributes, wrapStreamingResponse } from "./utils";
 
 const WRAPPED_SYMBOL = Symbol("lmnr.google-genai.wrapped");
+const REPLAY_WRAPPED_SYMBOL = Symbol("lmnr.google-genai.replayWrapped");
 const CLASS_PATCH_DATA_SYMBOL = Symbol("lmnr.google-genai.classPatchData");
 
 type ClassPatchData = {
@@ -164,6 +167,14 @@ export class GoogleGenAiInstrumentation extends InstrumentationBase {
     // Guard against double-wrapping
     if (models[WRAPPED_SYMBOL]) return;
 
+    // Debug replay answers generateContent requests of the shared API client,
+    // inside the spans below (see debug/providers)
+    const apiClient = models.apiClient;
+    if (typeof apiClient?.apiCall === "function" && !apiClient[REPLAY_WRAPPED_SYMBOL]) {
+      apiClient.apiCall = withCacheReplay(apiClient.apiCall.bind(apiClient), [googleGenAiReplay]);
+      apiClient[REPLAY_WRAPPED_SYMBOL] = true;
+    }
+
     const originalGenerateContent = models.generateContent.bind(models);
     const originalGenerateContentStream = models.generateContentStream.bind(models);
     models.generateContent = async function (params: any) {
@@ -204,7 +215,10 @@ export class GoogleGenAiInstrumentation extends InstrumentationBase {
       setRequestAttributes(span, params, classPatchData.traceContent);
 
       try {
-        const asyncGen = await originalGenerateContentStream(params);
+        const asyncGen = await context.with(
+          trace.setSpan(context.active(), span),
+          () => originalGenerateContentStream(params),
+        );
         return wrapStreamingResponse(span, asyncGen, classPatchData.traceContent);
       } catch (error) {
         span.setAttribute("error.type", (error as Error).constructor?.name ?? "Error");
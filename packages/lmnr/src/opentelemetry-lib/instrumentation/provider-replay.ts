@@ -0,0 +1,129 @@
+import { diag } from "@opentelemetry/api";
+import {
+  InstrumentationBase,
+  InstrumentationModuleDefinition,
+  InstrumentationNodeModuleDefinition,
+  isWrapped,
+} from "@opentelemetry/instrumentation";
+
+import { version as SDK_VERSION } from "../../../package.json";
+import { CassetteMismatchError } from "../../debug/cassette";
+import { anthropicReplay } from "../../debug/providers/anthropic";
+import { type ProviderReplay, withCacheReplay } from "../../debug/providers/index";
+import { openAIReplay } from "../../debug/providers/openai";
+
+// `fetchWithTimeout(url, init, timeout, controller)` of the OpenAI and
+// Anthropic clients
+type FetchWithTimeout = (url: unknown, init?: RequestInit, ...rest: unknown[]) => Promise<Response>;
+
+// Both clients retry a fetch that throws and then wrap its error in a generic
+// connection error, so a cassette mismatch is answered as a non-retryable API
+// error that carries its message instead.
+const mismatchResponse = (error: CassetteMismatchError): Response =>
+  new Response(
+    JSON.stringify({
+      type: "error",
+      error: { type: "cassette_mismatch", message: error.message },
+    }),
+    {
+      status: 400,
+      headers: { "content-type": "application/json", "x-should-retry": "false" },
+    },
+  );
+
+/**
+ * Debug-replay for the `openai` and `@anthropic-ai/sdk` clients.
+ *
+ * Wraps `fetchWithTimeout` of their client classes, the single method both
+ * SDKs send API requests through, so that LLM calls consult the replay cache
+ * on a debug replay run (see `debug/providers`). Spans are still created by
+ * the OpenAI and Anthropic instrumentations, which wrap the resource methods
+ * above it; this one only answers the HTTP request.
+ */
+/* eslint-disable
+  @typescript-eslint/no-unsafe-return
+*/
+export class ProviderReplayInstrumentation extends InstrumentationBase {
+  constructor() {
+    super(
+      "@lmnr/provider-replay-instrumentation",
+      SDK_VERSION,
+      { enabled: true },
+    );
+  }
+
+  protected init(): InstrumentationModuleDefinition[] {
+    return [
+      new InstrumentationNodeModuleDefinition(
+        "openai",
+        [">=4.0.0"],
+        (moduleExports: any) => this.patchClient(moduleExports, "OpenAI", [openAIReplay]),
+        (moduleExports: any) => this.unpatchClient(moduleExports, "OpenAI"),
+      ),
+      new InstrumentationNodeModuleDefinition(
+        "@anthropic-ai/sdk",
+        [">=0.20.0"],
+        (moduleExports: any) => this.patchClient(moduleExports, "Anthropic", [anthropicReplay]),
+        (moduleExports: any) => this.unpatchClient(moduleExports, "Anthropic"),
+      ),
+    ];
+  }
+
+  /** @param openAIModule - The `OpenAI` class or the `openai` module object. */
+  public manuallyInstrumentOpenAI(openAIModule: any): void {
+    diag.debug("Manually instrumenting openai for debug replay");
+    this.patchClient(openAIModule, "OpenAI", [openAIReplay]);
+  }
+
+  /** @param anthropicModule - The `Anthropic` class or the `@anthropic-ai/sdk` module object. */
+  public manuallyInstrumentAnthropic(anthropicModule: any): void {
+    diag.debug("Manually instrumenting @anthropic-ai/sdk for debug replay");
+    this.patchClient(anthropicModule, "Anthropic", [anthropicReplay]);
+  }
+
+  private resolveClientClass(moduleOrClass: any, className: string): any {
+    if (typeof moduleOrClass === "function") {
+      return moduleOrClass;
+    }
+    return moduleOrClass?.[className] ?? moduleOrClass?.default;
+  }
+
+  private patchClient(moduleExports: any, className: string, providers: ProviderReplay[]): any {
+    const prototype = this.resolveClientClass(moduleExports, className)?.prototype;
+    if (typeof prototype?.fetchWithTimeout !== "function") {
+      diag.debug(`${className}.prototype.fetchWithTimeout not found, not enabling debug replay`);
+      return moduleExports;
+    }
+    if (isWrapped(prototype.fetchWithTimeout)) {
+      this._unwrap(prototype, "fetchWithTimeout");
+    }
+    this._wrap(
+      prototype,
+      "fetchWithTimeout",
+      (original: FetchWithTimeout) => {
+        const replay = withCacheReplay(original, providers);
+        return async function (this: unknown, ...args: Parameters<FetchWithTimeout>) {
+          try {
+            return await replay.apply(this, args);
+          } catch (e) {
+            if (e instanceof CassetteMismatchError) {
+              return mismatchResponse(e);
+            }
+            throw e;
+          }
+        };
+      },
+    );
+    return moduleExports;
+  }
+
+  private unpatchClient(moduleExports: any, className: string): void {
+    const prototype = this.resolveClientClass(moduleExports, className)?.prototype;
+    if (prototype) {
+      this._unwrap(prototype, "fetchWithTimeout");
+    }
+  }
+}
+/* eslint-enable
+  @typescript-eslint/no-unsafe-return
+*/
@@ -0,0 +1,420 @@
+/**
+ * Trace context propagation through job queues and message buses.
+ *
+ * Publishing a job or message from inside a span adds the serialized
+ * `LaminarSpanContext` to it: to the job data of BullMQ jobs, and to the
+ * headers of Kafka messages. Consuming it runs the handler in a span that
+ * continues the publisher's trace (`consumeMode: "child"`, the default), or
+ * starts a new trace linked to the publishing span (`consumeMode: "link"`).
+ *
+ * Usage — auto-patch via instrumentModules:
+ *
+ * ```typescript
+ * import * as bullmq from 'bullmq';
+ * import * as kafkajs from 'kafkajs';
+ * import { Laminar } from '@lmnr-ai/lmnr';
+ *
+ * Laminar.initialize({
+ *   instrumentModules: { queues: { bullmq, kafkajs } },
+ * });
+ * ```
+ *
+ * Usage — any other queue, e.g. SQS:
+ *
+ * ```typescript
+ * import { injectMessageContext, observeMessage } from '@lmnr-ai/lmnr';
+ *
+ * // Publisher
+ * const headers = injectMessageContext();
+ * await sqs.send(new SendMessageCommand({
+ *   QueueUrl,
+ *   MessageBody: body,
+ *   MessageAttributes: Object.fromEntries(Object.entries(headers).map(
+ *     ([key, value]) => [key, { DataType: 'String', StringValue: value }],
+ *   )),
+ * }));
+ *
+ * // Consumer
+ * await observeMessage(
+ *   { name: 'process orders', carrier: message.MessageAttributes },
+ *   () => handle(message),
+ * );
+ * ```
+ */
+
+import { type LaminarSpanContext, type StringUUID } from "@lmnr-ai/types";
+import { type Context, type Link, ROOT_CONTEXT } from "@opentelemetry/api";
+import { parseTraceParent } from "@opentelemetry/core";
+
+import { observe } from "../../../decorators";
+import { Laminar } from "../../../laminar";
+import {
+  deserializeLaminarSpanContext,
+  initializeLogger,
+  otelSpanIdToUUID,
+  otelTraceIdToUUID,
+  tryToOtelSpanContext,
+} from "../../../utils";
+import { LaminarContextManager } from "../../tracing/context";
+import { LAMINAR_SPAN_CONTEXT_HEADER, TRACEPARENT_HEADER } from "../temporal/consts";
+
+const logger = initializeLogger();
+
+/**
+ * Key of the serialized `LaminarSpanContext` in the data of BullMQ jobs,
+ * which have no headers.
+ */
+export const JOB_DATA_SPAN_CONTEXT_KEY = "__lmnr_span_context";
+
+/**
+ * How a consumer span relates to the span that published its message:
+ * - `"child"` - continue the publisher's trace as a child of its span.
+ * - `"link"` - start a new trace, with a link to the publisher's span. Useful
+ *   when one request fans out to many long-running jobs.
+ */
+export type QueueConsumeMode = "child" | "link";
+
+export interface ObserveMessageOptions {
+  /** Name of the consumer span, e.g. `process orders`. */
+  name: string;
+  /**
+   * Headers or attributes of the consumed message, or a list of them for a
+   * batch. Values may be strings, buffers, arrays of them, or SQS message
+   * attribute values.
+   */
+  carrier?: Record<string, unknown> | Record<string, unknown>[];
+  /** Defaults to `"child"`. Batches of more than one message are always linked. */
+  mode?: QueueConsumeMode;
+  /** Input of the consumer span, e.g. the message. */
+  input?: unknown;
+}
+
+/**
+ * The trace context headers of a message published in the current span:
+ * `x-lmnr-span-context` with the serialized `LaminarSpanContext`, and W3C
+ * `traceparent`. Empty if there is no current span.
+ *
+ * @param headers - Headers to add to. Defaults to a new object.
+ * @returns The same headers object.
+ */
+export const injectMessageContext = (
+  headers: Record<string, string> = {},
+): Record<string, string> => {
+  const spanContext = Laminar.getLaminarSpanContext();
+  if (!spanContext) {
+    return headers;
+  }
+  headers[LAMINAR_SPAN_CONTEXT_HEADER] = JSON.stringify(spanContext);
+  const { traceId, spanId, traceFlags } = tryToOtelSpanContext(spanContext);
+  headers[TRACEPARENT_HEADER] = `00-${traceId}-${spanId}-0${traceFlags & 1}`;
+  return headers;
+};
+
+const carrierValue = (value: unknown): string | undefined => {
+  if (Array.isArray(value)) {
+    return carrierValue(value[0]);
+  }
+  if (typeof value === "string") {
+    return value;
+  }
+  if (value instanceof Uint8Array) {
+    return Buffer.from(value).toString("utf8");
+  }
+  // SQS message attribute
+  const stringValue = (value as { StringValue?: unknown } | undefined)?.StringValue;
+  return typeof stringValue === "string" ? stringValue : undefined;
+};
+
+const getCarrierValue = (carrier: Record<string, unknown>, key: string): string | undefined => {
+  const name = Object.keys(carrier).find((header) => header.toLowerCase() === key);
+  return name !== undefined ? carrierValue(carrier[name]) : undefined;
+};
+
+/**
+ * The span context of the publisher of a message, from its
+ * `x-lmnr-span-context` or, if there is none, `traceparent` header.
+ */
+export const extractMessageContext = (
+  carrier: Record<string, unknown> | undefined,
+): LaminarSpanContext | undefined => {
+  if (!carrier) {
+    return undefined;
+  }
+  const serialized = getCarrierValue(carrier, LAMINAR_SPAN_CONTEXT_HEADER);
+  if (serialized) {
+    try {
+      return deserializeLaminarSpanContext(serialized);
+    } catch (e) {
+      logger.debug(`Ignoring invalid ${LAMINAR_SPAN_CONTEXT_HEADER}: ${String(e)}`);
+    }
+  }
+  const traceParent = parseTraceParent(getCarrierValue(carrier, TRACEPARENT_HEADER) ?? "");
+  if (!traceParent) {
+    return undefined;
+  }
+  return {
+    traceId: otelTraceIdToUUID(traceParent.traceId),
+    spanId: otelSpanIdToUUID(traceParent.spanId) as StringUUID,
+    isRemote: true,
+    sampled: (traceParent.traceFlags & 1) === 1,
+  };
+};
+
+/**
+ * Run the handler of consumed messages in a span that continues the trace of
+ * their publisher, or starts a new trace linked to it, see
+ * {@link QueueConsumeMode}. The span has no other parent: the handler of a
+ * message never joins a trace that happens to be active in the consumer.
+ */
+export const observeMessage = <T>(
+  { name, carrier, mode = "child", input }: ObserveMessageOptions,
+  fn: () => T,
+): T => {
+  const carriers = Array.isArray(carrier) ? carrier : [carrier];
+  const parents = carriers
+    .map(extractMessageContext)
+    .filter((parent): parent is LaminarSpanContext => parent !== undefined);
+
+  return LaminarContextManager.runWithIsolatedContext([ROOT_CONTEXT], () => {
+    if (mode === "child" && parents.length === 1) {
+      return observe({ name, input, parentSpanContext: parents[0] }, fn);
+    }
+    const links: Link[] = parents.map((parent) => ({
+      context: { ...tryToOtelSpanContext(parent), isRemote: true },
+    }));
+    // A linked trace keeps the session, user and metadata of its single publisher
+    const context: Context = parents.length === 1
+      ? LaminarContextManager.setRawAssociationProperties(parents[0], ROOT_CONTEXT)
+      : ROOT_CONTEXT;
+    return Laminar.withContext(context, () =>
+      observe({ name, input, links: links.length > 0 ? links : undefined }, fn),
+    );
+  });
+};
+
+// ─── BullMQ ───────────────────────────────────────────────────────────────────
+
+type BullMQJob = { name: string; data: unknown; queueName: string };
+
+export interface BullMQModule {
+  Queue: {
+    prototype: {
+      add: (name: string, data: unknown, ...rest: unknown[]) => Promise<unknown>;
+      addBulk: (jobs: { name: string; data: unknown }[]) => Promise<unknown>;
+    };
+  };
+  Worker: {
+    prototype: {
+      // Internal, calls the processor of the worker with a job
+      callProcessJob: (job: BullMQJob, ...rest: unknown[]) => Promise<unknown>;
+    };
+  };
+}
+
+const _patchedBullMQModules = new WeakSet<object>();
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value)
+  && Object.getPrototypeOf(value) === Object.prototype;
+
+const withJobContext = (data: unknown): unknown => {
+  const spanContext = Laminar.serializeLaminarSpanContext();
+  // Job data of other shapes is left as is rather than changed
+  if (!spanContext || !isPlainObject(data)) {
+    return data;
+  }
+  return { ...data, [JOB_DATA_SPAN_CONTEXT_KEY]: spanContext };
+};
+
+const jobDataWithoutContext = (data: unknown): unknown => {
+  if (!isPlainObject(data) || !(JOB_DATA_SPAN_CONTEXT_KEY in data)) {
+    return data;
+  }
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { [JOB_DATA_SPAN_CONTEXT_KEY]: _spanContext, ...rest } = data;
+  return rest;
+};
+
+/**
+ * Patch a `bullmq` module object so that jobs added with `Queue.add()` and
+ * `Queue.addBulk()` carry the current span context in their data, and the
+ * processors of workers run in a consumer span. Processors get the job data
+ * without the span context. Spans of sandboxed processors, given as file
+ * paths, do not join the consumer span, as they run in another process.
+ *
+ * Only the prototypes of `Queue` and `Worker` are patched, so this works with
+ * the frozen namespace of an ES module import too.
+ *
+ * Idempotent — calling with the same module object more than once is a no-op.
+ */
+export const patchBullMQ = (
+  bullmqModule: BullMQModule,
+  options: { consumeMode?: QueueConsumeMode } = {},
+): void => {
+  if (_patchedBullMQModules.has(bullmqModule)) {
+    return;
+  }
+  _patchedBullMQModules.add(bullmqModule);
+
+  const queuePrototype = bullmqModule.Queue.prototype;
+  const originalAdd = queuePrototype.add;
+  queuePrototype.add = function (name, data, ...rest) {
+    return originalAdd.call(this, name, withJobContext(data), ...rest);
+  };
+  const originalAddBulk = queuePrototype.addBulk;
+  queuePrototype.addBulk = function (jobs) {
+    return originalAddBulk.call(
+      this,
+      jobs.map((job) => ({ ...job, data: withJobContext(job.data) })),
+    );
+  };
+
+  const workerPrototype = bullmqModule.Worker.prototype;
+  const originalCallProcessJob = workerPrototype.callProcessJob;
+  if (typeof originalCallProcessJob !== "function") {
+    logger.warn("Unsupported bullmq version, jobs are not processed in a consumer span");
+    return;
+  }
+  workerPrototype.callProcessJob = function (job, ...rest) {
+    const carrier = isPlainObject(job.data)
+      ? { [LAMINAR_SPAN_CONTEXT_HEADER]: job.data[JOB_DATA_SPAN_CONTEXT_KEY] }
+      : undefined;
+    job.data = jobDataWithoutContext(job.data);
+    return observeMessage(
+      {
+        name: `process ${job.queueName}`,
+        carrier,
+        mode: options.consumeMode,
+        input: { name: job.name, data: job.data },
+      },
+      () => originalCallProcessJob.call(this, job, ...rest),
+    );
+  };
+};
+
+// ─── KafkaJS ──────────────────────────────────────────────────────────────────
+
+type KafkaMessage = {
+  key?: Buffer | string | null;
+  value: Buffer | string | null;
+  headers?: Record<string, unknown>;
+};
+
+type KafkaProducer = {
+  send: (record: { topic: string; messages: KafkaMessage[] }) => Promise<unknown>;
+  sendBatch: (batch: {
+    topicMessages?: { topic: string; messages: KafkaMessage[] }[];
+  }) => Promise<unknown>;
+};
+
+type KafkaEachMessagePayload = { topic: string; partition: number; message: KafkaMessage };
+type KafkaEachBatchPayload = {
+  batch: { topic: string; partition: number; messages: KafkaMessage[] };
+};
+
+type KafkaConsumer = {
+  run: (config?: {
+    eachMessage?: (payload: KafkaEachMessagePayload) => Promise<void>;
+    eachBatch?: (payload: KafkaEachBatchPayload) => Promise<void>;
+  }) => Promise<void>;
+};
+
+export interface KafkaJSModule {
+  Kafka: {
+    prototype: {
+      producer: (...args: unknown[]) => KafkaProducer;
+      consumer: (...args: unknown[]) => KafkaConsumer;
+    };
+  };
+}
+
+const _patchedKafkaJSModules = new WeakSet<object>();
+
+const withMessageContext = (messages: KafkaMessage[]): KafkaMessage[] => {
+  const headers = injectMessageContext();
+  if (Object.keys(headers).length === 0) {
+    return messages;
+  }
+  // Headers set by the caller win
+  return messages.map((message) => ({
+    ...message,
+    headers: { ...headers, ...message.headers },
+  }));
+};
+
+const messageInput = (topic: string, partition: number, message: KafkaMessage) => ({
+  topic,
+  partition,
+  key: message.key?.toString(),
+  value: message.value?.toString(),
+});
+
+/**
+ * Patch a `kafkajs` module object so that producers add the current span
+ * context to the headers of the messages they send, and consumers run
+ * `eachMessage` and `eachBatch` handlers in a consumer span. A batch of many
+ * messages gets one span, linked to the spans that published them.
+ *
+ * Idempotent — calling with the same module object more than once is a no-op.
+ */
+export const patchKafkaJS = (
+  kafkaModule: KafkaJSModule,
+  options: { consumeMode?: QueueConsumeMode } = {},
+): void => {
+  if (_patchedKafkaJSModules.has(kafkaModule)) {
+    return;
+  }
+  _patchedKafkaJSModules.add(kafkaModule);
+
+  const kafkaPrototype = kafkaModule.Kafka.prototype;
+  const originalProducer = kafkaPrototype.producer;
+  kafkaPrototype.producer = function (...args) {
+    const producer = originalProducer.apply(this, args);
+    const originalSend = producer.send.bind(producer);
+    const originalSendBatch = producer.sendBatch.bind(producer);
+    producer.send = (record) =>
+      originalSend({ ...record, messages: withMessageContext(record.messages) });
+    producer.sendBatch = (batch) =>
+      originalSendBatch({
+        ...batch,
+        topicMessages: batch.topicMessages?.map((topicMessages) => ({
+          ...topicMessages,
+          messages: withMessageContext(topicMessages.messages),
+        })),
+      });
+    return producer;
+  };
+
+  const originalConsumer = kafkaPrototype.consumer;
+  kafkaPrototype.consumer = function (...args) {
+    const consumer = originalConsumer.apply(this, args);
+    const originalRun = consumer.run.bind(consumer);
+    consumer.run = (config) => {
+      const { eachMessage, eachBatch } = config ?? {};
+      return originalRun({
+        ...config,
+        eachMessage: eachMessage && ((payload) => observeMessage(
+          {
+            name: `process ${payload.topic}`,
+            carrier: payload.message.headers,
+            mode: options.consumeMode,
+            input: messageInput(payload.topic, payload.partition, payload.message),
+          },
+          () => eachMessage(payload),
+        )),
+        eachBatch: eachBatch && ((payload) => observeMessage(
+          {
+            name: `process ${payload.batch.topic}`,
+            carrier: payload.batch.messages.map((message) => message.headers ?? {}),
+            mode: options.consumeMode,
+            input: payload.batch.messages.map((message) =>
+              messageInput(payload.batch.topic, payload.batch.partition, message),
+            ),
+          },
+          () => eachBatch(payload),
+        )),
+      });
+    };
+    return consumer;
+  };
+};
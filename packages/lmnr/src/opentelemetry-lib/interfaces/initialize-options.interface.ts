@@ -7,6 +7,14 @@ import type * as chromadb from "chromadb";
 import type * as playwright from "playwright";
 import type * as puppeteer from "puppeteer";
 
+import type { QueueConsumeMode } from "../instrumentation/queues";
+import type { AdditionalExporter } from "../tracing/additional-exporters";
+import type { CostEstimationOptions } from "../tracing/cost-estimation";
+import type { ExportQueueOptions } from "../tracing/export-queue";
+import type { HttpPropagationOptions } from "../tracing/propagation";
+import type { RedactionOptions } from "../tracing/redaction";
+import type { SamplingOptions } from "../tracing/sampling";
+
 /**
  * Options for initializing the Traceloop SDK.
  */
@@ -394,6 +402,35 @@ export interface InitializeOptions {
        */
       recordActivityOutput?: boolean;
     };
+    /**
+     * Auto-patch job queue and message bus clients so that jobs and messages
+     * carry the span context of their publisher, and their handlers run in a
+     * span that continues the publisher's trace.
+     *
+     * @example
+     * ```typescript
+     * import * as bullmq from 'bullmq';
+     * import * as kafkajs from 'kafkajs';
+     * import { Laminar } from '@lmnr-ai/lmnr';
+     *
+     * Laminar.initialize({
+     *   instrumentModules: {
+     *     queues: { bullmq, kafkajs, consumeMode: "link" },
+     *   },
+     * });
+     * ```
+     */
+    queues?: {
+      /** The `bullmq` module (import * as bullmq from 'bullmq') */
+      bullmq?: { Queue: unknown; Worker: unknown };
+      /** The `kafkajs` module (import * as kafkajs from 'kafkajs') */
+      kafkajs?: { Kafka: unknown };
+      /**
+       * Whether consumer spans continue the publisher's trace (`"child"`,
+       * default) or start a new trace linked to it (`"link"`).
+       */
+      consumeMode?: QueueConsumeMode;
+    };
   };
 
   /**
@@ -439,4 +476,44 @@ export interface InitializeOptions {
    * Optional. Defaults to a new LaminarSpanProcessor.
    */
   spanProcessor?: SpanProcessor;
+
+  /**
+   * Trace sampling. Optional. See {@link SamplingOptions}.
+   * Defaults to exporting all traces.
+   */
+  sampling?: SamplingOptions;
+
+  /**
+   * Redaction of personal data and secrets from span content. Optional.
+   * See {@link RedactionOptions}. Defaults to no redaction.
+   */
+  redaction?: RedactionOptions;
+
+  /**
+   * Set the estimated cost of LLM spans from a bundled model price table,
+   * and the total cost of a trace on its root span. Optional. Pass `true`
+   * for the bundled prices, see {@link CostEstimationOptions}. Defaults to false.
+   */
+  costEstimation?: boolean | CostEstimationOptions;
+
+  /**
+   * Continue traces across services over HTTP: run handlers of Node `http`
+   * servers in the trace context of the request headers, and add the headers
+   * to `fetch` requests to `propagateTo` URLs. Optional. Pass `true` for
+   * servers only, see {@link HttpPropagationOptions}. Defaults to false.
+   */
+  httpPropagation?: boolean | HttpPropagationOptions;
+
+  /**
+   * Keep batches that failed to export on disk and retry them, also after a
+   * restart. Optional. Pass `true` for the defaults, see {@link ExportQueueOptions}.
+   * Defaults to false.
+   */
+  exportQueue?: boolean | ExportQueueOptions;
+
+  /**
+   * Destinations to export spans to in addition to Laminar, e.g. an OTLP
+   * collector. Optional. See {@link AdditionalExporter}.
+   */
+  additionalExporters?: AdditionalExporter[];
 }
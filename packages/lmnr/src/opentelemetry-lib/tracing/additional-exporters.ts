@@ -0,0 +1,137 @@
+import { type Context } from "@opentelemetry/api";
+import { type ExportResult, ExportResultCode } from "@opentelemetry/core";
+import {
+  BatchSpanProcessor,
+  type ReadableSpan,
+  SimpleSpanProcessor,
+  type Span,
+  type SpanExporter,
+  type SpanProcessor,
+} from "@opentelemetry/sdk-trace-base";
+
+import { initializeLogger } from "../../utils";
+
+const logger = initializeLogger();
+
+export interface AdditionalExporterOptions {
+  /**
+   * The exporter of the destination, e.g. an OTLP exporter of a Jaeger or
+   * Tempo collector.
+   */
+  exporter: SpanExporter;
+  /**
+   * Attributes not sent to this destination, by name or by prefix of
+   * dot-separated names, e.g. `["lmnr.span.input", "lmnr.span.output"]`.
+   */
+  dropAttributes?: string[];
+  /**
+   * Whether to export every span as soon as it ends. Defaults to false.
+   */
+  disableBatch?: boolean;
+  /**
+   * The maximum number of spans to export at a time. Defaults to 512.
+   */
+  maxExportBatchSize?: number;
+  /**
+   * The timeout for exporting a batch. Defaults to 30 seconds.
+   */
+  exportTimeoutMillis?: number;
+}
+
+/**
+ * A destination that spans are exported to in addition to Laminar. Either an
+ * exporter, or options with an exporter.
+ */
+export type AdditionalExporter = SpanExporter | AdditionalExporterOptions;
+
+/**
+ * Passes spans on to the exporter of a destination without the dropped
+ * attributes, and turns its exceptions into failed exports. The spans
+ * themselves are not modified, as they are shared between destinations.
+ */
+class DestinationExporter implements SpanExporter {
+  constructor(
+    private readonly exporter: SpanExporter,
+    private readonly dropAttributes: string[],
+  ) { }
+
+  export(spans: ReadableSpan[], resultCallback: (result: ExportResult) => void): void {
+    try {
+      this.exporter.export(
+        this.dropAttributes.length > 0 ? spans.map((span) => this.filter(span)) : spans,
+        resultCallback,
+      );
+    } catch (e) {
+      logger.warn(`Additional exporter failed to export spans: ${String(e)}`);
+      resultCallback({ code: ExportResultCode.FAILED, error: e as Error });
+    }
+  }
+
+  shutdown(): Promise<void> {
+    return this.exporter.shutdown();
+  }
+
+  async forceFlush(): Promise<void> {
+    await this.exporter.forceFlush?.();
+  }
+
+  private filter(span: ReadableSpan): ReadableSpan {
+    const attributes = Object.fromEntries(Object.entries(span.attributes).filter(
+      ([key]) => !this.dropAttributes.some(
+        (name) => key === name || key.startsWith(`${name}.`),
+      ),
+    ));
+    return Object.create(span, { attributes: { value: attributes } }) as ReadableSpan;
+  }
+}
+
+/**
+ * Span processor of a destination in addition to Laminar. Errors of the
+ * destination are logged and never reach Laminar's own export.
+ */
+export class AdditionalExportProcessor implements SpanProcessor {
+  private readonly processor: SpanProcessor;
+
+  constructor(destination: AdditionalExporter) {
+    const options = "export" in destination ? { exporter: destination } : destination;
+    const exporter = new DestinationExporter(options.exporter, options.dropAttributes ?? []);
+    this.processor = options.disableBatch
+      ? new SimpleSpanProcessor(exporter)
+      : new BatchSpanProcessor(exporter, {
+        maxExportBatchSize: options.maxExportBatchSize ?? 512,
+        exportTimeoutMillis: options.exportTimeoutMillis ?? 30000,
+      });
+  }
+
+  onStart(span: Span, parentContext: Context): void {
+    try {
+      this.processor.onStart(span, parentContext);
+    } catch (e) {
+      logger.debug(`Additional exporter failed on span start: ${String(e)}`);
+    }
+  }
+
+  onEnd(span: ReadableSpan): void {
+    try {
+      this.processor.onEnd(span);
+    } catch (e) {
+      logger.warn(`Additional exporter failed to export a span: ${String(e)}`);
+    }
+  }
+
+  async forceFlush(): Promise<void> {
+    try {
+      await this.processor.forceFlush();
+    } catch (e) {
+      logger.warn(`Additional exporter failed to flush: ${String(e)}`);
+    }
+  }
+
+  async shutdown(): Promise<void> {
+    try {
+      await this.processor.shutdown();
+    } catch (e) {
+      logger.warn(`Additional exporter failed to shut down: ${String(e)}`);
+    }
+  }
+}
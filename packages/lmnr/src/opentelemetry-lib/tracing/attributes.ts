@@ -14,6 +14,13 @@ export const OVERRIDE_PARENT_SPAN = "lmnr.internal.override_parent_span";
 export const TRACE_HAS_BROWSER_SESSION = "lmnr.internal.has_browser_session";
 export const EXTRACTED_FROM_NEXT_JS = "lmnr.span.extracted_from.next_js";
 export const HUMAN_EVALUATOR_OPTIONS = 'lmnr.span.human_evaluator_options';
+export const REDACTION_COUNT = "lmnr.redaction.count";
+export const CACHE_READ_INPUT_COST = "gen_ai.usage.cache_read_input_cost";
+export const CACHE_CREATION_INPUT_COST = "gen_ai.usage.cache_creation_input_cost";
+export const REASONING_COST = "gen_ai.usage.reasoning_cost";
+export const TRACE_INPUT_COST = "lmnr.trace.input_cost";
+export const TRACE_OUTPUT_COST = "lmnr.trace.output_cost";
+export const TRACE_TOTAL_COST = "lmnr.trace.total_cost";
 export const ASSOCIATION_PROPERTIES = "lmnr.association.properties";
 export const SESSION_ID = "lmnr.association.properties.session_id";
 export const USER_ID = "lmnr.association.properties.user_id";
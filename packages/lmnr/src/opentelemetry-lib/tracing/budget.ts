@@ -0,0 +1,173 @@
+import { type Context } from "@opentelemetry/api";
+import { type ReadableSpan, type Span } from "@opentelemetry/sdk-trace-base";
+
+import { initializeLogger } from "../../utils";
+import { BUDGETS_KEY } from "./context";
+import { isLlmSpan } from "./cost-estimation";
+import { spanCost } from "./pricing";
+import { tokenCount } from "./sampling";
+
+const logger = initializeLogger();
+
+/**
+ * Limits on the LLM usage of a traced function, including LLM calls made by
+ * anything it calls.
+ */
+export interface BudgetOptions {
+  /**
+   * Largest number of input and output tokens of all LLM calls.
+   */
+  maxTokens?: number;
+  /**
+   * Largest cost of all LLM calls in US dollars, as recorded by the
+   * instrumentation or estimated from a local model price table.
+   */
+  maxCostUsd?: number;
+  /**
+   * Largest number of LLM calls.
+   */
+  maxLlmCalls?: number;
+  /**
+   * Called once, when a limit is first exceeded. If set, LLM calls are not
+   * stopped, so the callback decides what to do, e.g. cancel the work.
+   * Otherwise, the next LLM call throws a {@link BudgetExceededError}.
+   */
+  onExceeded?: (error: BudgetExceededError) => void;
+}
+
+export interface BudgetUsage {
+  tokens: number;
+  costUsd: number;
+  llmCalls: number;
+}
+
+export type BudgetLimit = "maxTokens" | "maxCostUsd" | "maxLlmCalls";
+
+/**
+ * Thrown by an instrumented LLM call when a budget of a function that it runs
+ * in is exceeded.
+ */
+export class BudgetExceededError extends Error {
+  constructor(
+    public readonly limit: BudgetLimit,
+    public readonly usage: BudgetUsage,
+    public readonly budget: BudgetOptions,
+  ) {
+    const detail = {
+      maxLlmCalls: `more than ${budget.maxLlmCalls} LLM calls`,
+      maxTokens: `${usage.tokens} tokens used, the limit is ${budget.maxTokens}`,
+      maxCostUsd: `$${usage.costUsd.toFixed(6)} spent, the limit is $${budget.maxCostUsd}`,
+    }[limit];
+    super(`Budget exceeded: ${detail}`);
+    this.name = "BudgetExceededError";
+  }
+}
+
+/**
+ * The usage of one budget, shared by all spans in the function it limits.
+ */
+export class Budget {
+  public readonly usage: BudgetUsage = { tokens: 0, costUsd: 0, llmCalls: 0 };
+  private notified = false;
+
+  constructor(public readonly options: BudgetOptions) { }
+
+  /**
+   * The limit that the usage exceeds, after `nextCalls` more LLM calls.
+   */
+  exceededLimit(nextCalls: number = 0): BudgetLimit | undefined {
+    const { maxTokens, maxCostUsd, maxLlmCalls } = this.options;
+    if (maxLlmCalls !== undefined && this.usage.llmCalls + nextCalls > maxLlmCalls) {
+      return "maxLlmCalls";
+    }
+    if (maxTokens !== undefined && this.usage.tokens > maxTokens) {
+      return "maxTokens";
+    }
+    if (maxCostUsd !== undefined && this.usage.costUsd > maxCostUsd) {
+      return "maxCostUsd";
+    }
+    return undefined;
+  }
+
+  /**
+   * Throws if the next LLM call would exceed the budget, unless the budget
+   * has an `onExceeded` callback.
+   */
+  checkLlmCall(): void {
+    const limit = this.exceededLimit(1);
+    if (limit && !this.options.onExceeded) {
+      throw new BudgetExceededError(limit, { ...this.usage }, this.options);
+    }
+  }
+
+  record(usage: Partial<BudgetUsage>): void {
+    this.usage.tokens += usage.tokens ?? 0;
+    this.usage.costUsd += usage.costUsd ?? 0;
+    this.usage.llmCalls += usage.llmCalls ?? 0;
+
+    const limit = this.exceededLimit();
+    if (limit && this.options.onExceeded && !this.notified) {
+      this.notified = true;
+      try {
+        this.options.onExceeded(new BudgetExceededError(limit, { ...this.usage }, this.options));
+      } catch (e) {
+        logger.warn(`Budget onExceeded callback failed: ${String(e)}`);
+      }
+    }
+  }
+}
+
+/**
+ * Adds the usage of LLM spans to the budgets in their context, and stops LLM
+ * calls once a budget is exceeded.
+ */
+export class BudgetTracker {
+  private readonly spans: Map<string, { budgets: Budget[]; counted: boolean }> = new Map();
+
+  /**
+   * @throws {BudgetExceededError} If the span is an LLM call over a budget.
+   */
+  onStart(span: Span, parentContext: Context): void {
+    const budgets = parentContext?.getValue(BUDGETS_KEY) as Budget[] | undefined;
+    if (!budgets?.length) {
+      return;
+    }
+    const counted = isLlmSpan(span);
+    if (counted) {
+      budgets.forEach((budget) => budget.checkLlmCall());
+      budgets.forEach((budget) => budget.record({ llmCalls: 1 }));
+    }
+    this.spans.set(span.spanContext().spanId, { budgets, counted });
+  }
+
+  onEnd(span: ReadableSpan): void {
+    const spanId = span.spanContext().spanId;
+    const entry = this.spans.get(spanId);
+    if (!entry) {
+      return;
+    }
+    this.spans.delete(spanId);
+    // Some instrumentations only set the span type after the span started
+    if (!entry.counted && !isLlmSpan(span)) {
+      return;
+    }
+    const usage = {
+      tokens: tokenCount(span.attributes),
+      costUsd: spanCost(span.attributes) ?? 0,
+      llmCalls: entry.counted ? 0 : 1,
+    };
+    entry.budgets.forEach((budget) => budget.record(usage));
+  }
+}
+
+/**
+ * Adds a new budget to the budgets of `context`.
+ */
+export const withBudgetContext = (context: Context, options: BudgetOptions): {
+  context: Context;
+  budget: Budget;
+} => {
+  const budget = new Budget(options);
+  const budgets = (context.getValue(BUDGETS_KEY) as Budget[] | undefined) ?? [];
+  return { context: context.setValue(BUDGETS_KEY, [...budgets, budget]), budget };
+};
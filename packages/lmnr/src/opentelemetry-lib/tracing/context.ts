@@ -13,6 +13,8 @@ export const ASSOCIATION_PROPERTIES_KEY = createContextKey(
 export const CONTEXT_GLOBAL_METADATA_KEY = createContextKey(
   "global_metadata",
 );
+export const BUDGETS_KEY = createContextKey("budgets");
+export const REMOTE_PARENT_PATH_KEY = createContextKey("remote_parent_path");
 
 export class LaminarContextManager {
   private static _asyncLocalStorage = new AsyncLocalStorage<Context[]>();
@@ -0,0 +1,108 @@
+import { type ReadableSpan, type Span } from "@opentelemetry/sdk-trace-base";
+
+import {
+  CACHE_CREATION_INPUT_COST,
+  CACHE_READ_INPUT_COST,
+  LaminarAttributes,
+  REASONING_COST,
+  SPAN_TYPE,
+  TRACE_INPUT_COST,
+  TRACE_OUTPUT_COST,
+  TRACE_TOTAL_COST,
+} from "./attributes";
+import { getParentSpanId } from "./compat";
+import {
+  type CostEstimate,
+  DEFAULT_MODEL_PRICES,
+  estimateCost,
+  type ModelPrice,
+  recordedCost,
+} from "./pricing";
+
+// Traces whose root span never ends in this process, e.g. ones continued from
+// a propagated span context, must not keep their totals forever
+const MAX_TRACKED_TRACES = 10000;
+
+export interface CostEstimationOptions {
+  /**
+   * Prices of models in US dollars per million tokens, keyed by model name
+   * prefix, e.g. `{ "my-fine-tuned-gpt": { input: 3, output: 12 } }`. Merged
+   * over the bundled prices, so a key of the bundled table replaces its price.
+   */
+  prices?: Record<string, ModelPrice>;
+}
+
+/**
+ * Whether a span is an LLM call: its span type is LLM, or it has the
+ * GenAI attributes set by LLM instrumentations.
+ */
+export const isLlmSpan = (span: ReadableSpan): boolean =>
+  span.attributes[SPAN_TYPE] === "LLM"
+  || span.attributes[LaminarAttributes.PROVIDER] !== undefined
+  || span.attributes["gen_ai.provider.name"] !== undefined;
+
+/**
+ * Sets the estimated cost on LLM spans that have token usage but no cost
+ * recorded by their instrumentation, and the total cost of all LLM spans of a
+ * trace on its root span when it ends.
+ */
+export class CostEstimator {
+  private readonly prices: Record<string, ModelPrice>;
+  private readonly traces: Map<string, Pick<CostEstimate, "input" | "output" | "total">> =
+    new Map();
+
+  constructor(options: CostEstimationOptions = {}) {
+    this.prices = { ...DEFAULT_MODEL_PRICES, ...options.prices };
+  }
+
+  onEnd(span: Span): void {
+    const traceId = span.spanContext().traceId;
+    if (isLlmSpan(span)) {
+      const cost = recordedCost(span.attributes) ?? this.estimate(span);
+      if (cost) {
+        const totals = this.traces.get(traceId) ?? { input: 0, output: 0, total: 0 };
+        totals.input += cost.input;
+        totals.output += cost.output;
+        totals.total += cost.total;
+        this.traces.delete(traceId);
+        this.traces.set(traceId, totals);
+        if (this.traces.size > MAX_TRACKED_TRACES) {
+          this.traces.delete(this.traces.keys().next().value!);
+        }
+      }
+    }
+
+    const parent = (span as { parentSpanContext?: { isRemote?: boolean } }).parentSpanContext;
+    if (getParentSpanId(span) && !parent?.isRemote) {
+      return;
+    }
+    const totals = this.traces.get(traceId);
+    this.traces.delete(traceId);
+    if (totals) {
+      span.attributes[TRACE_INPUT_COST] = totals.input;
+      span.attributes[TRACE_OUTPUT_COST] = totals.output;
+      span.attributes[TRACE_TOTAL_COST] = totals.total;
+    }
+  }
+
+  private estimate(span: Span): CostEstimate | undefined {
+    const estimate = estimateCost(span.attributes, this.prices);
+    if (!estimate) {
+      return undefined;
+    }
+    // The span has ended, so its attributes can only be set directly
+    span.attributes[LaminarAttributes.INPUT_COST] = estimate.input;
+    span.attributes[LaminarAttributes.OUTPUT_COST] = estimate.output;
+    span.attributes[LaminarAttributes.TOTAL_COST] = estimate.total;
+    if (estimate.cacheRead) {
+      span.attributes[CACHE_READ_INPUT_COST] = estimate.cacheRead;
+    }
+    if (estimate.cacheWrite) {
+      span.attributes[CACHE_CREATION_INPUT_COST] = estimate.cacheWrite;
+    }
+    if (estimate.reasoning) {
+      span.attributes[REASONING_COST] = estimate.reasoning;
+    }
+    return estimate;
+  }
+}
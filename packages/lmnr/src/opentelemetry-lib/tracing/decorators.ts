@@ -1,7 +1,13 @@
 import { errorMessage, LaminarSpanContext, TraceType, TracingLevel } from "@lmnr-ai/types";
-import { AttributeValue, context, type Span, trace } from "@opentelemetry/api";
+import { AttributeValue, context, type Link, type Span, trace } from "@opentelemetry/api";
 import { suppressTracing } from "@opentelemetry/core";
 
+import {
+  lookupToolOutput,
+  markSpanCached,
+  replayEnabled,
+  spanPathFromSpan,
+} from "../../debug/replay";
 import { Laminar } from "../../laminar";
 import {
   deserializeLaminarSpanContext,
@@ -14,6 +20,7 @@ import {
   SPAN_INPUT,
   SPAN_OUTPUT,
 } from "./attributes";
+import { type BudgetOptions, withBudgetContext } from "./budget";
 import {
   ASSOCIATION_PROPERTIES_KEY,
   LaminarContextManager,
@@ -40,6 +47,71 @@ export type DecoratorConfig = {
   inputParameters?: unknown[];
   suppressTracing?: boolean;
   parentSpanContext?: string | LaminarSpanContext;
+  budget?: BudgetOptions;
+  links?: Link[];
+  replayable?: boolean;
+};
+
+// The value recorded as the span input
+const spanInputValue = (input: unknown, spanInput: unknown[]): unknown => {
+  if (input !== undefined) {
+    return input;
+  }
+  if (
+    spanInput.length === 1 &&
+    typeof spanInput[0] === "object" &&
+    !(spanInput[0] instanceof Map)
+  ) {
+    return spanInput[0];
+  }
+  // pass an array of the arguments without names
+  // Need to convert it to map from argument name to value,
+  // if we figure out how to do it elegantly
+  return spanInput.length > 0 ? spanInput : {};
+};
+
+const AsyncFunction = (async () => { }).constructor;
+const warnedSyncTools = new WeakSet<object>();
+
+/**
+ * Whether a replayable tool can be replayed. A replayed call resolves to the
+ * recorded output, so only async functions are, a sync one would return a
+ * promise on replay runs only.
+ */
+const isReplayableTool = (fn: object, name: string): boolean => {
+  if (fn instanceof AsyncFunction) {
+    return true;
+  }
+  if (!warnedSyncTools.has(fn)) {
+    warnedSyncTools.add(fn);
+    logger.warn(`Replayable tool ${name} is not an async function, it always runs live`);
+  }
+  return false;
+};
+
+/**
+ * Call a replayable tool. On a debug replay run, its recorded output is looked
+ * up by its input first, and it only runs when there is none, so the result
+ * is a promise then.
+ */
+const callReplayableTool = <T>(run: () => T, input: unknown, span: Span): T => {
+  if (!replayEnabled() || Laminar.debugRunLive) {
+    return run();
+  }
+  let recordedInput: unknown;
+  try {
+    recordedInput = typeof input === "string" ? input : JSON.parse(serialize(input));
+  } catch (error) {
+    logger.warn("Failed to serialize tool input for replay: " + errorMessage(error));
+    return run();
+  }
+  return lookupToolOutput(recordedInput, spanPathFromSpan(span)).then((cached) => {
+    if (cached === null) {
+      return run();
+    }
+    markSpanCached(span, "TOOL");
+    return cached.output;
+  }) as T;
 };
 
 // Overload for when thisArg is provided (method call)
@@ -80,6 +152,9 @@ export function observeBase<
     inputParameters,
     suppressTracing: shouldSuppressTracing,
     parentSpanContext,
+    budget,
+    links,
+    replayable,
   }: DecoratorConfig,
   fn: F,
   thisArg?: ThisParameterType<F>,
@@ -124,40 +199,26 @@ export function observeBase<
     logger.warn("Failed to set context properties: " + errorMessage(e));
   }
 
+  if (budget) {
+    entityContext = withBudgetContext(entityContext, budget).context;
+  }
+
   return context.with(entityContext, () =>
     getTracer().startActiveSpan(
       name,
       {
         attributes: spanAttributes,
+        links,
       },
       entityContext,
       (span: Span) => {
+        const inputValue = spanInputValue(input, inputParameters ?? args);
         if (shouldSendTraces() && !ignoreInput) {
           try {
-            const spanInput = inputParameters ?? args;
-            if (input !== undefined) {
-              span.setAttribute(
-                SPAN_INPUT,
-                typeof input === 'string' ? input : serialize(input),
-              );
-            } else if (
-              spanInput.length === 1 &&
-              typeof spanInput[0] === "object" &&
-              !(spanInput[0] instanceof Map)
-            ) {
-              span.setAttribute(
-                SPAN_INPUT,
-                typeof spanInput[0] === 'string' ? spanInput[0] : serialize(spanInput[0]),
-              );
-            } else {
-              // pass an array of the arguments without names
-              // Need to convert it to map from argument name to value,
-              // if we figure out how to do it elegantly
-              span.setAttribute(
-                SPAN_INPUT,
-                serialize(spanInput.length > 0 ? spanInput : {}),
-              );
-            }
+            span.setAttribute(
+              SPAN_INPUT,
+              typeof inputValue === 'string' ? inputValue : serialize(inputValue),
+            );
           } catch (error) {
             logger.warn("Failed to serialize input: " + errorMessage(error));
           }
@@ -165,7 +226,11 @@ export function observeBase<
 
         let res: ReturnType<F>;
         try {
-          res = fn.apply(thisArg as ThisParameterType<F>, args);
+          const run = () => fn.apply(thisArg as ThisParameterType<F>, args);
+          // A tool without its input recorded can't be looked up by it
+          res = replayable && !ignoreInput && isReplayableTool(fn, name)
+            ? callReplayableTool(run, inputValue, span)
+            : run();
         } catch (error) {
           try {
             span.recordException(error as Error);
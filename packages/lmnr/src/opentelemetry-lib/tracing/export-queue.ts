@@ -0,0 +1,389 @@
+import { randomUUID } from "node:crypto";
+import { mkdir, readdir, readFile, rename, rm, stat, unlink, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+
+import {
+  type Attributes,
+  type HrTime,
+  type Link,
+  type SpanContext,
+  type SpanKind,
+  type SpanStatus,
+} from "@opentelemetry/api";
+import { type ExportResult, ExportResultCode, TraceState } from "@opentelemetry/core";
+import {
+  type ReadableSpan,
+  type SpanExporter,
+  type TimedEvent,
+} from "@opentelemetry/sdk-trace-base";
+
+import { initializeLogger } from "../../utils";
+import { createResource, getParentSpanId, makeSpanOtelV2Compatible } from "./compat";
+
+const logger = initializeLogger();
+
+export const DEFAULT_EXPORT_QUEUE_DIR = ".lmnr/export-queue";
+
+export interface ExportQueueOptions {
+  /**
+   * Directory where batches that failed to export are kept until they are
+   * sent. Use a separate directory for every process.
+   * Defaults to `.lmnr/export-queue` in the current working directory.
+   */
+  directory?: string;
+  /**
+   * Largest total size of the queued batches, in bytes. The oldest batches
+   * are dropped to make room for new ones. Defaults to 100 MB.
+   */
+  maxBytes?: number;
+  /**
+   * Batches older than this are dropped instead of sent.
+   * Defaults to 24 hours.
+   */
+  maxAgeMillis?: number;
+  /**
+   * Delay before the first retry after a failed export. Doubles with every
+   * failed retry. Defaults to 1 second.
+   */
+  initialBackoffMillis?: number;
+  /**
+   * Longest delay between retries. Defaults to 5 minutes.
+   */
+  maxBackoffMillis?: number;
+}
+
+export interface ExportQueueMetrics {
+  /** Batches waiting in the queue directory. */
+  pendingBatches: number;
+  /** Spans waiting in the queue directory. */
+  pendingSpans: number;
+  /** Spans written to the queue after a failed export. */
+  queuedSpans: number;
+  /** Spans sent from the queue after a retry. */
+  retriedSpans: number;
+  /** Spans dropped for the size or age limits, or because they could not be read back. */
+  droppedSpans: number;
+}
+
+interface SerializedSpan {
+  name: string;
+  kind: SpanKind;
+  spanContext: SerializedSpanContext;
+  parentSpanId?: string;
+  startTime: HrTime;
+  endTime: HrTime;
+  duration: HrTime;
+  status: SpanStatus;
+  attributes: Attributes;
+  links: (Omit<Link, "context"> & { context: SerializedSpanContext })[];
+  events: TimedEvent[];
+  resourceAttributes: Attributes;
+  instrumentationScope: { name: string; version?: string; schemaUrl?: string };
+  droppedAttributesCount: number;
+  droppedEventsCount: number;
+  droppedLinksCount: number;
+}
+
+type SerializedSpanContext = Omit<SpanContext, "traceState"> & { traceState?: string };
+
+const serializeSpanContext = (context: SpanContext): SerializedSpanContext => ({
+  ...context,
+  traceState: context.traceState?.serialize(),
+});
+
+const deserializeSpanContext = (context: SerializedSpanContext): SpanContext => ({
+  ...context,
+  traceState: context.traceState !== undefined ? new TraceState(context.traceState) : undefined,
+});
+
+const serializeSpan = (span: ReadableSpan): SerializedSpan => {
+  makeSpanOtelV2Compatible(span);
+  const { name, version, schemaUrl } = span.instrumentationScope;
+  return {
+    name: span.name,
+    kind: span.kind,
+    spanContext: serializeSpanContext(span.spanContext()),
+    parentSpanId: getParentSpanId(span),
+    startTime: span.startTime,
+    endTime: span.endTime,
+    duration: span.duration,
+    status: span.status,
+    attributes: span.attributes,
+    links: span.links.map((link) => ({ ...link, context: serializeSpanContext(link.context) })),
+    events: span.events,
+    resourceAttributes: span.resource.attributes,
+    instrumentationScope: { name, version, schemaUrl },
+    droppedAttributesCount: span.droppedAttributesCount,
+    droppedEventsCount: span.droppedEventsCount,
+    droppedLinksCount: span.droppedLinksCount,
+  };
+};
+
+/**
+ * Rebuild spans read from the queue. Spans with equal resources share the
+ * resource object, so that the OTLP exporter groups them together.
+ */
+const deserializeSpans = (serialized: SerializedSpan[]): ReadableSpan[] => {
+  const resources = new Map<string, ReadableSpan["resource"]>();
+  return serialized.map(({ spanContext, parentSpanId, links, resourceAttributes, ...rest }) => {
+    const resourceKey = JSON.stringify(resourceAttributes);
+    if (!resources.has(resourceKey)) {
+      resources.set(
+        resourceKey,
+        createResource(resourceAttributes as Record<string, string>) as ReadableSpan["resource"],
+      );
+    }
+    const context = deserializeSpanContext(spanContext);
+    const span = {
+      ...rest,
+      spanContext: () => context,
+      parentSpanContext: parentSpanId !== undefined
+        ? { ...context, spanId: parentSpanId, isRemote: false }
+        : undefined,
+      links: links.map((link) => ({ ...link, context: deserializeSpanContext(link.context) })),
+      resource: resources.get(resourceKey)!,
+      ended: true,
+    } as unknown as ReadableSpan;
+    makeSpanOtelV2Compatible(span);
+    return span;
+  });
+};
+
+interface QueuedBatch {
+  file: string;
+  createdAt: number;
+  spanCount: number;
+  bytes: number;
+}
+
+// `<created at>-<span count>-<uuid>.json`, so that batches sort by age and
+// can be counted without reading them
+const BATCH_FILE = /^(\d+)-(\d+)-[\w-]+\.json$/;
+
+/**
+ * Span exporter that writes the batches it fails to export to a local
+ * directory and retries them with exponential backoff, including batches left
+ * over by a previous process.
+ */
+export class DurableSpanExporter implements SpanExporter {
+  private readonly exporter: SpanExporter;
+  private readonly directory: string;
+  private readonly maxBytes: number;
+  private readonly maxAgeMillis: number;
+  private readonly initialBackoffMillis: number;
+  private readonly maxBackoffMillis: number;
+  private readonly ready: Promise<void>;
+  private backoffMillis: number;
+  private timer: NodeJS.Timeout | null = null;
+  private draining: Promise<void> | null = null;
+  private stopped = false;
+  private queuedSpans = 0;
+  private retriedSpans = 0;
+  private droppedSpans = 0;
+
+  constructor(exporter: SpanExporter, options: ExportQueueOptions = {}) {
+    this.exporter = exporter;
+    this.directory = options.directory ?? DEFAULT_EXPORT_QUEUE_DIR;
+    this.maxBytes = options.maxBytes ?? 100 * 1024 * 1024;
+    this.maxAgeMillis = options.maxAgeMillis ?? 24 * 60 * 60 * 1000;
+    this.initialBackoffMillis = options.initialBackoffMillis ?? 1000;
+    this.maxBackoffMillis = options.maxBackoffMillis ?? 5 * 60 * 1000;
+    this.backoffMillis = this.initialBackoffMillis;
+    this.ready = mkdir(this.directory, { recursive: true }).then(
+      () => undefined,
+      (error: Error) => {
+        logger.warn(`Failed to create the export queue directory: ${error.message}`);
+      },
+    );
+    // Send what a previous process left behind
+    this.scheduleDrain(0);
+  }
+
+  export(spans: ReadableSpan[], resultCallback: (result: ExportResult) => void): void {
+    this.exporter.export(spans, (result: ExportResult) => {
+      if (result.code === ExportResultCode.SUCCESS) {
+        resultCallback(result);
+        return;
+      }
+      logger.debug(`Failed to export ${spans.length} spans, queueing them for a retry`);
+      this.enqueue(spans).then(
+        (queued) => resultCallback(queued ? { code: ExportResultCode.SUCCESS } : result),
+        (error: Error) => {
+          logger.warn(`Failed to queue spans for a retry: ${error.message}`);
+          this.droppedSpans += spans.length;
+          resultCallback(result);
+        },
+      );
+    });
+  }
+
+  async forceFlush(): Promise<void> {
+    await this.draining;
+    await this.exporter.forceFlush?.();
+  }
+
+  async shutdown(): Promise<void> {
+    // Queued batches stay on disk for the next process
+    this.stopped = true;
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    await this.draining;
+    await this.exporter.shutdown();
+  }
+
+  async metrics(): Promise<ExportQueueMetrics> {
+    const batches = await this.listBatches();
+    return {
+      pendingBatches: batches.length,
+      pendingSpans: batches.reduce((sum, batch) => sum + batch.spanCount, 0),
+      queuedSpans: this.queuedSpans,
+      retriedSpans: this.retriedSpans,
+      droppedSpans: this.droppedSpans,
+    };
+  }
+
+  /**
+   * Write a batch to the queue directory. Returns false if it is larger than
+   * the whole queue.
+   */
+  private async enqueue(spans: ReadableSpan[]): Promise<boolean> {
+    await this.ready;
+    const content = JSON.stringify(spans.map(serializeSpan));
+    const bytes = Buffer.byteLength(content);
+    if (bytes > this.maxBytes) {
+      logger.warn(`Dropping ${spans.length} spans larger than the export queue`);
+      this.droppedSpans += spans.length;
+      return false;
+    }
+
+    const batches = await this.removeExpired(await this.listBatches());
+    let queuedBytes = batches.reduce((sum, batch) => sum + batch.bytes, 0);
+    for (const batch of batches) {
+      if (queuedBytes + bytes <= this.maxBytes) {
+        break;
+      }
+      await this.drop(batch, "the export queue is full");
+      queuedBytes -= batch.bytes;
+    }
+
+    const file = join(this.directory, `${Date.now()}-${spans.length}-${randomUUID()}.json`);
+    // Write, then rename, so that a crash never leaves a partial batch
+    await writeFile(`${file}.tmp`, content);
+    await rename(`${file}.tmp`, file);
+    this.queuedSpans += spans.length;
+    this.scheduleDrain(this.backoffMillis);
+    return true;
+  }
+
+  private scheduleDrain(delayMillis: number): void {
+    if (this.stopped || this.timer !== null) {
+      return;
+    }
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      if (this.draining !== null) {
+        this.scheduleDrain(this.backoffMillis);
+        return;
+      }
+      this.draining = this.drain()
+        .catch((error: Error) => {
+          logger.warn(`Failed to send queued spans: ${error.message}`);
+          this.scheduleDrain(this.backoffMillis);
+        })
+        .finally(() => {
+          this.draining = null;
+        });
+    }, delayMillis);
+    // Retries never keep the process alive
+    this.timer.unref();
+  }
+
+  /**
+   * Send the queued batches, oldest first, until one fails.
+   */
+  private async drain(): Promise<void> {
+    await this.ready;
+    const batches = await this.removeExpired(await this.listBatches());
+    for (const batch of batches) {
+      if (this.stopped) {
+        return;
+      }
+      const path = join(this.directory, batch.file);
+      let spans: ReadableSpan[];
+      try {
+        spans = deserializeSpans(JSON.parse(await readFile(path, "utf-8")) as SerializedSpan[]);
+      } catch (error) {
+        await this.drop(batch, `it could not be read: ${(error as Error).message}`);
+        continue;
+      }
+
+      const result = await new Promise<ExportResult>((resolve) => {
+        this.exporter.export(spans, resolve);
+      });
+      if (result.code !== ExportResultCode.SUCCESS) {
+        this.backoffMillis = Math.min(this.backoffMillis * 2, this.maxBackoffMillis);
+        logger.debug(`Failed to send queued spans, retrying in ${this.backoffMillis}ms`);
+        this.scheduleDrain(this.backoffMillis);
+        return;
+      }
+      this.retriedSpans += batch.spanCount;
+      await rm(path, { force: true });
+    }
+    this.backoffMillis = this.initialBackoffMillis;
+  }
+
+  private async listBatches(): Promise<QueuedBatch[]> {
+    let files: string[];
+    try {
+      files = await readdir(this.directory);
+    } catch {
+      return [];
+    }
+    const batches: QueuedBatch[] = [];
+    for (const file of files) {
+      const match = BATCH_FILE.exec(file);
+      if (!match) {
+        continue;
+      }
+      try {
+        const { size } = await stat(join(this.directory, file));
+        batches.push({
+          file,
+          createdAt: Number(match[1]),
+          spanCount: Number(match[2]),
+          bytes: size,
+        });
+      } catch {
+        // Sent or dropped in the meantime
+      }
+    }
+    return batches.sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  private async removeExpired(batches: QueuedBatch[]): Promise<QueuedBatch[]> {
+    const oldest = Date.now() - this.maxAgeMillis;
+    const remaining: QueuedBatch[] = [];
+    for (const batch of batches) {
+      if (batch.createdAt < oldest) {
+        await this.drop(batch, "it is too old");
+      } else {
+        remaining.push(batch);
+      }
+    }
+    return remaining;
+  }
+
+  private async drop(batch: QueuedBatch, reason: string): Promise<void> {
+    try {
+      // Unlike `rm`, fails if the file was removed concurrently
+      await unlink(join(this.directory, batch.file));
+    } catch {
+      // Already sent or dropped by a concurrent drain
+      return;
+    }
+    logger.warn(`Dropped ${batch.spanCount} queued spans because ${reason}`);
+    this.droppedSpans += batch.spanCount;
+  }
+}
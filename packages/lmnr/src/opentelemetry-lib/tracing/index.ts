@@ -18,6 +18,8 @@ import { consumeStreamResult, waitForPendingStreams } from "./stream-utils";
 export { consumeStreamResult, waitForPendingStreams };
 import { initializeLaminarInstrumentations } from "./instrumentations";
 import { LaminarSpanProcessor } from "./processor";
+import { enableHttpPropagation } from "./propagation";
+import { LaminarSampler } from "./sampling";
 import { LaminarTracer } from "./tracer";
 import { isGlobalContextManagerConfigured } from "./utils";
 
@@ -60,11 +62,18 @@ export const startTracing = (options: InitializeOptions) => {
     maxExportBatchSize: options.maxExportBatchSize,
     exporter: options.exporter,
     disableBatch: options.disableBatch,
+    sampling: options.sampling,
+    redaction: options.redaction,
+    costEstimation: options.costEstimation === true ? {} : options.costEstimation || undefined,
+    exportQueue: options.exportQueue === true ? {} : options.exportQueue || undefined,
+    additionalExporters: options.additionalExporters,
   });
 
   const newProvider = new NodeTracerProvider({
     spanProcessors: [spanProcessor],
-    sampler: new AlwaysOnSampler(),
+    sampler: options.sampling
+      ? new LaminarSampler(options.sampling.ratio)
+      : new AlwaysOnSampler(),
     resource: createResource({
       [ATTR_SERVICE_NAME]: "laminar-tracer-resource",
       [ATTR_SERVICE_VERSION]: SDK_VERSION,
@@ -114,6 +123,10 @@ export const startTracing = (options: InitializeOptions) => {
     instrumentations,
     tracerProvider: newProvider,
   });
+
+  if (options.httpPropagation) {
+    enableHttpPropagation(options.httpPropagation === true ? {} : options.httpPropagation);
+  }
 };
 
 export const patchModules = (
@@ -21,6 +21,13 @@ import { GoogleGenAiInstrumentation } from "../instrumentation/google-genai";
 import { KernelInstrumentation } from "../instrumentation/kernel";
 import { OpenAIAgentsInstrumentation } from "../instrumentation/openai-agents";
 import { OpencodeInstrumentation } from "../instrumentation/opencode";
+import { ProviderReplayInstrumentation } from "../instrumentation/provider-replay";
+import {
+  type BullMQModule,
+  type KafkaJSModule,
+  patchBullMQ,
+  patchKafkaJS,
+} from "../instrumentation/queues";
 import {
   patchTemporalClient,
   patchTemporalWorker,
@@ -154,6 +161,8 @@ const initInstrumentations = (
     }),
   );
 
+  instrumentations.push(new ProviderReplayInstrumentation());
+
   instrumentations.push(
     new CohereInstrumentation({
       traceContent: !suppressContentTracing,
@@ -273,6 +282,18 @@ const manuallyInitInstrumentations = (
     anthropicInstrumentation.manuallyInstrument(instrumentModules.anthropic);
   }
 
+  const openAIModule = instrumentModules?.OpenAI ?? instrumentModules?.openAI;
+  if (openAIModule || instrumentModules?.anthropic) {
+    const providerReplayInstrumentation = new ProviderReplayInstrumentation();
+    instrumentations.push(providerReplayInstrumentation);
+    if (openAIModule) {
+      providerReplayInstrumentation.manuallyInstrumentOpenAI(openAIModule);
+    }
+    if (instrumentModules?.anthropic) {
+      providerReplayInstrumentation.manuallyInstrumentAnthropic(instrumentModules.anthropic);
+    }
+  }
+
   if (instrumentModules?.azureOpenAI) {
     logger.warn(
       "Azure OpenAI instrumentation is no longer supported. Not enabling any instrumentation.",
@@ -436,5 +457,15 @@ const manuallyInitInstrumentations = (
     }
   }
 
+  if (instrumentModules?.queues) {
+    const { bullmq, kafkajs, consumeMode } = instrumentModules.queues;
+    if (bullmq?.Queue && bullmq?.Worker) {
+      patchBullMQ(bullmq as BullMQModule, { consumeMode });
+    }
+    if (kafkajs?.Kafka) {
+      patchKafkaJS(kafkajs as KafkaJSModule, { consumeMode });
+    }
+  }
+
   return instrumentations;
 };
@@ -0,0 +1,272 @@
+import { appendFileSync, mkdirSync } from "node:fs";
+import { dirname } from "node:path";
+
+import { type AttributeValue, type HrTime, SpanStatusCode } from "@opentelemetry/api";
+import { type ExportResult, ExportResultCode, hrTimeToMilliseconds } from "@opentelemetry/core";
+import { type ReadableSpan, type SpanExporter } from "@opentelemetry/sdk-trace-base";
+
+import { initializeLogger, otelTraceIdToUUID } from "../../utils";
+import { LaminarAttributes, SPAN_PATH, SPAN_TYPE } from "./attributes";
+import { getParentSpanId, makeSpanOtelV2Compatible } from "./compat";
+import { tokenCount } from "./sampling";
+
+const logger = initializeLogger();
+
+/**
+ * Span exporter that prints every trace as an indented tree of its spans,
+ * with their Laminar span path, type, duration, tokens and cost.
+ *
+ * A trace is printed when its root span ends in this process, or on flush
+ * and shutdown for traces continued from another process.
+ */
+export class ConsoleSpanExporter implements SpanExporter {
+  private readonly write: (text: string) => void;
+  private readonly traces: Map<string, ReadableSpan[]> = new Map();
+
+  /**
+   * @param {object} options - The options for the console exporter.
+   * @param {function} options.write - Where to print the traces.
+   * Defaults to standard output.
+   */
+  constructor(options: { write?: (text: string) => void } = {}) {
+    this.write = options.write ?? ((text) => process.stdout.write(text));
+  }
+
+  export(spans: ReadableSpan[], resultCallback: (result: ExportResult) => void): void {
+    const ended = new Set<string>();
+    for (const span of spans) {
+      const traceId = span.spanContext().traceId;
+      const traceSpans = this.traces.get(traceId) ?? [];
+      traceSpans.push(span);
+      this.traces.set(traceId, traceSpans);
+      const parent = (span as { parentSpanContext?: { isRemote?: boolean } }).parentSpanContext;
+      if (!getParentSpanId(span) || parent?.isRemote) {
+        ended.add(traceId);
+      }
+    }
+    ended.forEach((traceId) => this.print(traceId));
+    resultCallback({ code: ExportResultCode.SUCCESS });
+  }
+
+  shutdown(): Promise<void> {
+    return this.forceFlush();
+  }
+
+  forceFlush(): Promise<void> {
+    [...this.traces.keys()].forEach((traceId) => this.print(traceId));
+    return Promise.resolve();
+  }
+
+  private print(traceId: string): void {
+    const spans = this.traces.get(traceId) ?? [];
+    this.traces.delete(traceId);
+
+    const spanIds = new Set(spans.map((span) => span.spanContext().spanId));
+    const children: Map<string | undefined, ReadableSpan[]> = new Map();
+    for (const span of spans) {
+      const parentSpanId = getParentSpanId(span);
+      const key = parentSpanId && spanIds.has(parentSpanId) ? parentSpanId : undefined;
+      children.set(key, [...(children.get(key) ?? []), span]);
+    }
+
+    const lines = [`Trace ${otelTraceIdToUUID(traceId)}`];
+    const visit = (parentSpanId: string | undefined, depth: number) => {
+      const sorted = (children.get(parentSpanId) ?? []).sort(
+        (a, b) => hrTimeToMilliseconds(a.startTime) - hrTimeToMilliseconds(b.startTime),
+      );
+      for (const span of sorted) {
+        lines.push(`${"  ".repeat(depth + 1)}${formatSpan(span)}`);
+        visit(span.spanContext().spanId, depth + 1);
+      }
+    };
+    visit(undefined, 0);
+    this.write(`${lines.join("\n")}\n`);
+  }
+}
+
+const formatSpan = (span: ReadableSpan): string => {
+  const path = span.attributes[SPAN_PATH];
+  const parts = [
+    Array.isArray(path) ? path.join(" > ") : span.name,
+    String(span.attributes[SPAN_TYPE] ?? "DEFAULT"),
+    formatDuration(hrTimeToMilliseconds(span.duration)),
+  ];
+  const tokens = tokenCount(span.attributes);
+  if (tokens > 0) {
+    parts.push(`${tokens.toLocaleString("en-US")} tokens`);
+  }
+  const cost = costOf(span);
+  if (cost > 0) {
+    parts.push(`$${cost.toFixed(6)}`);
+  }
+  if (span.status.code === SpanStatusCode.ERROR
+    || span.events.some((event) => event.name === "exception")) {
+    parts.push("ERROR");
+  }
+  return parts.join("  ");
+};
+
+const formatDuration = (milliseconds: number): string =>
+  milliseconds < 1000 ? `${Math.round(milliseconds)}ms` : `${(milliseconds / 1000).toFixed(2)}s`;
+
+const costOf = (span: ReadableSpan): number => {
+  const total = span.attributes[LaminarAttributes.TOTAL_COST];
+  if (typeof total === "number") return total;
+  const input = span.attributes[LaminarAttributes.INPUT_COST];
+  const output = span.attributes[LaminarAttributes.OUTPUT_COST];
+  return (typeof input === "number" ? input : 0) + (typeof output === "number" ? output : 0);
+};
+
+/**
+ * Span exporter that appends spans to a file in the OTLP JSON format, one
+ * `ExportTraceServiceRequest` per line, for every exported batch.
+ */
+export class FileSpanExporter implements SpanExporter {
+  constructor(private readonly path: string) {
+    mkdirSync(dirname(path), { recursive: true });
+  }
+
+  export(spans: ReadableSpan[], resultCallback: (result: ExportResult) => void): void {
+    try {
+      appendFileSync(this.path, `${JSON.stringify(toOtlpJson(spans))}\n`);
+      resultCallback({ code: ExportResultCode.SUCCESS });
+    } catch (e) {
+      logger.warn(`Failed to write spans to ${this.path}: ${String(e)}`);
+      resultCallback({ code: ExportResultCode.FAILED, error: e as Error });
+    }
+  }
+
+  shutdown(): Promise<void> {
+    return Promise.resolve();
+  }
+
+  forceFlush(): Promise<void> {
+    return Promise.resolve();
+  }
+}
+
+const toNanos = (time: HrTime): string =>
+  time[0] === 0 ? String(time[1]) : `${time[0]}${String(time[1]).padStart(9, "0")}`;
+
+const toAnyValue = (value: AttributeValue | undefined | null): Record<string, unknown> => {
+  if (Array.isArray(value)) {
+    return { arrayValue: { values: (value as AttributeValue[]).map(toAnyValue) } };
+  }
+  switch (typeof value) {
+    case "string":
+      return { stringValue: value };
+    case "boolean":
+      return { boolValue: value };
+    case "number":
+      return Number.isInteger(value) ? { intValue: value } : { doubleValue: value };
+    default:
+      return {};
+  }
+};
+
+const toKeyValues = (attributes: Record<string, AttributeValue | undefined>) =>
+  Object.entries(attributes).map(([key, value]) => ({ key, value: toAnyValue(value) }));
+
+const toOtlpSpan = (span: ReadableSpan) => {
+  const { traceId, spanId, traceState } = span.spanContext();
+  const parentSpanId = getParentSpanId(span);
+  return {
+    traceId,
+    spanId,
+    ...(parentSpanId ? { parentSpanId } : {}),
+    ...(traceState ? { traceState: traceState.serialize() } : {}),
+    name: span.name,
+    // OTLP kinds are shifted by one, as 0 is SPAN_KIND_UNSPECIFIED
+    kind: span.kind + 1,
+    startTimeUnixNano: toNanos(span.startTime),
+    endTimeUnixNano: toNanos(span.endTime),
+    attributes: toKeyValues(span.attributes),
+    droppedAttributesCount: span.droppedAttributesCount,
+    events: span.events.map((event) => ({
+      timeUnixNano: toNanos(event.time),
+      name: event.name,
+      attributes: toKeyValues(event.attributes ?? {}),
+      droppedAttributesCount: event.droppedAttributesCount ?? 0,
+    })),
+    droppedEventsCount: span.droppedEventsCount,
+    links: span.links.map((link) => ({
+      traceId: link.context.traceId,
+      spanId: link.context.spanId,
+      attributes: toKeyValues(link.attributes ?? {}),
+      droppedAttributesCount: link.droppedAttributesCount ?? 0,
+    })),
+    droppedLinksCount: span.droppedLinksCount,
+    status: {
+      code: span.status.code,
+      ...(span.status.message ? { message: span.status.message } : {}),
+    },
+  };
+};
+
+/**
+ * Converts spans to an OTLP JSON `ExportTraceServiceRequest`, grouped by
+ * resource and instrumentation scope.
+ */
+export const toOtlpJson = (spans: ReadableSpan[]) => {
+  const resources: Map<ReadableSpan["resource"], Map<string, ReadableSpan[]>> = new Map();
+  for (const span of spans) {
+    makeSpanOtelV2Compatible(span);
+    const scopes = resources.get(span.resource) ?? new Map<string, ReadableSpan[]>();
+    const scope = JSON.stringify([
+      span.instrumentationScope?.name,
+      span.instrumentationScope?.version,
+    ]);
+    scopes.set(scope, [...(scopes.get(scope) ?? []), span]);
+    resources.set(span.resource, scopes);
+  }
+
+  return {
+    resourceSpans: [...resources.entries()].map(([resource, scopes]) => ({
+      resource: { attributes: toKeyValues(resource.attributes) },
+      scopeSpans: [...scopes.values()].map((scopeSpans) => ({
+        scope: {
+          name: scopeSpans[0].instrumentationScope?.name ?? "",
+          ...(scopeSpans[0].instrumentationScope?.version
+            ? { version: scopeSpans[0].instrumentationScope.version }
+            : {}),
+        },
+        spans: scopeSpans.map(toOtlpSpan),
+      })),
+    })),
+  };
+};
+
+const FILE_EXPORTER_PREFIX = "file:";
+
+const isFileExporterValue = (value: string): boolean =>
+  value.startsWith(FILE_EXPORTER_PREFIX) && value.length > FILE_EXPORTER_PREFIX.length;
+
+/**
+ * Whether the `LMNR_EXPORTER` environment variable selects a local exporter,
+ * which needs no Laminar backend.
+ */
+export const isLocalExporterEnv = (): boolean => {
+  const value = process?.env?.LMNR_EXPORTER?.trim();
+  return value === "console" || (value !== undefined && isFileExporterValue(value));
+};
+
+/**
+ * Exporter selected by the `LMNR_EXPORTER` environment variable: `console`,
+ * or `file:<path>`. Undefined if it is not set.
+ */
+export const exporterFromEnv = (): SpanExporter | undefined => {
+  const value = process?.env?.LMNR_EXPORTER?.trim();
+  if (!value) {
+    return undefined;
+  }
+  if (value === "console") {
+    return new ConsoleSpanExporter();
+  }
+  if (isFileExporterValue(value)) {
+    return new FileSpanExporter(value.slice(FILE_EXPORTER_PREFIX.length));
+  }
+  logger.warn(
+    `Unknown LMNR_EXPORTER "${value}". Expected "console" or "file:<path>". Ignoring it.`,
+  );
+  return undefined;
+};
@@ -0,0 +1,178 @@
+import { type Attributes } from "@opentelemetry/api";
+
+import { LaminarAttributes } from "./attributes";
+
+/**
+ * Price of a model in US dollars per million tokens.
+ */
+export interface ModelPrice {
+  input: number;
+  output: number;
+  /**
+   * Price of input tokens read from the prompt cache. Defaults to `input`.
+   */
+  cacheRead?: number;
+  /**
+   * Price of input tokens written to the prompt cache. Defaults to `input`.
+   */
+  cacheWrite?: number;
+  /**
+   * Price of reasoning output tokens. Defaults to `output`.
+   */
+  reasoning?: number;
+}
+
+/**
+ * List prices of common models, keyed by model name prefix. Dated and
+ * provider-prefixed model names, e.g. `gpt-4o-2024-08-06` or
+ * `anthropic.claude-3-5-haiku-20241022-v1:0`, match the longest prefix.
+ */
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  // OpenAI
+  "gpt-5": { input: 1.25, output: 10, cacheRead: 0.125 },
+  "gpt-5-mini": { input: 0.25, output: 2, cacheRead: 0.025 },
+  "gpt-5-nano": { input: 0.05, output: 0.4, cacheRead: 0.005 },
+  "gpt-4.1": { input: 2, output: 8, cacheRead: 0.5 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6, cacheRead: 0.1 },
+  "gpt-4.1-nano": { input: 0.1, output: 0.4, cacheRead: 0.025 },
+  "gpt-4o": { input: 2.5, output: 10, cacheRead: 1.25 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6, cacheRead: 0.075 },
+  "gpt-4-turbo": { input: 10, output: 30 },
+  "gpt-4": { input: 30, output: 60 },
+  "gpt-3.5-turbo": { input: 0.5, output: 1.5 },
+  "o1": { input: 15, output: 60, cacheRead: 7.5 },
+  "o1-mini": { input: 1.1, output: 4.4, cacheRead: 0.55 },
+  "o3": { input: 2, output: 8, cacheRead: 0.5 },
+  "o3-mini": { input: 1.1, output: 4.4, cacheRead: 0.55 },
+  "o4-mini": { input: 1.1, output: 4.4, cacheRead: 0.275 },
+  // Anthropic
+  "claude-opus-4-5": { input: 5, output: 25, cacheRead: 0.5, cacheWrite: 6.25 },
+  "claude-opus-4": { input: 15, output: 75, cacheRead: 1.5, cacheWrite: 18.75 },
+  "claude-sonnet-4": { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
+  "claude-haiku-4": { input: 1, output: 5, cacheRead: 0.1, cacheWrite: 1.25 },
+  "claude-3-7-sonnet": { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
+  "claude-3-5-sonnet": { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
+  "claude-3-5-haiku": { input: 0.8, output: 4, cacheRead: 0.08, cacheWrite: 1 },
+  "claude-3-opus": { input: 15, output: 75, cacheRead: 1.5, cacheWrite: 18.75 },
+  "claude-3-haiku": { input: 0.25, output: 1.25, cacheRead: 0.03, cacheWrite: 0.3 },
+  // Google
+  "gemini-2.5-pro": { input: 1.25, output: 10, cacheRead: 0.31 },
+  "gemini-2.5-flash": { input: 0.3, output: 2.5, cacheRead: 0.075 },
+  "gemini-2.5-flash-lite": { input: 0.1, output: 0.4, cacheRead: 0.025 },
+  "gemini-2.0-flash": { input: 0.1, output: 0.4, cacheRead: 0.025 },
+  "gemini-2.0-flash-lite": { input: 0.075, output: 0.3 },
+  "gemini-1.5-pro": { input: 1.25, output: 5 },
+  "gemini-1.5-flash": { input: 0.075, output: 0.3 },
+};
+
+// Provider prefixes of model names, e.g. `openai/gpt-4o`, `models/gemini-2.5-pro`
+// and Bedrock's `us.anthropic.claude-sonnet-4-20250514-v1:0`.
+const MODEL_PREFIX = /^(?:.*\/)?(?:[a-z]{2}\.)?(?:anthropic|meta|amazon|cohere|mistral|ai21)\./;
+
+/**
+ * Price of `model` in `prices`, matched by the longest model name prefix.
+ */
+export const findModelPrice = (
+  model: string,
+  prices: Record<string, ModelPrice> = DEFAULT_MODEL_PRICES,
+): ModelPrice | undefined => {
+  const name = model.toLowerCase().replace(MODEL_PREFIX, "").replace(/^.*\//, "");
+  let match: string | undefined;
+  for (const prefix of Object.keys(prices)) {
+    if (name.startsWith(prefix.toLowerCase()) && prefix.length > (match?.length ?? 0)) {
+      match = prefix;
+    }
+  }
+  return match !== undefined ? prices[match] : undefined;
+};
+
+const numberAttribute = (attributes: Attributes, key: string): number | undefined => {
+  const value = attributes[key];
+  return typeof value === "number" ? value : undefined;
+};
+
+const firstNumberAttribute = (attributes: Attributes, keys: string[]): number | undefined =>
+  keys.map((key) => numberAttribute(attributes, key)).find((value) => value !== undefined);
+
+/**
+ * Cost of an LLM call in US dollars. Cache and reasoning costs are parts of
+ * the input and output costs.
+ */
+export interface CostEstimate {
+  input: number;
+  output: number;
+  cacheRead: number;
+  cacheWrite: number;
+  reasoning: number;
+  total: number;
+}
+
+/**
+ * Cost recorded on a span by its instrumentation, or undefined if none is.
+ */
+export const recordedCost = (
+  attributes: Attributes,
+): Pick<CostEstimate, "input" | "output" | "total"> | undefined => {
+  const total = numberAttribute(attributes, LaminarAttributes.TOTAL_COST);
+  const input = numberAttribute(attributes, LaminarAttributes.INPUT_COST);
+  const output = numberAttribute(attributes, LaminarAttributes.OUTPUT_COST);
+  if (total === undefined && input === undefined && output === undefined) {
+    return undefined;
+  }
+  return {
+    input: input ?? 0,
+    output: output ?? 0,
+    total: total ?? (input ?? 0) + (output ?? 0),
+  };
+};
+
+/**
+ * Cost of an LLM span from its token usage at the price of its model.
+ * Input tokens include the tokens read from and written to the prompt cache,
+ * and output tokens include the reasoning tokens, as the instrumentations
+ * record them. Undefined if the model or its price is unknown, or the span
+ * has no token usage.
+ */
+export const estimateCost = (
+  attributes: Attributes,
+  prices: Record<string, ModelPrice> = DEFAULT_MODEL_PRICES,
+): CostEstimate | undefined => {
+  const model = attributes[LaminarAttributes.RESPONSE_MODEL]
+    ?? attributes[LaminarAttributes.REQUEST_MODEL];
+  const price = typeof model === "string" ? findModelPrice(model, prices) : undefined;
+  const inputTokens = firstNumberAttribute(
+    attributes, [LaminarAttributes.INPUT_TOKEN_COUNT, "gen_ai.usage.prompt_tokens"],
+  );
+  const outputTokens = firstNumberAttribute(
+    attributes, [LaminarAttributes.OUTPUT_TOKEN_COUNT, "gen_ai.usage.completion_tokens"],
+  );
+  if (!price || (inputTokens === undefined && outputTokens === undefined)) {
+    return undefined;
+  }
+  const cacheReadTokens = numberAttribute(attributes, "gen_ai.usage.cache_read_input_tokens") ?? 0;
+  const cacheWriteTokens =
+    numberAttribute(attributes, "gen_ai.usage.cache_creation_input_tokens") ?? 0;
+  const reasoningTokens = firstNumberAttribute(
+    attributes, ["gen_ai.usage.reasoning_tokens", "gen_ai.usage.reasoning_output_tokens"],
+  ) ?? 0;
+
+  const uncachedTokens = Math.max((inputTokens ?? 0) - cacheReadTokens - cacheWriteTokens, 0);
+  const cacheRead = cacheReadTokens * (price.cacheRead ?? price.input) / 1e6;
+  const cacheWrite = cacheWriteTokens * (price.cacheWrite ?? price.input) / 1e6;
+  const input = uncachedTokens * price.input / 1e6 + cacheRead + cacheWrite;
+  const visibleTokens = Math.max((outputTokens ?? 0) - reasoningTokens, 0);
+  const reasoning = reasoningTokens * (price.reasoning ?? price.output) / 1e6;
+  const output = visibleTokens * price.output / 1e6 + reasoning;
+  return { input, output, cacheRead, cacheWrite, reasoning, total: input + output };
+};
+
+/**
+ * Cost of an LLM span in US dollars: the cost recorded by its
+ * instrumentation, or else its token usage at the price of its model.
+ * Undefined if neither is known.
+ */
+export const spanCost = (
+  attributes: Attributes,
+  prices: Record<string, ModelPrice> = DEFAULT_MODEL_PRICES,
+): number | undefined =>
+  (recordedCost(attributes) ?? estimateCost(attributes, prices))?.total;
@@ -1,6 +1,7 @@
 import { Context, context } from "@opentelemetry/api";
 import {
   BatchSpanProcessor,
+  type ReadableSpan,
   SimpleSpanProcessor,
   type Span,
   SpanExporter,
@@ -18,6 +19,7 @@ import {
   StringUUID,
 } from "../../utils";
 import { getLangVersion } from "../../version";
+import { type AdditionalExporter, AdditionalExportProcessor } from "./additional-exporters";
 import {
   ASSOCIATION_PROPERTIES,
   ASSOCIATION_PROPERTIES_OVERRIDES,
@@ -32,6 +34,7 @@ import {
   TRACE_TYPE,
   USER_ID,
 } from "./attributes";
+import { BudgetTracker } from "./budget";
 import {
   getParentSpanId,
   makeSpanOtelV2Compatible,
@@ -41,8 +44,19 @@ import {
   ASSOCIATION_PROPERTIES_KEY,
   CONTEXT_SPAN_PATH_KEY,
   LaminarContextManager,
+  REMOTE_PARENT_PATH_KEY,
 } from "./context";
+import { type CostEstimationOptions, CostEstimator } from "./cost-estimation";
+import {
+  DurableSpanExporter,
+  type ExportQueueMetrics,
+  type ExportQueueOptions,
+} from "./export-queue";
 import { LaminarSpanExporter } from "./exporter";
+import { exporterFromEnv } from "./local-exporters";
+import { type RemoteParentPath } from "./propagation";
+import { type RedactionOptions, SpanRedactor } from "./redaction";
+import { type SamplingOptions, TailSampler } from "./sampling";
 
 interface LaminarSpanProcessorOptions {
   /**
@@ -85,7 +99,8 @@ interface LaminarSpanProcessorOptions {
 
   /**
    * The exporter to use. Optional. If specified, some of the other options will be ignored.
-   * Defaults to a new LaminarSpanExporter.
+   * Defaults to the exporter selected by `LMNR_EXPORTER`, if set, and otherwise
+   * to a new LaminarSpanExporter.
    */
   exporter?: SpanExporter;
 
@@ -100,11 +115,47 @@ interface LaminarSpanProcessorOptions {
    * If not provided, the `port` option will be used.
    */
   httpPort?: number;
+
+  /**
+   * Trace sampling. Optional. If it has tail sampling rules, the spans of the
+   * traces dropped by head sampling are buffered until their trace ends.
+   */
+  sampling?: SamplingOptions;
+
+  /**
+   * Redaction of personal data and secrets from span content. Optional.
+   * Defaults to no redaction.
+   */
+  redaction?: RedactionOptions;
+
+  /**
+   * Estimation of the cost of LLM spans from a model price table. Optional.
+   * Defaults to no estimation.
+   */
+  costEstimation?: CostEstimationOptions;
+
+  /**
+   * Keep batches that failed to export on disk and retry them. Optional.
+   * Ignored if `spanProcessor` is passed. Defaults to no queue.
+   */
+  exportQueue?: ExportQueueOptions;
+
+  /**
+   * Destinations that spans are exported to in addition to Laminar, each
+   * with its own batching. Optional.
+   */
+  additionalExporters?: AdditionalExporter[];
 }
 
 export class LaminarSpanProcessor implements SpanProcessor {
   private instance: BatchSpanProcessor | SimpleSpanProcessor;
   private logger: Logger;
+  private tailSampler?: TailSampler;
+  private redactor?: SpanRedactor;
+  private exportQueue?: DurableSpanExporter;
+  private additionalProcessors: AdditionalExportProcessor[] = [];
+  private costEstimator?: CostEstimator;
+  private budgetTracker: BudgetTracker = new BudgetTracker();
   private readonly _spanIdToPath: Map<string, string[]> = new Map();
   private readonly _spanIdLists: Map<string, string[]> = new Map();
 
@@ -122,6 +173,15 @@ export class LaminarSpanProcessor implements SpanProcessor {
    * @param {boolean} options.forceHttp - Whether to force HTTP and use OpenTelemetry
    * HTTP/protobuf exporter.
    * Not recommended with Laminar backends.
+   * @param {SamplingOptions} options.sampling - Trace sampling, see {@link SamplingOptions}.
+   * @param {RedactionOptions} options.redaction - Redaction of span content,
+   * see {@link RedactionOptions}.
+   * @param {CostEstimationOptions} options.costEstimation - Estimation of the cost of LLM
+   * spans, see {@link CostEstimationOptions}.
+   * @param {ExportQueueOptions} options.exportQueue - On-disk queue for batches that failed
+   * to export, see {@link ExportQueueOptions}.
+   * @param {AdditionalExporter[]} options.additionalExporters - Destinations to export spans
+   * to in addition to Laminar, see {@link AdditionalExporter}.
    */
   constructor(options: LaminarSpanProcessorOptions = {}) {
     this.logger = initializeLogger();
@@ -133,12 +193,24 @@ export class LaminarSpanProcessor implements SpanProcessor {
       // Set by reference, so that updates from the inside are reflected here.
       this._spanIdToPath = options.spanProcessor._spanIdToPath;
       this._spanIdLists = options.spanProcessor._spanIdLists;
+      this.tailSampler = options.spanProcessor.tailSampler;
+      this.redactor = options.spanProcessor.redactor;
+      this.exportQueue = options.spanProcessor.exportQueue;
+      this.additionalProcessors = options.spanProcessor.additionalProcessors;
+      this.costEstimator = options.spanProcessor.costEstimator;
+      this.budgetTracker = options.spanProcessor.budgetTracker;
     } else if (options.spanProcessor) {
       this.instance = options.spanProcessor as
         | BatchSpanProcessor
         | SimpleSpanProcessor;
     } else {
-      const exporter = options.exporter ?? new LaminarSpanExporter(options);
+      let exporter = options.exporter
+        ?? exporterFromEnv()
+        ?? new LaminarSpanExporter(options);
+      if (options.exportQueue) {
+        this.exportQueue = new DurableSpanExporter(exporter, options.exportQueue);
+        exporter = this.exportQueue;
+      }
       this.instance = options.disableBatch
         ? new SimpleSpanProcessor(exporter)
         : new BatchSpanProcessor(exporter, {
@@ -146,18 +218,48 @@ export class LaminarSpanProcessor implements SpanProcessor {
           exportTimeoutMillis: options.traceExportTimeoutMillis ?? 30000,
         });
     }
+    if (options.additionalExporters?.length) {
+      this.additionalProcessors = options.additionalExporters.map(
+        (destination) => new AdditionalExportProcessor(destination),
+      );
+    }
+    if (options.sampling?.rules?.length) {
+      this.tailSampler = new TailSampler({ onEnd: (span) => this.export(span) }, {
+        rules: options.sampling.rules,
+        maxSpansPerTrace: options.sampling.maxSpansPerTrace,
+      });
+    }
+    if (options.costEstimation) {
+      this.costEstimator = new CostEstimator(options.costEstimation);
+    }
+    if (options.redaction) {
+      this.redactor = new SpanRedactor(options.redaction);
+    }
   }
 
-  forceFlush(): Promise<void> {
-    return this.instance.forceFlush();
+  async forceFlush(): Promise<void> {
+    // Traces that are still open are decided on the spans that have ended
+    this.tailSampler?.flushAll();
+    await Promise.all([
+      this.instance.forceFlush(),
+      ...this.additionalProcessors.map((processor) => processor.forceFlush()),
+    ]);
   }
 
-  shutdown(): Promise<void> {
-    return this.instance.shutdown();
+  async shutdown(): Promise<void> {
+    // Traces that are still open are decided on the spans that have ended
+    this.tailSampler?.flushAll();
+    await Promise.all([
+      this.instance.shutdown(),
+      ...this.additionalProcessors.map((processor) => processor.shutdown()),
+    ]);
   }
 
   onStart(spanArg: any, parentContext: Context): void {
     const span = spanArg as OTelSpanCompat;
+    // Throws out of the instrumented LLM call if it is over a budget, before
+    // the span is registered anywhere
+    this.budgetTracker.onStart(spanArg as Span, parentContext);
     // Check for parent path attributes first (from serialized span context)
     const parentPathFromAttribute = span.attributes?.[PARENT_SPAN_PATH] as
       | string[]
@@ -167,18 +269,26 @@ export class LaminarSpanProcessor implements SpanProcessor {
     ] as StringUUID[] | undefined;
 
     const parentSpanId = getParentSpanId(span);
+    // Path of a remote parent, from the headers of the request being handled
+    const remoteParent = parentContext?.getValue(REMOTE_PARENT_PATH_KEY) as
+      | RemoteParentPath
+      | undefined;
+    const remoteParentPath =
+      remoteParent && remoteParent.spanId === parentSpanId ? remoteParent : undefined;
 
     // Use parent path from attributes if available, otherwise fall back to cached paths
     const parentSpanPath =
       parentPathFromAttribute ??
       (parentSpanId !== undefined
-        ? this._spanIdToPath.get(parentSpanId)
+        ? this._spanIdToPath.get(parentSpanId) ?? remoteParentPath?.spanPath
         : undefined);
 
     const spanId = span.spanContext().spanId;
     const parentSpanIdsPath =
       parentIdsPathFromAttribute ??
-      (parentSpanId ? this._spanIdLists.get(parentSpanId) : []);
+      (parentSpanId
+        ? this._spanIdLists.get(parentSpanId) ?? remoteParentPath?.spanIdsPath
+        : []);
     const spanPath = parentSpanPath
       ? [...parentSpanPath, span.name]
       : [span.name];
@@ -256,7 +366,11 @@ export class LaminarSpanProcessor implements SpanProcessor {
       this.recordDebugTraceId(span);
     }
 
+    this.tailSampler?.onStart(span);
     this.instance.onStart(span, parentContext);
+    for (const processor of this.additionalProcessors) {
+      processor.onStart(span, parentContext);
+    }
   }
 
   /**
@@ -282,7 +396,49 @@ export class LaminarSpanProcessor implements SpanProcessor {
     this._spanIdLists.delete(spanId);
     this._spanIdToPath.delete(spanId);
     makeSpanOtelV2Compatible(span);
-    this.instance.onEnd(span as Span);
+    try {
+      this.costEstimator?.onEnd(span as Span);
+    } catch (e) {
+      this.logger.debug(`Failed to estimate span cost: ${String(e)}`);
+    }
+    try {
+      this.budgetTracker.onEnd(span as Span);
+    } catch (e) {
+      this.logger.debug(`Failed to record budget usage: ${String(e)}`);
+    }
+    this.redact(span as Span);
+    if (this.tailSampler) {
+      this.tailSampler.onEnd(span as Span);
+    } else {
+      this.export(span as Span);
+    }
+  }
+
+  private export(span: ReadableSpan): void {
+    this.instance.onEnd(span);
+    for (const processor of this.additionalProcessors) {
+      processor.onEnd(span);
+    }
+  }
+
+  /**
+   * Metrics of the on-disk export queue, or undefined if it is not enabled.
+   */
+  getExportQueueMetrics(): Promise<ExportQueueMetrics> | undefined {
+    return this.exportQueue?.metrics();
+  }
+
+  private redact(span: Span): void {
+    if (!this.redactor) {
+      return;
+    }
+    try {
+      this.redactor.redact(span);
+    } catch (e) {
+      // Never export content that could not be redacted
+      this.logger.warn(`Failed to redact span, dropping its content: ${String(e)}`);
+      this.redactor.dropContent(span);
+    }
   }
 
   /**
@@ -0,0 +1,275 @@
+import * as diagnosticsChannel from "node:diagnostics_channel";
+import * as http from "node:http";
+import * as https from "node:https";
+
+import { type LaminarSpanContext, type StringUUID } from "@lmnr-ai/types";
+import {
+  type Context,
+  ROOT_CONTEXT,
+  type SpanContext,
+  type TextMapGetter,
+  type TextMapSetter,
+  trace,
+} from "@opentelemetry/api";
+import { W3CBaggagePropagator, W3CTraceContextPropagator } from "@opentelemetry/core";
+
+import { Laminar } from "../../laminar";
+import { deserializeLaminarSpanContext, initializeLogger, tryToOtelSpanContext } from "../../utils";
+import { LaminarContextManager, REMOTE_PARENT_PATH_KEY } from "./context";
+
+const logger = initializeLogger();
+
+/**
+ * Header with the Laminar span context of the calling span: its span path,
+ * session, user, metadata and debug context, as base64url-encoded JSON.
+ */
+export const LAMINAR_SPAN_CONTEXT_HEADER = "x-lmnr-span-context";
+
+/**
+ * Headers of an HTTP request, either a fetch `Headers` object or a plain
+ * object, e.g. the `headers` of a Node `IncomingMessage`.
+ */
+export type HttpHeaders = Headers | Record<string, string | string[] | number | undefined>;
+
+/**
+ * Path of a remote parent span, kept in the context extracted from its
+ * headers, so that the first local span continues its span path.
+ */
+export interface RemoteParentPath {
+  spanId: string;
+  spanPath: string[];
+  spanIdsPath: StringUUID[];
+}
+
+export interface HttpPropagationOptions {
+  /**
+   * Outgoing `fetch` and undici requests to URLs that match get the trace
+   * context headers. A string matches URLs that start with it, e.g.
+   * `"https://agents.internal.example.com"`. Defaults to none, so that no
+   * metadata is sent to third parties, e.g. LLM providers.
+   */
+  propagateTo?: Array<string | RegExp>;
+  /**
+   * Run the request handlers of Node `http` and `https` servers in the trace
+   * context extracted from the request headers. Defaults to true.
+   */
+  httpServer?: boolean;
+  /**
+   * Arm a debug session from the debug context of the request headers of
+   * `http` servers, so that a debug run continues in this service. Any client
+   * can send these headers, so enable it only for servers that are not
+   * reachable from outside. Defaults to false.
+   */
+  trustDebugContext?: boolean;
+}
+
+const isFetchHeaders = (headers: HttpHeaders): headers is Headers =>
+  typeof (headers as Headers).get === "function"
+  && typeof (headers as Headers).set === "function";
+
+const headersGetter: TextMapGetter<HttpHeaders> = {
+  keys: (headers) => isFetchHeaders(headers) ? [...headers.keys()] : Object.keys(headers),
+  get: (headers, key) => {
+    if (isFetchHeaders(headers)) {
+      return headers.get(key) ?? undefined;
+    }
+    const name = Object.keys(headers).find((header) => header.toLowerCase() === key);
+    const value = name !== undefined ? headers[name] : undefined;
+    return typeof value === "number" ? String(value) : value;
+  },
+};
+
+const headersSetter: TextMapSetter<HttpHeaders> = {
+  set: (headers, key, value) => {
+    if (isFetchHeaders(headers)) {
+      headers.set(key, value);
+    } else {
+      headers[key] = value;
+    }
+  },
+};
+
+const traceContextPropagator = new W3CTraceContextPropagator();
+const baggagePropagator = new W3CBaggagePropagator();
+
+/**
+ * Sets the `traceparent` and `baggage` headers from `context`, and the
+ * Laminar span context header from `laminarSpanContext`.
+ */
+export const injectHeaders = (
+  headers: HttpHeaders,
+  context: Context,
+  laminarSpanContext: LaminarSpanContext | null,
+): void => {
+  traceContextPropagator.inject(context, headers, headersSetter);
+  baggagePropagator.inject(context, headers, headersSetter);
+  if (laminarSpanContext) {
+    headersSetter.set(
+      headers,
+      LAMINAR_SPAN_CONTEXT_HEADER,
+      Buffer.from(JSON.stringify(laminarSpanContext)).toString("base64url"),
+    );
+  }
+};
+
+const firstHeader = (headers: HttpHeaders, key: string): string | undefined => {
+  const value = headersGetter.get(headers, key);
+  return Array.isArray(value) ? value[0] : value;
+};
+
+const parseLaminarHeader = (headers: HttpHeaders): LaminarSpanContext | undefined => {
+  const value = firstHeader(headers, LAMINAR_SPAN_CONTEXT_HEADER)?.trim();
+  if (!value) {
+    return undefined;
+  }
+  try {
+    // Plain JSON is accepted too, e.g. from `Laminar.serializeLaminarSpanContext()`
+    return deserializeLaminarSpanContext(
+      value.startsWith("{") ? value : Buffer.from(value, "base64url").toString("utf8"),
+    );
+  } catch (e) {
+    logger.debug(`Ignoring invalid ${LAMINAR_SPAN_CONTEXT_HEADER} header: ${String(e)}`);
+    return undefined;
+  }
+};
+
+/**
+ * The context of a request with `headers` on top of `context`: its remote
+ * parent span, baggage, and the association properties and span path of
+ * the Laminar span context header.
+ *
+ * If `traceparent` names another span than the Laminar header, e.g. because
+ * a service in between was traced without Laminar, the parent is the
+ * `traceparent` span, without the span path of the Laminar header.
+ */
+export const extractContext = (
+  headers: HttpHeaders,
+  context: Context,
+): { context: Context; laminarSpanContext?: LaminarSpanContext } => {
+  let ctx = baggagePropagator.extract(context, headers, headersGetter);
+  const traceParent = trace.getSpanContext(
+    traceContextPropagator.extract(ROOT_CONTEXT, headers, headersGetter),
+  );
+  let laminarSpanContext = parseLaminarHeader(headers);
+
+  let parent: SpanContext | undefined = traceParent;
+  let parentPath: RemoteParentPath | undefined;
+  if (laminarSpanContext) {
+    const laminarParent = { ...tryToOtelSpanContext(laminarSpanContext), isRemote: true };
+    if (traceParent && traceParent.traceId !== laminarParent.traceId) {
+      laminarSpanContext = undefined;
+    } else if (!traceParent || traceParent.spanId === laminarParent.spanId) {
+      parent = laminarParent;
+      if (laminarSpanContext.spanPath && laminarSpanContext.spanIdsPath) {
+        parentPath = {
+          spanId: laminarParent.spanId,
+          spanPath: laminarSpanContext.spanPath,
+          spanIdsPath: laminarSpanContext.spanIdsPath,
+        };
+      }
+    }
+  }
+
+  if (parent) {
+    ctx = trace.setSpan(ctx, trace.wrapSpanContext(parent));
+  }
+  if (parentPath) {
+    ctx = ctx.setValue(REMOTE_PARENT_PATH_KEY, parentPath);
+  }
+  if (laminarSpanContext) {
+    ctx = LaminarContextManager.setRawAssociationProperties(laminarSpanContext, ctx);
+  }
+  return { context: ctx, laminarSpanContext };
+};
+
+const matchesUrl = (url: string, patterns: Array<string | RegExp>): boolean =>
+  patterns.some((pattern) =>
+    typeof pattern === "string" ? url.startsWith(pattern) : pattern.test(url),
+  );
+
+// Request of the `undici:request:create` diagnostics channel, published by
+// Node's `fetch` and the undici package
+interface UndiciRequest {
+  origin: string | URL;
+  path: string;
+  headers: string | string[] | Record<string, unknown>;
+  addHeader(name: string, value: string): void;
+}
+
+const hasHeader = ({ headers }: UndiciRequest, name: string): boolean => {
+  const names = typeof headers === "string" || Array.isArray(headers)
+    ? String(headers)
+    : Object.keys(headers ?? {}).join();
+  return names.toLowerCase().includes(name);
+};
+
+type ServerEmit = (this: http.Server, event: string | symbol, ...args: unknown[]) => boolean;
+
+let unpatchFns: Array<() => void> = [];
+
+/**
+ * Injects the trace context headers into outgoing `fetch` and undici
+ * requests, and runs the handlers of incoming Node `http` requests in the
+ * context extracted from their headers.
+ */
+export const enableHttpPropagation = (options: HttpPropagationOptions): void => {
+  disableHttpPropagation();
+
+  const propagateTo = options.propagateTo ?? [];
+  if (propagateTo.length > 0) {
+    const onRequestCreate = (message: unknown) => {
+      const { request } = message as { request: UndiciRequest };
+      try {
+        if (hasHeader(request, "traceparent")) {
+          return;
+        }
+        if (!matchesUrl(new URL(request.path, request.origin).href, propagateTo)) {
+          return;
+        }
+        const headers: Record<string, string> = {};
+        Laminar.injectHeaders(headers);
+        for (const [name, value] of Object.entries(headers)) {
+          request.addHeader(name, value);
+        }
+      } catch (e) {
+        logger.debug(`Failed to inject trace context headers: ${String(e)}`);
+      }
+    };
+    diagnosticsChannel.subscribe("undici:request:create", onRequestCreate);
+    unpatchFns.push(() =>
+      diagnosticsChannel.unsubscribe("undici:request:create", onRequestCreate),
+    );
+  }
+
+  if (options.httpServer ?? true) {
+    for (const prototype of [http.Server.prototype, https.Server.prototype]) {
+      const hadOwnEmit = Object.prototype.hasOwnProperty.call(prototype, "emit");
+      const originalEmit = prototype.emit as ServerEmit;
+      const emit: ServerEmit = function (event, ...args) {
+        const request = args[0] as http.IncomingMessage | undefined;
+        if (event !== "request" || !request?.headers) {
+          return originalEmit.call(this, event, ...args);
+        }
+        return Laminar.withContext(
+          Laminar.extractContext(request.headers, {
+            trustDebugContext: options.trustDebugContext,
+          }),
+          () => originalEmit.call(this, event, ...args),
+        );
+      };
+      prototype.emit = emit as typeof prototype.emit;
+      unpatchFns.push(() => {
+        if (hadOwnEmit) {
+          prototype.emit = originalEmit as typeof prototype.emit;
+        } else {
+          delete (prototype as Partial<http.Server>).emit;
+        }
+      });
+    }
+  }
+};
+
+export const disableHttpPropagation = (): void => {
+  unpatchFns.forEach((unpatch) => unpatch());
+  unpatchFns = [];
+};
@@ -0,0 +1,295 @@
+import { createHash } from "node:crypto";
+
+import { type AttributeValue } from "@opentelemetry/api";
+import { type ReadableSpan } from "@opentelemetry/sdk-trace-base";
+
+import {
+  ASSOCIATION_PROPERTIES,
+  REDACTION_COUNT,
+  SPAN_INPUT,
+  SPAN_OUTPUT,
+} from "./attributes";
+
+/**
+ * What to do with a detected value:
+ * - `mask` replaces it with `[REDACTED:<detector>]`,
+ * - `hash` replaces it with `[<detector>:<hash>]`, so that equal values can
+ *   still be correlated across spans,
+ * - `drop` removes the whole attribute that contains it.
+ */
+export type RedactionAction = "mask" | "hash" | "drop";
+
+export type BuiltInDetectorName = "email" | "phone" | "creditCard" | "apiKey" | "jwt" | "ip";
+
+export interface RedactionDetector {
+  /**
+   * Name of the detector, used in masked values. A built-in name without
+   * `match` uses the built-in detector, e.g. `{ name: "email", action: "hash" }`.
+   */
+  name: string;
+  /**
+   * Pattern of the values to redact, or a function that returns the values
+   * to redact from a text.
+   */
+  match?: RegExp | ((text: string) => string[]);
+  /**
+   * Overrides {@link RedactionOptions.action} for this detector.
+   */
+  action?: RedactionAction;
+}
+
+export interface RedactionOptions {
+  /**
+   * Detectors to run, in order. Built-in detectors can be passed by name.
+   * Defaults to all built-in detectors except `ip`, which also matches
+   * version numbers like `1.2.3.4`.
+   */
+  detectors?: (BuiltInDetectorName | RedactionDetector)[];
+  /**
+   * What to do with detected values. Defaults to `mask`.
+   */
+  action?: RedactionAction;
+  /**
+   * Additional attributes to redact, by name or by prefix of dot-separated
+   * names. Span input and output, LLM messages and metadata are always
+   * redacted.
+   */
+  attributes?: string[];
+}
+
+// Passes the Luhn checksum, which all payment card numbers do
+const isCardNumber = (candidate: string): boolean => {
+  const digits = candidate.replace(/[\s-]/g, "");
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+};
+
+// Grouped like `4242 4242 4242 4242` or `3782 822463 10005`, or ungrouped
+// with the prefix of a major card network, so that other long numbers, e.g.
+// millisecond timestamps, are left as they are
+const CARD_NUMBER = new RegExp(
+  "(?<![\\w-])(?:"
+  + [
+    "\\d{4}(?:[\\s-]\\d{4}){3}(?:[\\s-]\\d{1,3})?",
+    "\\d{4}[\\s-]\\d{6}[\\s-]\\d{5}",
+    // Visa, Mastercard, American Express and Discover
+    "4\\d{12}(?:\\d{3}){0,2}",
+    "(?:5[1-5]|2[2-7])\\d{14}",
+    "3[47]\\d{13}",
+    "6(?:011|5\\d\\d)\\d{12}",
+  ].join("|")
+  + ")(?![\\w-])",
+  "g",
+);
+
+const IPV4_OCTET = "(?:25[0-5]|2[0-4]\\d|1?\\d?\\d)";
+
+const BUILT_IN_DETECTORS: Record<BuiltInDetectorName, RegExp | ((text: string) => string[])> = {
+  jwt: /\beyJ[\w-]+\.eyJ[\w-]+\.[\w-]+/g,
+  apiKey: new RegExp(
+    [
+      // OpenAI, Anthropic, Stripe and similar prefixed keys
+      "\\b(?:sk|pk|rk)[-_](?:[a-z]+[-_])?[A-Za-z0-9_-]{16,}",
+      // AWS access key ids
+      "\\bAKIA[0-9A-Z]{16}\\b",
+      // GitHub tokens
+      "\\bgh[pousr]_[A-Za-z0-9]{36,}\\b",
+      // Google API keys
+      "\\bAIza[\\w-]{35}",
+      // Bearer tokens in headers
+      "(?<=\\bBearer )[\\w.~+/-]{16,}=*",
+    ].join("|"),
+    "g",
+  ),
+  email: /[\w.%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g,
+  creditCard: (text) => (text.match(CARD_NUMBER) ?? []).filter(isCardNumber),
+  // IPv4 and full-form IPv6
+  ip: new RegExp(
+    `\\b(?:${IPV4_OCTET}\\.){3}${IPV4_OCTET}\\b|\\b(?:[0-9a-f]{1,4}:){7}[0-9a-f]{1,4}\\b`,
+    "gi",
+  ),
+  // With a country code or separated groups, so that bare numbers, e.g.
+  // Unix timestamps and ids, are left as they are
+  phone: new RegExp(
+    "(?<![\\w+])(?:"
+    + "\\+\\d{1,3}[\\s.-]?(?:\\(\\d{2,4}\\)|\\d{2,4})[\\s.-]?\\d{3,4}[\\s.-]?\\d{4}"
+    + "|(?:\\(\\d{2,4}\\)[\\s.-]?|\\d{2,4}[\\s.-])\\d{3,4}[\\s.-]\\d{4}"
+    + ")(?!\\w)",
+    "g",
+  ),
+};
+
+const DEFAULT_DETECTORS: BuiltInDetectorName[] = [
+  "jwt",
+  "apiKey",
+  "email",
+  "creditCard",
+  "phone",
+];
+
+const DEFAULT_ATTRIBUTES = [
+  SPAN_INPUT,
+  SPAN_OUTPUT,
+  `${ASSOCIATION_PROPERTIES}.metadata`,
+  // OpenLLMetry
+  "gen_ai.prompt",
+  "gen_ai.completion",
+  // OpenTelemetry GenAI semantic conventions
+  "gen_ai.input.messages",
+  "gen_ai.output.messages",
+  "gen_ai.system_instructions",
+  // AI SDK
+  "ai.prompt",
+  "ai.response.text",
+  "ai.response.object",
+  "ai.response.toolCalls",
+  "ai.toolCall.args",
+  "ai.toolCall.result",
+];
+
+interface Detector {
+  name: string;
+  find: (text: string) => string[];
+  action: RedactionAction;
+}
+
+const toFinder = (match: RegExp | ((text: string) => string[])) => {
+  if (typeof match === "function") {
+    return match;
+  }
+  const pattern = match.global ? match : new RegExp(match.source, `${match.flags}g`);
+  return (text: string) => text.match(pattern) ?? [];
+};
+
+/**
+ * Redacts personal data and secrets from the content attributes of finished
+ * spans before they are exported.
+ */
+export class SpanRedactor {
+  private readonly detectors: Detector[];
+  private readonly attributes: string[];
+
+  constructor(options: RedactionOptions = {}) {
+    const defaultAction = options.action ?? "mask";
+    const detectors = options.detectors ?? DEFAULT_DETECTORS;
+    this.detectors = detectors.map((detector) => {
+      const { name, match, action } = typeof detector === "string"
+        ? { name: detector, match: undefined, action: undefined }
+        : detector;
+      const builtIn = BUILT_IN_DETECTORS[name as BuiltInDetectorName];
+      if (!match && !builtIn) {
+        throw new Error(`Unknown redaction detector "${name}". Pass a \`match\` pattern `
+          + `or one of ${Object.keys(BUILT_IN_DETECTORS).join(", ")}.`);
+      }
+      return { name, find: toFinder(match ?? builtIn), action: action ?? defaultAction };
+    });
+    this.attributes = [...DEFAULT_ATTRIBUTES, ...(options.attributes ?? [])];
+  }
+
+  /**
+   * Redact a text. Returns `null` text if a detector with the `drop` action
+   * matched.
+   */
+  redactText(text: string): { text: string | null; count: number } {
+    let count = 0;
+    for (const detector of this.detectors) {
+      // Longest first, so that a value is not partially replaced by a match
+      // inside of it
+      const values = [...new Set(detector.find(text))]
+        .filter((value) => value.length > 0)
+        .sort((a, b) => b.length - a.length);
+      for (const value of values) {
+        const parts = text.split(value);
+        count += parts.length - 1;
+        if (detector.action === "drop") {
+          return { text: null, count };
+        }
+        text = parts.join(this.replacement(detector, value));
+      }
+    }
+    return { text, count };
+  }
+
+  /**
+   * Redact the content attributes of a span in place and record the number
+   * of redactions in `lmnr.redaction.count`.
+   */
+  redact(span: ReadableSpan): void {
+    // Attributes of ended spans can no longer be set through the span API
+    const attributes = span.attributes as Record<string, AttributeValue | undefined>;
+    let count = 0;
+    for (const [key, value] of Object.entries(attributes)) {
+      if (value === undefined || !this.shouldRedact(key)) {
+        continue;
+      }
+      const redacted = this.redactValue(value);
+      count += redacted.count;
+      if (redacted.value === null) {
+        delete attributes[key];
+      } else if (redacted.count > 0) {
+        attributes[key] = redacted.value;
+      }
+    }
+    if (count > 0) {
+      attributes[REDACTION_COUNT] = count;
+    }
+  }
+
+  /**
+   * Remove all content attributes of a span. Used when redaction fails, so
+   * that unredacted content is never exported.
+   */
+  dropContent(span: ReadableSpan): void {
+    const attributes = span.attributes as Record<string, AttributeValue | undefined>;
+    for (const key of Object.keys(attributes)) {
+      if (this.shouldRedact(key)) {
+        delete attributes[key];
+      }
+    }
+  }
+
+  private shouldRedact(key: string): boolean {
+    return this.attributes.some((prefix) => key === prefix || key.startsWith(`${prefix}.`));
+  }
+
+  private redactValue(value: AttributeValue): { value: AttributeValue | null; count: number } {
+    if (typeof value === "string") {
+      const { text, count } = this.redactText(value);
+      return { value: text, count };
+    }
+    if (!Array.isArray(value)) {
+      return { value, count: 0 };
+    }
+    let count = 0;
+    const items = [];
+    for (const item of value) {
+      if (typeof item !== "string") {
+        items.push(item);
+        continue;
+      }
+      const redacted = this.redactText(item);
+      count += redacted.count;
+      if (redacted.text === null) {
+        return { value: null, count };
+      }
+      items.push(redacted.text);
+    }
+    return { value: items as AttributeValue, count };
+  }
+
+  private replacement(detector: Detector, value: string): string {
+    if (detector.action === "hash") {
+      const hash = createHash("sha256").update(value).digest("hex").slice(0, 12);
+      return `[${detector.name}:${hash}]`;
+    }
+    return `[REDACTED:${detector.name}]`;
+  }
+}
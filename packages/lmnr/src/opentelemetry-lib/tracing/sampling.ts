@@ -0,0 +1,231 @@
+import {
+  type Attributes,
+  type Context,
+  SpanStatusCode,
+  trace,
+  TraceFlags,
+} from "@opentelemetry/api";
+import {
+  type ReadableSpan,
+  type Sampler,
+  SamplingDecision,
+  type SamplingResult,
+  type Span,
+  type SpanProcessor,
+} from "@opentelemetry/sdk-trace-base";
+
+import { ASSOCIATION_PROPERTIES, LaminarAttributes } from "./attributes";
+
+/**
+ * Decides whether to keep a finished trace that was not head-sampled.
+ * Receives all spans of the trace recorded in this process.
+ */
+export type TailSamplingRule = (trace: { spans: ReadableSpan[] }) => boolean;
+
+export interface SamplingOptions {
+  /**
+   * Fraction of traces to keep, from 0 to 1. Decided once per trace from its
+   * trace id, so every service with the same ratio keeps the same traces.
+   * Child spans, including ones continued from a propagated
+   * `LaminarSpanContext`, follow the decision of their parent.
+   * Defaults to 1.
+   */
+  ratio?: number;
+  /**
+   * Rules to keep traces that were dropped by `ratio`, e.g.
+   * `[keepErrors(), keepTotalTokensAbove(10_000)]`. Spans of dropped traces
+   * are then buffered until all spans of their trace have ended in this
+   * process, and the trace is exported if any rule matches.
+   */
+  rules?: TailSamplingRule[];
+  /**
+   * Largest number of spans buffered per trace for `rules`. A trace that
+   * exceeds it is decided early on the spans buffered so far.
+   * Defaults to 1000.
+   */
+  maxSpansPerTrace?: number;
+}
+
+const DEFAULT_MAX_SPANS_PER_TRACE = 1000;
+// How many traces to buffer at once. Past it, the oldest trace is decided
+// early on the spans buffered so far.
+const MAX_BUFFERED_TRACES = 1000;
+// How many decided trace ids to remember, to route spans that end after the
+// rest of their trace.
+const MAX_REMEMBERED_DECISIONS = 10000;
+
+/**
+ * Whether `traceId` falls into the kept `ratio` of traces. Uses the last 56
+ * bits of the trace id, which are random in W3C trace ids.
+ */
+export const isTraceIdSampled = (traceId: string, ratio: number): boolean => {
+  if (ratio >= 1) return true;
+  if (ratio <= 0) return false;
+  const random = parseInt(traceId.slice(-14), 16);
+  return random < ratio * 2 ** 56;
+};
+
+/**
+ * Ratio-based head sampler that follows the parent's decision. Unlike the
+ * OpenTelemetry samplers, it records the spans of dropped traces without
+ * marking them sampled: span processors see them, exporters do not, and tail
+ * sampling rules can still keep them.
+ */
+export class LaminarSampler implements Sampler {
+  private readonly ratio: number;
+
+  constructor(ratio: number = 1) {
+    this.ratio = ratio;
+  }
+
+  shouldSample(context: Context, traceId: string): SamplingResult {
+    const parent = trace.getSpanContext(context);
+    const sampled = parent && trace.isSpanContextValid(parent)
+      ? (parent.traceFlags & TraceFlags.SAMPLED) !== 0
+      : isTraceIdSampled(traceId, this.ratio);
+    return {
+      decision: sampled ? SamplingDecision.RECORD_AND_SAMPLED : SamplingDecision.RECORD,
+    };
+  }
+
+  toString(): string {
+    return `LaminarSampler{ratio=${this.ratio}}`;
+  }
+}
+
+const isSampled = (span: ReadableSpan): boolean =>
+  (span.spanContext().traceFlags & TraceFlags.SAMPLED) !== 0;
+
+// Span processors skip spans that are not sampled, so a trace kept by a tail
+// rule is passed on as sampled.
+const asSampled = (span: ReadableSpan): ReadableSpan => {
+  if (isSampled(span)) return span;
+  const spanContext = span.spanContext();
+  return Object.create(span, {
+    spanContext: {
+      value: () => ({ ...spanContext, traceFlags: spanContext.traceFlags | TraceFlags.SAMPLED }),
+    },
+  }) as ReadableSpan;
+};
+
+interface BufferedTrace {
+  openSpans: number;
+  spans: ReadableSpan[];
+}
+
+/**
+ * Passes the spans of head-sampled traces on to `next` as they end, and
+ * buffers the spans of other traces until all of their spans that started in
+ * this process have ended, then passes them on if a rule matches.
+ */
+export class TailSampler {
+  private readonly rules: TailSamplingRule[];
+  private readonly maxSpansPerTrace: number;
+  private readonly traces: Map<string, BufferedTrace> = new Map();
+  private readonly decisions: Map<string, boolean> = new Map();
+
+  constructor(
+    private readonly next: Pick<SpanProcessor, "onEnd">,
+    options: { rules: TailSamplingRule[]; maxSpansPerTrace?: number },
+  ) {
+    this.rules = options.rules;
+    this.maxSpansPerTrace = options.maxSpansPerTrace ?? DEFAULT_MAX_SPANS_PER_TRACE;
+  }
+
+  onStart(span: Span): void {
+    const traceId = span.spanContext().traceId;
+    if (isSampled(span) || this.decisions.has(traceId)) return;
+    const buffered = this.traces.get(traceId) ?? { openSpans: 0, spans: [] };
+    buffered.openSpans++;
+    this.traces.set(traceId, buffered);
+    if (this.traces.size > MAX_BUFFERED_TRACES) {
+      const [oldestTraceId, oldest] = this.traces.entries().next().value!;
+      this.decide(oldestTraceId, oldest);
+    }
+  }
+
+  onEnd(span: ReadableSpan): void {
+    if (isSampled(span)) {
+      this.next.onEnd(span);
+      return;
+    }
+    const traceId = span.spanContext().traceId;
+    const decision = this.decisions.get(traceId);
+    if (decision !== undefined) {
+      if (decision) this.next.onEnd(asSampled(span));
+      return;
+    }
+    const buffered = this.traces.get(traceId) ?? { openSpans: 1, spans: [] };
+    buffered.openSpans--;
+    buffered.spans.push(span);
+    this.traces.set(traceId, buffered);
+    if (buffered.openSpans <= 0 || buffered.spans.length >= this.maxSpansPerTrace) {
+      this.decide(traceId, buffered);
+    }
+  }
+
+  /**
+   * Decide all buffered traces on the spans that have ended so far.
+   */
+  flushAll(): void {
+    for (const [traceId, buffered] of this.traces) {
+      this.decide(traceId, buffered);
+    }
+  }
+
+  private decide(traceId: string, buffered: BufferedTrace): void {
+    this.traces.delete(traceId);
+    const keep = this.rules.some((rule) => rule({ spans: buffered.spans }));
+    if (keep) {
+      for (const span of buffered.spans) {
+        this.next.onEnd(asSampled(span));
+      }
+    }
+    // Spans that end later, e.g. ones started after the decision or in a
+    // trace decided early, follow the same decision
+    this.decisions.set(traceId, keep);
+    if (this.decisions.size > MAX_REMEMBERED_DECISIONS) {
+      this.decisions.delete(this.decisions.keys().next().value!);
+    }
+  }
+}
+
+/**
+ * Keep traces with a span that ended with an error status or recorded an
+ * exception.
+ */
+export const keepErrors = (): TailSamplingRule => ({ spans }) =>
+  spans.some((span) => span.status.code === SpanStatusCode.ERROR
+    || span.events.some((event) => event.name === "exception"));
+
+/**
+ * Number of tokens used by an LLM span, 0 for other spans.
+ */
+export const tokenCount = (attributes: Attributes): number => {
+  const total = attributes[LaminarAttributes.TOTAL_TOKEN_COUNT];
+  if (typeof total === "number") return total;
+  const input = attributes[LaminarAttributes.INPUT_TOKEN_COUNT];
+  const output = attributes[LaminarAttributes.OUTPUT_TOKEN_COUNT];
+  return (typeof input === "number" ? input : 0) + (typeof output === "number" ? output : 0);
+};
+
+/**
+ * Keep traces whose LLM spans used more than `tokens` tokens in total.
+ */
+export const keepTotalTokensAbove = (tokens: number): TailSamplingRule => ({ spans }) =>
+  spans.reduce((sum, span) => sum + tokenCount(span.attributes), 0) > tokens;
+
+/**
+ * Keep traces with a span tagged with any of `tags`.
+ */
+export const keepTagged = (...tags: string[]): TailSamplingRule => ({ spans }) =>
+  spans.some((span) => {
+    const spanTags = span.attributes[`${ASSOCIATION_PROPERTIES}.tags`];
+    return Array.isArray(spanTags) && spanTags.some((tag) => tags.includes(String(tag)));
+  });
+
+/**
+ * Keep traces with a span that took longer than `milliseconds`.
+ */
+export const keepDurationAbove = (milliseconds: number): TailSamplingRule => ({ spans }) =>
+  spans.some((span) => span.duration[0] * 1e3 + span.duration[1] / 1e6 > milliseconds);
@@ -16,6 +16,7 @@ import {
   SpanKind,
   SpanStatus,
   TimeInput,
+  TraceFlags,
 } from "@opentelemetry/api";
 import { type InstrumentationScope } from "@opentelemetry/core";
 import {
@@ -306,6 +307,7 @@ export class LaminarSpan implements Span, ReadableSpan {
       traceType,
       tracingLevel,
       debug: currentDebugContext(),
+      sampled: (this._span.spanContext().traceFlags & TraceFlags.SAMPLED) !== 0,
     };
   }
 
@@ -0,0 +1,29 @@
+/**
+ * Helpers for testing code traced with Laminar, without a Laminar backend,
+ * e.g.
+ *
+ * ```ts
+ * import { Laminar } from "@lmnr-ai/lmnr";
+ * import { type TraceRecorder } from "@lmnr-ai/lmnr/testing";
+ *
+ * const recorder: TraceRecorder = Laminar.initializeForTesting();
+ *
+ * it("answers with one LLM call", async () => {
+ *   recorder.reset();
+ *   await answer("What is Laminar?");
+ *   const trace = recorder.getTrace();
+ *   assert.equal(trace.findSpans({ spanType: "LLM" }).length, 1);
+ *   assert.deepEqual(trace.expectSpanPath(["answer"]).tags, ["support"]);
+ *   expect(trace.toSnapshot()).toMatchSnapshot();
+ * });
+ * ```
+ */
+export { Laminar } from "../laminar";
+export {
+  RecordedSpan,
+  RecordedTrace,
+  type SpanQuery,
+  type SpanSnapshot,
+  type TokenUsage,
+  TraceRecorder,
+} from "./recorder";
@@ -0,0 +1,381 @@
+import { type Attributes, SpanStatusCode } from "@opentelemetry/api";
+import { type ExportResult, ExportResultCode, hrTimeToMilliseconds } from "@opentelemetry/core";
+import { type ReadableSpan, type SpanExporter } from "@opentelemetry/sdk-trace-base";
+
+import {
+  ASSOCIATION_PROPERTIES,
+  LaminarAttributes,
+  SESSION_ID,
+  SPAN_INPUT,
+  SPAN_OUTPUT,
+  SPAN_PATH,
+  SPAN_TYPE,
+  USER_ID,
+} from "../opentelemetry-lib/tracing/attributes";
+import { getParentSpanId } from "../opentelemetry-lib/tracing/compat";
+import { otelSpanIdToUUID, otelTraceIdToUUID, type StringUUID } from "../utils";
+
+const METADATA_PREFIX = `${ASSOCIATION_PROPERTIES}.metadata.`;
+const TAGS = `${ASSOCIATION_PROPERTIES}.tags`;
+
+/**
+ * Which spans to find, e.g. `{ name: "openai.chat", spanType: "LLM" }`.
+ * Every given field must match.
+ */
+export interface SpanQuery {
+  name?: string | RegExp;
+  spanType?: string;
+  /**
+   * The Laminar span path, i.e. the names of the span and its ancestors.
+   */
+  path?: string[];
+}
+
+export interface TokenUsage {
+  inputTokens?: number;
+  outputTokens?: number;
+  totalTokens?: number;
+  /**
+   * The total cost in dollars, if the instrumentation recorded it.
+   */
+  cost?: number;
+}
+
+/**
+ * A span as serialized by {@link RecordedTrace.toSnapshot}: without ids and
+ * timestamps, so that it is the same on every run.
+ */
+export interface SpanSnapshot {
+  name: string;
+  spanType: string;
+  input?: unknown;
+  output?: unknown;
+  tags?: string[];
+  metadata?: Record<string, unknown>;
+  sessionId?: string;
+  userId?: string;
+  usage?: TokenUsage;
+  error?: string;
+  children?: SpanSnapshot[];
+}
+
+const parseJson = (value: unknown): unknown => {
+  if (typeof value !== "string") return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+};
+
+const numberAttribute = (attributes: Attributes, key: string): number | undefined => {
+  const value = attributes[key];
+  return typeof value === "number" ? value : undefined;
+};
+
+const normalizeTraceId = (traceId: string): string => traceId.replace(/-/g, "").toLowerCase();
+
+/**
+ * A finished span with typed accessors for what Laminar records on it.
+ */
+export class RecordedSpan {
+  constructor(public readonly span: ReadableSpan) { }
+
+  get name(): string {
+    return this.span.name;
+  }
+
+  get spanId(): string {
+    return otelSpanIdToUUID(this.span.spanContext().spanId);
+  }
+
+  get traceId(): StringUUID {
+    return otelTraceIdToUUID(this.span.spanContext().traceId);
+  }
+
+  get parentSpanId(): string | undefined {
+    const parentSpanId = getParentSpanId(this.span);
+    return parentSpanId ? otelSpanIdToUUID(parentSpanId) : undefined;
+  }
+
+  get spanType(): string {
+    return String(this.attributes[SPAN_TYPE] ?? "DEFAULT");
+  }
+
+  get path(): string[] {
+    const path = this.attributes[SPAN_PATH];
+    return Array.isArray(path) ? path.map(String) : [this.name];
+  }
+
+  get attributes(): Attributes {
+    return this.span.attributes;
+  }
+
+  /**
+   * The recorded input, parsed from JSON.
+   */
+  get input(): unknown {
+    return parseJson(this.attributes[SPAN_INPUT]);
+  }
+
+  /**
+   * The recorded output, parsed from JSON.
+   */
+  get output(): unknown {
+    return parseJson(this.attributes[SPAN_OUTPUT]);
+  }
+
+  get tags(): string[] {
+    const tags = this.attributes[TAGS];
+    return Array.isArray(tags) ? tags.map(String) : [];
+  }
+
+  get metadata(): Record<string, unknown> {
+    return Object.fromEntries(
+      Object.entries(this.attributes)
+        .filter(([key]) => key.startsWith(METADATA_PREFIX))
+        .map(([key, value]) => [
+          key.slice(METADATA_PREFIX.length),
+          // Metadata values that are not attribute values are stored as JSON
+          typeof value === "string" && /^[[{]/.test(value) ? parseJson(value) : value,
+        ]),
+    );
+  }
+
+  get sessionId(): string | undefined {
+    const sessionId = this.attributes[SESSION_ID];
+    return sessionId === undefined ? undefined : String(sessionId);
+  }
+
+  get userId(): string | undefined {
+    const userId = this.attributes[USER_ID];
+    return userId === undefined ? undefined : String(userId);
+  }
+
+  get usage(): TokenUsage {
+    const inputTokens = numberAttribute(this.attributes, LaminarAttributes.INPUT_TOKEN_COUNT);
+    const outputTokens = numberAttribute(this.attributes, LaminarAttributes.OUTPUT_TOKEN_COUNT);
+    const totalTokens = numberAttribute(this.attributes, LaminarAttributes.TOTAL_TOKEN_COUNT)
+      ?? (inputTokens !== undefined || outputTokens !== undefined
+        ? (inputTokens ?? 0) + (outputTokens ?? 0)
+        : undefined);
+    const inputCost = numberAttribute(this.attributes, LaminarAttributes.INPUT_COST);
+    const outputCost = numberAttribute(this.attributes, LaminarAttributes.OUTPUT_COST);
+    const cost = numberAttribute(this.attributes, LaminarAttributes.TOTAL_COST)
+      ?? (inputCost !== undefined || outputCost !== undefined
+        ? (inputCost ?? 0) + (outputCost ?? 0)
+        : undefined);
+    return Object.fromEntries(
+      Object.entries({ inputTokens, outputTokens, totalTokens, cost })
+        .filter(([, value]) => value !== undefined),
+    );
+  }
+
+  /**
+   * The message of the error the span failed with, if any.
+   */
+  get error(): string | undefined {
+    const exception = this.span.events.find((event) => event.name === "exception");
+    const message = exception?.attributes?.["exception.message"];
+    if (message !== undefined) return String(message);
+    return this.span.status.code === SpanStatusCode.ERROR
+      ? this.span.status.message ?? "error"
+      : undefined;
+  }
+
+  get durationMs(): number {
+    return hrTimeToMilliseconds(this.span.duration);
+  }
+
+  get startTimeMs(): number {
+    return hrTimeToMilliseconds(this.span.startTime);
+  }
+}
+
+const matches = (span: RecordedSpan, query: SpanQuery): boolean =>
+  (query.name === undefined || (typeof query.name === "string"
+    ? span.name === query.name
+    : query.name.test(span.name)))
+  && (query.spanType === undefined || span.spanType === query.spanType)
+  && (query.path === undefined || (span.path.length === query.path.length
+    && span.path.every((name, i) => name === query.path![i])));
+
+const expectSpanPath = (spans: RecordedSpan[], path: string[]): RecordedSpan => {
+  const span = spans.find((candidate) => matches(candidate, { path }));
+  if (!span) {
+    const recorded = spans.map((candidate) => `  ${candidate.path.join(" > ")}`);
+    throw new Error(
+      `Expected a span with path "${path.join(" > ")}". Recorded span paths:\n`
+      + (recorded.length > 0 ? recorded.join("\n") : "  (none)"),
+    );
+  }
+  return span;
+};
+
+const toSnapshot = (span: RecordedSpan, children: Map<string, RecordedSpan[]>): SpanSnapshot => {
+  const snapshot: SpanSnapshot = {
+    name: span.name,
+    spanType: span.spanType,
+    input: span.input,
+    output: span.output,
+    tags: span.tags.length > 0 ? span.tags : undefined,
+    metadata: Object.keys(span.metadata).length > 0 ? span.metadata : undefined,
+    sessionId: span.sessionId,
+    userId: span.userId,
+    usage: Object.keys(span.usage).length > 0 ? span.usage : undefined,
+    error: span.error,
+  };
+  const spanChildren = children.get(span.spanId) ?? [];
+  if (spanChildren.length > 0) {
+    snapshot.children = spanChildren.map((child) => toSnapshot(child, children));
+  }
+  return Object.fromEntries(
+    Object.entries(snapshot).filter(([, value]) => value !== undefined),
+  ) as SpanSnapshot;
+};
+
+/**
+ * The recorded spans of one trace, in the order they ended.
+ */
+export class RecordedTrace {
+  constructor(public readonly spans: RecordedSpan[]) { }
+
+  get traceId(): StringUUID {
+    return this.spans[0].traceId;
+  }
+
+  /**
+   * The spans whose parent was not recorded, usually the single root span.
+   */
+  get rootSpans(): RecordedSpan[] {
+    const spanIds = new Set(this.spans.map((span) => span.spanId));
+    return this.spans.filter((span) => !span.parentSpanId || !spanIds.has(span.parentSpanId));
+  }
+
+  findSpan(query: SpanQuery): RecordedSpan | undefined {
+    return this.spans.find((span) => matches(span, query));
+  }
+
+  findSpans(query: SpanQuery): RecordedSpan[] {
+    return this.spans.filter((span) => matches(span, query));
+  }
+
+  /**
+   * Returns the span with exactly this Laminar span path, e.g.
+   * `["agent", "openai.chat"]`, and throws if there is none.
+   */
+  expectSpanPath(path: string[]): RecordedSpan {
+    return expectSpanPath(this.spans, path);
+  }
+
+  /**
+   * The trace as a tree of spans ordered by start time, without ids and
+   * timestamps, for snapshot tests.
+   */
+  toSnapshot(): SpanSnapshot[] {
+    const byStartTime = (a: RecordedSpan, b: RecordedSpan) => a.startTimeMs - b.startTimeMs;
+    const children: Map<string, RecordedSpan[]> = new Map();
+    for (const span of [...this.spans].sort(byStartTime)) {
+      if (span.parentSpanId) {
+        children.set(span.parentSpanId, [...(children.get(span.parentSpanId) ?? []), span]);
+      }
+    }
+    return this.rootSpans.sort(byStartTime).map((span) => toSnapshot(span, children));
+  }
+}
+
+/**
+ * Span exporter that keeps every finished span in memory, for asserting on
+ * traces in tests. Returned by `Laminar.initializeForTesting()`.
+ *
+ * ```ts
+ * const recorder = Laminar.initializeForTesting();
+ * await myAgent("question");
+ * const llm = recorder.getTrace().expectSpanPath(["myAgent", "openai.chat"]);
+ * assert.equal(llm.usage.totalTokens, 42);
+ * ```
+ */
+export class TraceRecorder implements SpanExporter {
+  private spans: RecordedSpan[] = [];
+
+  export(spans: ReadableSpan[], resultCallback: (result: ExportResult) => void): void {
+    this.spans.push(...spans.map((span) => new RecordedSpan(span)));
+    resultCallback({ code: ExportResultCode.SUCCESS });
+  }
+
+  shutdown(): Promise<void> {
+    return Promise.resolve();
+  }
+
+  forceFlush(): Promise<void> {
+    return Promise.resolve();
+  }
+
+  /**
+   * Forgets all recorded spans, e.g. between tests.
+   */
+  reset(): void {
+    this.spans = [];
+  }
+
+  /**
+   * All recorded spans, in the order they ended.
+   */
+  getSpans(): RecordedSpan[] {
+    return [...this.spans];
+  }
+
+  /**
+   * All recorded traces, in the order their first span ended.
+   */
+  getTraces(): RecordedTrace[] {
+    const traces: Map<string, RecordedSpan[]> = new Map();
+    for (const span of this.spans) {
+      traces.set(span.traceId, [...(traces.get(span.traceId) ?? []), span]);
+    }
+    return [...traces.values()].map((spans) => new RecordedTrace(spans));
+  }
+
+  /**
+   * The trace with the given id, in the UUID or the OpenTelemetry hex format.
+   * Without an id, the trace of the span that ended last. Throws if there is
+   * no such trace.
+   */
+  getTrace(traceId?: string): RecordedTrace {
+    const id = traceId !== undefined
+      ? normalizeTraceId(traceId)
+      : this.spans.length > 0
+        ? normalizeTraceId(this.spans[this.spans.length - 1].traceId)
+        : undefined;
+    const spans = this.spans.filter((span) => normalizeTraceId(span.traceId) === id);
+    if (spans.length === 0) {
+      throw new Error(traceId !== undefined
+        ? `No spans were recorded for trace ${traceId}`
+        : "No spans were recorded");
+    }
+    return new RecordedTrace(spans);
+  }
+
+  findSpan(query: SpanQuery): RecordedSpan | undefined {
+    return this.spans.find((span) => matches(span, query));
+  }
+
+  findSpans(query: SpanQuery): RecordedSpan[] {
+    return this.spans.filter((span) => matches(span, query));
+  }
+
+  /**
+   * Returns the span with exactly this Laminar span path, in any trace, and
+   * throws if there is none.
+   */
+  expectSpanPath(path: string[]): RecordedSpan {
+    return expectSpanPath(this.spans, path);
+  }
+
+  /**
+   * All recorded traces as snapshots, see {@link RecordedTrace.toSnapshot}.
+   */
+  toSnapshot(): SpanSnapshot[][] {
+    return this.getTraces().map((trace) => trace.toSnapshot());
+  }
+}
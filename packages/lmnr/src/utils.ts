@@ -213,7 +213,8 @@ const recordToOtelSpanContext = (record: Record<string, unknown>): SpanContext =
       spanId: uuidToOtelSpanId(record?.spanId as string ?? record?.['span_id'] as string),
       traceId: uuidToOtelTraceId(record?.traceId as string ?? record?.['trace_id'] as string),
       isRemote: record?.isRemote ?? record?.['is_remote'] ?? false,
-      traceFlags: record?.traceFlags ?? TraceFlags.SAMPLED,
+      traceFlags: record?.traceFlags
+        ?? (record?.sampled === false ? TraceFlags.NONE : TraceFlags.SAMPLED),
     } as SpanContext;
   } else {
     throw new Error(`Invalid span context ${JSON.stringify(record)}. ` +
@@ -262,6 +263,7 @@ export const deserializeLaminarSpanContext = (
   const traceType = data.traceType ?? data.trace_type;
   const tracingLevel = data.tracingLevel ?? data.tracing_level;
   const debug = data.debug;
+  const sampled = data.sampled;
 
   if (typeof traceId !== 'string' || typeof spanId !== 'string') {
     throw new Error('Invalid LaminarSpanContext: traceId and spanId must be strings');
@@ -284,6 +286,7 @@ export const deserializeLaminarSpanContext = (
     traceType: traceType as TraceType | undefined,
     tracingLevel: tracingLevel as TracingLevel | undefined,
     debug: isRecord(debug) ? deserializeDebugContext(debug) : undefined,
+    sampled: typeof sampled === 'boolean' ? sampled : undefined,
   };
 };
 
@@ -328,6 +331,18 @@ export const getDirname = () => {
   return process.cwd();
 };
 
+// mulberry32, a small seedable PRNG. Math.random can't be seeded.
+export const seededRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
 export const slicePayload = <T>(value: T, length: number) => {
   if (value === null || value === undefined) {
     return value;
@@ -440,7 +455,8 @@ export const validateTracingConfig = (apiKey?: string): void => {
     throw new Error(
       'Please initialize the Laminar object with your project API key ' +
       'or set the LMNR_PROJECT_API_KEY environment variable, ' +
-      'or configure OTEL environment variables (OTEL_EXPORTER_OTLP_TRACES_ENDPOINT, etc.)',
+      'or configure OTEL environment variables (OTEL_EXPORTER_OTLP_TRACES_ENDPOINT, etc.), ' +
+      'or set LMNR_EXPORTER=console|file:<path> to export spans locally',
     );
   }
 };
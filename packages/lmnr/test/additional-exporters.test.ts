@@ -0,0 +1,74 @@
+import assert from "node:assert/strict";
+import { after, describe, it } from "node:test";
+
+import { context, trace } from "@opentelemetry/api";
+import { InMemorySpanExporter, type SpanExporter } from "@opentelemetry/sdk-trace-base";
+
+import { type AdditionalExporter, keepTagged, Laminar, observe } from "../src/index";
+import { _resetConfiguration, initializeTracing } from "../src/opentelemetry-lib/configuration";
+
+void describe("additional exporters", () => {
+  const laminarExporter = new InMemorySpanExporter();
+  const externalExporter = new InMemorySpanExporter();
+  const brokenExporter: SpanExporter = {
+    export: () => {
+      throw new Error("collector is down");
+    },
+    shutdown: async () => {},
+  };
+
+  const initialize = (
+    additionalExporters: AdditionalExporter[],
+    options: Parameters<typeof initializeTracing>[0] = {},
+  ) => {
+    laminarExporter.reset();
+    externalExporter.reset();
+    _resetConfiguration();
+    initializeTracing({
+      exporter: laminarExporter,
+      disableBatch: true,
+      additionalExporters,
+      ...options,
+    });
+    Object.defineProperty(Laminar, "isInitialized", { value: true, writable: true });
+  };
+
+  void after(() => {
+    trace.disable();
+    context.disable();
+  });
+
+  void it("exports to every destination and drops attributes per destination", () => {
+    initialize([
+      brokenExporter,
+      { exporter: externalExporter, disableBatch: true, dropAttributes: ["lmnr.span.input"] },
+    ]);
+    observe({ name: "outer" }, (question: string) => {
+      observe({ name: "inner" }, () => question.length);
+    }, "secret question");
+
+    const laminarSpans = laminarExporter.getFinishedSpans();
+    const externalSpans = externalExporter.getFinishedSpans();
+    assert.deepEqual(laminarSpans.map((span) => span.name), ["inner", "outer"]);
+    assert.deepEqual(externalSpans.map((span) => span.name), ["inner", "outer"]);
+
+    const [laminarOuter, externalOuter] = [laminarSpans[1], externalSpans[1]];
+    assert.equal(laminarOuter.attributes["lmnr.span.input"], '["secret question"]');
+    assert.equal(externalOuter.attributes["lmnr.span.input"], undefined);
+    assert.deepEqual(externalOuter.attributes["lmnr.span.path"], ["outer"]);
+    assert.deepEqual(externalSpans[0].attributes["lmnr.span.path"], ["outer", "inner"]);
+    assert.deepEqual(externalOuter.spanContext(), laminarOuter.spanContext());
+  });
+
+  void it("follows sampling decisions", () => {
+    initialize(
+      [{ exporter: externalExporter, disableBatch: true }],
+      { sampling: { ratio: 0, rules: [keepTagged("keep")] } },
+    );
+    observe({ name: "dropped" }, () => "ok");
+    observe({ name: "kept", tags: ["keep"] }, () => "ok");
+
+    assert.deepEqual(laminarExporter.getFinishedSpans().map((span) => span.name), ["kept"]);
+    assert.deepEqual(externalExporter.getFinishedSpans().map((span) => span.name), ["kept"]);
+  });
+});
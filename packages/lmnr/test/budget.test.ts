@@ -0,0 +1,136 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+
+import { context, trace } from "@opentelemetry/api";
+import { InMemorySpanExporter } from "@opentelemetry/sdk-trace-base";
+
+import {
+  BudgetExceededError,
+  Laminar,
+  LaminarAttributes,
+  observe,
+  observeDecorator,
+  observeExperimentalDecorator,
+} from "../src/index";
+import { _resetConfiguration, initializeTracing } from "../src/opentelemetry-lib/configuration";
+import { findModelPrice } from "../src/opentelemetry-lib/tracing/pricing";
+
+const llmCall = (usage: Record<string, number | string> = {}) =>
+  observe({ name: "llm", spanType: "LLM" }, () => {
+    Laminar.setSpanAttributes(usage);
+    return "response";
+  });
+
+void describe("budgets", () => {
+  const exporter = new InMemorySpanExporter();
+
+  void before(() => {
+    _resetConfiguration();
+    initializeTracing({ exporter, disableBatch: true });
+    Object.defineProperty(Laminar, "isInitialized", { value: true, writable: true });
+  });
+
+  void after(() => {
+    trace.disable();
+    context.disable();
+  });
+
+  void it("stops LLM calls over the limit of calls", () => {
+    let calls = 0;
+    assert.throws(
+      () => observe({ name: "agent", budget: { maxLlmCalls: 2 } }, () => {
+        for (let i = 0; i < 5; i++) {
+          llmCall();
+          calls++;
+        }
+      }),
+      (error: unknown) => {
+        assert.ok(error instanceof BudgetExceededError);
+        assert.equal(error.limit, "maxLlmCalls");
+        assert.deepEqual(error.usage, { tokens: 0, costUsd: 0, llmCalls: 2 });
+        return true;
+      },
+    );
+    assert.equal(calls, 2);
+
+    // Calls outside of the budgeted function are not limited
+    llmCall();
+    llmCall();
+    llmCall();
+  });
+
+  void it("stops LLM calls over the budget of decorated methods", () => {
+    class Agent {
+      @observeExperimentalDecorator({ budget: { maxLlmCalls: 1 } })
+      run() {
+        llmCall();
+        llmCall();
+      }
+    }
+    // Standard decorators are not compiled with `experimentalDecorators`, so
+    // apply it by hand
+    const run = observeDecorator({ budget: { maxLlmCalls: 1 } })(
+      function (this: unknown) {
+        llmCall();
+        llmCall();
+      },
+      { kind: "method", name: "run" } as ClassMethodDecoratorContext<unknown, () => void>,
+    );
+
+    assert.throws(() => new Agent().run(), BudgetExceededError);
+    assert.throws(() => run.call(undefined), BudgetExceededError);
+  });
+
+  void it("aggregates tokens and cost of the subtree", () => {
+    const usage = {
+      [LaminarAttributes.REQUEST_MODEL]: "gpt-4o-mini-2024-07-18",
+      [LaminarAttributes.INPUT_TOKEN_COUNT]: 1_000_000,
+      [LaminarAttributes.OUTPUT_TOKEN_COUNT]: 500_000,
+    };
+    const [outer, inner] = Laminar.withBudget({}, (outerBudget) => {
+      llmCall({ [LaminarAttributes.INPUT_TOKEN_COUNT]: 10, [LaminarAttributes.TOTAL_COST]: 0.5 });
+      const innerBudget = Laminar.withBudget({}, (budget) => {
+        observe({ name: "tool" }, () => llmCall(usage));
+        return budget;
+      });
+      return [outerBudget, innerBudget];
+    });
+
+    assert.equal(inner.usage.tokens, 1_500_000);
+    assert.equal(inner.usage.llmCalls, 1);
+    // $0.15 per million input tokens and $0.60 per million output tokens
+    assert.ok(Math.abs(inner.usage.costUsd - 0.45) < 1e-9);
+    assert.equal(outer.usage.tokens, 1_500_010);
+    assert.equal(outer.usage.llmCalls, 2);
+    assert.ok(Math.abs(outer.usage.costUsd - 0.95) < 1e-9);
+  });
+
+  void it("throws on the next LLM call after the token limit", () => {
+    const tokens = { [LaminarAttributes.TOTAL_TOKEN_COUNT]: 600 };
+    Laminar.withBudget({ maxTokens: 1000 }, () => {
+      llmCall(tokens);
+      llmCall(tokens);
+      assert.throws(() => llmCall(tokens), /Budget exceeded: 1200 tokens used, the limit is 1000/);
+    });
+  });
+
+  void it("calls onExceeded once instead of throwing", () => {
+    const exceeded: BudgetExceededError[] = [];
+    Laminar.withBudget({ maxCostUsd: 1, onExceeded: (error) => exceeded.push(error) }, () => {
+      for (let i = 0; i < 4; i++) {
+        llmCall({ [LaminarAttributes.TOTAL_COST]: 0.4 });
+      }
+    });
+    assert.equal(exceeded.length, 1);
+    assert.equal(exceeded[0].limit, "maxCostUsd");
+    assert.equal(exceeded[0].usage.llmCalls, 3);
+  });
+
+  void it("matches dated and provider-prefixed model names", () => {
+    assert.equal(findModelPrice("gpt-4o-2024-08-06")?.input, 2.5);
+    assert.equal(findModelPrice("openai/gpt-4o-mini")?.input, 0.15);
+    assert.equal(findModelPrice("us.anthropic.claude-3-5-haiku-20241022-v1:0")?.output, 4);
+    assert.equal(findModelPrice("models/gemini-2.5-flash-lite")?.input, 0.1);
+    assert.equal(findModelPrice("my-fine-tuned-model"), undefined);
+  });
+});
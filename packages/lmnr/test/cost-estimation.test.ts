@@ -0,0 +1,131 @@
+import assert from "node:assert/strict";
+import { after, afterEach, before, describe, it } from "node:test";
+
+import { context, trace } from "@opentelemetry/api";
+import { InMemorySpanExporter } from "@opentelemetry/sdk-trace-base";
+
+import { Laminar, LaminarAttributes, observe } from "../src/index";
+import { _resetConfiguration, initializeTracing } from "../src/opentelemetry-lib/configuration";
+import {
+  CACHE_READ_INPUT_COST,
+  REASONING_COST,
+  TRACE_INPUT_COST,
+  TRACE_OUTPUT_COST,
+  TRACE_TOTAL_COST,
+} from "../src/opentelemetry-lib/tracing/attributes";
+import { estimateCost } from "../src/opentelemetry-lib/tracing/pricing";
+
+const llmCall = (usage: Record<string, number | string>) =>
+  observe({ name: "llm", spanType: "LLM" }, () => {
+    Laminar.setSpanAttributes(usage);
+  });
+
+const assertClose = (actual: unknown, expected: number) => {
+  assert.equal(typeof actual, "number");
+  assert.ok(Math.abs((actual as number) - expected) < 1e-9, `${String(actual)} != ${expected}`);
+};
+
+void describe("cost estimation", () => {
+  const exporter = new InMemorySpanExporter();
+
+  void before(() => {
+    _resetConfiguration();
+    initializeTracing({
+      exporter,
+      disableBatch: true,
+      costEstimation: { prices: { "my-model": { input: 2, output: 4 } } },
+    });
+    Object.defineProperty(Laminar, "isInitialized", { value: true, writable: true });
+  });
+
+  void afterEach(() => {
+    exporter.reset();
+  });
+
+  void after(() => {
+    trace.disable();
+    context.disable();
+  });
+
+  void it("prices cached, uncached, visible and reasoning tokens", () => {
+    const estimate = estimateCost({
+      [LaminarAttributes.RESPONSE_MODEL]: "us.anthropic.claude-sonnet-4-20250514-v1:0",
+      [LaminarAttributes.INPUT_TOKEN_COUNT]: 1_000_000,
+      [LaminarAttributes.OUTPUT_TOKEN_COUNT]: 1_000_000,
+      "gen_ai.usage.cache_read_input_tokens": 500_000,
+      "gen_ai.usage.cache_creation_input_tokens": 100_000,
+      "gen_ai.usage.reasoning_tokens": 250_000,
+    })!;
+    assertClose(estimate.cacheRead, 0.15);
+    assertClose(estimate.cacheWrite, 0.375);
+    assertClose(estimate.input, 1.2 + 0.15 + 0.375);
+    assertClose(estimate.reasoning, 3.75);
+    assertClose(estimate.output, 15);
+    assertClose(estimate.total, 1.725 + 15);
+
+    assert.equal(
+      estimateCost({
+        [LaminarAttributes.REQUEST_MODEL]: "unknown-model",
+        [LaminarAttributes.INPUT_TOKEN_COUNT]: 1,
+      }),
+      undefined,
+    );
+    assertClose(estimateCost({
+      [LaminarAttributes.REQUEST_MODEL]: "gpt-4o",
+      "gen_ai.usage.prompt_tokens": 1_000_000,
+      "gen_ai.usage.completion_tokens": 100_000,
+    })!.total, 3.5);
+  });
+
+  void it("sets the cost of LLM spans and the trace total on the root span", () => {
+    observe({ name: "agent" }, () => {
+      llmCall({
+        [LaminarAttributes.REQUEST_MODEL]: "gpt-4o-mini",
+        [LaminarAttributes.PROVIDER]: "openai",
+        [LaminarAttributes.INPUT_TOKEN_COUNT]: 1_000_000,
+        [LaminarAttributes.OUTPUT_TOKEN_COUNT]: 1_000_000,
+        "gen_ai.usage.cache_read_input_tokens": 200_000,
+        "gen_ai.usage.reasoning_tokens": 100_000,
+      });
+      llmCall({
+        [LaminarAttributes.RESPONSE_MODEL]: "my-model-v2",
+        [LaminarAttributes.INPUT_TOKEN_COUNT]: 500_000,
+        [LaminarAttributes.OUTPUT_TOKEN_COUNT]: 250_000,
+      });
+      // Costs recorded by the instrumentation are kept
+      llmCall({
+        [LaminarAttributes.REQUEST_MODEL]: "gpt-4o",
+        [LaminarAttributes.INPUT_TOKEN_COUNT]: 10,
+        [LaminarAttributes.TOTAL_COST]: 0.5,
+      });
+      // Spans that are not LLM calls are left alone
+      observe({ name: "tool" }, () => {
+        Laminar.setSpanAttributes({
+          [LaminarAttributes.REQUEST_MODEL]: "gpt-4o",
+          [LaminarAttributes.INPUT_TOKEN_COUNT]: 1_000_000,
+        });
+      });
+    });
+
+    const spans = exporter.getFinishedSpans();
+    const [mini, custom, recorded] = spans.filter((span) => span.name === "llm");
+    assertClose(mini.attributes[LaminarAttributes.INPUT_COST], 0.8 * 0.15 + 0.2 * 0.075);
+    assertClose(mini.attributes[CACHE_READ_INPUT_COST], 0.2 * 0.075);
+    assertClose(mini.attributes[LaminarAttributes.OUTPUT_COST], 0.6);
+    assertClose(mini.attributes[REASONING_COST], 0.06);
+    assertClose(mini.attributes[LaminarAttributes.TOTAL_COST], 0.135 + 0.6);
+    assertClose(custom.attributes[LaminarAttributes.TOTAL_COST], 1 + 1);
+    assert.equal(recorded.attributes[LaminarAttributes.TOTAL_COST], 0.5);
+    assert.equal(recorded.attributes[LaminarAttributes.INPUT_COST], undefined);
+
+    const tool = spans.find((span) => span.name === "tool")!;
+    assert.equal(tool.attributes[LaminarAttributes.TOTAL_COST], undefined);
+    assert.equal(tool.attributes[TRACE_TOTAL_COST], undefined);
+
+    const agent = spans.find((span) => span.name === "agent")!;
+    assertClose(agent.attributes[TRACE_INPUT_COST], 0.135 + 1);
+    assertClose(agent.attributes[TRACE_OUTPUT_COST], 0.6 + 1);
+    assertClose(agent.attributes[TRACE_TOTAL_COST], 0.735 + 2 + 0.5);
+    assert.equal(agent.attributes[LaminarAttributes.TOTAL_COST], undefined);
+  });
+});
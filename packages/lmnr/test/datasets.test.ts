@@ -0,0 +1,113 @@
+import assert from "node:assert";
+import { afterEach, describe, it } from "node:test";
+
+import nock from "nock";
+
+import { ArrayDataset, Dataset, LaminarClient, LaminarDataset } from "../src";
+import { type Datapoint } from "../src/evaluations";
+
+const datapoints = (count: number): Datapoint<number, number>[] =>
+  Array.from({ length: count }, (_, i) => ({
+    data: i,
+    target: i * 2,
+    metadata: { category: i % 4 === 0 ? "hard" : "easy" },
+  }));
+
+const values = async (dataset: Dataset<number, number>): Promise<number[]> =>
+  (await dataset.slice(0, await dataset.size())).map((datapoint) => datapoint.data);
+
+void describe("dataset views", () => {
+  const dataset = new ArrayDataset(datapoints(20));
+
+  void it("filters, takes and skips", async () => {
+    const even = dataset.filter((datapoint) => datapoint.data % 2 === 0);
+    assert.deepStrictEqual(await values(even), [0, 2, 4, 6, 8, 10, 12, 14, 16, 18]);
+    assert.deepStrictEqual(await values(even.skip(2).take(3)), [4, 6, 8]);
+    assert.deepStrictEqual(await values(dataset.take(50)), await values(dataset));
+    assert.deepStrictEqual(await values(dataset.skip(50)), []);
+    await assert.rejects(async () => even.get(10), RangeError);
+  });
+
+  void it("samples and shuffles deterministically", async () => {
+    const sample = await values(dataset.sample(5, { seed: 7 }));
+    assert.strictEqual(sample.length, 5);
+    assert.deepStrictEqual(sample, [...sample].sort((a, b) => a - b));
+    assert.deepStrictEqual(await values(dataset.sample(5, { seed: 7 })), sample);
+    assert.notDeepStrictEqual(await values(dataset.sample(5, { seed: 8 })), sample);
+    // A fraction of the dataset, rounded up
+    assert.strictEqual(await dataset.sample(0.12).size(), 3);
+
+    const shuffled = await values(dataset.shuffle(3));
+    assert.notDeepStrictEqual(shuffled, await values(dataset));
+    assert.deepStrictEqual([...shuffled].sort((a, b) => a - b), await values(dataset));
+    assert.deepStrictEqual(await values(dataset.shuffle(3)), shuffled);
+  });
+
+  void it("stratifies by a metadata key", async () => {
+    // 5 hard and 15 easy datapoints
+    const stratified = dataset.stratify("category", 8, { seed: 1 });
+    const sample = await stratified.slice(0, await stratified.size());
+    assert.strictEqual(sample.length, 8);
+    assert.strictEqual(
+      sample.filter((datapoint) => datapoint.metadata?.category === "hard").length,
+      2,
+    );
+    assert.deepStrictEqual(
+      await values(dataset.stratify("category", 0.5, { seed: 1 })),
+      await values(dataset.stratify("category", 0.5, { seed: 1 })),
+    );
+  });
+
+  void it("concatenates datasets", async () => {
+    const concatenated = dataset.take(2).concat(new ArrayDataset(datapoints(3)), dataset.skip(19));
+    assert.deepStrictEqual(await values(concatenated), [0, 1, 0, 1, 2, 19]);
+  });
+});
+
+void describe("LaminarDataset views", () => {
+  const datasetId = "00000000-0000-0000-0000-000000000001";
+
+  void afterEach(() => {
+    nock.cleanAll();
+  });
+
+  void it("fetches the pages that a view reads", async () => {
+    for (const offset of [0, 2, 4]) {
+      nock("https://api.lmnr.ai")
+        .get("/v1/datasets/datapoints")
+        .query({ datasetId, offset: String(offset), limit: "2" })
+        .reply(200, {
+          items: datapoints(6).slice(offset, offset + 2),
+          totalCount: 6,
+        });
+    }
+    const dataset = new LaminarDataset<number, number>(undefined, {
+      id: datasetId,
+      fetchSize: 2,
+    });
+    dataset.setClient(new LaminarClient({
+      baseUrl: "https://api.lmnr.ai",
+      projectApiKey: "test-api-key",
+    }));
+
+    const view = dataset.skip(3).filter((datapoint) => datapoint.data !== 4);
+    assert.deepStrictEqual(await values(view), [3, 5]);
+    assert.strictEqual((await view.get(0)).datasetId, datasetId);
+    assert.ok(nock.isDone());
+  });
+
+  void it("pulls the pinned version", async () => {
+    nock("https://api.lmnr.ai")
+      .get("/v1/datasets/datapoints")
+      .query({ name: "qa", offset: "0", limit: "25", version: "v2" })
+      .reply(200, { items: datapoints(1), totalCount: 1 });
+    const dataset = new LaminarDataset<number, number>("qa", { version: "v2" });
+    dataset.setClient(new LaminarClient({
+      baseUrl: "https://api.lmnr.ai",
+      projectApiKey: "test-api-key",
+    }));
+
+    assert.deepStrictEqual(await values(dataset), [0]);
+    assert.ok(nock.isDone());
+  });
+});
@@ -0,0 +1,258 @@
+import * as assert from 'node:assert';
+import { mkdtempSync, readFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, afterEach, before, beforeEach, describe, it } from 'node:test';
+
+import { InMemorySpanExporter } from '@opentelemetry/sdk-trace-base';
+import OpenAI from 'openai';
+
+import {
+  Cassette,
+  CassetteMismatchError,
+  getCassette,
+  resetCassette,
+} from '../../src/debug/cassette';
+import { diffLines } from '../../src/debug/diff';
+import { debugInputHash } from '../../src/debug/hash';
+import {
+  _resetConfiguration,
+  initializeTracing,
+} from '../../src/opentelemetry-lib/configuration';
+import { LaminarLanguageModelV3 } from '../../src/opentelemetry-lib/instrumentation/aisdk/v3';
+
+const CASSETTE_ENV_KEYS = ['LMNR_CASSETTE', 'LMNR_CASSETTE_PATH'];
+
+const useCassette = (mode: string, path: string) => {
+  resetCassette();
+  process.env.LMNR_CASSETTE = mode;
+  process.env.LMNR_CASSETTE_PATH = path;
+};
+
+const tempCassettePath = () =>
+  join(mkdtempSync(join(tmpdir(), 'lmnr-cassette-')), 'cassette.jsonl');
+
+const userMessage = (text: string) => [{ role: 'user', content: text }];
+
+void describe('cassette', () => {
+  afterEach(() => {
+    resetCassette();
+    CASSETTE_ENV_KEYS.forEach((key) => delete process.env[key]);
+  });
+
+  void it('is off unless LMNR_CASSETTE is a known mode', () => {
+    assert.strictEqual(getCassette(), null);
+    useCassette('rewind', tempCassettePath());
+    assert.strictEqual(getCassette(), null);
+    useCassette('Replay', tempCassettePath());
+    assert.strictEqual(getCassette()?.mode, 'replay');
+  });
+
+  void it('replays recordings of the same input in order, then the last one', () => {
+    const path = tempCassettePath();
+    const messages = userMessage('hi');
+    const hash = debugInputHash(messages);
+    const recorder = new Cassette('record', path);
+    assert.strictEqual(recorder.next(hash, messages), null);
+    recorder.record({ input_hash: hash, messages, output: '"first"' });
+    recorder.record({ input_hash: hash, messages, output: '"second"' });
+
+    const player = new Cassette('replay', path);
+    assert.deepStrictEqual(
+      [1, 2, 3].map(() => player.next(hash, messages)?.output),
+      ['"first"', '"second"', '"second"'],
+    );
+
+    // A new recording starts a new file
+    new Cassette('record', path).record({ input_hash: hash, messages, output: '"third"' });
+    assert.strictEqual(readFileSync(path, 'utf-8').trim().split('\n').length, 1);
+  });
+
+  void it('runs unrecorded inputs live in auto mode', () => {
+    const path = tempCassettePath();
+    const cassette = new Cassette('auto', path);
+    const messages = userMessage('hi');
+    const hash = debugInputHash(messages);
+    assert.strictEqual(cassette.next(hash, messages), null);
+    cassette.record({ input_hash: hash, messages, output: '"hello"' });
+    assert.strictEqual(cassette.next(hash, messages)?.output, '"hello"');
+    assert.strictEqual(new Cassette('auto', path).next(hash, messages)?.output, '"hello"');
+  });
+
+  void it('throws a mismatch with a diff against the next recorded call', () => {
+    const path = tempCassettePath();
+    const recorded = [
+      { role: 'user', content: 'Weather in Paris?' },
+      { role: 'assistant', content: 'Sunny.' },
+    ];
+    new Cassette('record', path).record({
+      input_hash: debugInputHash(recorded),
+      messages: recorded,
+    });
+
+    const actual = [
+      { role: 'user', content: 'Weather in Rome?' },
+      { role: 'assistant', content: 'Sunny.' },
+    ];
+    const player = new Cassette('replay', path);
+    assert.throws(
+      () => player.next(debugInputHash(actual), actual),
+      (error: unknown) => {
+        assert.ok(error instanceof CassetteMismatchError);
+        assert.strictEqual(error.inputHash, debugInputHash(actual));
+        assert.ok(error.diff.includes('-     "content": "Weather in Paris?",'));
+        assert.ok(error.diff.includes('+     "content": "Weather in Rome?",'));
+        assert.ok(error.message.includes(error.diff));
+        return true;
+      },
+    );
+  });
+
+  void it('diffs lines with context around changes', () => {
+    const expected = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h', 'i'];
+    const actual = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h', 'x'];
+    assert.strictEqual(
+      diffLines(expected, actual),
+      ['  ...', '  f', '  g', '  h', '+ x', '- i'].join('\n'),
+    );
+    assert.strictEqual(diffLines(['a'], ['a']), '');
+  });
+});
+
+void describe('cassette with instrumented LLM clients', () => {
+  const exporter = new InMemorySpanExporter();
+  let liveCalls = 0;
+
+  // eslint-disable-next-line @typescript-eslint/require-await
+  const liveFetch = async () => {
+    liveCalls++;
+    return new Response(JSON.stringify({
+      id: 'chatcmpl-live',
+      object: 'chat.completion',
+      created: 0,
+      model: 'gpt-4o-mini',
+      choices: [{
+        index: 0,
+        message: { role: 'assistant', content: 'Sunny.' },
+        finish_reason: 'stop',
+      }],
+    }), { headers: { 'content-type': 'application/json' } });
+  };
+  const openai = new OpenAI({ apiKey: 'dummy-key', fetch: liveFetch, maxRetries: 0 });
+
+  before(() => {
+    _resetConfiguration();
+    initializeTracing({ exporter, disableBatch: true, instrumentModules: { openAI: OpenAI } });
+  });
+
+  beforeEach(() => {
+    liveCalls = 0;
+  });
+
+  afterEach(() => {
+    exporter.reset();
+    resetCassette();
+    CASSETTE_ENV_KEYS.forEach((key) => delete process.env[key]);
+  });
+
+  after(() => {
+    _resetConfiguration();
+  });
+
+  void it('records OpenAI calls and replays them without the API', async () => {
+    const path = tempCassettePath();
+    const messages: OpenAI.ChatCompletionMessageParam[] = [
+      { role: 'user', content: 'Weather in Paris?' },
+    ];
+
+    useCassette('record', path);
+    const live = await openai.chat.completions.create({ model: 'gpt-4o-mini', messages });
+    await getCassette()?.flush();
+    assert.strictEqual(liveCalls, 1);
+
+    useCassette('replay', path);
+    exporter.reset();
+    const replayed = await openai.chat.completions.create({ model: 'gpt-4o-mini', messages });
+    assert.strictEqual(liveCalls, 1);
+    assert.deepStrictEqual(replayed, live);
+    const [span] = exporter.getFinishedSpans();
+    assert.strictEqual(span.attributes['lmnr.span.type'], 'CACHED');
+
+    await assert.rejects(
+      openai.chat.completions.create({
+        model: 'gpt-4o-mini',
+        messages: [{ role: 'user', content: 'Weather in Rome?' }],
+      }),
+      (error: Error) => {
+        assert.ok(error instanceof OpenAI.BadRequestError);
+        assert.ok(error.message.includes('No recording in cassette'));
+        assert.ok(error.message.includes('+     "content": "Weather in Rome?"'));
+        return true;
+      },
+    );
+    assert.strictEqual(liveCalls, 1);
+  });
+
+  void it('records AI SDK streams and replays them', async () => {
+    const path = tempCassettePath();
+    const prompt = [{ role: 'user', content: [{ type: 'text', text: 'Weather in Paris?' }] }];
+    let liveStreams = 0;
+    const model = new LaminarLanguageModelV3({
+      specificationVersion: 'v3',
+      provider: 'test',
+      modelId: 'test',
+      supportedUrls: {},
+      doGenerate: () => Promise.reject(new Error('not used')),
+      doStream: () => {
+        liveStreams++;
+        return Promise.resolve({
+          stream: new ReadableStream({
+            start(controller) {
+              controller.enqueue({ type: 'stream-start', warnings: [] });
+              controller.enqueue({ type: 'text-start', id: 't' });
+              controller.enqueue({ type: 'text-delta', id: 't', delta: 'Sun' });
+              controller.enqueue({ type: 'text-delta', id: 't', delta: 'ny.' });
+              controller.enqueue({ type: 'text-end', id: 't' });
+              controller.enqueue({
+                type: 'tool-call',
+                toolCallId: 'call_1',
+                toolName: 'get_weather',
+                input: '{"city":"Paris"}',
+              });
+              controller.enqueue({ type: 'finish', finishReason: 'tool-calls', usage: {} });
+              controller.close();
+            },
+          }),
+        });
+      },
+    } as any);
+    const streamParts = async (): Promise<Record<string, any>[]> => {
+      const { stream } = await model.doStream({ prompt } as any);
+      const parts: Record<string, any>[] = [];
+      for await (const part of stream as unknown as AsyncIterable<Record<string, any>>) {
+        parts.push(part);
+      }
+      return parts;
+    };
+    const summary = (parts: Record<string, any>[]) => ({
+      text: parts.filter((p) => p.type === 'text-delta').map((p) => String(p.delta)).join(''),
+      toolCalls: parts
+        .filter((p) => p.type === 'tool-call')
+        .map((p) => [String(p.toolName), String(p.input)]),
+      finishReason: parts.find((p) => p.type === 'finish')?.finishReason as unknown,
+    });
+
+    useCassette('record', path);
+    const live = summary(await streamParts());
+
+    useCassette('replay', path);
+    const replayed = summary(await streamParts());
+    assert.strictEqual(liveStreams, 1);
+    assert.deepStrictEqual(replayed, live);
+    assert.deepStrictEqual(replayed, {
+      text: 'Sunny.',
+      toolCalls: [['get_weather', '{"city":"Paris"}']],
+      finishReason: 'tool-calls',
+    });
+  });
+});
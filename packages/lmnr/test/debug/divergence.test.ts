@@ -0,0 +1,200 @@
+import * as assert from 'node:assert';
+import { mkdtempSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, afterEach, before, beforeEach, describe, it, mock } from 'node:test';
+
+import type { CacheOutcome, ReplaySpan, RolloutSessionsResource } from '@lmnr-ai/client';
+import { InMemorySpanExporter } from '@opentelemetry/sdk-trace-base';
+
+import { diffMessages } from '../../src/debug/diff';
+import { nearestCandidate } from '../../src/debug/divergence';
+import { debugInputHash } from '../../src/debug/hash';
+import { getRuntime, initDebugRuntime, resetDebugRuntime } from '../../src/debug/index';
+import { observe } from '../../src/decorators';
+import { Laminar } from '../../src/laminar';
+import {
+  _resetConfiguration,
+  initializeTracing,
+} from '../../src/opentelemetry-lib/configuration';
+
+const DEBUG_ENV_KEYS = [
+  'LMNR_DEBUG',
+  'LMNR_DEBUG_SESSION_ID',
+  'LMNR_DEBUG_REPLAY_TRACE_ID',
+  'LMNR_DEBUG_CACHE_UNTIL',
+];
+
+const hit = (output: string): CacheOutcome => ({
+  kind: 'hit',
+  cached: { name: '', input: '', output, attributes: {} },
+});
+
+const originalCwd = process.cwd.bind(process);
+
+void describe('message diffs', () => {
+  void it('collapses unchanged messages and diffs replaced ones', () => {
+    const cached = [
+      { role: 'user', content: 'Plan a trip.' },
+      { role: 'assistant', content: 'Where to?' },
+      { role: 'user', content: 'Paris' },
+    ];
+    const actual = [
+      { role: 'user', content: 'Plan a trip.' },
+      { role: 'assistant', content: 'Where to?' },
+      { role: 'user', content: 'Rome' },
+      { role: 'user', content: 'In May' },
+    ];
+
+    assert.strictEqual(diffMessages(cached, actual), [
+      '  ... 2 unchanged messages',
+      '~ message 3',
+      '    {',
+      '  +   "content": "Rome",',
+      '  -   "content": "Paris",',
+      '      "role": "user"',
+      '    }',
+      '+ message 4',
+      '  + {',
+      '  +   "content": "In May",',
+      '  +   "role": "user"',
+      '  + }',
+    ].join('\n'));
+    assert.strictEqual(diffMessages(cached, cached), '');
+  });
+
+  void it('prefers the nearest candidate at the same span path', () => {
+    const messages = [{ role: 'user', content: 'Rome' }];
+    const sameInput = { spanPath: 'agent.other', messages };
+    const samePath = { spanPath: 'agent.llm', messages: [{ role: 'user', content: 'Paris' }] };
+    const lookup = { spanPath: 'agent.llm', inputHash: 'h', outcome: 'miss' as const, messages };
+
+    assert.strictEqual(nearestCandidate(lookup, [sameInput, samePath]), samePath);
+    assert.strictEqual(nearestCandidate({ ...lookup, spanPath: 'agent.x' }, [samePath, sameInput]),
+      sameInput);
+    assert.strictEqual(nearestCandidate(lookup, []), null);
+  });
+});
+
+void describe('replay divergence report', () => {
+  const exporter = new InMemorySpanExporter();
+  let outcomes: CacheOutcome[] = [];
+  let replaySpans: ReplaySpan[] = [];
+  const blocks: { sessionId: string; type: string; content: { text: string } }[] = [];
+
+  const fakeResource = {
+    // eslint-disable-next-line @typescript-eslint/require-await
+    cache: async () => outcomes.shift() ?? { kind: 'live' },
+    // eslint-disable-next-line @typescript-eslint/require-await
+    listReplaySpans: async () => replaySpans,
+    // eslint-disable-next-line @typescript-eslint/require-await
+    addBlock: async (block: { sessionId: string; type: string; content: { text: string } }) => {
+      blocks.push(block);
+      return 'block-1';
+    },
+  } as unknown as RolloutSessionsResource;
+
+  const search = (q: string) => observe(
+    { name: 'search', spanType: 'TOOL', replayable: true },
+    // eslint-disable-next-line @typescript-eslint/require-await
+    async (query: { q: string }) => `live ${query.q}`,
+    { q },
+  );
+
+  before(() => {
+    _resetConfiguration();
+    initializeTracing({ exporter, disableBatch: true });
+  });
+
+  beforeEach(() => {
+    resetDebugRuntime();
+    // See replay.test.ts: keep a leaked `.lmnr/debug-session.json` out of the config
+    process.cwd = () => mkdtempSync(join(tmpdir(), 'lmnr-divergence-'));
+    process.env.LMNR_DEBUG = 'true';
+    process.env.LMNR_DEBUG_SESSION_ID = 'session-1';
+    process.env.LMNR_DEBUG_REPLAY_TRACE_ID = 'trace-1';
+    process.env.LMNR_DEBUG_CACHE_UNTIL = '0123456789abcdef';
+    initDebugRuntime(fakeResource);
+    outcomes = [];
+    replaySpans = [];
+    blocks.length = 0;
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+    exporter.reset();
+    resetDebugRuntime();
+    Laminar.debugRunLive = false;
+    DEBUG_ENV_KEYS.forEach((key) => delete process.env[key]);
+    process.cwd = originalCwd;
+  });
+
+  after(() => {
+    _resetConfiguration();
+  });
+
+  void it('logs every lookup with its span path and outcome', async () => {
+    outcomes = [hit('"cached"'), { kind: 'miss' }];
+
+    await search('paris');
+    await search('rome');
+    await search('berlin');
+
+    assert.deepStrictEqual(getRuntime()?.lookups, [
+      { spanPath: 'search', inputHash: debugInputHash([{ q: 'paris' }]), outcome: 'hit' },
+      {
+        spanPath: 'search',
+        inputHash: debugInputHash([{ q: 'rome' }]),
+        outcome: 'miss',
+        messages: [{ q: 'rome' }],
+      },
+    ]);
+  });
+
+  void it('prints the report and attaches it to the session', async () => {
+    outcomes = [hit('"cached"'), { kind: 'miss' }];
+    replaySpans = [
+      { spanId: 's1', name: 'search', path: 'search', spanType: 'TOOL', input: '{"q":"paris"}' },
+      { spanId: 's2', name: 'search', path: 'search', spanType: 'TOOL', input: '{"q":"lyon"}' },
+    ];
+    const log = mock.method(console, 'log', () => {});
+
+    await search('paris');
+    await search('rome');
+    await getRuntime()?.reportDivergence();
+    await getRuntime()?.reportDivergence();
+
+    assert.strictEqual(log.mock.callCount(), 1);
+    const text = log.mock.calls[0].arguments[0] as string;
+    assert.deepStrictEqual(text.split('\n'), [
+      'Laminar debug replay: 2 cache lookups (1 hit, 1 miss, 0 live)',
+      `  hit   ${debugInputHash([{ q: 'paris' }]).slice(0, 12)}  search`,
+      `  miss  ${debugInputHash([{ q: 'rome' }]).slice(0, 12)}  search`,
+      `Cache miss at search (input hash ${debugInputHash([{ q: 'rome' }])}), `
+      + 'it and every later call ran live.',
+      'Nearest cached call: search (- cached, + this run)',
+      '~ message 1',
+      '    {',
+      '  +   "q": "rome"',
+      '  -   "q": "paris"',
+      '    }',
+    ]);
+    assert.deepStrictEqual(blocks, [{ sessionId: 'session-1', type: 'text', content: { text } }]);
+  });
+
+  void it('prints without diffs at exit and stays quiet without lookups', async () => {
+    const log = mock.method(console, 'log', () => {});
+    getRuntime()?.printDivergenceReport();
+    assert.strictEqual(log.mock.callCount(), 0);
+
+    outcomes = [{ kind: 'miss' }];
+    await search('rome');
+    getRuntime()?.printDivergenceReport();
+    await getRuntime()?.reportDivergence();
+
+    assert.strictEqual(log.mock.callCount(), 1);
+    assert.ok((log.mock.calls[0].arguments[0] as string)
+      .endsWith("The replayed trace's calls could not be fetched to compare against."));
+    assert.deepStrictEqual(blocks, []);
+  });
+});
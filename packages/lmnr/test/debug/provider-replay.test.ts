@@ -0,0 +1,236 @@
+import assert from "node:assert/strict";
+import { mkdtempSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, afterEach, before, beforeEach, describe, it } from "node:test";
+
+import { GoogleGenAI } from "@google/genai";
+import type { CacheOutcome, RolloutSessionsResource } from "@lmnr-ai/client";
+import { InMemorySpanExporter } from "@opentelemetry/sdk-trace-base";
+import OpenAI from "openai";
+
+import { debugInputHash } from "../../src/debug/hash";
+import { initDebugRuntime, resetDebugRuntime } from "../../src/debug/index";
+import { anthropicReplay } from "../../src/debug/providers/anthropic";
+import { Laminar } from "../../src/laminar";
+import { _resetConfiguration, initializeTracing } from "../../src/opentelemetry-lib/configuration";
+
+const DEBUG_ENV_KEYS = [
+  "LMNR_DEBUG",
+  "LMNR_DEBUG_SESSION_ID",
+  "LMNR_DEBUG_REPLAY_TRACE_ID",
+  "LMNR_DEBUG_CACHE_UNTIL",
+];
+
+const hit = (output: unknown, attributes: Record<string, unknown> = {}): CacheOutcome => ({
+  kind: "hit",
+  cached: { name: "", input: "", output: JSON.stringify(output), attributes },
+});
+
+// A tool call recorded in the OTel `gen_ai.output.messages` shape
+const TOOL_CALL_OUTPUT = [{
+  role: "assistant",
+  parts: [
+    { type: "text", content: "Checking the weather." },
+    { type: "tool_call", id: "call_1", name: "get_weather", arguments: { city: "Paris" } },
+  ],
+  finish_reason: "tool_call",
+}];
+
+const originalCwd = process.cwd.bind(process);
+
+void describe("provider debug replay", () => {
+  const exporter = new InMemorySpanExporter();
+  const lookups: string[] = [];
+  let outcomes: CacheOutcome[] = [];
+  let liveCalls = 0;
+
+  const fakeResource = {
+    // eslint-disable-next-line @typescript-eslint/require-await
+    cache: async ({ inputHash }: { inputHash: string }) => {
+      lookups.push(inputHash);
+      return outcomes.shift() ?? { kind: "live" };
+    },
+  } as unknown as RolloutSessionsResource;
+
+  // eslint-disable-next-line @typescript-eslint/require-await
+  const liveFetch = async () => {
+    liveCalls++;
+    return new Response(JSON.stringify({
+      id: "chatcmpl-live",
+      object: "chat.completion",
+      created: 0,
+      model: "gpt-4o-mini",
+      choices: [{
+        index: 0,
+        message: { role: "assistant", content: "live" },
+        finish_reason: "stop",
+      }],
+    }), { headers: { "content-type": "application/json" } });
+  };
+  const openai = new OpenAI({ apiKey: "dummy-key", fetch: liveFetch, maxRetries: 0 });
+  const messages: OpenAI.ChatCompletionMessageParam[] = [
+    { role: "system", content: "You are a weather bot." },
+    { role: "user", content: "Weather in Paris?" },
+  ];
+
+  const cachedSpan = () => {
+    const spans = exporter.getFinishedSpans();
+    assert.equal(spans.length, 1);
+    return spans[0];
+  };
+
+  void before(() => {
+    _resetConfiguration();
+    initializeTracing({
+      exporter,
+      disableBatch: true,
+      instrumentModules: { openAI: OpenAI, google_genai: GoogleGenAI },
+    });
+  });
+
+  void beforeEach(() => {
+    resetDebugRuntime();
+    // See replay.test.ts: keep a leaked `.lmnr/debug-session.json` out of the config
+    process.cwd = () => mkdtempSync(join(tmpdir(), "lmnr-provider-replay-"));
+    process.env.LMNR_DEBUG = "true";
+    process.env.LMNR_DEBUG_REPLAY_TRACE_ID = "trace-1";
+    process.env.LMNR_DEBUG_CACHE_UNTIL = "0123456789abcdef";
+    initDebugRuntime(fakeResource);
+    lookups.length = 0;
+    outcomes = [];
+    liveCalls = 0;
+  });
+
+  void afterEach(() => {
+    exporter.reset();
+    resetDebugRuntime();
+    Laminar.debugRunLive = false;
+    DEBUG_ENV_KEYS.forEach((key) => delete process.env[key]);
+    process.cwd = originalCwd;
+  });
+
+  void after(() => {
+    _resetConfiguration();
+  });
+
+  void it("replays OpenAI chat completions from the cache", async () => {
+    outcomes = [hit(TOOL_CALL_OUTPUT, { "gen_ai.usage.input_tokens": 12 })];
+
+    const completion = await openai.chat.completions.create({ model: "gpt-4o-mini", messages });
+
+    assert.equal(liveCalls, 0);
+    assert.deepEqual(lookups, [debugInputHash(messages)]);
+    assert.equal(debugInputHash(messages), debugInputHash(messages.slice(1)));
+    const { message, finish_reason } = completion.choices[0];
+    assert.equal(message.content, "Checking the weather.");
+    assert.equal(finish_reason, "tool_calls");
+    assert.deepEqual(message.tool_calls, [{
+      id: "call_1",
+      type: "function",
+      function: { name: "get_weather", arguments: "{\"city\":\"Paris\"}" },
+    }]);
+    assert.equal(completion.usage?.prompt_tokens, 12);
+    assert.equal(cachedSpan().attributes["lmnr.span.type"], "CACHED");
+  });
+
+  void it("replays streamed OpenAI chat completions", async () => {
+    outcomes = [hit({ role: "assistant", content: "Sunny, 21°C." })];
+
+    const stream = await openai.chat.completions.create({
+      model: "gpt-4o-mini",
+      messages,
+      stream: true,
+    });
+    let text = "";
+    let finishReason: string | null = null;
+    for await (const chunk of stream) {
+      text += chunk.choices[0]?.delta.content ?? "";
+      finishReason = chunk.choices[0]?.finish_reason ?? finishReason;
+    }
+
+    assert.equal(liveCalls, 0);
+    assert.equal(text, "Sunny, 21°C.");
+    assert.equal(finishReason, "stop");
+    assert.equal(cachedSpan().attributes["lmnr.span.type"], "CACHED");
+  });
+
+  void it("runs live and latches live mode on a miss", async () => {
+    outcomes = [{ kind: "miss" }, hit("never used")];
+
+    const first = await openai.chat.completions.create({ model: "gpt-4o-mini", messages });
+    const second = await openai.chat.completions.create({ model: "gpt-4o-mini", messages });
+
+    assert.equal(first.choices[0].message.content, "live");
+    assert.equal(second.choices[0].message.content, "live");
+    assert.equal(liveCalls, 2);
+    assert.equal(lookups.length, 1);
+    assert.equal(Laminar.debugRunLive, true);
+    for (const span of exporter.getFinishedSpans()) {
+      assert.notEqual(span.attributes["lmnr.span.type"], "CACHED");
+    }
+  });
+
+  void it("replays Google GenAI generateContent", async () => {
+    const contents = [{ role: "user", parts: [{ text: "Weather in Paris?" }] }];
+    outcomes = [hit([{ role: "model", content: "Sunny.", tool_calls: [
+      { name: "get_weather", arguments: "{\"city\":\"Paris\"}" },
+    ] }])];
+
+    const ai = new GoogleGenAI({ apiKey: "dummy-key" });
+    const response = await ai.models.generateContent({ model: "gemini-2.5-flash", contents });
+
+    assert.deepEqual(lookups, [debugInputHash(contents)]);
+    assert.equal(response.text, "Sunny.");
+    assert.deepEqual(response.functionCalls, [{ name: "get_weather", args: { city: "Paris" } }]);
+    assert.equal(cachedSpan().attributes["lmnr.span.type"], "CACHED");
+  });
+
+  void it("rebuilds Anthropic messages and their event stream", async () => {
+    const call = {
+      url: new URL("https://api.anthropic.com/v1/messages"),
+      body: { model: "claude-sonnet-4-5", messages: [], stream: true },
+    };
+    const output = {
+      payload: null,
+      parts: [
+        { type: "reasoning" as const, text: "Look it up.", signature: "sig" },
+        {
+          type: "tool_call" as const,
+          id: "toolu_1",
+          name: "get_weather",
+          arguments: "{\"city\":\"Paris\"}",
+        },
+      ],
+      finishReason: "tool_calls" as const,
+      inputTokens: 5,
+      outputTokens: 7,
+    };
+
+    const message = await anthropicReplay
+      .response({ ...call, body: { ...call.body, stream: false } }, output)
+      .json() as Record<string, any>;
+    assert.equal(message.stop_reason, "tool_use");
+    assert.deepEqual(message.content, [
+      { type: "thinking", thinking: "Look it up.", signature: "sig" },
+      { type: "tool_use", id: "toolu_1", name: "get_weather", input: { city: "Paris" } },
+    ]);
+
+    const events = (await anthropicReplay.response(call, output).text())
+      .trim()
+      .split("\n\n")
+      .map((event) => event.split("\n")[0].replace("event: ", ""));
+    assert.deepEqual(events, [
+      "message_start",
+      "content_block_start",
+      "content_block_delta",
+      "content_block_delta",
+      "content_block_stop",
+      "content_block_start",
+      "content_block_delta",
+      "content_block_stop",
+      "message_delta",
+      "message_stop",
+    ]);
+  });
+});
@@ -0,0 +1,169 @@
+import * as assert from 'node:assert';
+import { mkdtempSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, afterEach, before, beforeEach, describe, it } from 'node:test';
+
+import type { CacheOutcome, RolloutSessionsResource } from '@lmnr-ai/client';
+import { InMemorySpanExporter } from '@opentelemetry/sdk-trace-base';
+
+import { debugInputHash } from '../../src/debug/hash';
+import { initDebugRuntime, resetDebugRuntime } from '../../src/debug/index';
+import { observe } from '../../src/decorators';
+import { Laminar } from '../../src/laminar';
+import {
+  _resetConfiguration,
+  initializeTracing,
+} from '../../src/opentelemetry-lib/configuration';
+
+const DEBUG_ENV_KEYS = [
+  'LMNR_DEBUG',
+  'LMNR_DEBUG_SESSION_ID',
+  'LMNR_DEBUG_REPLAY_TRACE_ID',
+  'LMNR_DEBUG_CACHE_UNTIL',
+];
+
+const hit = (output: string): CacheOutcome => ({
+  kind: 'hit',
+  cached: { name: '', input: '', output, attributes: {} },
+});
+
+const originalCwd = process.cwd.bind(process);
+
+void describe('replayable tools', () => {
+  const exporter = new InMemorySpanExporter();
+  const lookups: string[] = [];
+  let outcomes: CacheOutcome[] = [];
+  const sent: string[] = [];
+
+  const fakeResource = {
+    // eslint-disable-next-line @typescript-eslint/require-await
+    cache: async ({ inputHash }: { inputHash: string }) => {
+      lookups.push(inputHash);
+      return outcomes.shift() ?? { kind: 'live' };
+    },
+  } as unknown as RolloutSessionsResource;
+
+  // eslint-disable-next-line @typescript-eslint/require-await
+  const sendEmail = Laminar.replayableTool(async function send_email(to: string, body: string) {
+    sent.push(to);
+    return { id: `live-${to}`, body };
+  });
+
+  const startReplay = () => {
+    process.env.LMNR_DEBUG = 'true';
+    process.env.LMNR_DEBUG_REPLAY_TRACE_ID = 'trace-1';
+    process.env.LMNR_DEBUG_CACHE_UNTIL = '0123456789abcdef';
+    initDebugRuntime(fakeResource);
+  };
+
+  before(() => {
+    _resetConfiguration();
+    initializeTracing({ exporter, disableBatch: true });
+  });
+
+  beforeEach(() => {
+    resetDebugRuntime();
+    // See replay.test.ts: keep a leaked `.lmnr/debug-session.json` out of the config
+    process.cwd = () => mkdtempSync(join(tmpdir(), 'lmnr-tool-replay-'));
+    lookups.length = 0;
+    sent.length = 0;
+    outcomes = [];
+  });
+
+  afterEach(() => {
+    exporter.reset();
+    resetDebugRuntime();
+    Laminar.debugRunLive = false;
+    DEBUG_ENV_KEYS.forEach((key) => delete process.env[key]);
+    process.cwd = originalCwd;
+  });
+
+  after(() => {
+    _resetConfiguration();
+  });
+
+  void it('returns the recorded output without running the tool', async () => {
+    startReplay();
+    outcomes = [hit(JSON.stringify({ id: 'recorded', body: 'Hi' }))];
+
+    const result = await sendEmail('ada@example.com', 'Hi');
+
+    assert.deepStrictEqual(result, { id: 'recorded', body: 'Hi' });
+    assert.deepStrictEqual(sent, []);
+    assert.deepStrictEqual(lookups, [debugInputHash([['ada@example.com', 'Hi']])]);
+    const [span] = exporter.getFinishedSpans();
+    assert.strictEqual(span.name, 'send_email');
+    assert.strictEqual(span.attributes['lmnr.span.type'], 'CACHED');
+    assert.strictEqual(span.attributes['lmnr.span.original_type'], 'TOOL');
+    assert.strictEqual(span.attributes['lmnr.span.output'], '{"id":"recorded","body":"Hi"}');
+  });
+
+  void it('hashes the input as recorded on the span', async () => {
+    startReplay();
+    outcomes = [hit('plain text')];
+
+    const result = await observe(
+      { name: 'search', spanType: 'TOOL', replayable: true },
+      // eslint-disable-next-line @typescript-eslint/require-await
+      async (query: { q: string }) => `live ${query.q}`,
+      { q: 'weather' },
+    );
+
+    assert.strictEqual(result, 'plain text');
+    assert.deepStrictEqual(lookups, [debugInputHash([{ q: 'weather' }])]);
+  });
+
+  void it('runs the tool and latches live mode on a miss', async () => {
+    startReplay();
+    outcomes = [{ kind: 'miss' }, hit('"never used"')];
+
+    const first = await sendEmail('ada@example.com', 'Hi');
+    const second = await sendEmail('bob@example.com', 'Hi');
+
+    assert.strictEqual(first.id, 'live-ada@example.com');
+    assert.strictEqual(second.id, 'live-bob@example.com');
+    assert.deepStrictEqual(sent, ['ada@example.com', 'bob@example.com']);
+    assert.strictEqual(lookups.length, 1);
+    assert.strictEqual(Laminar.debugRunLive, true);
+    for (const span of exporter.getFinishedSpans()) {
+      assert.strictEqual(span.attributes['lmnr.span.type'], 'TOOL');
+    }
+  });
+
+  void it('runs the tool outside a replay run', async () => {
+    const result = await sendEmail('ada@example.com', 'Hi');
+    const syncResult = observe(
+      { spanType: 'TOOL', replayable: true },
+      (a: number, b: number) => a + b,
+      1,
+      2,
+    );
+
+    assert.strictEqual(result.id, 'live-ada@example.com');
+    assert.strictEqual(syncResult, 3);
+    assert.deepStrictEqual(lookups, []);
+  });
+
+  void it('runs sync tools and tools without a recorded input live on a replay run', async () => {
+    startReplay();
+    outcomes = [hit('"cached"'), hit('"cached"')];
+
+    const syncResult = observe(
+      { spanType: 'TOOL', replayable: true },
+      (a: number, b: number) => a + b,
+      1,
+      2,
+    );
+    const result = await observe(
+      { name: 'search', spanType: 'TOOL', replayable: true, ignoreInput: true },
+      // eslint-disable-next-line @typescript-eslint/require-await
+      async (q: string) => `live ${q}`,
+      'weather',
+    );
+
+    assert.strictEqual(syncResult, 3);
+    assert.strictEqual(result, 'live weather');
+    assert.deepStrictEqual(lookups, []);
+  });
+});
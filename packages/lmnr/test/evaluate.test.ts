@@ -1,4 +1,7 @@
 import assert from "node:assert";
+import { existsSync, mkdtempSync, readFileSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 import { after, afterEach, beforeEach, describe, it } from "node:test";
 
 import { InMemorySpanExporter } from "@opentelemetry/sdk-trace-base";
@@ -22,6 +25,7 @@ void describe("evaluate", () => {
 
   void afterEach(() => {
     exporter.reset();
+    nock.cleanAll();
   });
 
   void after(async () => {
@@ -327,4 +331,401 @@ void describe("evaluate", () => {
       ["human_quality", "human_relevance"],
     );
   });
+
+  void it("resumed evaluation skips journaled datapoints and reuses the evaluation", async () => {
+    const baseUrl = "https://api.lmnr.ai";
+    const mockEvalId = "00000000-0000-0000-0000-000000000001";
+    const journalPath = join(mkdtempSync(join(tmpdir(), "lmnr-journal-")), "journal.jsonl");
+    writeFileSync(journalPath, [
+      JSON.stringify({
+        type: "evaluation",
+        evaluationId: mockEvalId,
+        projectId: "mock-project-id",
+        createdAt: new Date().toISOString(),
+      }),
+      JSON.stringify({
+        type: "datapoint",
+        index: 0,
+        id: "00000000-0000-0000-0000-00000000000a",
+        scores: { test: 1 },
+        traceId: "00000000-0000-0000-0000-00000000000b",
+      }),
+      // a line torn by a crash mid-write
+      '{"type":"datapoint","ind',
+    ].join("\n"));
+
+    const savedIndices: number[] = [];
+    // No `/v1/evals` mock: a resumed run must not create a new evaluation.
+    nock(baseUrl)
+      .post(`/v1/evals/${mockEvalId}/datapoints`, (requestBody: RequestBody): boolean => {
+        savedIndices.push(requestBody.points[0].index);
+        return true;
+      })
+      .times(2)
+      .reply(200, {});
+
+    const executed: string[] = [];
+    const result = await evaluate({
+      data: [
+        { data: "a", target: "a" },
+        { data: "b", target: "c" },
+      ],
+      executor: (data) => {
+        executed.push(data);
+        return data;
+      },
+      evaluators: {
+        "test": (output, target) => output === target ? 1 : 0,
+      },
+      config: {
+        projectApiKey: "test",
+        resume: true,
+        journalPath,
+      },
+    });
+
+    await Laminar.flush();
+
+    assert.deepStrictEqual(executed, ["b"]);
+    assert.deepStrictEqual(savedIndices, [1, 1]);
+    assert.strictEqual(result?.evaluationId, mockEvalId);
+    assert.deepStrictEqual(result?.averageScores, { test: 0.5 });
+    // The journal is removed once the evaluation finishes
+    assert.strictEqual(existsSync(journalPath), false);
+  });
+
+  void it("resumed evaluation pairs journaled dataset datapoints with the baseline", async () => {
+    const baseUrl = "https://api.lmnr.ai";
+    const mockEvalId = "00000000-0000-0000-0000-000000000003";
+    const baselineId = "00000000-0000-0000-0000-0000000000b1";
+    const datasetId = "00000000-0000-0000-0000-0000000000d0";
+    const createdAt = "2025-01-01T00:00:00Z";
+    const journalPath = join(mkdtempSync(join(tmpdir(), "lmnr-journal-")), "journal.jsonl");
+    writeFileSync(journalPath, [
+      JSON.stringify({
+        type: "evaluation",
+        evaluationId: mockEvalId,
+        projectId: "mock-project-id",
+        createdAt: new Date().toISOString(),
+      }),
+      JSON.stringify({
+        type: "datapoint",
+        index: 0,
+        id: "00000000-0000-0000-0000-00000000000a",
+        scores: { test: 1 },
+        traceId: "00000000-0000-0000-0000-00000000000b",
+        sourceId: "00000000-0000-0000-0000-0000000000a1",
+      }),
+    ].join("\n"));
+
+    nock(baseUrl)
+      .post(`/v1/evals/${mockEvalId}/datapoints`)
+      .times(2)
+      .reply(200, {});
+    // The baseline ran the dataset in a different order, so only the dataset
+    // link pairs the datapoints
+    nock(baseUrl)
+      .post("/v1/sql/query")
+      .reply(200, {
+        data: [
+          ["00000000-0000-0000-0000-0000000000a2", 0, '{"test":1}'],
+          ["00000000-0000-0000-0000-0000000000a1", 1, '{"test":0}'],
+        ].map(([datasetDatapointId, index, scores], i) => ({
+          id: `00000000-0000-0000-0000-0000000000c${i}`,
+          data: '"x"',
+          scores,
+          index,
+          trace_id: "00000000-0000-0000-0000-0000000000c9",
+          dataset_id: datasetId,
+          dataset_datapoint_id: datasetDatapointId,
+          dataset_datapoint_created_at: createdAt,
+        })),
+      });
+
+    const result = await evaluate({
+      data: [
+        {
+          data: "a",
+          target: "a",
+          id: "00000000-0000-0000-0000-0000000000a1",
+          datasetId,
+          createdAt,
+        },
+        {
+          data: "b",
+          target: "b",
+          id: "00000000-0000-0000-0000-0000000000a2",
+          datasetId,
+          createdAt,
+        },
+      ],
+      executor: (data) => data,
+      evaluators: {
+        "test": (output, target) => output === target ? 1 : 0,
+      },
+      config: {
+        projectApiKey: "test",
+        resume: true,
+        journalPath,
+        compareTo: baselineId,
+      },
+    });
+
+    await Laminar.flush();
+
+    assert.strictEqual(result?.comparison?.pairedCount, 2);
+    assert.strictEqual(result?.comparison?.unpairedCount, 0);
+    assert.strictEqual(result?.comparison?.scores.test.meanDelta, 0.5);
+  });
+
+  void it("evaluation with resume journals each saved datapoint", async () => {
+    const baseUrl = "https://api.lmnr.ai";
+    const mockEvalId = "00000000-0000-0000-0000-000000000002";
+    const journalPath = join(mkdtempSync(join(tmpdir(), "lmnr-journal-")), "journal.jsonl");
+
+    nock(baseUrl)
+      .post('/v1/evals')
+      .reply(200, {
+        id: mockEvalId,
+        projectId: "mock-project-id",
+      });
+
+    nock(baseUrl)
+      .post(`/v1/evals/${mockEvalId}/datapoints`)
+      .times(3)
+      .reply(200, {});
+    // The second datapoint's final save fails, which fails the run
+    nock(baseUrl)
+      .post(`/v1/evals/${mockEvalId}/datapoints`)
+      .reply(500, "boom");
+
+    const result = await evaluate({
+      data: [
+        { data: "a", target: "a" },
+        { data: "b", target: "b" },
+      ],
+      executor: (data) => data,
+      evaluators: {
+        "test": (output, target) => output === target ? 1 : 0,
+      },
+      config: {
+        projectApiKey: "test",
+        concurrencyLimit: 1,
+        resume: true,
+        journalPath,
+      },
+    });
+
+    await Laminar.flush();
+
+    assert.ok(result?.errorMessage);
+    const lines = readFileSync(journalPath, "utf-8")
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line) as RequestBody);
+    assert.strictEqual(lines.length, 2);
+    assert.strictEqual(lines[0].type, "evaluation");
+    assert.strictEqual(lines[0].evaluationId, mockEvalId);
+    assert.strictEqual(lines[1].type, "datapoint");
+    assert.strictEqual(lines[1].index, 0);
+    assert.deepStrictEqual(lines[1].scores, { test: 1 });
+  });
+
+  void it("evaluation retries and records evaluator errors per the error policy", async () => {
+    const baseUrl = "https://api.lmnr.ai";
+    const mockEvalId = "00000000-0000-0000-0000-000000000003";
+
+    let body: RequestBody = {};
+
+    nock(baseUrl)
+      .post('/v1/evals')
+      .reply(200, {
+        id: mockEvalId,
+        projectId: "mock-project-id",
+      });
+
+    nock(baseUrl)
+      .post(`/v1/evals/${mockEvalId}/datapoints`, (requestBody: RequestBody): boolean => {
+        body = requestBody;
+        return true;
+      })
+      .times(2)
+      .reply(200, {});
+
+    let executorCalls = 0;
+    const result = await evaluate({
+      data: [{ data: "a", target: "a", metadata: { test: "test" } }],
+      executor: (data) => {
+        executorCalls++;
+        if (executorCalls < 3) {
+          throw new Error(`flaky ${executorCalls}`);
+        }
+        return data;
+      },
+      evaluators: {
+        "exact": (output, target) => output === target ? 1 : 0,
+        "broken": () => {
+          throw new Error("evaluator exploded");
+        },
+        "nan": () => NaN,
+      },
+      config: {
+        projectApiKey: "test",
+        executorPolicy: { retries: 2, retryBackoffMillis: 1 },
+        evaluatorPolicy: { onError: "score-as-null" },
+        evaluatorPolicies: { nan: { onError: "skip" } },
+      },
+    });
+
+    await Laminar.flush();
+
+    assert.strictEqual(result?.errorMessage, undefined);
+    assert.strictEqual(executorCalls, 3);
+
+    const point = body.points[0];
+    assert.deepStrictEqual(point.scores, { exact: 1, broken: null });
+    assert.deepStrictEqual(point.metadata, {
+      test: "test",
+      "lmnr.errors": {
+        evaluators: {
+          broken: "evaluator exploded",
+          nan: "Evaluator nan returned NaN",
+        },
+      },
+    });
+
+    const spans = exporter.getFinishedSpans();
+    const executorSpan = spans.find((span) => span.attributes['lmnr.span.type'] === "EXECUTOR");
+    assert.deepStrictEqual(
+      executorSpan?.events.map((event) => event.attributes?.['exception.message']),
+      ["flaky 1", "flaky 2"],
+    );
+    const brokenSpan = spans.find((span) => span.name === "broken");
+    assert.strictEqual(brokenSpan?.events.length, 1);
+    assert.strictEqual(
+      brokenSpan?.events[0].attributes?.['exception.message'],
+      "evaluator exploded",
+    );
+  });
+
+  void it("evaluation skips evaluators for a timed out executor", async () => {
+    const baseUrl = "https://api.lmnr.ai";
+    const mockEvalId = "00000000-0000-0000-0000-000000000004";
+
+    let body: RequestBody = {};
+
+    nock(baseUrl)
+      .post('/v1/evals')
+      .reply(200, {
+        id: mockEvalId,
+        projectId: "mock-project-id",
+      });
+
+    nock(baseUrl)
+      .post(`/v1/evals/${mockEvalId}/datapoints`, (requestBody: RequestBody): boolean => {
+        body = requestBody;
+        return true;
+      })
+      .times(2)
+      .reply(200, {});
+
+    let evaluatorCalls = 0;
+    const result = await evaluate({
+      data: [{ data: "a", target: "a" }],
+      executor: async (data) => {
+        await new Promise((resolve) => setTimeout(resolve, 200));
+        return data;
+      },
+      evaluators: {
+        "exact": (output, target) => {
+          evaluatorCalls++;
+          return output === target ? 1 : 0;
+        },
+      },
+      config: {
+        projectApiKey: "test",
+        executorPolicy: { timeoutMillis: 10, onError: "skip" },
+      },
+    });
+
+    await Laminar.flush();
+
+    assert.strictEqual(result?.errorMessage, undefined);
+    assert.strictEqual(evaluatorCalls, 0);
+    assert.deepStrictEqual(result?.averageScores, {});
+
+    const point = body.points[0];
+    assert.deepStrictEqual(point.scores, {});
+    assert.strictEqual(point.executorOutput, undefined);
+    assert.deepStrictEqual(point.metadata, {
+      "lmnr.errors": { executor: "Executor timed out after 10ms" },
+    });
+
+    const spans = exporter.getFinishedSpans();
+    // evaluation + executor, no evaluator spans
+    assert.strictEqual(spans.length, 2);
+  });
+  void it("evaluation with trials runs every datapoint several times", async () => {
+    const baseUrl = "https://api.lmnr.ai";
+    const mockEvalId = "00000000-0000-0000-0000-000000000005";
+
+    const savedPoints: RequestBody[] = [];
+    nock(baseUrl)
+      .post('/v1/evals')
+      .reply(200, {
+        id: mockEvalId,
+        projectId: "mock-project-id",
+      });
+
+    nock(baseUrl)
+      .post(`/v1/evals/${mockEvalId}/datapoints`, (requestBody: RequestBody): boolean => {
+        savedPoints.push(requestBody.points[0]);
+        return true;
+      })
+      .times(6)
+      .reply(200, {});
+
+    let calls = 0;
+    const result = await evaluate({
+      data: [{ data: "a", target: "a" }],
+      // Correct on the first and third trial only
+      executor: (data) => calls++ === 1 ? "wrong" : data,
+      evaluators: {
+        "exact": (output, target) => output === target ? 1 : 0,
+      },
+      config: {
+        projectApiKey: "test",
+        trials: 3,
+        passAtK: [1, 2],
+      },
+    });
+
+    await Laminar.flush();
+
+    assert.strictEqual(result?.errorMessage, undefined);
+    const finalPoints = savedPoints.filter((point) => point.scores !== undefined);
+    assert.deepStrictEqual(
+      finalPoints.map((point): unknown[] => [point.index, point.trialIndex, point.scores]),
+      [[0, 0, { exact: 1 }], [0, 1, { exact: 0 }], [0, 2, { exact: 1 }]],
+    );
+    assert.strictEqual(new Set(finalPoints.map((point) => point.executorSpanId as string)).size, 3);
+
+    const statistics = result?.trialStatistics?.exact;
+    assert.ok(statistics);
+    assert.ok(Math.abs(statistics.mean - 2 / 3) < 1e-9);
+    assert.ok(Math.abs(statistics.stddev - Math.sqrt(2) / 3) < 1e-9);
+    assert.strictEqual(statistics.min, 0);
+    assert.strictEqual(statistics.max, 1);
+    assert.ok(Math.abs(statistics.passAtK[1] - 2 / 3) < 1e-9);
+    assert.strictEqual(statistics.passAtK[2], 1);
+
+    const spans = exporter.getFinishedSpans();
+    const evaluationSpans = spans.filter((span) => span.name === "evaluation");
+    const executorSpans = spans.filter((span) => span.name === "executor");
+    assert.strictEqual(evaluationSpans.length, 1);
+    assert.strictEqual(executorSpans.length, 3);
+    for (const span of executorSpans) {
+      assert.strictEqual(span.spanContext().traceId, evaluationSpans[0].spanContext().traceId);
+    }
+  });
 });
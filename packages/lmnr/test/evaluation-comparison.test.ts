@@ -0,0 +1,152 @@
+import assert from "node:assert";
+import { after, describe, it } from "node:test";
+
+import { type EvaluationDatapoint } from "@lmnr-ai/types";
+import nock from "nock";
+
+import {
+  compareDatapoints,
+  compareEvaluations,
+  formatComparison,
+} from "../src/evaluation-comparison";
+import { LaminarClient } from "../src/index";
+
+const datapoint = (
+  index: number,
+  scores: Record<string, number | null>,
+  datasetDatapointId?: string,
+): EvaluationDatapoint<string, string, string> => ({
+  id: `00000000-0000-0000-0000-${String(index).padStart(12, "0")}`,
+  data: `data ${index}`,
+  scores,
+  traceId: `00000000-0000-0000-0000-${String(index).padStart(12, "1")}`,
+  index,
+  ...(datasetDatapointId
+    ? {
+      datasetLink: {
+        datasetId: "00000000-0000-0000-0000-0000000000d0",
+        datapointId: datasetDatapointId as `${string}-${string}-${string}-${string}-${string}`,
+        createdAt: "2025-01-01T00:00:00Z",
+      },
+    }
+    : {}),
+});
+
+void describe("compareDatapoints", () => {
+  void it("pairs datapoints by index and reports per-score deltas", () => {
+    const baseline = Array.from({ length: 20 }, (_, i) => datapoint(i, { accuracy: 0.5 }));
+    const current = Array.from({ length: 20 }, (_, i) => datapoint(i, { accuracy: 0.9 }));
+
+    const comparison = compareDatapoints(baseline, current);
+
+    assert.strictEqual(comparison.pairedCount, 20);
+    assert.strictEqual(comparison.unpairedCount, 0);
+    const accuracy = comparison.scores.accuracy;
+    assert.strictEqual(accuracy.count, 20);
+    assert.ok(Math.abs(accuracy.meanDelta - 0.4) < 1e-9);
+    assert.ok(Math.abs(accuracy.confidenceInterval[0] - 0.4) < 1e-9);
+    assert.ok(Math.abs(accuracy.confidenceInterval[1] - 0.4) < 1e-9);
+    assert.ok(accuracy.pValue < 0.01);
+    assert.strictEqual(accuracy.improved.length, 20);
+    assert.strictEqual(accuracy.regressed.length, 0);
+  });
+
+  void it("pairs datapoints by dataset datapoint and skips null scores", () => {
+    const baseline = [
+      datapoint(0, { accuracy: 1 }, "00000000-0000-0000-0000-00000000000a"),
+      datapoint(1, { accuracy: 1 }, "00000000-0000-0000-0000-00000000000b"),
+      datapoint(2, { accuracy: 0 }, "00000000-0000-0000-0000-00000000000c"),
+    ];
+    const current = [
+      // reordered dataset
+      datapoint(0, { accuracy: 1 }, "00000000-0000-0000-0000-00000000000c"),
+      datapoint(1, { accuracy: 0 }, "00000000-0000-0000-0000-00000000000a"),
+      datapoint(2, { accuracy: null }, "00000000-0000-0000-0000-00000000000b"),
+      datapoint(3, { accuracy: 1 }, "00000000-0000-0000-0000-00000000000d"),
+    ];
+
+    const comparison = compareDatapoints(baseline, current);
+
+    assert.strictEqual(comparison.pairedCount, 3);
+    assert.strictEqual(comparison.unpairedCount, 1);
+    const accuracy = comparison.scores.accuracy;
+    assert.strictEqual(accuracy.count, 2);
+    assert.strictEqual(accuracy.meanDelta, 0);
+    assert.strictEqual(accuracy.pValue, 1);
+    assert.deepStrictEqual(accuracy.regressed, [{
+      key: "00000000-0000-0000-0000-00000000000a",
+      index: 1,
+      baseline: 1,
+      current: 0,
+      delta: -1,
+    }]);
+    assert.deepStrictEqual(accuracy.improved.map((change) => change.index), [0]);
+  });
+
+  void it("is deterministic for a fixed seed", () => {
+    const baseline = Array.from({ length: 30 }, (_, i) => datapoint(i, { s: i % 3 }));
+    const current = Array.from({ length: 30 }, (_, i) => datapoint(i, { s: (i * 7) % 4 }));
+
+    assert.deepStrictEqual(
+      compareDatapoints(baseline, current, { seed: 1 }),
+      compareDatapoints(baseline, current, { seed: 1 }),
+    );
+  });
+});
+
+void describe("formatComparison", () => {
+  void it("prints a score table and the regressed datapoints", () => {
+    const output = formatComparison({
+      baselineEvaluationId: "00000000-0000-0000-0000-00000000000e",
+      ...compareDatapoints(
+        [datapoint(0, { accuracy: 1 }), datapoint(1, { accuracy: 1 })],
+        [datapoint(0, { accuracy: 0 }), datapoint(1, { accuracy: 1 })],
+      ),
+    });
+
+    assert.ok(output.includes("Comparison with baseline 00000000-0000-0000-0000-00000000000e"));
+    assert.ok(output.includes("(2 paired, 0 unpaired datapoints)"));
+    assert.match(output, /accuracy\s+1\.0000\s+0\.5000\s+-0\.5000/);
+    assert.ok(output.includes("Regressed on accuracy (1):"));
+    assert.ok(output.includes("#0 1.0000 -> 0.0000 (-1.0000)"));
+  });
+});
+
+void describe("compareEvaluations", () => {
+  const baseUrl = "https://api.lmnr.ai:443";
+
+  void after(() => {
+    nock.cleanAll();
+  });
+
+  void it("resolves a group name to its latest evaluation", async () => {
+    const baselineId = "00000000-0000-0000-0000-0000000000b1";
+    const queries: Record<string, any>[] = [];
+    nock(baseUrl)
+      .post("/v1/sql/query", (body: Record<string, any>): boolean => {
+        queries.push(body);
+        return true;
+      })
+      .reply(200, { data: [{ evaluation_id: baselineId }] })
+      .post("/v1/sql/query")
+      .reply(200, {
+        data: [{
+          id: "00000000-0000-0000-0000-0000000000c1",
+          data: '"x"',
+          scores: '{"accuracy":0}',
+          index: 0,
+          trace_id: "00000000-0000-0000-0000-0000000000c2",
+        }],
+      });
+
+    const comparison = await compareEvaluations({
+      baseline: "my-group",
+      current: [datapoint(0, { accuracy: 1 })],
+      client: new LaminarClient({ baseUrl: "https://api.lmnr.ai", projectApiKey: "test" }),
+    });
+
+    assert.strictEqual(queries[0].parameters.groupName, "my-group");
+    assert.strictEqual(comparison.baselineEvaluationId, baselineId);
+    assert.strictEqual(comparison.scores.accuracy.meanDelta, 1);
+  });
+});
@@ -0,0 +1,112 @@
+import assert from "node:assert";
+import { describe, it } from "node:test";
+
+import { compareDatapoints } from "../src/evaluation-comparison";
+import {
+  checkGates,
+  formatGateTable,
+  parseThreshold,
+  toJUnitXml,
+} from "../src/evaluation-gates";
+
+void describe("parseThreshold", () => {
+  void it("parses score, operator and value", () => {
+    assert.deepStrictEqual(parseThreshold("accuracy>=0.85"), {
+      score: "accuracy",
+      operator: ">=",
+      value: 0.85,
+    });
+    assert.deepStrictEqual(parseThreshold(" latency score < 1.5 "), {
+      score: "latency score",
+      operator: "<",
+      value: 1.5,
+    });
+  });
+
+  void it("throws on an invalid expression", () => {
+    assert.throws(() => parseThreshold("accuracy=0.85"), /Invalid threshold/);
+    assert.throws(() => parseThreshold(">=0.85"), /Invalid threshold/);
+  });
+});
+
+void describe("checkGates", () => {
+  void it("checks thresholds against the average scores", () => {
+    const gates = checkGates({
+      averageScores: { accuracy: 0.8, relevance: 0.9 },
+      thresholds: [
+        "accuracy>=0.85",
+        { score: "relevance", operator: ">", value: 0.5 },
+        "missing>=1",
+      ],
+    });
+
+    assert.deepStrictEqual(gates.map((gate) => [gate.gate, gate.actual, gate.passed]), [
+      ["accuracy >= 0.85", 0.8, false],
+      ["relevance > 0.5", 0.9, true],
+      ["missing >= 1", null, false],
+    ]);
+  });
+
+  void it("checks the relative drop against the baseline", () => {
+    const datapoint = (index: number, scores: Record<string, number>) => ({
+      id: "00000000-0000-0000-0000-000000000000" as const,
+      data: null,
+      scores,
+      traceId: "00000000-0000-0000-0000-000000000000",
+      index,
+    });
+    const comparison = compareDatapoints(
+      [datapoint(0, { accuracy: 1, relevance: 1 }), datapoint(1, { accuracy: 1, relevance: 1 })],
+      [
+        datapoint(0, { accuracy: 1, relevance: 0.9 }),
+        datapoint(1, { accuracy: 0.99, relevance: 1 }),
+      ],
+    );
+
+    const gates = checkGates({
+      averageScores: { accuracy: 0.995, relevance: 0.95 },
+      maxScoreDrop: 0.02,
+      comparison,
+    });
+
+    assert.deepStrictEqual(
+      gates.map((gate) => [gate.gate, gate.passed]),
+      [["accuracy max drop 2%", true], ["relevance max drop 2%", false]],
+    );
+  });
+
+  void it("fails the baseline gate without a comparison", () => {
+    const gates = checkGates({ averageScores: { accuracy: 1 }, maxScoreDrop: 0.02 });
+    assert.strictEqual(gates.length, 1);
+    assert.strictEqual(gates[0].passed, false);
+    assert.strictEqual(gates[0].message, "No baseline evaluation to compare with");
+  });
+});
+
+void describe("gate reports", () => {
+  const gates = checkGates({
+    averageScores: { accuracy: 0.8 },
+    thresholds: ["accuracy>=0.85", "accuracy<1"],
+  });
+
+  void it("formats a table", () => {
+    const table = formatGateTable(gates).split("\n");
+    assert.match(table[0], /^gate\s+actual\s+result$/);
+    assert.match(table[1], /^accuracy >= 0\.85\s+0\.8\s+FAIL$/);
+    assert.match(table[2], /^accuracy < 1\s+0\.8\s+PASS$/);
+  });
+
+  void it("renders JUnit XML", () => {
+    const xml = toJUnitXml([
+      { name: "evals/a.eval.ts", gates },
+      { name: "evals/b.eval.ts", gates: [], errorMessage: "500 <boom>" },
+    ]);
+    assert.ok(xml.includes('<testsuites name="lmnr eval" tests="2" failures="1" errors="1">'));
+    assert.ok(xml.includes(
+      '<testcase classname="evals/a.eval.ts" name="accuracy &gt;= 0.85">',
+    ));
+    assert.ok(xml.includes('<failure message="actual: 0.8"/>'));
+    assert.ok(xml.includes('<testcase classname="evals/a.eval.ts" name="accuracy &lt; 1"/>'));
+    assert.ok(xml.includes('<error message="500 &lt;boom&gt;"/>'));
+  });
+});
@@ -0,0 +1,96 @@
+import assert from "node:assert";
+import { mkdtempSync, readFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, describe, it } from "node:test";
+
+import nock from "nock";
+
+import { evaluate, LaminarDataset } from "../src/index";
+import { _resetConfiguration } from "../src/opentelemetry-lib/configuration";
+
+type Line = Record<string, any>;
+
+void describe("local evaluation", () => {
+  const projectApiKey = process.env.LMNR_PROJECT_API_KEY;
+
+  void before(() => {
+    _resetConfiguration();
+    delete process.env.LMNR_PROJECT_API_KEY;
+    nock.disableNetConnect();
+  });
+
+  void after(() => {
+    nock.enableNetConnect();
+    if (projectApiKey !== undefined) {
+      process.env.LMNR_PROJECT_API_KEY = projectApiKey;
+    }
+  });
+
+  void it("writes results and traces to disk without a project API key", async () => {
+    const outputDir = mkdtempSync(join(tmpdir(), "lmnr-local-"));
+
+    const result = await evaluate({
+      name: "local <eval>",
+      data: [
+        { data: "a", target: "a" },
+        { data: "b", target: "c" },
+      ],
+      executor: (data) => data.toUpperCase(),
+      evaluators: {
+        "exact": (output, target) => output === target?.toUpperCase() ? 1 : 0,
+      },
+      config: { mode: "local", localOutputDir: outputDir },
+    });
+
+    assert.strictEqual(result?.errorMessage, undefined);
+    assert.strictEqual(result?.projectId, "local");
+    assert.deepStrictEqual(result?.averageScores, { exact: 0.5 });
+    assert.strictEqual(result?.url, join(outputDir, `${result?.evaluationId}.html`));
+
+    const lines = readFileSync(join(outputDir, `${result?.evaluationId}.jsonl`), "utf-8")
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line) as Line);
+    assert.strictEqual(lines.length, 3);
+    assert.strictEqual(lines[0].type, "evaluation");
+    assert.strictEqual(lines[0].name, "local <eval>");
+    assert.deepStrictEqual(lines[0].averageScores, { exact: 0.5 });
+
+    const [first, second] = lines.slice(1);
+    assert.deepStrictEqual(
+      [first.index, first.executorOutput, first.scores],
+      [0, "A", { exact: 1 }],
+    );
+    assert.deepStrictEqual(
+      [second.index, second.executorOutput, second.scores],
+      [1, "B", { exact: 0 }],
+    );
+    const spans = first.spans as Line[];
+    assert.deepStrictEqual(
+      spans.map((span) => span.spanType as string).sort(),
+      ["EVALUATION", "EVALUATOR", "EXECUTOR"],
+    );
+    const executor = spans.find((span) => span.spanType === "EXECUTOR")!;
+    const evaluation = spans.find((span) => span.spanType === "EVALUATION")!;
+    assert.strictEqual(executor.parentSpanId, evaluation.spanId);
+    assert.strictEqual(executor.input, "a");
+    assert.strictEqual(executor.output, "A");
+    assert.strictEqual(first.executorSpanId, executor.spanId);
+
+    const html = readFileSync(result.url, "utf-8");
+    assert.ok(html.includes("<title>Evaluation local &lt;eval&gt;</title>"));
+    assert.ok(!html.includes('"local <eval>"'));
+  });
+
+  void it("returns an error for a Laminar dataset", async () => {
+    const result = await evaluate({
+      data: new LaminarDataset<string, string>("remote"),
+      executor: (data) => data,
+      evaluators: { "exact": () => 1 },
+      config: { mode: "local", localOutputDir: mkdtempSync(join(tmpdir(), "lmnr-local-")) },
+    });
+
+    assert.strictEqual(result?.errorMessage, "LaminarDataset can't be used in local mode");
+  });
+});
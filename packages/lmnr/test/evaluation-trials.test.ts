@@ -0,0 +1,53 @@
+import assert from "node:assert";
+import { describe, it } from "node:test";
+
+import { getTrialStatistics, passAtK } from "../src/evaluation-trials";
+
+const trial = (index: number, trialIndex: number, score: number | null) => ({
+  id: "00000000-0000-0000-0000-000000000000" as const,
+  data: null,
+  scores: { accuracy: score },
+  traceId: "00000000-0000-0000-0000-000000000000",
+  index,
+  trialIndex,
+});
+
+void describe("passAtK", () => {
+  void it("matches the unbiased estimator", () => {
+    assert.strictEqual(passAtK(5, 0, 1), 0);
+    assert.strictEqual(passAtK(5, 5, 3), 1);
+    assert.ok(Math.abs(passAtK(5, 2, 1) - 0.4) < 1e-9);
+    // 1 - C(3,2) / C(5,2)
+    assert.ok(Math.abs(passAtK(5, 2, 2) - 0.7) < 1e-9);
+    // fewer failures than k always passes
+    assert.strictEqual(passAtK(5, 4, 2), 1);
+  });
+});
+
+void describe("getTrialStatistics", () => {
+  void it("aggregates trial scores per datapoint", () => {
+    const statistics = getTrialStatistics([
+      trial(0, 0, 1), trial(0, 1, 1),
+      trial(1, 0, 0), trial(1, 1, 0.5),
+      // a trial whose evaluator failed does not count
+      trial(2, 0, 1), trial(2, 1, null),
+    ], { ks: [1, 2] });
+
+    const accuracy = statistics.accuracy;
+    assert.strictEqual(accuracy.mean, 0.7);
+    assert.strictEqual(accuracy.stddev, 0.25 / 3);
+    assert.strictEqual(accuracy.min, 0);
+    assert.strictEqual(accuracy.max, 1);
+    assert.ok(Math.abs(accuracy.passAtK[1] - 2 / 3) < 1e-9);
+    // only datapoints 0 and 1 have two scored trials
+    assert.strictEqual(accuracy.passAtK[2], 0.5);
+  });
+
+  void it("uses the pass threshold", () => {
+    const statistics = getTrialStatistics(
+      [trial(0, 0, 0.5), trial(0, 1, 0.9)],
+      { ks: [1], passThreshold: 0.5 },
+    );
+    assert.strictEqual(statistics.accuracy.passAtK[1], 1);
+  });
+});
@@ -0,0 +1,219 @@
+import assert from "node:assert";
+import { after, afterEach, beforeEach, describe, it } from "node:test";
+
+import { InMemorySpanExporter } from "@opentelemetry/sdk-trace-base";
+import nock from "nock";
+import { z } from "zod";
+
+import {
+  bleu,
+  embeddingSimilarity,
+  exactMatch,
+  jsonSchemaValid,
+  levenshteinMatch,
+  llmJudge,
+  numericTolerance,
+  regexMatch,
+  rougeL,
+} from "../src/evaluators";
+import { evaluate, Laminar } from "../src/index";
+import { _resetConfiguration, initializeTracing } from "../src/opentelemetry-lib/configuration";
+
+const createMockJudgeModel = (text: string) => ({
+  specificationVersion: "v3" as const,
+  provider: "openai.chat",
+  modelId: "judge-model",
+  supportedUrls: {},
+  prompts: [] as unknown[],
+  // eslint-disable-next-line @typescript-eslint/require-await
+  async doGenerate(options: { prompt: unknown }) {
+    this.prompts.push(options.prompt);
+    return {
+      content: [{ type: "text", text }],
+      finishReason: "stop",
+      usage: {
+        inputTokens: { total: 10, noCache: 10, cacheRead: 0, cacheWrite: 0 },
+        outputTokens: { total: 5, text: 5, reasoning: 0 },
+      },
+      warnings: [],
+    };
+  },
+  // eslint-disable-next-line @typescript-eslint/require-await
+  doStream: async () => ({ stream: new ReadableStream() }),
+});
+
+void describe("text evaluators", () => {
+  void it("exactMatch compares strings and JSON values", () => {
+    assert.strictEqual(exactMatch()("Paris ", "Paris"), 1);
+    assert.strictEqual(exactMatch()("paris", "Paris"), 0);
+    assert.strictEqual(exactMatch({ caseSensitive: false })("paris", "Paris"), 1);
+    assert.strictEqual(exactMatch()({ a: 1, b: [2] }, { b: [2], a: 1 }), 1);
+    assert.strictEqual(exactMatch()({ a: 1 }, { a: 2 }), 0);
+  });
+
+  void it("levenshteinMatch returns a normalized similarity", () => {
+    assert.strictEqual(levenshteinMatch()("kitten", "sitting"), 1 - 3 / 7);
+    assert.strictEqual(levenshteinMatch()("", ""), 1);
+    assert.strictEqual(levenshteinMatch({ threshold: 0.5 })("kitten", "sitting"), 1);
+    assert.strictEqual(levenshteinMatch({ threshold: 0.9 })("kitten", "sitting"), 0);
+  });
+
+  void it("regexMatch is not affected by the global flag", () => {
+    const evaluator = regexMatch(/\d+/g);
+    assert.strictEqual(evaluator("order 42"), 1);
+    assert.strictEqual(evaluator("order 42"), 1);
+    assert.strictEqual(regexMatch("^yes$")("no"), 0);
+  });
+
+  void it("rougeL and bleu score word overlap", () => {
+    const reference = "the cat sat on the mat";
+    assert.strictEqual(rougeL()(reference, reference), 1);
+    assert.strictEqual(rougeL()("dogs bark", reference), 0);
+    // LCS "the cat the mat" of 4 words: precision 4/5, recall 4/6
+    assert.ok(Math.abs((rougeL()("the cat was the mat", reference) as number) - 8 / 11) < 1e-9);
+
+    assert.ok(Math.abs((bleu()(reference, reference) as number) - 1) < 1e-9);
+    assert.strictEqual(bleu()("dogs bark", reference), 0);
+    const partial = bleu()("the cat sat", reference) as number;
+    assert.ok(partial > 0 && partial < 1);
+  });
+});
+
+void describe("structured evaluators", () => {
+  void it("jsonSchemaValid validates against a JSON Schema", () => {
+    const evaluator = jsonSchemaValid({
+      type: "object",
+      properties: {
+        name: { type: "string", minLength: 1 },
+        tags: { type: "array", items: { type: "string" } },
+      },
+      required: ["name"],
+      additionalProperties: false,
+    });
+    assert.strictEqual(evaluator('{"name": "a", "tags": ["b"]}'), 1);
+    assert.strictEqual(evaluator({ name: "a" }), 1);
+    assert.strictEqual(evaluator({ name: "" }), 0);
+    assert.strictEqual(evaluator({ tags: [] }), 0);
+    assert.strictEqual(evaluator({ name: "a", extra: 1 }), 0);
+    assert.strictEqual(evaluator({ name: "a", tags: [1] }), 0);
+    assert.strictEqual(evaluator("not json"), 0);
+  });
+
+  void it("jsonSchemaValid compares enum and const values regardless of key order", () => {
+    const evaluator = jsonSchemaValid({
+      type: "object",
+      properties: { point: { enum: [{ x: 1, y: 2 }] }, origin: { const: { x: 0, y: 0 } } },
+    });
+    assert.strictEqual(evaluator({ point: { y: 2, x: 1 }, origin: { y: 0, x: 0 } }), 1);
+    assert.strictEqual(evaluator({ point: { x: 2, y: 1 } }), 0);
+  });
+
+  void it("jsonSchemaValid validates against a zod schema", () => {
+    const evaluator = jsonSchemaValid(z.object({ answer: z.number().int() }));
+    assert.strictEqual(evaluator('{"answer": 42}'), 1);
+    assert.strictEqual(evaluator({ answer: 4.2 }), 0);
+  });
+
+  void it("numericTolerance checks absolute and relative tolerance", () => {
+    assert.strictEqual(numericTolerance()(1, 1), 1);
+    assert.strictEqual(numericTolerance()(1.1, 1), 0);
+    assert.strictEqual(numericTolerance({ absolute: 0.2 })("1.1", 1), 1);
+    assert.strictEqual(numericTolerance({ relative: 0.05 })(104, 100), 1);
+    assert.strictEqual(numericTolerance({ relative: 0.05 })(106, 100), 0);
+    assert.strictEqual(numericTolerance()("n/a", 1), 0);
+  });
+});
+
+void describe("model evaluators", () => {
+  const exporter = new InMemorySpanExporter();
+
+  void beforeEach(() => {
+    _resetConfiguration();
+    initializeTracing({ exporter, disableBatch: true });
+  });
+
+  void afterEach(() => {
+    exporter.reset();
+    nock.cleanAll();
+  });
+
+  void after(async () => {
+    await exporter.shutdown();
+  });
+
+  void it("llmJudge parses the score and rejects scores outside the scale", async () => {
+    const model = createMockJudgeModel('```json\n{"reasoning": "ok", "score": 4}\n```');
+    const judge = llmJudge({ model: model as any, rubric: "Rate clarity", scale: [1, 5] });
+
+    assert.strictEqual(await judge("answer", "expected", "question"), 4);
+    const [prompt] = model.prompts as { role: string; content: any }[][];
+    assert.strictEqual(prompt[0].role, "system");
+    const userText = (prompt[1].content as { text: string }[])[0].text;
+    assert.ok(userText.includes("Rubric:\nRate clarity"));
+    assert.ok(userText.includes("Input:\nquestion"));
+    assert.ok(userText.includes("Output to grade:\nanswer"));
+
+    const outOfScale = llmJudge({ model: createMockJudgeModel("Score: 7") as any, rubric: "r" });
+    await assert.rejects(async () => outOfScale("answer"), /outside of the scale/);
+    const unparseable = llmJudge({
+      model: createMockJudgeModel("great answer") as any,
+      rubric: "r",
+    });
+    await assert.rejects(async () => unparseable("answer"), /Could not parse a score/);
+  });
+
+  void it("llmJudge is traced as an LLM span under the evaluator span", async () => {
+    const baseUrl = "https://api.lmnr.ai";
+    const mockEvalId = "00000000-0000-0000-0000-000000000006";
+    nock(baseUrl)
+      .post("/v1/evals")
+      .reply(200, { id: mockEvalId, projectId: "mock-project-id" });
+    nock(baseUrl)
+      .post(`/v1/evals/${mockEvalId}/datapoints`)
+      .times(2)
+      .reply(200, {});
+
+    const result = await evaluate({
+      data: [{ data: "question", target: "answer" }],
+      executor: (data) => data,
+      evaluators: {
+        judge: llmJudge({ model: createMockJudgeModel('{"score": 1}') as any, rubric: "r" }),
+      },
+      config: { projectApiKey: "test" },
+    });
+
+    await Laminar.flush();
+
+    assert.deepStrictEqual(result?.averageScores, { judge: 1 });
+    const spans = exporter.getFinishedSpans();
+    const evaluatorSpan = spans.find((span) => span.name === "judge");
+    const llmSpan = spans.find((span) => span.name === "llm_judge");
+    assert.ok(evaluatorSpan && llmSpan);
+    assert.strictEqual(evaluatorSpan.attributes["lmnr.span.type"], "EVALUATOR");
+    assert.strictEqual(llmSpan.attributes["lmnr.span.type"], "LLM");
+    assert.strictEqual(llmSpan.parentSpanContext?.spanId, evaluatorSpan.spanContext().spanId);
+    assert.strictEqual(llmSpan.attributes["gen_ai.system"], "openai");
+    assert.strictEqual(llmSpan.attributes["gen_ai.request.model"], "judge-model");
+    assert.strictEqual(llmSpan.attributes["gen_ai.usage.input_tokens"], 10);
+    assert.strictEqual(llmSpan.attributes["gen_ai.usage.output_tokens"], 5);
+  });
+
+  void it("embeddingSimilarity returns the cosine similarity", async () => {
+    const embeddings: Record<string, number[]> = { a: [1, 0], b: [1, 1], c: [0, 1] };
+    const model = {
+      specificationVersion: "v3" as const,
+      provider: "test",
+      modelId: "test",
+      maxEmbeddingsPerCall: undefined,
+      supportsParallelCalls: true,
+      // eslint-disable-next-line @typescript-eslint/require-await
+      doEmbed: async ({ values }: { values: string[] }) => ({
+        embeddings: values.map((value) => embeddings[value]),
+        warnings: [],
+      }),
+    };
+    const evaluator = embeddingSimilarity({ model });
+    assert.ok(Math.abs((await evaluator("a", "b") as number) - Math.SQRT1_2) < 1e-9);
+    assert.strictEqual(await evaluator("a", "c"), 0);
+  });
+});
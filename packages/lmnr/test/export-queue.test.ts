@@ -0,0 +1,145 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, readdirSync, rmSync, statSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, describe, it } from "node:test";
+
+import { context, trace } from "@opentelemetry/api";
+import { type ExportResult, ExportResultCode } from "@opentelemetry/core";
+import {
+  InMemorySpanExporter,
+  type ReadableSpan,
+  type SpanExporter,
+} from "@opentelemetry/sdk-trace-base";
+
+import { Laminar, observe } from "../src/index";
+import { _resetConfiguration, initializeTracing } from "../src/opentelemetry-lib/configuration";
+import { DurableSpanExporter } from "../src/opentelemetry-lib/tracing/export-queue";
+
+/**
+ * Exporter that fails while `online` is false and records what it exported.
+ */
+class FlakyExporter implements SpanExporter {
+  public online = false;
+  public exported: ReadableSpan[] = [];
+
+  export(spans: ReadableSpan[], resultCallback: (result: ExportResult) => void): void {
+    if (!this.online) {
+      resultCallback({ code: ExportResultCode.FAILED, error: new Error("unavailable") });
+      return;
+    }
+    this.exported.push(...spans);
+    resultCallback({ code: ExportResultCode.SUCCESS });
+  }
+
+  async shutdown(): Promise<void> {}
+}
+
+const exportBatch = (exporter: SpanExporter, spans: ReadableSpan[]) =>
+  new Promise<ExportResult>((resolve) => exporter.export(spans, resolve));
+
+const waitFor = async (condition: () => Promise<boolean> | boolean) => {
+  for (let i = 0; i < 200; i++) {
+    if (await condition()) return;
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+  assert.fail("Timed out waiting for the export queue");
+};
+
+void describe("DurableSpanExporter", () => {
+  let spans: ReadableSpan[];
+
+  void before(() => {
+    const memoryExporter = new InMemorySpanExporter();
+    _resetConfiguration();
+    initializeTracing({ exporter: memoryExporter, disableBatch: true });
+    Object.defineProperty(Laminar, "isInitialized", { value: true, writable: true });
+    observe({ name: "agent", metadata: { run: 1 } }, () => {
+      observe({ name: "tool" }, () => "done");
+    });
+    spans = memoryExporter.getFinishedSpans();
+  });
+
+  void after(() => {
+    trace.disable();
+    context.disable();
+  });
+
+  void it("queues failed batches and retries them with backoff", async () => {
+    const directory = mkdtempSync(join(tmpdir(), "lmnr-export-queue-"));
+    const inner = new FlakyExporter();
+    const exporter = new DurableSpanExporter(inner, { directory, initialBackoffMillis: 20 });
+
+    assert.equal((await exportBatch(exporter, spans)).code, ExportResultCode.SUCCESS);
+    assert.deepEqual(await exporter.metrics(), {
+      pendingBatches: 1,
+      pendingSpans: 2,
+      queuedSpans: 2,
+      retriedSpans: 0,
+      droppedSpans: 0,
+    });
+
+    inner.online = true;
+    await waitFor(async () => (await exporter.metrics()).pendingBatches === 0);
+    assert.equal((await exporter.metrics()).retriedSpans, 2);
+    assert.deepEqual(inner.exported.map((span) => span.name).sort(), ["agent", "tool"]);
+    await exporter.shutdown();
+  });
+
+  void it("sends batches left by a previous process", async () => {
+    const directory = mkdtempSync(join(tmpdir(), "lmnr-export-queue-"));
+    const previous = new DurableSpanExporter(new FlakyExporter(), { directory });
+    await exportBatch(previous, spans);
+    await previous.shutdown();
+
+    const inner = new FlakyExporter();
+    inner.online = true;
+    const exporter = new DurableSpanExporter(inner, { directory });
+    await waitFor(() => readdirSync(directory).length === 0);
+    assert.equal(inner.exported.length, 2);
+
+    const [original, restored] = [spans, inner.exported].map(
+      (list) => list.find((span) => span.name === "tool")!,
+    );
+    assert.deepEqual(restored.spanContext(), original.spanContext());
+    assert.equal(
+      (restored as unknown as { parentSpanContext: { spanId: string } }).parentSpanContext.spanId,
+      (original as unknown as { parentSpanContext: { spanId: string } }).parentSpanContext.spanId,
+    );
+    assert.deepEqual(restored.attributes, original.attributes);
+    assert.deepEqual(restored.startTime, original.startTime);
+    assert.deepEqual(restored.resource.attributes, original.resource.attributes);
+    assert.equal(restored.instrumentationScope.name, original.instrumentationScope.name);
+    await exporter.shutdown();
+  });
+
+  void it("drops the oldest and expired batches", async () => {
+    const directory = mkdtempSync(join(tmpdir(), "lmnr-export-queue-"));
+    const probe = new DurableSpanExporter(new FlakyExporter(), { directory });
+    await exportBatch(probe, spans);
+    await probe.shutdown();
+    const [batch] = readdirSync(directory);
+    const batchBytes = statSync(join(directory, batch)).size;
+    rmSync(join(directory, batch));
+
+    writeFileSync(join(directory, `${Date.now() - 60_000}-3-old.json`), "[]");
+    const exporter = new DurableSpanExporter(new FlakyExporter(), {
+      directory,
+      maxAgeMillis: 30_000,
+      maxBytes: batchBytes * 2,
+      initialBackoffMillis: 60_000,
+    });
+
+    for (let i = 0; i < 3; i++) {
+      await exportBatch(exporter, spans);
+    }
+    assert.deepEqual(await exporter.metrics(), {
+      pendingBatches: 2,
+      pendingSpans: 4,
+      queuedSpans: 6,
+      retriedSpans: 0,
+      droppedSpans: 3 + 2,
+    });
+    await exporter.shutdown();
+  });
+});
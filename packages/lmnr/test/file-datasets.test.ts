@@ -0,0 +1,119 @@
+import assert from "node:assert";
+import { mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, it } from "node:test";
+
+import { CsvDataset, Dataset, JsonlDataset, ParquetDataset } from "../src";
+
+const writeTempFile = (name: string, content: string): string => {
+  const path = join(mkdtempSync(join(tmpdir(), "lmnr-datasets-")), name);
+  writeFileSync(path, content);
+  return path;
+};
+
+const readAll = async (dataset: Dataset<unknown, unknown>) =>
+  dataset.slice(0, await dataset.size());
+
+void describe("JsonlDataset", () => {
+  void it("reads rows by index across batches", async () => {
+    const path = writeTempFile(
+      "data.jsonl",
+      Array.from({ length: 7 }, (_, i) => JSON.stringify({ q: `é${i}`, a: i })).join("\n")
+        + "\n\n",
+    );
+    const dataset = new JsonlDataset(path, {
+      columns: { data: "q", target: "a" },
+      batchSize: 3,
+    });
+
+    assert.strictEqual(await dataset.size(), 7);
+    assert.deepStrictEqual(await dataset.get(5), { data: "é5", target: 5, metadata: undefined });
+    assert.deepStrictEqual(await dataset.get(1), { data: "é1", target: 1, metadata: undefined });
+    assert.deepStrictEqual(
+      (await readAll(dataset)).map((datapoint) => datapoint.data),
+      ["é0", "é1", "é2", "é3", "é4", "é5", "é6"],
+    );
+    await assert.rejects(async () => dataset.get(7), RangeError);
+  });
+
+  void it("uses datapoint-shaped rows as they are", async () => {
+    const path = writeTempFile(
+      "data.jsonl",
+      '{"data": {"x": 1}, "target": 2, "metadata": {"k": "v"}}\r\n{"x": 3}\r\n',
+    );
+    assert.deepStrictEqual(await readAll(new JsonlDataset(path)), [
+      { data: { x: 1 }, target: 2, metadata: { k: "v" } },
+      { data: { x: 3 } },
+    ]);
+  });
+});
+
+void describe("CsvDataset", () => {
+  void it("parses quoted fields and maps columns", async () => {
+    const path = writeTempFile(
+      "data.csv",
+      "﻿question,context,answer,category\n"
+      + 'q1,"multi\nline, with ""quotes""",a1,easy\n'
+      + 'q2,"{""k"": 1}",a2,hard\n',
+    );
+    const dataset = new CsvDataset(path, {
+      columns: { target: "answer", metadata: ["category"] },
+    });
+
+    assert.deepStrictEqual(await readAll(dataset), [
+      {
+        data: { question: "q1", context: 'multi\nline, with "quotes"' },
+        target: "a1",
+        metadata: { category: "easy" },
+      },
+      {
+        data: { question: "q2", context: { k: 1 } },
+        target: "a2",
+        metadata: { category: "hard" },
+      },
+    ]);
+  });
+
+  void it("keeps quotes inside unquoted fields as they are", async () => {
+    const path = writeTempFile(
+      "data.csv",
+      "question,answer\n"
+      + 'the 5" screen,"a ""b"""\n'
+      + "q2,a2\n",
+    );
+
+    assert.deepStrictEqual(await readAll(new CsvDataset(path)), [
+      { data: { question: 'the 5" screen', answer: 'a "b"' } },
+      { data: { question: "q2", answer: "a2" } },
+    ]);
+  });
+});
+
+void describe("ParquetDataset", () => {
+  const dataDir = join(__dirname, "data", "datasets");
+
+  void it("reads rows a row group at a time", async () => {
+    // 5 rows of question, answer (INT64) and category, in row groups of 2
+    const dataset = new ParquetDataset(join(dataDir, "questions.parquet"), {
+      mapRow: (row, index) => ({
+        data: row.question as string,
+        target: row.answer as number,
+        metadata: { category: row.category, index },
+      }),
+    });
+
+    assert.strictEqual(await dataset.size(), 5);
+    assert.deepStrictEqual(await dataset.get(3), {
+      data: "q3",
+      target: 6,
+      metadata: { category: "odd", index: 3 },
+    });
+    assert.deepStrictEqual(
+      (await readAll(dataset)).map((datapoint) => datapoint.target),
+      [0, 2, 4, 6, 8],
+    );
+    const odd = dataset.filter((datapoint) => datapoint.metadata?.category === "odd");
+    assert.deepStrictEqual((await readAll(odd)).map((datapoint) => datapoint.data), ["q1", "q3"]);
+  });
+});
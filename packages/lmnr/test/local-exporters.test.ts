@@ -0,0 +1,105 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, readFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, afterEach, describe, it } from "node:test";
+
+import { context, trace } from "@opentelemetry/api";
+
+import { ConsoleSpanExporter, Laminar, observe } from "../src/index";
+import { _resetConfiguration, initializeTracing } from "../src/opentelemetry-lib/configuration";
+import { LaminarAttributes } from "../src/opentelemetry-lib/tracing/attributes";
+import { isLocalExporterEnv } from "../src/opentelemetry-lib/tracing/local-exporters";
+
+void describe("local exporters", () => {
+  const initialize = (options: Parameters<typeof initializeTracing>[0] = {}) => {
+    _resetConfiguration();
+    initializeTracing({ disableBatch: true, ...options });
+    Object.defineProperty(Laminar, "isInitialized", { value: true, writable: true });
+  };
+
+  void afterEach(() => {
+    delete process.env.LMNR_EXPORTER;
+  });
+
+  void after(() => {
+    trace.disable();
+    context.disable();
+  });
+
+  void it("prints each trace as a tree with span paths, tokens and cost", () => {
+    let output = "";
+    initialize({ exporter: new ConsoleSpanExporter({ write: (text) => { output += text; } }) });
+
+    observe({ name: "agent" }, () => {
+      observe({ name: "plan", spanType: "LLM" }, () => {
+        Laminar.setSpanAttributes({
+          [LaminarAttributes.INPUT_TOKEN_COUNT]: 1000,
+          [LaminarAttributes.OUTPUT_TOKEN_COUNT]: 234,
+          [LaminarAttributes.TOTAL_COST]: 0.0042,
+        });
+      });
+      observe({ name: "search", spanType: "TOOL" }, () => "results");
+    });
+
+    const lines = output.trimEnd().split("\n");
+    assert.equal(lines.length, 4);
+    assert.match(lines[0], /^Trace [0-9a-f-]{36}$/);
+    assert.match(lines[1], /^ {2}agent {2}DEFAULT {2}\d+ms$/);
+    assert.match(lines[2], /^ {4}agent > plan {2}LLM {2}\d+ms {2}1,234 tokens {2}\$0\.004200$/);
+    assert.match(lines[3], /^ {4}agent > search {2}TOOL {2}\d+ms$/);
+  });
+
+  void it("writes OTLP JSON lines to the file selected by LMNR_EXPORTER", () => {
+    const path = join(mkdtempSync(join(tmpdir(), "lmnr-file-exporter-")), "traces", "spans.jsonl");
+    process.env.LMNR_EXPORTER = `file:${path}`;
+    initialize();
+
+    observe({ name: "outer" }, () => {
+      observe({ name: "inner" }, () => "done");
+    });
+
+    const requests = readFileSync(path, "utf-8").trimEnd().split("\n").map(
+      (line) => JSON.parse(line) as {
+        resourceSpans: {
+          scopeSpans: {
+            spans: {
+              name: string;
+              traceId: string;
+              spanId: string;
+              parentSpanId?: string;
+              attributes: { key: string; value: Record<string, unknown> }[];
+            }[];
+          }[];
+        }[];
+      },
+    );
+    // One request per exported batch, and batching is disabled
+    assert.equal(requests.length, 2);
+    const [inner, outer] = requests.map(
+      (request) => request.resourceSpans[0].scopeSpans[0].spans[0],
+    );
+    assert.equal(inner.name, "inner");
+    assert.equal(outer.name, "outer");
+    assert.equal(inner.traceId, outer.traceId);
+    assert.equal(inner.parentSpanId, outer.spanId);
+    assert.equal(outer.parentSpanId, undefined);
+    assert.deepEqual(
+      inner.attributes.find((attribute) => attribute.key === "lmnr.span.path")?.value,
+      { arrayValue: { values: [{ stringValue: "outer" }, { stringValue: "inner" }] } },
+    );
+  });
+
+  void it("selects a local exporter only for console and file paths", () => {
+    for (const [value, expected] of [
+      ["console", true],
+      [" file:spans.jsonl ", true],
+      ["file:", false],
+      ["otlp", false],
+      ["", false],
+    ] as const) {
+      process.env.LMNR_EXPORTER = value;
+      assert.equal(isLocalExporterEnv(), expected, value);
+    }
+  });
+});
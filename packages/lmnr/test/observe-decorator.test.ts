@@ -1,10 +1,10 @@
 import assert from "node:assert/strict";
 import { after, afterEach, beforeEach, describe, it } from "node:test";
 
-import { context, trace } from "@opentelemetry/api";
+import { context, type Link, trace, TraceFlags } from "@opentelemetry/api";
 import { InMemorySpanExporter } from "@opentelemetry/sdk-trace-base";
 
-import { Laminar, observe, observeExperimentalDecorator } from "../src";
+import { Laminar, observe, observeDecorator, observeExperimentalDecorator } from "../src";
 import { getRuntime, resetDebugRuntime } from "../src/debug";
 import { _resetConfiguration, initializeTracing } from "../src/opentelemetry-lib/configuration";
 
@@ -255,4 +255,37 @@ void describe("observeExperimentalDecorator", () => {
       resetDebugRuntime();
     }
   });
+
+  void it("adds links to the spans of decorated methods", () => {
+    const links: Link[] = [{
+      context: {
+        traceId: "0af7651916cd43dd8448eb211c80319c",
+        spanId: "b7ad6b7169203331",
+        traceFlags: TraceFlags.SAMPLED,
+        isRemote: true,
+      },
+    }];
+    class Consumer {
+      @observeExperimentalDecorator({ name: "consume", links })
+      public consume(): string {
+        return "ok";
+      }
+    }
+    // Standard decorators are not compiled with `experimentalDecorators`, so
+    // apply it by hand
+    const consume = observeDecorator({ name: "consumeStandard", links })(
+      () => "ok",
+      { kind: "method", name: "consume" } as ClassMethodDecoratorContext<unknown, () => string>,
+    );
+
+    new Consumer().consume();
+    consume.call(undefined);
+
+    const spans = exporter.getFinishedSpans();
+    assert.strictEqual(spans.length, 2);
+    for (const span of spans) {
+      assert.strictEqual(span.links.length, 1);
+      assert.strictEqual(span.links[0].context.spanId, "b7ad6b7169203331");
+    }
+  });
 });
@@ -0,0 +1,154 @@
+import assert from "node:assert/strict";
+import * as http from "node:http";
+import { type AddressInfo } from "node:net";
+import { after, afterEach, before, describe, it } from "node:test";
+
+import { context, trace } from "@opentelemetry/api";
+import { InMemorySpanExporter, type ReadableSpan } from "@opentelemetry/sdk-trace-base";
+
+import { getRuntime, resetDebugRuntime } from "../src/debug/index";
+import { Laminar, observe } from "../src/index";
+import { _resetConfiguration, initializeTracing } from "../src/opentelemetry-lib/configuration";
+import {
+  SESSION_ID,
+  SPAN_IDS_PATH,
+  SPAN_PATH,
+  USER_ID,
+} from "../src/opentelemetry-lib/tracing/attributes";
+import { getParentSpanId } from "../src/opentelemetry-lib/tracing/compat";
+import {
+  disableHttpPropagation,
+  LAMINAR_SPAN_CONTEXT_HEADER,
+} from "../src/opentelemetry-lib/tracing/propagation";
+import { otelSpanIdToUUID } from "../src/utils";
+
+void describe("HTTP propagation", () => {
+  const exporter = new InMemorySpanExporter();
+  const spanNamed = (name: string): ReadableSpan =>
+    exporter.getFinishedSpans().find((span) => span.name === name)!;
+
+  void before(() => {
+    _resetConfiguration();
+    initializeTracing({
+      exporter,
+      disableBatch: true,
+      httpPropagation: { propagateTo: ["http://127.0.0.1"] },
+    });
+    Object.defineProperty(Laminar, "isInitialized", { value: true, writable: true });
+  });
+
+  void afterEach(() => {
+    exporter.reset();
+  });
+
+  void after(() => {
+    disableHttpPropagation();
+    trace.disable();
+    context.disable();
+  });
+
+  void it("continues the trace, span path and association properties", () => {
+    const headers = new Headers();
+    observe({ name: "caller", sessionId: "session-1", userId: "user-1" }, () => {
+      Laminar.injectHeaders(headers);
+    });
+    assert.match(headers.get("traceparent")!, /^00-[0-9a-f]{32}-[0-9a-f]{16}-01$/);
+    assert.ok(headers.get(LAMINAR_SPAN_CONTEXT_HEADER));
+
+    // The caller has ended, as it would have in another service
+    Laminar.withContext(Laminar.extractContext(headers), () => {
+      observe({ name: "callee" }, () => {});
+    });
+
+    const caller = spanNamed("caller");
+    const callee = spanNamed("callee");
+    assert.equal(callee.spanContext().traceId, caller.spanContext().traceId);
+    assert.equal(getParentSpanId(callee), caller.spanContext().spanId);
+    assert.deepEqual(callee.attributes[SPAN_PATH], ["caller", "callee"]);
+    assert.deepEqual(callee.attributes[SPAN_IDS_PATH], [
+      otelSpanIdToUUID(caller.spanContext().spanId),
+      otelSpanIdToUUID(callee.spanContext().spanId),
+    ]);
+    assert.equal(callee.attributes[SESSION_ID], "session-1");
+    assert.equal(callee.attributes[USER_ID], "user-1");
+  });
+
+  void it("follows traceparent when a service in between changed the parent", () => {
+    const headers: Record<string, string> = {};
+    observe({ name: "caller", sessionId: "session-1" }, () => {
+      Laminar.injectHeaders(headers);
+    });
+    const traceId = headers.traceparent.split("-")[1];
+    headers.traceparent = `00-${traceId}-00f067aa0ba902b7-01`;
+
+    Laminar.withContext(Laminar.extractContext(headers), () => {
+      observe({ name: "callee" }, () => {});
+    });
+
+    const callee = spanNamed("callee");
+    assert.equal(callee.spanContext().traceId, traceId);
+    assert.equal(getParentSpanId(callee), "00f067aa0ba902b7");
+    assert.deepEqual(callee.attributes[SPAN_PATH], ["callee"]);
+    assert.equal(callee.attributes[SESSION_ID], "session-1");
+  });
+
+  void it("propagates over fetch to http servers", async () => {
+    const received: http.IncomingHttpHeaders[] = [];
+    const server = http.createServer((req, res) => {
+      received.push(req.headers);
+      observe({ name: "handler" }, () => res.end("ok"));
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const { port } = server.address() as AddressInfo;
+
+    try {
+      await observe({ name: "agent" }, async () => {
+        await (await fetch(`http://127.0.0.1:${port}/run`)).text();
+        // Not in `propagateTo`
+        await (await fetch(`http://localhost:${port}/run`)).text();
+      });
+    } finally {
+      server.close();
+    }
+
+    assert.ok(received[0].traceparent);
+    assert.equal(received[1].traceparent, undefined);
+    assert.equal(received[1][LAMINAR_SPAN_CONTEXT_HEADER], undefined);
+
+    const agent = spanNamed("agent");
+    const handlers = exporter.getFinishedSpans().filter((span) => span.name === "handler");
+    assert.equal(handlers.length, 2);
+    assert.equal(handlers[0].spanContext().traceId, agent.spanContext().traceId);
+    assert.deepEqual(handlers[0].attributes[SPAN_PATH], ["agent", "handler"]);
+    assert.notEqual(handlers[1].spanContext().traceId, agent.spanContext().traceId);
+  });
+
+  void it("ignores the debug context of requests to http servers", async () => {
+    const headers: Record<string, string> = {};
+    observe({ name: "caller" }, () => {
+      Laminar.injectHeaders(headers);
+    });
+    const forged = {
+      ...JSON.parse(Buffer.from(headers[LAMINAR_SPAN_CONTEXT_HEADER], "base64url").toString()),
+      debug: { enabled: true, sessionId: "forged-session", cacheUntil: "0123456789abcdef" },
+    } as Record<string, unknown>;
+    headers[LAMINAR_SPAN_CONTEXT_HEADER] = JSON.stringify(forged);
+
+    const server = http.createServer((req, res) => {
+      observe({ name: "handler" }, () => res.end("ok"));
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const { port } = server.address() as AddressInfo;
+    resetDebugRuntime();
+    try {
+      await (await fetch(`http://127.0.0.1:${port}/run`, { headers })).text();
+      Laminar.extractContext(headers);
+    } finally {
+      server.close();
+    }
+
+    assert.equal(getRuntime(), null);
+    const handler = spanNamed("handler");
+    assert.equal(handler.spanContext().traceId, spanNamed("caller").spanContext().traceId);
+  });
+});
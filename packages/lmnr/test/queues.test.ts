@@ -0,0 +1,185 @@
+import assert from "node:assert/strict";
+import { after, afterEach, before, describe, it } from "node:test";
+
+import { context, trace } from "@opentelemetry/api";
+import { InMemorySpanExporter, type ReadableSpan } from "@opentelemetry/sdk-trace-base";
+
+import { Laminar, observe, observeMessage } from "../src/index";
+import { _resetConfiguration, initializeTracing } from "../src/opentelemetry-lib/configuration";
+import {
+  patchBullMQ,
+  patchKafkaJS,
+} from "../src/opentelemetry-lib/instrumentation/queues";
+import {
+  SESSION_ID,
+  SPAN_INPUT,
+  SPAN_PATH,
+} from "../src/opentelemetry-lib/tracing/attributes";
+import { getParentSpanId } from "../src/opentelemetry-lib/tracing/compat";
+
+/* eslint-disable @typescript-eslint/require-await */
+
+type Job = { name: string; data: unknown; queueName: string };
+type Message = { value: Buffer | string | null; headers?: Record<string, unknown> };
+type Batch = { topic: string; partition: number; messages: Message[] };
+
+// Minimal fakes of `bullmq` and `kafkajs` that deliver jobs and messages to
+// the worker or consumer registered last, without Redis or a Kafka broker.
+const makeFakeBullMQ = () => {
+  const jobs: Job[] = [];
+  class Queue {
+    constructor(public readonly name: string) { }
+    async add(name: string, data: unknown) {
+      jobs.push({ name, data, queueName: this.name });
+    }
+    async addBulk(bulk: { name: string; data: unknown }[]) {
+      bulk.forEach(({ name, data }) => jobs.push({ name, data, queueName: this.name }));
+    }
+  }
+  class Worker {
+    constructor(
+      public readonly name: string,
+      public readonly processor?: unknown,
+    ) { }
+    async callProcessJob(job: Job) {
+      return (this.processor as (job: Job) => Promise<unknown>)(job);
+    }
+    async runAll() {
+      for (const job of jobs.splice(0)) {
+        await this.callProcessJob(job);
+      }
+    }
+  }
+  // Like the namespace of `import * as bullmq from "bullmq"`
+  return Object.freeze({ Queue, Worker });
+};
+
+const makeFakeKafkaJS = () => {
+  const topics = new Map<string, Message[]>();
+  class Kafka {
+    producer() {
+      return {
+        send: async ({ topic, messages }: { topic: string; messages: Message[] }) => {
+          topics.set(topic, [...topics.get(topic) ?? [], ...messages]);
+        },
+        sendBatch: async () => { },
+      };
+    }
+    consumer() {
+      return {
+        run: async (config?: {
+          eachMessage?: (payload: Omit<Batch, "messages"> & { message: Message }) => Promise<void>;
+          eachBatch?: (payload: { batch: Batch }) => Promise<void>;
+        }) => {
+          const { eachMessage, eachBatch } = config ?? {};
+          for (const [topic, messages] of topics) {
+            topics.delete(topic);
+            await eachBatch?.({ batch: { topic, partition: 0, messages } });
+            for (const message of eachMessage ? messages : []) {
+              await eachMessage!({ topic, partition: 0, message });
+            }
+          }
+        },
+      };
+    }
+  }
+  return { Kafka };
+};
+
+void describe("queue propagation", () => {
+  const exporter = new InMemorySpanExporter();
+  const spansNamed = (name: string): ReadableSpan[] =>
+    exporter.getFinishedSpans().filter((span) => span.name === name);
+
+  void before(() => {
+    _resetConfiguration();
+    initializeTracing({ exporter, disableBatch: true });
+    Object.defineProperty(Laminar, "isInitialized", { value: true, writable: true });
+  });
+
+  void afterEach(() => {
+    exporter.reset();
+  });
+
+  void after(() => {
+    trace.disable();
+    context.disable();
+  });
+
+  void it("continues the trace of BullMQ jobs in their worker", async () => {
+    const bullmq = makeFakeBullMQ();
+    patchBullMQ(bullmq);
+    const queue = new bullmq.Queue("emails");
+    const processed: unknown[] = [];
+    const worker = new bullmq.Worker("emails", async (job: Job) => {
+      processed.push(job.data);
+      observe({ name: "send" }, () => { });
+      return "sent";
+    });
+
+    await observe({ name: "signup", sessionId: "session-1" }, async () => {
+      await queue.add("welcome", { to: "a@example.com" });
+      await queue.addBulk([{ name: "digest", data: "not an object" }]);
+    });
+    await worker.runAll();
+
+    const signup = spansNamed("signup")[0];
+    const [welcome, digest] = spansNamed("process emails");
+    assert.equal(welcome.spanContext().traceId, signup.spanContext().traceId);
+    assert.equal(getParentSpanId(welcome), signup.spanContext().spanId);
+    assert.deepEqual(welcome.attributes[SPAN_PATH], ["signup", "process emails"]);
+    assert.equal(welcome.attributes[SESSION_ID], "session-1");
+    assert.deepEqual(
+      JSON.parse(welcome.attributes[SPAN_INPUT] as string),
+      { name: "welcome", data: { to: "a@example.com" } },
+    );
+    assert.deepEqual(
+      spansNamed("send")[0].attributes[SPAN_PATH],
+      ["signup", "process emails", "send"],
+    );
+    assert.deepEqual(processed[0], { to: "a@example.com" });
+
+    // Data that is not a plain object is not changed, so the job starts a new trace
+    assert.equal(processed[1], "not an object");
+    assert.notEqual(digest.spanContext().traceId, signup.spanContext().traceId);
+  });
+
+  void it("links Kafka consumer spans to the producer in link mode", async () => {
+    const kafkajs = makeFakeKafkaJS();
+    patchKafkaJS(kafkajs, { consumeMode: "link" });
+    const kafka = new kafkajs.Kafka();
+    const producer = kafka.producer();
+
+    await observe({ name: "publish" }, async () => {
+      await producer.send({ topic: "orders", messages: [{ value: "1" }, { value: "2" }] });
+    });
+    let batchSize = 0;
+    await kafka.consumer().run({
+      eachBatch: async ({ batch }) => {
+        batchSize = batch.messages.length;
+      },
+    });
+
+    const publish = spansNamed("publish")[0];
+    const [consume] = spansNamed("process orders");
+    assert.equal(batchSize, 2);
+    assert.notEqual(consume.spanContext().traceId, publish.spanContext().traceId);
+    assert.equal(getParentSpanId(consume), undefined);
+    assert.equal(consume.links.length, 2);
+    assert.equal(consume.links[0].context.spanId, publish.spanContext().spanId);
+  });
+
+  void it("falls back to traceparent for messages of other producers", () => {
+    const traceparent = "00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01";
+    observe({ name: "outer" }, () => {
+      observeMessage(
+        { name: "process jobs", carrier: { traceparent: { StringValue: traceparent } } },
+        () => { },
+      );
+    });
+
+    const consume = spansNamed("process jobs")[0];
+    assert.equal(consume.spanContext().traceId, "4bf92f3577b34da6a3ce929d0e0e4736");
+    assert.equal(getParentSpanId(consume), "00f067aa0ba902b7");
+  });
+});
@@ -0,0 +1,168 @@
+import assert from "node:assert/strict";
+import { createHash } from "node:crypto";
+import { after, afterEach, describe, it } from "node:test";
+
+import { context, trace } from "@opentelemetry/api";
+import { InMemorySpanExporter, type ReadableSpan, type Span } from "@opentelemetry/sdk-trace-base";
+
+import {
+  keepErrors,
+  keepTagged,
+  keepTotalTokensAbove,
+  Laminar,
+  LaminarAttributes,
+  type LaminarSpanContext,
+  observe,
+  type SamplingOptions,
+} from "../src/index";
+import { _resetConfiguration, initializeTracing } from "../src/opentelemetry-lib/configuration";
+import { isTraceIdSampled, TailSampler } from "../src/opentelemetry-lib/tracing/sampling";
+
+void describe("sampling", () => {
+  const exporter = new InMemorySpanExporter();
+
+  const initialize = (sampling: SamplingOptions) => {
+    _resetConfiguration();
+    initializeTracing({ exporter, disableBatch: true, sampling });
+    Object.defineProperty(Laminar, "isInitialized", {
+      value: true,
+      writable: true,
+    });
+  };
+
+  const exportedNames = () =>
+    exporter.getFinishedSpans().map((span) => span.name).sort();
+
+  void afterEach(() => {
+    exporter.reset();
+  });
+
+  void after(async () => {
+    await exporter.shutdown();
+    trace.disable();
+    context.disable();
+  });
+
+  void it("decides consistently per trace id", () => {
+    assert.equal(isTraceIdSampled("0af7651916cd43dd8448eb211c80319c", 1), true);
+    assert.equal(isTraceIdSampled("0af7651916cd43dd8448eb211c80319c", 0), false);
+    assert.equal(isTraceIdSampled("0af7651916cd43dd00000000000000ff", 0.01), true);
+    assert.equal(isTraceIdSampled("0af7651916cd43ddffffffffffffff00", 0.99), false);
+
+    const traceIds = Array.from(
+      { length: 1000 },
+      (_, i) => createHash("md5").update(String(i)).digest("hex"),
+    );
+    const kept = traceIds.filter((traceId) => isTraceIdSampled(traceId, 0.25)).length;
+    assert.ok(kept > 150 && kept < 350, `kept ${kept} of 1000`);
+  });
+
+  void it("drops whole traces that are not head-sampled", () => {
+    initialize({ ratio: 0 });
+    let spanContext: LaminarSpanContext | null = null;
+    observe({ name: "root" }, () => {
+      observe({ name: "child" }, () => {
+        spanContext = Laminar.getLaminarSpanContext();
+      });
+    });
+
+    assert.deepEqual(exportedNames(), []);
+    assert.equal(spanContext!.sampled, false);
+  });
+
+  void it("keeps dropped traces that match a tail rule", () => {
+    initialize({ ratio: 0, rules: [keepErrors(), keepTagged("keep")] });
+
+    observe({ name: "ok" }, () => observe({ name: "ok-child" }, () => "ok"));
+    assert.deepEqual(exportedNames(), []);
+
+    assert.throws(() => observe({ name: "failing" }, () => {
+      observe({ name: "failing-child" }, () => {
+        throw new Error("boom");
+      });
+    }));
+    assert.deepEqual(exportedNames(), ["failing", "failing-child"]);
+    exporter.reset();
+
+    observe({ name: "tagged", tags: ["keep"] }, () => "ok");
+    assert.deepEqual(exportedNames(), ["tagged"]);
+  });
+
+  void it("keeps traces above a token count", () => {
+    initialize({ ratio: 0, rules: [keepTotalTokensAbove(1000)] });
+    const llmCall = (tokens: number) => observe({ name: "llm", spanType: "LLM" }, () => {
+      trace.getActiveSpan()?.setAttribute(LaminarAttributes.INPUT_TOKEN_COUNT, tokens);
+      trace.getActiveSpan()?.setAttribute(LaminarAttributes.OUTPUT_TOKEN_COUNT, tokens);
+    });
+
+    observe({ name: "small" }, () => {
+      llmCall(200);
+      llmCall(200);
+    });
+    assert.deepEqual(exportedNames(), []);
+
+    observe({ name: "large" }, () => {
+      llmCall(300);
+      llmCall(300);
+    });
+    assert.deepEqual(exportedNames(), ["large", "llm", "llm"]);
+  });
+
+  void it("follows the decision of a propagated span context", () => {
+    const parentSpanContext: LaminarSpanContext = {
+      traceId: "0af76519-16cd-43dd-8448-eb211c80319c",
+      spanId: "00000000-0000-0000-b7ad-6b7169203331",
+      isRemote: true,
+    };
+
+    initialize({ ratio: 1 });
+    observe(
+      { name: "unsampled", parentSpanContext: { ...parentSpanContext, sampled: false } },
+      () => "ok",
+    );
+    assert.deepEqual(exportedNames(), []);
+
+    initialize({ ratio: 0 });
+    observe(
+      { name: "sampled", parentSpanContext: { ...parentSpanContext, sampled: true } },
+      () => "ok",
+    );
+    assert.deepEqual(exportedNames(), ["sampled"]);
+  });
+
+  void it("exports head-sampled spans as they end", () => {
+    initialize({ ratio: 1, rules: [keepErrors()] });
+    observe({ name: "root" }, () => {
+      observe({ name: "child" }, () => "ok");
+      assert.deepEqual(exportedNames(), ["child"]);
+    });
+    assert.deepEqual(exportedNames(), ["child", "root"]);
+  });
+
+  void it("decides open traces on flush", async () => {
+    initialize({ ratio: 0, rules: [keepTagged("keep")] });
+    await observe({ name: "root" }, async () => {
+      observe({ name: "tagged", tags: ["keep"] }, () => "ok");
+      await Laminar.flush();
+      assert.deepEqual(exportedNames(), ["tagged"]);
+    });
+    assert.deepEqual(exportedNames(), ["root", "tagged"]);
+  });
+
+  void it("decides the oldest trace early when too many are buffered", () => {
+    const ended: ReadableSpan[] = [];
+    const sampler = new TailSampler({ onEnd: (span) => ended.push(span) }, {
+      rules: [({ spans }) => spans.length > 0],
+    });
+    const spans = Array.from({ length: 1001 }, (_, i) => ({
+      spanContext: () => ({ traceId: i.toString(16).padStart(32, "0"), spanId: "", traceFlags: 0 }),
+    }) as unknown as Span);
+
+    spans.forEach((span) => sampler.onStart(span));
+    // Decided on no spans, so dropped
+    sampler.onEnd(spans[0]);
+    assert.deepEqual(ended, []);
+    sampler.onEnd(spans[1]);
+    assert.equal(ended.length, 1);
+  });
+});
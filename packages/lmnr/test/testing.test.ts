@@ -0,0 +1,114 @@
+import assert from "node:assert/strict";
+import { after, beforeEach, describe, it } from "node:test";
+
+import { context, trace } from "@opentelemetry/api";
+
+import { observe } from "../src/index";
+import { LaminarAttributes } from "../src/opentelemetry-lib/tracing/attributes";
+import { Laminar, type TraceRecorder } from "../src/testing";
+
+void describe("TraceRecorder", () => {
+  let recorder: TraceRecorder;
+
+  void beforeEach(() => {
+    recorder = Laminar.initializeForTesting();
+  });
+
+  void after(async () => {
+    await Laminar.shutdown();
+    trace.disable();
+    context.disable();
+  });
+
+  const runAgent = () => observe(
+    {
+      name: "agent",
+      sessionId: "session-1",
+      userId: "user-1",
+      tags: ["support"],
+      metadata: { plan: "pro", limits: { daily: 10 } },
+    },
+    (question: string) => {
+      observe({ name: "llm", spanType: "LLM" }, () => {
+        Laminar.setSpanAttributes({
+          [LaminarAttributes.INPUT_TOKEN_COUNT]: 12,
+          [LaminarAttributes.OUTPUT_TOKEN_COUNT]: 30,
+        });
+        return { answer: "42" };
+      });
+      return `answered ${question}`;
+    },
+    "life",
+  );
+
+  void it("records traces with typed accessors", () => {
+    runAgent();
+
+    assert.equal(Laminar.initializeForTesting(), recorder);
+    assert.equal(recorder.getSpans().length, 0);
+    runAgent();
+
+    const traceRecord = recorder.getTrace();
+    assert.equal(recorder.getTraces().length, 1);
+    assert.deepEqual(
+      recorder.getTrace(traceRecord.traceId.replace(/-/g, "")).spans.map((span) => span.name),
+      ["llm", "agent"],
+    );
+    const agent = traceRecord.expectSpanPath(["agent"]);
+    assert.deepEqual(agent.input, ["life"]);
+    assert.equal(agent.output, "answered life");
+    assert.deepEqual(agent.tags, ["support"]);
+    assert.deepEqual(agent.metadata, { plan: "pro", limits: { daily: 10 } });
+    assert.equal(agent.sessionId, "session-1");
+    assert.equal(agent.userId, "user-1");
+    assert.deepEqual(traceRecord.rootSpans, [agent]);
+
+    const llm = recorder.findSpan({ spanType: "LLM" })!;
+    assert.deepEqual(llm.path, ["agent", "llm"]);
+    assert.equal(llm.parentSpanId, agent.spanId);
+    assert.deepEqual(llm.output, { answer: "42" });
+    assert.deepEqual(llm.usage, { inputTokens: 12, outputTokens: 30, totalTokens: 42 });
+    assert.equal(recorder.findSpan({ name: /^ag/, spanType: "LLM" }), undefined);
+
+    assert.throws(
+      () => recorder.expectSpanPath(["agent", "tool"]),
+      /Expected a span with path "agent > tool". Recorded span paths:\n {2}agent > llm\n {2}agent/,
+    );
+  });
+
+  void it("serializes traces for snapshots without ids and timestamps", () => {
+    runAgent();
+    runAgent();
+
+    const snapshots = recorder.toSnapshot();
+    assert.equal(snapshots.length, 2);
+    assert.deepEqual(snapshots[0], snapshots[1]);
+    assert.deepEqual(snapshots[0], [{
+      name: "agent",
+      spanType: "DEFAULT",
+      input: ["life"],
+      output: "answered life",
+      tags: ["support"],
+      metadata: { plan: "pro", limits: { daily: 10 } },
+      sessionId: "session-1",
+      userId: "user-1",
+      children: [{
+        name: "llm",
+        spanType: "LLM",
+        input: {},
+        output: { answer: "42" },
+        sessionId: "session-1",
+        userId: "user-1",
+        metadata: { plan: "pro", limits: { daily: 10 } },
+        usage: { inputTokens: 12, outputTokens: 30, totalTokens: 42 },
+      }],
+    }]);
+  });
+
+  void it("records errors", () => {
+    assert.throws(() => observe({ name: "failing" }, () => {
+      throw new Error("boom");
+    }));
+    assert.equal(recorder.getTrace().expectSpanPath(["failing"]).error, "boom");
+  });
+});
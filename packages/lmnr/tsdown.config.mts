@@ -3,6 +3,8 @@ import { defineConfig } from "tsdown";
 export default defineConfig({
   entry: [
     "src/index.ts",
+    "src/evaluators/index.ts",
+    "src/testing/index.ts",
     "src/opentelemetry-lib/instrumentation/temporal/workflow-interceptors.ts",
     "src/cli.ts",
   ],
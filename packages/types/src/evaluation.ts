@@ -14,6 +14,21 @@ export type Dataset = {
   createdAt: string;
 };
 
+/**
+ * An immutable snapshot of a dataset's datapoints.
+ */
+export type DatasetVersion = {
+  id: StringUUID;
+  datasetId: StringUUID;
+  // Sequential number of the version within the dataset, starting at 1
+  version: number;
+  // Optional human-readable tag, e.g. "v1" or "golden-2026-10"
+  tag?: string;
+  description?: string;
+  datapointCount: number;
+  createdAt: string;
+};
+
 export type PushDatapointsResponse = {
   datasetId: StringUUID;
 };
@@ -33,6 +48,9 @@ export type EvaluationDatapoint<D, T, O> = {
   scores?: Record<string, number | null>;
   traceId: string;
   index: number;
+  // Set on every trial of a multi-trial evaluation, which saves one
+  // datapoint per trial with the same index.
+  trialIndex?: number;
   executorSpanId?: string;
   datasetLink?: EvaluationDatapointDatasetLink;
 };
@@ -42,6 +60,9 @@ export interface Datapoint<D = any, T = any> {
   data: D;
   target?: T;
   metadata?: Record<string, any>;
+  // Set on datapoints pulled from a dataset
+  id?: StringUUID;
+  createdAt?: string;
 }
 
 export type GetDatapointsResponse<D, T> = {
@@ -67,6 +67,8 @@ export type DebugContext = {
  * spanPath - The span path (span names) leading to this span.
  * spanIdsPath - The span IDs path leading to this span.
  * debug - Propagated debugger context, if any (debug-replay v2).
+ * sampled - Whether the trace is sampled. Spans continued from an unsampled
+ *   context are not exported. Treated as sampled when absent.
  */
 export type LaminarSpanContext = {
   spanId: StringUUID;
@@ -80,6 +82,7 @@ export type LaminarSpanContext = {
   traceType?: TraceType;
   tracingLevel?: TracingLevel;
   debug?: DebugContext;
+  sampled?: boolean;
 };
 
 export type Event = {